@@ -20,6 +20,21 @@ export interface QlikCloudApp {
   spaceId?: string;
 }
 
+/**
+ * Interface for Qlik Cloud app reload
+ */
+export interface QlikCloudReload {
+  id: string;
+  appId: string;
+  status: string;
+  type?: string;
+  log?: string;
+  creationTime: string;
+  startTime?: string;
+  endTime?: string;
+  duration?: string;
+}
+
 /**
  * Interface for Qlik Cloud space
  */
@@ -219,6 +234,39 @@ export class QlikCloudAppClient {
     }
   }
 
+  /**
+   * Get the most recent reloads of an app
+   * 
+   * @param appId - ID of the app to get reloads for
+   * @param limit - Maximum number of reloads to return
+   * @returns Promise that resolves with the reloads, newest first
+   */
+  async getAppReloads(appId: string, limit: number = 10): Promise<QlikCloudReload[]> {
+    try {
+      const response = await this._apiClient.get<{ data: QlikCloudReload[] }>('/reloads', { appId, limit });
+      return response.data || [];
+    } catch (error) {
+      this._logger.error('Failed to get app reloads', { appId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a reload with its log
+   * 
+   * @param reloadId - ID of the reload
+   * @returns Promise that resolves with the reload
+   */
+  async getReload(reloadId: string): Promise<QlikCloudReload> {
+    try {
+      const response = await this._apiClient.get<QlikCloudReload>(`/reloads/${encodeURIComponent(reloadId)}`);
+      return response;
+    } catch (error) {
+      this._logger.error('Failed to get reload', { reloadId, error });
+      throw error;
+    }
+  }
+
   /**
    * Reload an app
    * 
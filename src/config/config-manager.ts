@@ -54,7 +54,7 @@ export class EnvConfigManager implements ConfigManager {
    * @returns The configuration value
    */
   get<T>(key: string, defaultValue?: T): T {
-    const value = this.config[key];
+    const value = this.getNestedValue(key);
     return value !== undefined ? value : defaultValue as T;
   }
   
@@ -73,7 +73,7 @@ export class EnvConfigManager implements ConfigManager {
    * @returns Boolean indicating if the key exists
    */
   has(key: string): boolean {
-    return this.config[key] !== undefined;
+    return this.getNestedValue(key) !== undefined;
   }
   
   /**
@@ -109,6 +109,30 @@ export class EnvConfigManager implements ConfigManager {
     }
   }
   
+  /**
+   * Get a value set directly or loaded from a nested environment variable
+   * @param key The key with dot notation
+   * @returns The value or undefined
+   */
+  private getNestedValue(key: string): any {
+    // Values set directly are kept under their full key
+    if (this.config[key] !== undefined) {
+      return this.config[key];
+    }
+    
+    let current = this.config;
+    
+    // Environment variables are nested by their lower-cased parts
+    for (const part of key.toLowerCase().split('.')) {
+      if (current === undefined || current === null) {
+        return undefined;
+      }
+      current = current[part];
+    }
+    
+    return current;
+  }
+  
   /**
    * Set a nested value in the configuration
    * @param key The key with dot notation
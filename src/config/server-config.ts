@@ -1,4 +1,5 @@
 import { ConfigManager } from './config-manager';
+import { STATE_STORE_TYPES, StateStoreType } from '../model/state-store';
 
 /**
  * Server configuration interface
@@ -141,6 +142,21 @@ export interface ServerConfig {
      */
     format: 'json' | 'simple';
   };
+  
+  /**
+   * Saved state configuration
+   */
+  state: {
+    /**
+     * Backend that keeps the saved states of model contexts
+     */
+    store: StateStoreType;
+    
+    /**
+     * Directory of the filesystem store, or database file of the SQLite store (optional)
+     */
+    path?: string;
+  };
 }
 
 /**
@@ -185,6 +201,9 @@ export const defaultConfig: ServerConfig = {
   log: {
     level: 'info',
     format: 'json'
+  },
+  state: {
+    store: 'memory'
   }
 };
 
@@ -278,6 +297,16 @@ export function loadServerConfig(configManager: ConfigManager): ServerConfig {
   config.log.level = configManager.get<'error' | 'warn' | 'info' | 'debug'>('log.level', config.log.level);
   config.log.format = configManager.get<'json' | 'simple'>('log.format', config.log.format);
   
+  // Saved state configuration
+  config.state = {
+    store: configManager.get<StateStoreType>('state.store', config.state.store)
+  };
+  
+  const statePath = configManager.get<string>('state.path', '');
+  if (statePath) {
+    config.state.path = statePath;
+  }
+  
   return config;
 }
 
@@ -343,4 +372,9 @@ export function validateServerConfig(config: ServerConfig): void {
       throw new Error('Email from address is required');
     }
   }
+  
+  // Validate saved state configuration
+  if (!STATE_STORE_TYPES.includes(config.state.store)) {
+    throw new Error(`State store must be one of ${STATE_STORE_TYPES.join(', ')}`);
+  }
 }
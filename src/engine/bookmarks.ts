@@ -0,0 +1,339 @@
+import { DEFAULT_STATE_NAME, FieldValue } from './selections';
+
+/**
+ * Title of the bookmark that holds the selections of a session while a saved state is published
+ */
+export const TEMPORARY_BOOKMARK_TITLE = 'mcp-temporary-bookmark';
+
+/**
+ * Properties of a session object listing the bookmarks of the app
+ */
+export const BOOKMARK_LIST_DEF = {
+  qInfo: { qType: 'mcp-bookmark-list' },
+  qBookmarkListDef: {
+    qType: 'bookmark',
+    qData: {
+      title: '/qMetaDef/title',
+      description: '/qMetaDef/description'
+    }
+  }
+};
+
+/**
+ * Properties of a session object listing the variables of the app
+ */
+export const VARIABLE_LIST_DEF = {
+  qInfo: { qType: 'mcp-variable-list' },
+  qVariableListDef: {
+    qType: 'variable',
+    qShowReserved: false,
+    qShowConfig: false
+  }
+};
+
+/**
+ * Interface for the selection in one field, as saved in states and bookmarks
+ */
+export interface FieldSelectionSnapshot {
+  field: string;
+  values: FieldValue[];
+
+  /**
+   * Search string the field was selected with, for selections that list no values
+   */
+  search?: string;
+  locked: boolean;
+}
+
+/**
+ * Interface for a variable, as saved in states and bookmarks
+ */
+export interface VariableSnapshot {
+  name: string;
+  definition: string;
+}
+
+/**
+ * Interface for the selections and variables of an engine session
+ * 
+ * This is the `session` part of a saved model state, so saved states and
+ * bookmarks can be converted into each other.
+ */
+export interface SessionState {
+  /**
+   * Selections of the default state
+   */
+  selections: FieldSelectionSnapshot[];
+
+  /**
+   * Selections of each alternate state, by state name
+   */
+  alternateStates?: Record<string, FieldSelectionSnapshot[]>;
+  variables: VariableSnapshot[];
+}
+
+/**
+ * Interface for a bookmark
+ */
+export interface Bookmark {
+  id: string;
+  title: string;
+  description: string;
+
+  /**
+   * Sheet shown when the bookmark is applied
+   */
+  sheetId?: string;
+  published: boolean;
+  createdAt?: string;
+  modifiedAt?: string;
+
+  /**
+   * Selections of the default state
+   */
+  selections: FieldSelectionSnapshot[];
+
+  /**
+   * Selections of each alternate state with selections, by state name
+   */
+  alternateStates?: Record<string, FieldSelectionSnapshot[]>;
+
+  /**
+   * Variable values, when the bookmark includes them
+   */
+  variables?: VariableSnapshot[];
+}
+
+/**
+ * Interface for the input of a new bookmark
+ */
+export interface BookmarkInput {
+  title: string;
+  description?: string;
+  sheetId?: string;
+
+  /**
+   * Save the variable values with the selections
+   */
+  includeVariables?: boolean;
+}
+
+/**
+ * Interface for an update of a bookmark; omitted properties are kept
+ */
+export type BookmarkUpdate = Partial<Omit<BookmarkInput, 'includeVariables'>>;
+
+/**
+ * Check the title and description of a bookmark
+ * 
+ * @param input - Bookmark input, after applying any update
+ */
+function validateBookmark(input: BookmarkUpdate): void {
+  if (typeof input.title !== 'string' || input.title.trim() === '') {
+    throw new Error('Bookmark requires a title');
+  }
+  
+  if (input.sheetId !== undefined && typeof input.sheetId !== 'string') {
+    throw new Error('Bookmark sheet ID must be a string');
+  }
+}
+
+/**
+ * Check the properties given in an update of a bookmark
+ * 
+ * @param update - Properties to change
+ */
+export function validateBookmarkUpdate(update: BookmarkUpdate): void {
+  if (update.title !== undefined && (typeof update.title !== 'string' || update.title.trim() === '')) {
+    throw new Error('Bookmark requires a title');
+  }
+  
+  if (update.sheetId !== undefined && typeof update.sheetId !== 'string') {
+    throw new Error('Bookmark sheet ID must be a string');
+  }
+}
+
+/**
+ * Build the engine properties of a new bookmark
+ * 
+ * `selectionFields` and `creationDate` are kept as the Qlik Sense client
+ * sets them, so the bookmark shows its fields and date in the client.
+ * 
+ * @param input - Bookmark input
+ * @param fields - Fields with selections when the bookmark is created
+ * @returns Generic bookmark properties
+ */
+export function buildBookmarkProperties(input: BookmarkInput, fields: string[] = []): any {
+  validateBookmark(input);
+  
+  const properties: any = {
+    qInfo: { qType: 'bookmark' },
+    qMetaDef: {
+      title: input.title,
+      description: input.description || ''
+    },
+    creationDate: new Date().toISOString(),
+    selectionFields: fields.join(', '),
+    qIncludeVariables: Boolean(input.includeVariables)
+  };
+  
+  if (input.sheetId) {
+    properties.sheetId = input.sheetId;
+  }
+  
+  return properties;
+}
+
+/**
+ * Apply an update to the engine properties of a bookmark
+ * 
+ * @param properties - Current engine properties
+ * @param update - Properties to change
+ * @returns The updated engine properties
+ */
+export function applyBookmarkUpdate(properties: any, update: BookmarkUpdate): any {
+  const meta = properties.qMetaDef || {};
+  const merged: BookmarkUpdate = {
+    title: update.title !== undefined ? update.title : meta.title,
+    description: update.description !== undefined ? update.description : meta.description,
+    sheetId: update.sheetId !== undefined ? update.sheetId : properties.sheetId
+  };
+  
+  validateBookmark(merged);
+  
+  const updated = {
+    ...properties,
+    qMetaDef: { ...meta, title: merged.title, description: merged.description || '' }
+  };
+  
+  if (merged.sheetId) {
+    updated.sheetId = merged.sheetId;
+  } else {
+    delete updated.sheetId;
+  }
+  
+  return updated;
+}
+
+/**
+ * Convert a value of a bookmarked field selection
+ * 
+ * @param value - `FieldValue` of the engine
+ * @returns The numeric value for numeric field values, or the text
+ */
+function toFieldValue(value: any): FieldValue {
+  return value.qIsNumeric && typeof value.qNumber === 'number' ? value.qNumber : value.qText;
+}
+
+/**
+ * Read the selections of one state from a bookmark
+ * 
+ * @param bookmark - `NxBookmark` from the bookmark layout
+ * @param stateName - Name of the selection state
+ * @returns The field selections of the state
+ */
+export function toBookmarkSelections(bookmark: any, stateName: string = DEFAULT_STATE_NAME): FieldSelectionSnapshot[] {
+  const state = ((bookmark && bookmark.qStateData) || [])
+    .find((data: any) => (data.qStateName || DEFAULT_STATE_NAME) === stateName);
+  
+  return ((state && state.qFieldItems) || []).map((item: any) => {
+    const selection: FieldSelectionSnapshot = {
+      field: item.qDef.qName,
+      values: (item.qValues || []).map(toFieldValue),
+      locked: Boolean(item.qLocked)
+    };
+    
+    if (item.qSelectInfo && item.qSelectInfo.qTextSearch) {
+      selection.search = item.qSelectInfo.qTextSearch;
+    }
+    
+    return selection;
+  });
+}
+
+/**
+ * Convert the layout of a bookmark
+ * 
+ * @param layout - Generic bookmark layout
+ * @returns The bookmark with its selections
+ */
+export function toBookmark(layout: any): Bookmark {
+  const meta = layout.qMeta || {};
+  const nxBookmark = layout.qBookmark || {};
+  const bookmark: Bookmark = {
+    id: layout.qInfo.qId,
+    title: meta.title || (layout.qMetaDef && layout.qMetaDef.title) || '',
+    description: meta.description || (layout.qMetaDef && layout.qMetaDef.description) || '',
+    published: Boolean(meta.published),
+    selections: toBookmarkSelections(nxBookmark)
+  };
+  
+  if (layout.sheetId) {
+    bookmark.sheetId = layout.sheetId;
+  }
+  
+  if (layout.creationDate || meta.createdDate) {
+    bookmark.createdAt = layout.creationDate || meta.createdDate;
+  }
+  
+  if (meta.modifiedDate) {
+    bookmark.modifiedAt = meta.modifiedDate;
+  }
+  
+  for (const data of nxBookmark.qStateData || []) {
+    const stateName = data.qStateName || DEFAULT_STATE_NAME;
+    
+    if (stateName !== DEFAULT_STATE_NAME && (data.qFieldItems || []).length > 0) {
+      bookmark.alternateStates = bookmark.alternateStates || {};
+      bookmark.alternateStates[stateName] = toBookmarkSelections(nxBookmark, stateName);
+    }
+  }
+  
+  if (nxBookmark.qVariableItems && nxBookmark.qVariableItems.length > 0) {
+    bookmark.variables = nxBookmark.qVariableItems.map((item: any) => ({
+      name: item.qName,
+      definition: item.qDefinition !== undefined ? item.qDefinition : (item.qValue && item.qValue.qText) || ''
+    }));
+  }
+  
+  return bookmark;
+}
+
+/**
+ * Get the IDs of the bookmarks from the layout of a bookmark list session object
+ * 
+ * @param layout - Layout of a session object built from `BOOKMARK_LIST_DEF`
+ * @returns The bookmark IDs, without temporary bookmarks
+ */
+export function toBookmarkIds(layout: any): string[] {
+  return ((layout.qBookmarkList && layout.qBookmarkList.qItems) || [])
+    .filter((item: any) => !(item.qData && item.qData.title === TEMPORARY_BOOKMARK_TITLE))
+    .map((item: any) => item.qInfo.qId);
+}
+
+/**
+ * Read the variables from the layout of a variable list session object
+ * 
+ * @param layout - Layout of a session object built from `VARIABLE_LIST_DEF`
+ * @returns The variables with their definitions
+ */
+export function toVariableSnapshots(layout: any): VariableSnapshot[] {
+  return ((layout.qVariableList && layout.qVariableList.qItems) || []).map((item: any) => ({
+    name: item.qName,
+    definition: item.qDefinition || ''
+  }));
+}
+
+/**
+ * Convert a bookmark to the session part of a saved model state
+ * 
+ * @param bookmark - Bookmark
+ * @returns The session state the bookmark holds
+ */
+export function toSessionState(bookmark: Bookmark): SessionState {
+  return {
+    selections: bookmark.selections,
+    alternateStates: bookmark.alternateStates || {},
+    variables: bookmark.variables || []
+  };
+}
@@ -0,0 +1,397 @@
+import { DataModel } from './data-model';
+
+/**
+ * Default number of sample values per field in a data dictionary
+ */
+export const DEFAULT_SAMPLE_SIZE = 5;
+
+/**
+ * Maximum number of sample values per field in a data dictionary
+ */
+export const MAX_SAMPLE_SIZE = 20;
+
+/**
+ * Interface for a table of a data dictionary
+ */
+export interface DataDictionaryTable {
+  name: string;
+  rows: number;
+  fields: string[];
+  comment?: string;
+}
+
+/**
+ * Interface for a field of a data dictionary
+ */
+export interface DataDictionaryField {
+  name: string;
+  tables: string[];
+  tags: string[];
+  cardinality: number;
+  isKey: boolean;
+  sampleValues: string[];
+}
+
+/**
+ * Interface for a sheet object that uses a master item
+ */
+export interface DataDictionaryUsage {
+  objectId: string;
+  objectType?: string;
+  title?: string;
+  sheetId?: string;
+  sheetTitle?: string;
+}
+
+/**
+ * Interface for a master dimension or measure of a data dictionary
+ */
+export interface DataDictionaryMasterItem {
+  id: string;
+  label: string;
+  description: string;
+  tags: string[];
+
+  /**
+   * Expression of a measure, or of a calculated dimension
+   */
+  expression?: string;
+
+  /**
+   * Fields of a dimension
+   */
+  fields?: string[];
+  usedBy: DataDictionaryUsage[];
+}
+
+/**
+ * Interface for a variable of a data dictionary
+ */
+export interface DataDictionaryVariable {
+  name: string;
+  definition: string;
+  comment?: string;
+}
+
+/**
+ * Interface for the data dictionary of an app
+ */
+export interface DataDictionary {
+  app: { id: string; name: string; description?: string };
+  generatedAt: string;
+  tables: DataDictionaryTable[];
+  fields: DataDictionaryField[];
+  masterDimensions: DataDictionaryMasterItem[];
+  masterMeasures: DataDictionaryMasterItem[];
+  variables: DataDictionaryVariable[];
+}
+
+/**
+ * Interface for the sources of a data dictionary
+ * 
+ * Master items, sheets, objects and variables are the items listed by the
+ * app APIs, in either their REST or engine layout.
+ */
+export interface DataDictionarySources {
+  app: { id: string; name: string; description?: string };
+  dataModel: DataModel;
+  sampleValues: Record<string, string[]>;
+  dimensions: any[];
+  measures: any[];
+  sheets: any[];
+  objects: any[];
+  variables: any[];
+}
+
+/**
+ * Properties that reference a master item from a sheet object
+ */
+const LIBRARY_REFERENCES = new Set(['qLibraryId', 'qExtendsId', 'libraryId', 'extendsId']);
+
+/**
+ * Get the ID of an app item
+ * 
+ * @param item - Item in REST or engine layout
+ * @returns The ID
+ */
+function itemId(item: any): string {
+  return item.id || (item.qInfo && item.qInfo.qId) || '';
+}
+
+/**
+ * Get the metadata of an app item
+ * 
+ * @param item - Item in REST or engine layout
+ * @returns The title, description and tags of the item
+ */
+function itemMeta(item: any): { title?: string; description?: string; tags?: string[] } {
+  return item.qMeta || item.qMetaDef || item.meta || {};
+}
+
+/**
+ * Collect the master item IDs a sheet object references
+ * 
+ * @param value - Object properties or a part of them
+ * @param ids - IDs collected so far
+ * @returns The referenced IDs
+ */
+function collectReferences(value: any, ids: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, ids));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (LIBRARY_REFERENCES.has(key) && typeof child === 'string' && child !== '') {
+        ids.add(child);
+      } else {
+        collectReferences(child, ids);
+      }
+    }
+  }
+  
+  return ids;
+}
+
+/**
+ * Find where master items are used on sheets
+ * 
+ * @param sheets - Sheets of the app, with the objects placed in their cells
+ * @param objects - Sheet objects of the app
+ * @returns The usages by master item ID
+ */
+function findUsages(sheets: any[], objects: any[]): Map<string, DataDictionaryUsage[]> {
+  const sheetOf = new Map<string, any>();
+  
+  for (const sheet of sheets) {
+    const cells = sheet.cells || (sheet.qData && sheet.qData.cells) || (sheet.properties && sheet.properties.cells) || [];
+    cells.forEach((cell: any) => sheetOf.set(cell.name, sheet));
+  }
+  
+  const usages = new Map<string, DataDictionaryUsage[]>();
+  
+  for (const object of objects) {
+    const id = itemId(object);
+    const sheet = sheetOf.get(id) || sheets.find(candidate => itemId(candidate) === (object.sheetId || object.qParent));
+    const usage: DataDictionaryUsage = { objectId: id };
+    const type = object.type || object.visualization || (object.qInfo && object.qInfo.qType);
+    const title = object.title || itemMeta(object).title;
+    
+    if (type) {
+      usage.objectType = type;
+    }
+    
+    if (title) {
+      usage.title = title;
+    }
+    
+    if (sheet) {
+      usage.sheetId = itemId(sheet);
+      usage.sheetTitle = sheet.title || itemMeta(sheet).title;
+    }
+    
+    for (const reference of collectReferences(object)) {
+      usages.set(reference, [...(usages.get(reference) || []), usage]);
+    }
+  }
+  
+  return usages;
+}
+
+/**
+ * Convert a master dimension or measure
+ * 
+ * @param item - Master item in REST or engine layout
+ * @param usages - Usages by master item ID
+ * @returns The dictionary entry
+ */
+function toMasterItemEntry(item: any, usages: Map<string, DataDictionaryUsage[]>): DataDictionaryMasterItem {
+  const id = itemId(item);
+  const meta = itemMeta(item);
+  const dim = item.qDim || item.dim;
+  const measure = item.qMeasure || item.measure;
+  const entry: DataDictionaryMasterItem = {
+    id,
+    label: item.title || item.label || meta.title || (dim && dim.title) || (measure && measure.qLabel) || id,
+    description: item.description || meta.description || '',
+    tags: item.tags || meta.tags || [],
+    usedBy: usages.get(id) || []
+  };
+  const expression = item.expression || (measure && measure.qDef);
+  const fields: string[] | undefined = item.fields || (dim && dim.qFieldDefs);
+  
+  if (expression) {
+    entry.expression = expression;
+  } else if (fields && fields.length === 1 && fields[0].trim().startsWith('=')) {
+    entry.expression = fields[0];
+  } else if (fields) {
+    entry.fields = fields;
+  }
+  
+  return entry;
+}
+
+/**
+ * Build the data dictionary of an app
+ * 
+ * @param sources - App, data model, sample values and app items
+ * @returns The data dictionary
+ */
+export function buildDataDictionary(sources: DataDictionarySources): DataDictionary {
+  const usages = findUsages(sources.sheets, sources.objects);
+  
+  return {
+    app: sources.app,
+    generatedAt: new Date().toISOString(),
+    tables: sources.dataModel.tables.map(table => {
+      const entry: DataDictionaryTable = {
+        name: table.name,
+        rows: table.rows,
+        fields: table.fields.map(field => field.name)
+      };
+      
+      if (table.comment) {
+        entry.comment = table.comment;
+      }
+      
+      return entry;
+    }),
+    fields: sources.dataModel.fields.map(field => ({
+      name: field.name,
+      tables: field.tables,
+      tags: field.tags,
+      cardinality: field.cardinality,
+      isKey: field.isKey,
+      sampleValues: sources.sampleValues[field.name] || []
+    })),
+    masterDimensions: sources.dimensions.map(item => toMasterItemEntry(item, usages)),
+    masterMeasures: sources.measures.map(item => toMasterItemEntry(item, usages)),
+    variables: sources.variables.map(variable => {
+      const entry: DataDictionaryVariable = {
+        name: variable.name || variable.qName,
+        definition: variable.definition !== undefined ? variable.definition : variable.qDefinition || ''
+      };
+      const comment = variable.comment || variable.qComment;
+      
+      if (comment) {
+        entry.comment = comment;
+      }
+      
+      return entry;
+    })
+  };
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * 
+ * @param text - Cell text
+ * @returns The escaped text
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Format text as inline Markdown code
+ * 
+ * @param text - Code text
+ * @returns The inline code
+ */
+function code(text: string): string {
+  const fence = text.includes('`') ? '``' : '`';
+  return `${fence}${text}${fence}`;
+}
+
+/**
+ * Format the master items of a data dictionary as Markdown
+ * 
+ * @param title - Section title
+ * @param items - Master items
+ * @returns The Markdown lines
+ */
+function masterItemSection(title: string, items: DataDictionaryMasterItem[]): string[] {
+  const lines = [`## ${title}`, ''];
+  
+  if (items.length === 0) {
+    return [...lines, '_None._', ''];
+  }
+  
+  for (const item of items) {
+    lines.push(`### ${item.label}`, '');
+    
+    if (item.description) {
+      lines.push(item.description, '');
+    }
+    
+    lines.push(`- **ID:** ${code(item.id)}`);
+    
+    if (item.fields) {
+      lines.push(`- **Fields:** ${item.fields.map(code).join(', ')}`);
+    }
+    
+    if (item.tags.length > 0) {
+      lines.push(`- **Tags:** ${item.tags.join(', ')}`);
+    }
+    
+    lines.push(`- **Used by:** ${item.usedBy.length === 0 ? 'not used on any sheet' : ''}`.trimEnd());
+    
+    for (const usage of item.usedBy) {
+      const object = `${usage.title || usage.objectId}${usage.objectType ? ` (${usage.objectType})` : ''}`;
+      lines.push(`  - ${usage.sheetTitle ? `${usage.sheetTitle} / ` : ''}${object}`);
+    }
+    
+    lines.push('');
+    
+    if (item.expression) {
+      lines.push('```', item.expression, '```', '');
+    }
+  }
+  
+  return lines;
+}
+
+/**
+ * Format a data dictionary as a Markdown document
+ * 
+ * @param dictionary - Data dictionary
+ * @returns The Markdown text
+ */
+export function toDataDictionaryMarkdown(dictionary: DataDictionary): string {
+  const lines = [`# Data Dictionary: ${dictionary.app.name}`, ''];
+  
+  if (dictionary.app.description) {
+    lines.push(dictionary.app.description, '');
+  }
+  
+  lines.push(`App ID ${code(dictionary.app.id)}, generated ${dictionary.generatedAt}.`, '');
+  
+  lines.push('## Tables', '', '| Table | Rows | Fields | Comment |', '|-------|------|--------|---------|');
+  dictionary.tables.forEach(table => lines.push(
+    `| ${cell(table.name)} | ${table.rows} | ${cell(table.fields.join(', '))} | ${cell(table.comment || '')} |`
+  ));
+  lines.push('');
+  
+  lines.push('## Fields', '', '| Field | Tables | Tags | Cardinality | Key | Sample Values |',
+    '|-------|--------|------|-------------|-----|---------------|');
+  dictionary.fields.forEach(field => lines.push(
+    `| ${cell(field.name)} | ${cell(field.tables.join(', '))} | ${cell(field.tags.join(', '))} | ` +
+    `${field.cardinality} | ${field.isKey ? 'Yes' : ''} | ${cell(field.sampleValues.join(', '))} |`
+  ));
+  lines.push('');
+  
+  lines.push(...masterItemSection('Master Dimensions', dictionary.masterDimensions));
+  lines.push(...masterItemSection('Master Measures', dictionary.masterMeasures));
+  
+  lines.push('## Variables', '');
+  
+  if (dictionary.variables.length === 0) {
+    lines.push('_None._', '');
+  } else {
+    lines.push('| Variable | Definition | Comment |', '|----------|------------|---------|');
+    dictionary.variables.forEach(variable => lines.push(
+      `| ${cell(variable.name)} | ${cell(variable.definition)} | ${cell(variable.comment || '')} |`
+    ));
+    lines.push('');
+  }
+  
+  return lines.join('\n');
+}
@@ -0,0 +1,320 @@
+/**
+ * Type for how a field identifies the rows of a table
+ * 
+ * `key` fields link the table to other tables, `primary` keys have a
+ * unique value per row, and `perfect` keys are primary keys whose values
+ * all exist in the linked tables.
+ */
+export type DataModelKeyType = 'none' | 'key' | 'primary' | 'perfect';
+
+/**
+ * Interface for a field within a data model table
+ */
+export interface DataModelTableField {
+  name: string;
+  keyType: DataModelKeyType;
+  distinctValues: number;
+  nonNulls: number;
+  hasNulls: boolean;
+
+  /**
+   * Share of the field's distinct values across the app present in this table
+   */
+  subsetRatio: number;
+  tags: string[];
+}
+
+/**
+ * Interface for a data model table
+ */
+export interface DataModelTable {
+  name: string;
+  rows: number;
+  fields: DataModelTableField[];
+
+  /**
+   * Whether the engine made the table loosely coupled to break a circular reference
+   */
+  loose: boolean;
+  comment?: string;
+}
+
+/**
+ * Interface for a field of the data model
+ */
+export interface DataModelField {
+  name: string;
+  tables: string[];
+  cardinality: number;
+  tags: string[];
+  isKey: boolean;
+}
+
+/**
+ * Interface for a key linking tables
+ * 
+ * Keys made of more than one field are synthetic keys.
+ */
+export interface DataModelKey {
+  fields: string[];
+  tables: string[];
+  synthetic: boolean;
+}
+
+/**
+ * Interface for a circular reference, a loop of tables linked by keys
+ */
+export interface DataModelCircularReference {
+  tables: string[];
+  keys: string[][];
+}
+
+/**
+ * Interface for the data model of an app
+ */
+export interface DataModel {
+  tables: DataModelTable[];
+  fields: DataModelField[];
+  keys: DataModelKey[];
+  syntheticKeys: DataModelKey[];
+  circularReferences: DataModelCircularReference[];
+}
+
+/**
+ * Interface for the description of a single field
+ */
+export interface FieldDescription {
+  name: string;
+  tables: string[];
+  cardinality: number;
+  totalCount: number;
+  tags: string[];
+  isNumeric: boolean;
+  isSystem: boolean;
+  isHidden: boolean;
+  isLocked: boolean;
+  comment?: string;
+}
+
+/**
+ * Properties of a session object listing the fields of the app
+ */
+export const FIELD_LIST_DEF = {
+  qInfo: { qType: 'mcp-field-list' },
+  qFieldListDef: {
+    qShowSystem: false,
+    qShowHidden: false,
+    qShowSemantic: false,
+    qShowSrcTables: true,
+    qShowDerivedFields: false,
+    qShowImplicit: false
+  }
+};
+
+/**
+ * Number of rows read from each table to find sample values
+ */
+export const SAMPLE_ROWS = 100;
+
+/**
+ * Engine key types by `qKeyType`
+ */
+const KEY_TYPES: Record<string, DataModelKeyType> = {
+  NOT_KEY: 'none',
+  ANY_KEY: 'key',
+  PRIMARY_KEY: 'primary',
+  PERFECT_KEY: 'perfect'
+};
+
+/**
+ * Find the circular references among keys
+ * 
+ * Tables and keys form a graph in which each key links the tables it
+ * appears in. A link is part of a circular reference if its table and key
+ * stay connected without it; the connected groups of such links are the
+ * circular references.
+ * 
+ * @param keys - Keys linking tables
+ * @returns The circular references
+ */
+export function findCircularReferences(keys: DataModelKey[]): DataModelCircularReference[] {
+  const keyNode = (index: number): string => `key:${index}`;
+  const tableNode = (table: string): string => `table:${table}`;
+  const links: Array<[string, string]> = [];
+  
+  keys.forEach((key, index) => {
+    for (const table of key.tables) {
+      links.push([tableNode(table), keyNode(index)]);
+    }
+  });
+  
+  // Check whether two nodes are connected without using one of the links
+  const connectedWithout = (skip: number, from: string, to: string): boolean => {
+    const visited = new Set([from]);
+    const queue = [from];
+    
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      
+      if (node === to) {
+        return true;
+      }
+      
+      links.forEach(([a, b], index) => {
+        const next = a === node ? b : b === node ? a : null;
+        
+        if (index !== skip && next && !visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    
+    return false;
+  };
+  
+  const cyclic = links.filter(([table, key], index) => connectedWithout(index, table, key));
+  
+  // Group the cyclic links into connected loops
+  const groups: Array<Set<string>> = [];
+  
+  for (const [table, key] of cyclic) {
+    const matching = groups.filter(group => group.has(table) || group.has(key));
+    const merged = new Set([table, key]);
+    
+    for (const group of matching) {
+      group.forEach(node => merged.add(node));
+      groups.splice(groups.indexOf(group), 1);
+    }
+    
+    groups.push(merged);
+  }
+  
+  return groups.map(group => {
+    const nodes = Array.from(group);
+    
+    return {
+      tables: nodes.filter(node => node.startsWith('table:')).map(node => node.slice('table:'.length)).sort(),
+      keys: nodes.filter(node => node.startsWith('key:'))
+        .map(node => Number(node.slice('key:'.length)))
+        .sort((a, b) => a - b)
+        .map(index => keys[index].fields)
+    };
+  });
+}
+
+/**
+ * Build the data model from the engine's tables, keys and field list
+ * 
+ * @param tablesAndKeys - Result of `getTablesAndKeys`, with `qtr` and `qk`
+ * @param fieldList - `qFieldList` of a field list layout
+ * @returns The data model
+ */
+export function toDataModel(tablesAndKeys: any, fieldList: any): DataModel {
+  const tables: DataModelTable[] = (tablesAndKeys.qtr || []).map((table: any) => ({
+    name: table.qName,
+    rows: table.qNoOfRows,
+    loose: Boolean(table.qLoose),
+    comment: table.qComment || undefined,
+    fields: (table.qFields || []).map((field: any) => ({
+      name: field.qName,
+      keyType: KEY_TYPES[field.qKeyType] || 'none',
+      distinctValues: field.qnPresentDistinctValues,
+      nonNulls: field.qnNonNulls,
+      hasNulls: Boolean(field.qHasNull),
+      subsetRatio: field.qSubsetRatio,
+      tags: field.qTags || []
+    }))
+  }));
+  
+  const keys: DataModelKey[] = (tablesAndKeys.qk || []).map((key: any) => ({
+    fields: key.qKeyFields,
+    tables: key.qTables,
+    synthetic: key.qKeyFields.length > 1
+  }));
+  
+  const keyFields = new Set(keys.flatMap(key => key.fields));
+  
+  const fields: DataModelField[] = (fieldList.qItems || []).map((field: any) => ({
+    name: field.qName,
+    tables: field.qSrcTables || [],
+    cardinality: field.qCardinal,
+    tags: field.qTags || [],
+    isKey: keyFields.has(field.qName)
+  }));
+  
+  return {
+    tables,
+    fields,
+    keys,
+    syntheticKeys: keys.filter(key => key.synthetic),
+    circularReferences: findCircularReferences(keys)
+  };
+}
+
+/**
+ * Convert an engine field description
+ * 
+ * @param description - Result of `getFieldDescription`
+ * @returns The field description
+ */
+export function toFieldDescription(description: any): FieldDescription {
+  return {
+    name: description.qName,
+    tables: description.qSrcTables || [],
+    cardinality: description.qCardinal,
+    totalCount: description.qTotalCount,
+    tags: description.qTags || [],
+    isNumeric: Boolean(description.qIsNumeric),
+    isSystem: Boolean(description.qIsSystem),
+    isHidden: Boolean(description.qIsHidden),
+    isLocked: Boolean(description.qIsLocked),
+    comment: description.qComment || undefined
+  };
+}
+
+/**
+ * Collect the sample values of a table's fields from `getTableData` rows
+ * 
+ * The engine returns the field names as the first row, which is skipped.
+ * Fields in several tables collect values from each until the limit.
+ * 
+ * @param table - Data model table the rows are from
+ * @param rows - `TableRow` list from the engine
+ * @param limit - Maximum number of distinct values per field
+ * @param samples - Sample values collected so far, by field
+ * @returns The sample values by field
+ */
+export function toSampleValues(
+  table: DataModelTable,
+  rows: any[],
+  limit: number,
+  samples: Record<string, string[]> = {}
+): Record<string, string[]> {
+  const names = table.fields.map(field => field.name);
+  const texts = (rows || []).map(row => (row.qValue || []).map((value: any) => value.qText));
+  
+  if (texts.length > 0 && names.every((name, index) => texts[0][index] === name)) {
+    texts.shift();
+  }
+  
+  names.forEach((name, index) => {
+    const values = samples[name] || [];
+    
+    for (const row of texts) {
+      const text = row[index];
+      
+      if (values.length >= limit) {
+        break;
+      }
+      
+      if (typeof text === 'string' && text !== '' && !values.includes(text)) {
+        values.push(text);
+      }
+    }
+    
+    samples[name] = values;
+  });
+  
+  return samples;
+}
@@ -0,0 +1,128 @@
+/**
+ * Interface for the result of evaluating an expression
+ */
+export interface ExpressionResult {
+  expression: string;
+  text: string;
+  number: number | null;
+  isNumeric: boolean;
+}
+
+/**
+ * Interface for a field name in an expression that the engine flagged
+ */
+export interface ExpressionFieldReference {
+  name: string;
+
+  /**
+   * Zero-based offset of the name in the expression
+   */
+  position: number;
+  length: number;
+}
+
+/**
+ * Interface for the result of validating an expression
+ * 
+ * `badFields` do not exist in the data model. `dangerousFields` exist but
+ * are used in a way that can give unexpected results, for example a key
+ * field inside an aggregation.
+ */
+export interface ExpressionValidation {
+  expression: string;
+  valid: boolean;
+  error?: string;
+  errorCode?: number;
+  badFields: ExpressionFieldReference[];
+  dangerousFields: ExpressionFieldReference[];
+}
+
+/**
+ * Normalize an expression for the engine
+ * 
+ * Chart expressions are often written with a leading `=`, which the
+ * evaluation and validation methods do not accept.
+ * 
+ * @param expression - Expression to normalize
+ * @returns The expression without a leading `=`
+ */
+export function normalizeExpression(expression: string): string {
+  if (typeof expression !== 'string' || expression.trim() === '') {
+    throw new Error('Expression must be a non-empty string');
+  }
+  
+  const trimmed = expression.trim();
+  
+  return trimmed.startsWith('=') ? trimmed.slice(1).trim() : trimmed;
+}
+
+/**
+ * Convert the result of `evaluateEx`
+ * 
+ * @param expression - Expression that was evaluated
+ * @param value - `FieldValue` returned by the engine
+ * @returns The expression result
+ */
+export function toExpressionResult(expression: string, value: any): ExpressionResult {
+  const isNumeric = Boolean(value.qIsNumeric) && typeof value.qNumber === 'number' && !isNaN(value.qNumber);
+  
+  return {
+    expression,
+    text: value.qText,
+    number: isNumeric ? value.qNumber : null,
+    isNumeric
+  };
+}
+
+/**
+ * Resolve engine ranges to the field names they cover in an expression
+ * 
+ * @param expression - Expression the ranges refer to
+ * @param ranges - `NxRange` list from the engine
+ * @returns The flagged field names with their positions
+ */
+function toFieldReferences(expression: string, ranges: any[] | undefined): ExpressionFieldReference[] {
+  return (ranges || []).map(range => ({
+    name: expression.substr(range.qFrom, range.qCount),
+    position: range.qFrom,
+    length: range.qCount
+  }));
+}
+
+/**
+ * Combine the results of `checkExpression` and `checkNumberOrExpression`
+ * 
+ * @param expression - Expression that was validated
+ * @param check - Result of `checkExpression`
+ * @param numberCheck - Result of `checkNumberOrExpression`
+ * @returns The expression validation
+ */
+export function toExpressionValidation(expression: string, check: any, numberCheck: any): ExpressionValidation {
+  const badFields = toFieldReferences(expression, check.qBadFieldNames);
+  
+  // Both checks report unknown fields; keep each position once
+  for (const field of toFieldReferences(expression, numberCheck.qBadFieldNames)) {
+    if (!badFields.some(existing => existing.position === field.position)) {
+      badFields.push(field);
+    }
+  }
+  
+  badFields.sort((a, b) => a.position - b.position);
+  
+  const validation: ExpressionValidation = {
+    expression,
+    valid: !check.qErrorMsg && !numberCheck.qErrorCode && badFields.length === 0,
+    badFields,
+    dangerousFields: toFieldReferences(expression, check.qDangerousFieldNames)
+  };
+  
+  if (check.qErrorMsg) {
+    validation.error = check.qErrorMsg;
+  }
+  
+  if (numberCheck.qErrorCode) {
+    validation.errorCode = numberCheck.qErrorCode;
+  }
+  
+  return validation;
+}
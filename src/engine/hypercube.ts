@@ -0,0 +1,448 @@
+import { DEFAULT_STATE_NAME, toStateName } from './selections';
+
+/**
+ * Maximum number of cells the engine returns in a single data page
+ */
+export const MAX_PAGE_CELLS = 10000;
+
+/**
+ * Default number of rows returned by a hypercube query
+ */
+export const DEFAULT_ROW_LIMIT = 1000;
+
+/**
+ * Maximum number of rows returned by a single hypercube query
+ */
+export const MAX_ROW_LIMIT = 100000;
+
+/**
+ * Text the engine shows for null measure values
+ */
+const NULL_SYMBOL = '-';
+
+/**
+ * Interface for a hypercube dimension, given as a field or a master dimension
+ */
+export interface HyperCubeDimension {
+  field?: string;
+  libraryId?: string;
+  label?: string;
+}
+
+/**
+ * Interface for a hypercube measure, given as an expression or a master measure
+ */
+export interface HyperCubeMeasure {
+  expression?: string;
+  libraryId?: string;
+  label?: string;
+}
+
+/**
+ * Interface for a hypercube sort criterion
+ */
+export interface HyperCubeSort {
+  /**
+   * Column index, or the label, field, expression or master item ID of a column
+   */
+  column: string | number;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Interface for a hypercube query
+ * 
+ * Strings are accepted as shorthand for a dimension field or a measure
+ * expression.
+ */
+export interface HyperCubeQuery {
+  dimensions?: Array<string | HyperCubeDimension>;
+  measures?: Array<string | HyperCubeMeasure>;
+  sort?: HyperCubeSort[];
+  limit?: number;
+
+  /**
+   * Alternate state to compute the data in, instead of the default state
+   */
+  stateName?: string;
+}
+
+/**
+ * Interface for a hypercube column header
+ */
+export interface HyperCubeColumn {
+  name: string;
+  kind: 'dimension' | 'measure';
+  type: 'string' | 'number';
+}
+
+/**
+ * Type for a hypercube cell value
+ */
+export type HyperCubeValue = string | number | null;
+
+/**
+ * Interface for the result of a hypercube query
+ */
+export interface HyperCubeResult {
+  columns: HyperCubeColumn[];
+  rows: HyperCubeValue[][];
+  totalRows: number;
+  truncated: boolean;
+}
+
+/**
+ * Interface for the header of a hypercube
+ */
+export interface HyperCubeHeader {
+  columns: HyperCubeColumn[];
+  totalRows: number;
+}
+
+/**
+ * Interface for a page of hypercube rows
+ */
+export interface HyperCubePage {
+  rows: HyperCubeValue[][];
+
+  /**
+   * Number of rows fetched so far, including this page
+   */
+  fetched: number;
+
+  /**
+   * Number of rows in the hypercube
+   */
+  total: number;
+}
+
+/**
+ * Interface for the handlers of a streamed hypercube query
+ * 
+ * Handlers may return a promise to hold back the next page until the
+ * previous one has been written out.
+ */
+export interface HyperCubeStreamHandlers {
+  header: (header: HyperCubeHeader) => void | Promise<void>;
+  page: (page: HyperCubePage) => void | Promise<void>;
+}
+
+/**
+ * Interface for the summary of a streamed hypercube query
+ */
+export interface HyperCubeStreamSummary {
+  fetched: number;
+  total: number;
+  cancelled: boolean;
+}
+
+/**
+ * Normalize the dimensions of a query
+ * 
+ * @param query - Hypercube query
+ * @returns The dimensions as objects
+ */
+function normalizeDimensions(query: HyperCubeQuery): HyperCubeDimension[] {
+  return (query.dimensions || []).map(dimension => {
+    const normalized = typeof dimension === 'string' ? { field: dimension } : dimension;
+    
+    if (!normalized.field && !normalized.libraryId) {
+      throw new Error('Dimension requires a field or libraryId');
+    }
+    
+    return normalized;
+  });
+}
+
+/**
+ * Normalize the measures of a query
+ * 
+ * @param query - Hypercube query
+ * @returns The measures as objects
+ */
+function normalizeMeasures(query: HyperCubeQuery): HyperCubeMeasure[] {
+  return (query.measures || []).map(measure => {
+    const normalized = typeof measure === 'string' ? { expression: measure } : measure;
+    
+    if (!normalized.expression && !normalized.libraryId) {
+      throw new Error('Measure requires an expression or libraryId');
+    }
+    
+    return normalized;
+  });
+}
+
+/**
+ * Resolve a sort criterion to a column index
+ * 
+ * Dimensions come first in the hypercube, followed by the measures.
+ * 
+ * @param sort - Sort criterion
+ * @param columns - Dimensions and measures in column order
+ * @returns The column index
+ */
+function resolveSortColumn(sort: HyperCubeSort, columns: Array<HyperCubeDimension & HyperCubeMeasure>): number {
+  if (typeof sort.column === 'number') {
+    if (!Number.isInteger(sort.column) || sort.column < 0 || sort.column >= columns.length) {
+      throw new Error(`Unknown sort column: ${sort.column}`);
+    }
+    
+    return sort.column;
+  }
+  
+  const index = columns.findIndex(column =>
+    [column.label, column.field, column.expression, column.libraryId].includes(sort.column as string)
+  );
+  
+  if (index === -1) {
+    throw new Error(`Unknown sort column: ${sort.column}`);
+  }
+  
+  return index;
+}
+
+/**
+ * Get the row limit of a query
+ * 
+ * Streamed queries return all rows unless a limit is given, and are not
+ * bound by the maximum limit since their rows are never held in memory.
+ * 
+ * @param query - Hypercube query
+ * @param streaming - Whether the rows are streamed
+ * @returns The row limit
+ */
+export function getRowLimit(query: HyperCubeQuery, streaming: boolean = false): number {
+  if (query.limit === undefined) {
+    return streaming ? Infinity : DEFAULT_ROW_LIMIT;
+  }
+  
+  if (!Number.isInteger(query.limit) || query.limit < 1) {
+    throw new Error('Row limit must be a positive integer');
+  }
+  
+  if (!streaming && query.limit > MAX_ROW_LIMIT) {
+    throw new Error(`Row limit must be at most ${MAX_ROW_LIMIT}; stream the query for more rows`);
+  }
+  
+  return query.limit;
+}
+
+/**
+ * Build the properties of a session object holding the hypercube for a query
+ * 
+ * Sorted columns take precedence in the order they are given; the other
+ * columns keep their default sort order after them.
+ * 
+ * @param query - Hypercube query
+ * @returns Generic object properties with a `qHyperCubeDef`
+ */
+export function buildHyperCubeDef(query: HyperCubeQuery): any {
+  const dimensions = normalizeDimensions(query);
+  const measures = normalizeMeasures(query);
+  const columns: Array<HyperCubeDimension & HyperCubeMeasure> = [...dimensions, ...measures];
+  
+  if (columns.length === 0) {
+    throw new Error('Query requires at least one dimension or measure');
+  }
+  
+  getRowLimit(query, true);
+  
+  // Map column index to sort direction: 1 ascending, -1 descending
+  const directions = new Map<number, number>();
+  
+  for (const sort of query.sort || []) {
+    directions.set(resolveSortColumn(sort, columns), sort.direction === 'desc' ? -1 : 1);
+  }
+  
+  const sortOrder = [
+    ...directions.keys(),
+    ...columns.map((_, index) => index).filter(index => !directions.has(index))
+  ];
+  
+  const stateName = toStateName(query.stateName);
+  
+  return {
+    qInfo: { qType: 'mcp-hypercube' },
+    qHyperCubeDef: {
+      ...(stateName !== DEFAULT_STATE_NAME ? { qStateName: stateName } : {}),
+      qDimensions: dimensions.map((dimension, index) => {
+        const direction = directions.get(index);
+        const qSortCriterias = direction ? [{ qSortByNumeric: direction, qSortByAscii: direction }] : [];
+        
+        return dimension.libraryId
+          ? { qLibraryId: dimension.libraryId, qDef: { qSortCriterias } }
+          : {
+            qDef: {
+              qFieldDefs: [dimension.field],
+              qFieldLabels: dimension.label ? [dimension.label] : [],
+              qSortCriterias
+            }
+          };
+      }),
+      qMeasures: measures.map((measure, index) => {
+        const direction = directions.get(dimensions.length + index);
+        const qSortBy = direction ? { qSortByNumeric: direction } : {};
+        
+        return measure.libraryId
+          ? { qLibraryId: measure.libraryId, qDef: {}, qSortBy }
+          : { qDef: { qDef: measure.expression, qLabel: measure.label || '' }, qSortBy };
+      }),
+      qInterColumnSortOrder: sortOrder,
+      qInitialDataFetch: []
+    }
+  };
+}
+
+/**
+ * Get the column headers of a hypercube layout
+ * 
+ * Query labels take precedence over the titles the engine derives from
+ * fields, expressions and master items.
+ * 
+ * @param query - Hypercube query
+ * @param hyperCube - The `qHyperCube` of the object layout
+ * @returns The column headers
+ */
+export function getHyperCubeColumns(query: HyperCubeQuery, hyperCube: any): HyperCubeColumn[] {
+  const dimensions = normalizeDimensions(query);
+  const measures = normalizeMeasures(query);
+  
+  const toColumn = (info: any, label: string | undefined, kind: 'dimension' | 'measure'): HyperCubeColumn => {
+    if (info.qError) {
+      throw new Error(`Invalid ${kind}: ${info.qFallbackTitle || label} (error ${info.qError.qErrorCode})`);
+    }
+    
+    return {
+      name: label || info.qFallbackTitle,
+      kind,
+      type: kind === 'measure' ? 'number' : 'string'
+    };
+  };
+  
+  return [
+    ...hyperCube.qDimensionInfo.map((info: any, index: number) => toColumn(info, dimensions[index].label, 'dimension')),
+    ...hyperCube.qMeasureInfo.map((info: any, index: number) => toColumn(info, measures[index].label, 'measure'))
+  ];
+}
+
+/**
+ * Convert an engine data row to typed values
+ * 
+ * Dimension cells become their text, measure cells their number. Measures
+ * that evaluate to text, such as `Only(Region)` or `Concat(Region, ', ')`,
+ * keep their text. Null and missing values, which the engine reports as
+ * `NaN` with the `-` null symbol, become null.
+ * 
+ * @param row - Row of `NxCell` values
+ * @param columns - Column headers
+ * @returns The typed row
+ */
+export function toTypedRow(row: any[], columns: HyperCubeColumn[]): HyperCubeValue[] {
+  return row.map((cell, index) => {
+    if (cell.qIsNull) {
+      return null;
+    }
+    
+    if (columns[index].type === 'number') {
+      if (typeof cell.qNum === 'number' && !isNaN(cell.qNum)) {
+        return cell.qNum;
+      }
+      
+      return cell.qText === undefined || cell.qText === NULL_SYMBOL ? null : cell.qText;
+    }
+    
+    return cell.qText === undefined ? null : cell.qText;
+  });
+}
+
+/**
+ * Read the header of a hypercube session object
+ * 
+ * @param object - enigma.js generic object holding the hypercube
+ * @param query - Hypercube query the object was built from
+ * @returns Promise that resolves with the column headers and total row count
+ */
+export async function readHyperCubeHeader(object: any, query: HyperCubeQuery): Promise<HyperCubeHeader> {
+  const layout = await object.getLayout();
+  const hyperCube = layout.qHyperCube;
+  
+  if (hyperCube.qError) {
+    throw new Error(`Invalid hypercube (error ${hyperCube.qError.qErrorCode})`);
+  }
+  
+  return {
+    columns: getHyperCubeColumns(query, hyperCube),
+    totalRows: hyperCube.qSize.qcy
+  };
+}
+
+/**
+ * Read the rows of a hypercube session object page by page
+ * 
+ * Each page is a separate engine request that stays within the engine's
+ * cell limit, so large hypercubes are never requested in one call. Paging
+ * stops at the row limit, at the end of the hypercube, or when the signal
+ * is aborted.
+ * 
+ * @param object - enigma.js generic object holding the hypercube
+ * @param header - Header read from the object
+ * @param limit - Maximum number of rows to read
+ * @param signal - Optional signal to stop paging
+ * @returns Async generator of row pages with progress
+ */
+export async function* readHyperCubePages(
+  object: any,
+  header: HyperCubeHeader,
+  limit: number,
+  signal?: AbortSignal
+): AsyncGenerator<HyperCubePage> {
+  const { columns, totalRows } = header;
+  const target = Math.min(limit, totalRows);
+  const pageHeight = Math.floor(MAX_PAGE_CELLS / columns.length);
+  let fetched = 0;
+  
+  while (fetched < target && !(signal && signal.aborted)) {
+    const height = Math.min(pageHeight, target - fetched);
+    const pages = await object.getHyperCubeData('/qHyperCubeDef', [
+      { qTop: fetched, qLeft: 0, qWidth: columns.length, qHeight: height }
+    ]);
+    const matrix: any[][] = pages[0] ? pages[0].qMatrix : [];
+    
+    fetched += matrix.length;
+    
+    yield {
+      rows: matrix.map(row => toTypedRow(row, columns)),
+      fetched,
+      total: totalRows
+    };
+    
+    // The hypercube shrank while paging, e.g. after a reload
+    if (matrix.length < height) {
+      break;
+    }
+  }
+}
+
+/**
+ * Read the rows of a hypercube session object
+ * 
+ * @param object - enigma.js generic object holding the hypercube
+ * @param query - Hypercube query the object was built from
+ * @returns Promise that resolves with the typed rows and their headers
+ */
+export async function readHyperCube(object: any, query: HyperCubeQuery): Promise<HyperCubeResult> {
+  const limit = getRowLimit(query);
+  const header = await readHyperCubeHeader(object, query);
+  const rows: HyperCubeValue[][] = [];
+  
+  for await (const page of readHyperCubePages(object, header, limit)) {
+    rows.push(...page.rows);
+  }
+  
+  return {
+    columns: header.columns,
+    rows,
+    totalRows: header.totalRows,
+    truncated: rows.length < header.totalRows
+  };
+}
@@ -0,0 +1,345 @@
+import { analyzeScript } from './script-analysis';
+
+/**
+ * Type for the kind of a lineage node
+ */
+export type LineageNodeKind = 'connection' | 'file' | 'qvd' | 'app' | 'table';
+
+/**
+ * Type for the kind of a lineage edge
+ * 
+ * Edges point in the direction the data flows: a connection contains
+ * files, sources are loaded into tables, tables are stored into QVDs and
+ * build their app.
+ */
+export type LineageEdgeKind = 'contains' | 'loads' | 'resident' | 'stores' | 'builds';
+
+/**
+ * Interface for a node of a lineage graph
+ */
+export interface LineageNode {
+  /**
+   * Node ID, such as `connection:datafiles`, `qvd:lib://datafiles/sales.qvd` or `table:<appId>/Sales`
+   */
+  id: string;
+  kind: LineageNodeKind;
+  label: string;
+
+  /**
+   * App of an app or table node
+   */
+  appId?: string;
+
+  /**
+   * Data connection ID and type, when the connection is known to the tenant
+   */
+  connectionId?: string;
+  connectionType?: string;
+
+  /**
+   * Fields of a table node
+   */
+  fields?: string[];
+
+  /**
+   * Whether the script drops the table, so it is not in the data model
+   */
+  dropped?: boolean;
+
+  /**
+   * Why the script of an app node could not be read
+   */
+  error?: string;
+}
+
+/**
+ * Interface for an edge of a lineage graph
+ */
+export interface LineageEdge {
+  from: string;
+  to: string;
+  kind: LineageEdgeKind;
+}
+
+/**
+ * Interface for a lineage graph
+ */
+export interface LineageGraph {
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
+
+/**
+ * Interface for an app whose script feeds a lineage graph
+ */
+export interface LineageApp {
+  id: string;
+  name: string;
+
+  /**
+   * Load script text; apps without a script only appear as a node
+   */
+  script?: string;
+  error?: string;
+}
+
+/**
+ * Interface for a data connection of the tenant
+ */
+export interface LineageConnection {
+  id: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Graphviz shapes by node kind
+ */
+const DOT_SHAPES: Record<LineageNodeKind, string> = {
+  connection: 'cylinder',
+  file: 'note',
+  qvd: 'box3d',
+  app: 'component',
+  table: 'box'
+};
+
+/**
+ * Mermaid node brackets by node kind
+ */
+const MERMAID_SHAPES: Record<LineageNodeKind, [string, string]> = {
+  connection: ['[(', ')]'],
+  file: ['[/', '/]'],
+  qvd: ['[[', ']]'],
+  app: ['{{', '}}'],
+  table: ['[', ']']
+};
+
+/**
+ * Get the data connection name of a `lib://` path
+ * 
+ * @param path - File path
+ * @returns The connection name, or undefined for other paths
+ */
+function toLibConnection(path: string): string | undefined {
+  const match = /^lib:\/\/([^/\\]+)/i.exec(path);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Build the lineage graph of a set of apps from their load scripts
+ * 
+ * Files and QVDs are matched by path across apps, so a QVD stored by one
+ * app and loaded by another links the two. Paths built from variables are
+ * kept as written.
+ * 
+ * @param apps - Apps with their script text
+ * @param connections - Data connections of the tenant, to identify the connections the scripts use
+ * @returns The lineage graph
+ */
+export function buildLineage(apps: LineageApp[], connections: LineageConnection[] = []): LineageGraph {
+  const nodes = new Map<string, LineageNode>();
+  const edges = new Map<string, LineageEdge>();
+  
+  const addNode = (node: LineageNode): LineageNode => {
+    const existing = nodes.get(node.id);
+    
+    if (existing) {
+      return existing;
+    }
+    
+    nodes.set(node.id, node);
+    
+    return node;
+  };
+  
+  const addEdge = (from: string, to: string, kind: LineageEdgeKind): void => {
+    if (from !== to) {
+      edges.set(`${from}|${to}|${kind}`, { from, to, kind });
+    }
+  };
+  
+  const addConnection = (name: string): string => {
+    // Connections in other spaces are written as space:connection
+    const known = connections.find(connection => connection.name.toLowerCase() === name.toLowerCase()) ||
+      connections.find(connection => connection.name.toLowerCase() === name.split(':').pop()!.toLowerCase());
+    const node: LineageNode = { id: `connection:${name.toLowerCase()}`, kind: 'connection', label: name };
+    
+    if (known) {
+      node.connectionId = known.id;
+      node.connectionType = known.type;
+    }
+    
+    return addNode(node).id;
+  };
+  
+  const addPath = (path: string, format?: string): string => {
+    const kind: LineageNodeKind = /\.qvd$/i.test(path) || (format || '').toLowerCase() === 'qvd' ? 'qvd' : 'file';
+    const id = `${kind}:${path.replace(/\\/g, '/').toLowerCase()}`;
+    const connection = toLibConnection(path);
+    
+    addNode({ id, kind, label: path });
+    
+    if (connection) {
+      addEdge(addConnection(connection), id, 'contains');
+    }
+    
+    return id;
+  };
+  
+  for (const app of apps) {
+    const appNode = addNode({ id: `app:${app.id}`, kind: 'app', label: app.name, appId: app.id });
+    
+    if (app.error) {
+      appNode.error = app.error;
+    }
+    
+    if (app.script === undefined) {
+      continue;
+    }
+    
+    const analysis = analyzeScript(app.script);
+    const dropped = new Set(analysis.drops.flatMap(drop => drop.tables.map(table => table.toLowerCase())));
+    const databaseConnections = analysis.connections.filter(connection => connection.kind !== 'lib-path');
+    
+    const addTable = (name: string): LineageNode => {
+      const table = addNode({ id: `table:${app.id}/${name}`, kind: 'table', label: name, appId: app.id, fields: [] });
+      
+      if (dropped.has(name.toLowerCase())) {
+        table.dropped = true;
+      }
+      
+      addEdge(table.id, appNode.id, 'builds');
+      
+      return table;
+    };
+    
+    for (const statement of analysis.statements) {
+      if (!statement.table) {
+        continue;
+      }
+      
+      const table = addTable(statement.table);
+      
+      statement.fields
+        .filter(field => !table.fields!.includes(field))
+        .forEach(field => table.fields!.push(field));
+      
+      if (statement.sourceKind === 'file' && statement.source) {
+        addEdge(addPath(statement.source), table.id, 'loads');
+      } else if (statement.sourceKind === 'resident' && statement.source) {
+        addEdge(addTable(statement.source).id, table.id, 'resident');
+      } else if (statement.sourceKind === 'database') {
+        // Database loads read from the last connection opened before them
+        const connection = databaseConnections
+          .filter(candidate => candidate.line <= statement.line)
+          .pop();
+        
+        if (connection) {
+          addEdge(addConnection(connection.target), table.id, 'loads');
+        }
+      }
+    }
+    
+    for (const store of analysis.stores) {
+      addEdge(addTable(store.table).id, addPath(store.path, store.format), 'stores');
+    }
+  }
+  
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values())
+  };
+}
+
+/**
+ * Get the part of a lineage graph downstream of a node
+ * 
+ * Answers which tables, QVDs and apps depend on a source, such as a data
+ * connection that is about to change.
+ * 
+ * @param graph - Lineage graph
+ * @param node - ID or label of the node, ignoring case; a label may match several nodes
+ * @returns The graph of the node and everything it feeds
+ */
+export function getDownstreamLineage(graph: LineageGraph, node: string): LineageGraph {
+  const byId = graph.nodes.filter(candidate => candidate.id === node);
+  const roots = byId.length > 0
+    ? byId
+    : graph.nodes.filter(candidate => candidate.label.toLowerCase() === node.toLowerCase() ||
+      candidate.id === node.toLowerCase());
+  
+  if (roots.length === 0) {
+    throw new Error(`Lineage node not found: ${node}`);
+  }
+  
+  const reached = new Set(roots.map(root => root.id));
+  const queue = roots.map(root => root.id);
+  const edges: LineageEdge[] = [];
+  
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    
+    for (const edge of graph.edges.filter(candidate => candidate.from === id)) {
+      edges.push(edge);
+      
+      if (!reached.has(edge.to)) {
+        reached.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  
+  return {
+    nodes: graph.nodes.filter(candidate => reached.has(candidate.id)),
+    edges
+  };
+}
+
+/**
+ * Export a lineage graph as Graphviz DOT
+ * 
+ * @param graph - Lineage graph
+ * @returns The DOT source
+ */
+export function toLineageDot(graph: LineageGraph): string {
+  const quote = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph lineage {', '  rankdir=LR;'];
+  
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.id)} [label=${quote(node.label)}, shape=${DOT_SHAPES[node.kind]}];`);
+  }
+  
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.kind)}];`);
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a lineage graph as a Mermaid flowchart
+ * 
+ * Node IDs are numbered, since Mermaid IDs cannot hold the characters of
+ * paths; the labels hold the names.
+ * 
+ * @param graph - Lineage graph
+ * @returns The Mermaid source
+ */
+export function toLineageMermaid(graph: LineageGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const escape = (text: string): string => text.replace(/"/g, '#quot;');
+  const lines = ['flowchart LR'];
+  
+  for (const node of graph.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.kind];
+    lines.push(`  ${ids.get(node.id)}${open}"${escape(node.label)}"${close}`);
+  }
+  
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} -->|${edge.kind}| ${ids.get(edge.to)}`);
+  }
+  
+  return lines.join('\n') + '\n';
+}
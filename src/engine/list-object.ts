@@ -0,0 +1,208 @@
+import { DEFAULT_STATE_NAME, FieldStateCounts, toFieldStateCounts, toStateName } from './selections';
+import { MAX_PAGE_CELLS } from './hypercube';
+
+/**
+ * Default number of values returned by a field value search
+ */
+export const DEFAULT_VALUE_LIMIT = 100;
+
+/**
+ * Maximum number of values returned by a field value search
+ */
+export const MAX_VALUE_LIMIT = 10000;
+
+/**
+ * Type for the selection state of a field value
+ * 
+ * S selected, O possible, X excluded, A alternative, L locked,
+ * XS selected excluded, XL locked excluded and D deselected.
+ */
+export type FieldValueState = 'S' | 'O' | 'X' | 'A' | 'L' | 'XS' | 'XL' | 'D';
+
+/**
+ * Interface for a field value search
+ */
+export interface FieldValuesQuery {
+  field: string;
+
+  /**
+   * Search string; `*` and `?` act as wildcards, as in the Qlik search UI
+   */
+  search?: string;
+
+  /**
+   * Only return values in these states
+   */
+  states?: FieldValueState[];
+  frequency?: boolean;
+  limit?: number;
+
+  /**
+   * Alternate state to read the value states from, instead of the default state
+   */
+  stateName?: string;
+}
+
+/**
+ * Interface for a field value
+ */
+export interface FieldValueItem {
+  text: string;
+  number: number | null;
+  state: FieldValueState;
+  frequency?: number | string;
+}
+
+/**
+ * Interface for the result of a field value search
+ */
+export interface FieldValuesResult {
+  field: string;
+  values: FieldValueItem[];
+
+  /**
+   * Number of values in the list, counting only search matches when searching
+   */
+  totalValues: number;
+  counts: FieldStateCounts;
+  truncated: boolean;
+}
+
+/**
+ * Get the value limit of a field value search
+ * 
+ * @param query - Field value search
+ * @returns The value limit
+ */
+export function getValueLimit(query: FieldValuesQuery): number {
+  const limit = query.limit === undefined ? DEFAULT_VALUE_LIMIT : query.limit;
+  
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VALUE_LIMIT) {
+    throw new Error(`Value limit must be between 1 and ${MAX_VALUE_LIMIT}`);
+  }
+  
+  return limit;
+}
+
+/**
+ * Build the properties of a session object listing the values of a field
+ * 
+ * Values are sorted by state first, so selected and possible values come
+ * before excluded ones.
+ * 
+ * @param query - Field value search
+ * @returns Generic object properties with a `qListObjectDef`
+ */
+export function buildListObjectDef(query: FieldValuesQuery): any {
+  if (!query.field) {
+    throw new Error('Field value search requires a field');
+  }
+  
+  getValueLimit(query);
+  
+  const stateName = toStateName(query.stateName);
+  
+  return {
+    qInfo: { qType: 'mcp-field-values' },
+    qListObjectDef: {
+      ...(stateName !== DEFAULT_STATE_NAME ? { qStateName: stateName } : {}),
+      qDef: {
+        qFieldDefs: [query.field],
+        qSortCriterias: [{ qSortByState: 1, qSortByNumeric: 1, qSortByAscii: 1 }]
+      },
+      qShowAlternatives: true,
+      qFrequencyMode: query.frequency ? 'V' : 'N',
+      qInitialDataFetch: []
+    }
+  };
+}
+
+/**
+ * Convert a list object cell to a field value
+ * 
+ * @param cell - `NxCell` of a list object row
+ * @param frequency - Whether to include the frequency
+ * @returns The field value
+ */
+export function toFieldValue(cell: any, frequency: boolean = false): FieldValueItem {
+  const value: FieldValueItem = {
+    text: cell.qText,
+    number: typeof cell.qNum === 'number' && !isNaN(cell.qNum) ? cell.qNum : null,
+    state: cell.qState
+  };
+  
+  if (frequency) {
+    // The engine reports frequencies as text
+    const count = Number(cell.qFrequency);
+    value.frequency = cell.qFrequency !== undefined && !isNaN(count) ? count : cell.qFrequency;
+  }
+  
+  return value;
+}
+
+/**
+ * Read the values of a list object session object
+ * 
+ * Searches the list first when the query has a search string, then pages
+ * through the values until the limit is reached, skipping values whose
+ * state was not asked for.
+ * 
+ * @param object - enigma.js generic object holding the list object
+ * @param query - Field value search the object was built from
+ * @returns Promise that resolves with the field values
+ */
+export async function readListObject(object: any, query: FieldValuesQuery): Promise<FieldValuesResult> {
+  const limit = getValueLimit(query);
+  
+  if (query.search) {
+    await object.searchListObjectFor('/qListObjectDef', query.search);
+  }
+  
+  const layout = await object.getLayout();
+  const listObject = layout.qListObject;
+  
+  if (listObject.qDimensionInfo.qError) {
+    throw new Error(`Invalid field: ${query.field} (error ${listObject.qDimensionInfo.qError.qErrorCode})`);
+  }
+  
+  const totalValues = listObject.qSize.qcy;
+  const states = query.states && query.states.length > 0 ? new Set(query.states) : null;
+  const values: FieldValueItem[] = [];
+  let top = 0;
+  let truncated = false;
+  
+  while (top < totalValues) {
+    const height = Math.min(MAX_PAGE_CELLS, totalValues - top);
+    const pages = await object.getListObjectData('/qListObjectDef', [
+      { qTop: top, qLeft: 0, qWidth: 1, qHeight: height }
+    ]);
+    const matrix: any[][] = pages[0] ? pages[0].qMatrix : [];
+    
+    for (const row of matrix) {
+      if (states && !states.has(row[0].qState)) {
+        continue;
+      }
+      
+      if (values.length === limit) {
+        truncated = true;
+        break;
+      }
+      
+      values.push(toFieldValue(row[0], query.frequency));
+    }
+    
+    top += height;
+    
+    if (truncated || matrix.length < height) {
+      break;
+    }
+  }
+  
+  return {
+    field: query.field,
+    values,
+    totalValues,
+    counts: toFieldStateCounts(listObject.qDimensionInfo.qStateCounts, totalValues),
+    truncated
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * Type for the kind of a master item
+ */
+export type MasterItemType = 'dimension' | 'measure' | 'visualization';
+
+/**
+ * Master item types
+ */
+export const MASTER_ITEM_TYPES: MasterItemType[] = ['dimension', 'measure', 'visualization'];
+
+/**
+ * Type for the number format of a master measure
+ */
+export type NumberFormatType = 'number' | 'money' | 'date' | 'time' | 'timestamp' | 'interval';
+
+/**
+ * Interface for the number format of a master measure
+ */
+export interface NumberFormat {
+  type: NumberFormatType;
+
+  /**
+   * Format pattern, such as `#,##0.00` or `YYYY-MM-DD`
+   */
+  pattern: string;
+}
+
+/**
+ * Interface for a master item
+ */
+export interface MasterItem {
+  id: string;
+  type: MasterItemType;
+  label: string;
+  description: string;
+  tags: string[];
+
+  /**
+   * Expression of a measure, or of a calculated dimension
+   */
+  expression?: string;
+
+  /**
+   * Fields of a dimension; more than one field makes a drill-down dimension
+   */
+  fields?: string[];
+  numberFormat?: NumberFormat;
+
+  /**
+   * Chart type of a visualization
+   */
+  visualization?: string;
+}
+
+/**
+ * Interface for the friendly input of a new master item
+ * 
+ * Dimensions take `fields`, or an `expression` for a calculated dimension;
+ * measures take an `expression`.
+ */
+export interface MasterItemInput {
+  type: MasterItemType;
+  label: string;
+  description?: string;
+  tags?: string[];
+  expression?: string;
+  fields?: string[];
+  numberFormat?: NumberFormat;
+}
+
+/**
+ * Interface for an update of a master item; omitted properties are kept
+ */
+export type MasterItemUpdate = Partial<Omit<MasterItemInput, 'type'>>;
+
+/**
+ * Interface for a master item search
+ */
+export interface MasterItemSearch {
+  type?: MasterItemType;
+
+  /**
+   * Text to find in the label or description, ignoring case
+   */
+  query?: string;
+
+  /**
+   * Tag the items must have, ignoring case
+   */
+  tag?: string;
+}
+
+/**
+ * Engine number format types by number format type
+ */
+const NUMBER_FORMAT_TYPES: Record<NumberFormatType, string> = {
+  number: 'F',
+  money: 'M',
+  date: 'D',
+  time: 'T',
+  timestamp: 'TS',
+  interval: 'IV'
+};
+
+/**
+ * Properties of the session objects listing master items, by type
+ */
+export const MASTER_ITEM_LIST_DEFS: Record<MasterItemType, any> = {
+  dimension: {
+    qInfo: { qType: 'mcp-dimension-list' },
+    qDimensionListDef: {
+      qType: 'dimension',
+      qData: { dim: '/qDim' }
+    }
+  },
+  measure: {
+    qInfo: { qType: 'mcp-measure-list' },
+    qMeasureListDef: {
+      qType: 'measure',
+      qData: { measure: '/qMeasure' }
+    }
+  },
+  visualization: {
+    qInfo: { qType: 'mcp-masterobject-list' },
+    qAppObjectListDef: {
+      qType: 'masterobject',
+      qData: { visualization: '/visualization' }
+    }
+  }
+};
+
+/**
+ * Check a master item type
+ * 
+ * @param type - Type to check
+ * @returns The master item type
+ */
+export function toMasterItemType(type: any): MasterItemType {
+  if (!MASTER_ITEM_TYPES.includes(type)) {
+    throw new Error(`Invalid master item type: ${type}; expected one of ${MASTER_ITEM_TYPES.join(', ')}`);
+  }
+  
+  return type;
+}
+
+/**
+ * Convert a number format to the engine `FieldAttributes`
+ * 
+ * @param format - Number format
+ * @returns The engine number format
+ */
+function toEngineNumberFormat(format: NumberFormat): any {
+  const type = NUMBER_FORMAT_TYPES[format.type];
+  
+  if (!type || typeof format.pattern !== 'string' || format.pattern === '') {
+    throw new Error(`Number format requires a type (${Object.keys(NUMBER_FORMAT_TYPES).join(', ')}) and a pattern`);
+  }
+  
+  return { qType: type, qFmt: format.pattern };
+}
+
+/**
+ * Check the label, tags and definition of a master item
+ * 
+ * @param type - Type of the master item
+ * @param input - Master item input, after applying any update
+ */
+function validateMasterItem(type: MasterItemType, input: MasterItemUpdate): void {
+  if (typeof input.label !== 'string' || input.label.trim() === '') {
+    throw new Error('Master item requires a label');
+  }
+  
+  if (input.tags !== undefined && (!Array.isArray(input.tags) || input.tags.some(tag => typeof tag !== 'string'))) {
+    throw new Error('Master item tags must be an array of strings');
+  }
+  
+  if (type === 'measure' && !input.expression) {
+    throw new Error('Master measure requires an expression');
+  }
+  
+  if (type === 'dimension' && !(input.fields && input.fields.length > 0) && !input.expression) {
+    throw new Error('Master dimension requires fields or an expression');
+  }
+  
+  if (type !== 'measure' && input.numberFormat) {
+    throw new Error('Only master measures have a number format');
+  }
+}
+
+/**
+ * Build the engine properties of a new master dimension or measure
+ * 
+ * Master visualizations hold a full chart definition and are created from
+ * existing charts, so they cannot be built from friendly inputs.
+ * 
+ * @param input - Master item input
+ * @returns Generic dimension or measure properties
+ */
+export function buildMasterItemProperties(input: MasterItemInput): any {
+  const type = toMasterItemType(input.type);
+  
+  if (type === 'visualization') {
+    throw new Error('Master visualizations cannot be created from friendly inputs');
+  }
+  
+  validateMasterItem(type, input);
+  
+  const meta = {
+    title: input.label,
+    description: input.description || '',
+    tags: input.tags || []
+  };
+  
+  if (type === 'measure') {
+    const measure: any = {
+      qLabel: input.label,
+      qDef: input.expression,
+      qGrouping: 'N',
+      qExpressions: [],
+      qActiveExpression: 0
+    };
+    
+    if (input.numberFormat) {
+      measure.qNumFormat = toEngineNumberFormat(input.numberFormat);
+      measure.isCustomFormatted = true;
+    }
+    
+    return { qInfo: { qType: 'measure' }, qMeasure: measure, qMetaDef: meta };
+  }
+  
+  const fields = input.fields && input.fields.length > 0 ? input.fields : [input.expression as string];
+  
+  return {
+    qInfo: { qType: 'dimension' },
+    qDim: {
+      title: input.label,
+      qGrouping: fields.length > 1 ? 'H' : 'N',
+      qFieldDefs: fields,
+      qFieldLabels: fields.map(() => '')
+    },
+    qMetaDef: meta
+  };
+}
+
+/**
+ * Apply an update to the engine properties of a master item
+ * 
+ * @param type - Type of the master item
+ * @param properties - Current engine properties
+ * @param update - Properties to change
+ * @returns The updated engine properties
+ */
+export function applyMasterItemUpdate(type: MasterItemType, properties: any, update: MasterItemUpdate): any {
+  const current = toMasterItem(type, properties);
+  const merged: MasterItemUpdate = {
+    label: update.label !== undefined ? update.label : current.label,
+    description: update.description !== undefined ? update.description : current.description,
+    tags: update.tags !== undefined ? update.tags : current.tags,
+    expression: update.expression !== undefined ? update.expression : current.expression,
+    fields: update.fields !== undefined ? update.fields : current.fields,
+    numberFormat: update.numberFormat !== undefined ? update.numberFormat : current.numberFormat
+  };
+  
+  if (type === 'visualization' && (update.expression !== undefined || update.fields !== undefined)) {
+    throw new Error('Only the label, description and tags of a master visualization can be updated');
+  }
+  
+  // Existing formats are kept as the engine stores them
+  validateMasterItem(type, { ...merged, numberFormat: update.numberFormat });
+  
+  const updated = {
+    ...properties,
+    qMetaDef: {
+      ...properties.qMetaDef,
+      title: merged.label,
+      description: merged.description,
+      tags: merged.tags
+    }
+  };
+  
+  if (type === 'measure') {
+    updated.qMeasure = { ...properties.qMeasure, qLabel: merged.label, qDef: merged.expression };
+    
+    if (update.numberFormat) {
+      updated.qMeasure.qNumFormat = toEngineNumberFormat(update.numberFormat);
+      updated.qMeasure.isCustomFormatted = true;
+    }
+  } else if (type === 'dimension') {
+    const fields = update.fields !== undefined || update.expression !== undefined
+      ? (update.fields && update.fields.length > 0 ? update.fields : [merged.expression as string])
+      : properties.qDim.qFieldDefs;
+    
+    updated.qDim = {
+      ...properties.qDim,
+      title: merged.label,
+      qGrouping: fields.length > 1 ? 'H' : 'N',
+      qFieldDefs: fields,
+      qFieldLabels: fields.map((field: string, index: number) => (properties.qDim.qFieldLabels || [])[index] || '')
+    };
+  }
+  
+  return updated;
+}
+
+/**
+ * Convert an engine number format
+ * 
+ * @param format - Engine `FieldAttributes`
+ * @returns The number format, if the format is set
+ */
+function toNumberFormat(format: any): NumberFormat | undefined {
+  const type = Object.keys(NUMBER_FORMAT_TYPES)
+    .find(key => NUMBER_FORMAT_TYPES[key as NumberFormatType] === (format && format.qType));
+  
+  return type && format.qFmt ? { type: type as NumberFormatType, pattern: format.qFmt } : undefined;
+}
+
+/**
+ * Convert the definition of a master item, as found in its properties or list data
+ * 
+ * @param type - Type of the master item
+ * @param item - Master item with its ID, metadata and definition
+ * @returns The master item
+ */
+function toMasterItemFrom(type: MasterItemType, item: { id: string; meta: any; dim?: any; measure?: any; visualization?: string }): MasterItem {
+  const meta = item.meta || {};
+  const masterItem: MasterItem = {
+    id: item.id,
+    type,
+    label: meta.title || '',
+    description: meta.description || '',
+    tags: meta.tags || []
+  };
+  
+  if (type === 'measure' && item.measure) {
+    masterItem.expression = item.measure.qDef;
+    
+    const numberFormat = item.measure.isCustomFormatted ? toNumberFormat(item.measure.qNumFormat) : undefined;
+    
+    if (numberFormat) {
+      masterItem.numberFormat = numberFormat;
+    }
+  } else if (type === 'dimension' && item.dim) {
+    const fields: string[] = item.dim.qFieldDefs || [];
+    
+    // A single definition starting with = is a calculated dimension
+    if (fields.length === 1 && fields[0].trim().startsWith('=')) {
+      masterItem.expression = fields[0];
+    } else {
+      masterItem.fields = fields;
+    }
+  } else if (type === 'visualization' && item.visualization) {
+    masterItem.visualization = item.visualization;
+  }
+  
+  return masterItem;
+}
+
+/**
+ * Convert the engine properties of a master item
+ * 
+ * @param type - Type of the master item
+ * @param properties - Generic dimension, measure or object properties
+ * @returns The master item
+ */
+export function toMasterItem(type: MasterItemType, properties: any): MasterItem {
+  return toMasterItemFrom(type, {
+    id: properties.qInfo.qId,
+    meta: properties.qMetaDef,
+    dim: properties.qDim,
+    measure: properties.qMeasure,
+    visualization: properties.visualization
+  });
+}
+
+/**
+ * Read the master items from the layout of a list session object
+ * 
+ * @param type - Type of the listed master items
+ * @param layout - Layout of a session object built from `MASTER_ITEM_LIST_DEFS`
+ * @returns The master items
+ */
+export function toMasterItems(type: MasterItemType, layout: any): MasterItem[] {
+  const list = layout.qDimensionList || layout.qMeasureList || layout.qAppObjectList || {};
+  
+  return (list.qItems || []).map((item: any) => toMasterItemFrom(type, {
+    id: item.qInfo.qId,
+    meta: item.qMeta,
+    dim: item.qData && item.qData.dim,
+    measure: item.qData && item.qData.measure,
+    visualization: item.qData && item.qData.visualization
+  }));
+}
+
+/**
+ * Check whether a master item matches a search
+ * 
+ * @param item - Master item
+ * @param search - Master item search
+ * @returns Whether the item matches
+ */
+export function matchesMasterItemSearch(item: MasterItem, search: MasterItemSearch): boolean {
+  if (search.type && item.type !== search.type) {
+    return false;
+  }
+  
+  if (search.query) {
+    const query = search.query.toLowerCase();
+    
+    if (!item.label.toLowerCase().includes(query) && !item.description.toLowerCase().includes(query)) {
+      return false;
+    }
+  }
+  
+  if (search.tag) {
+    const tag = search.tag.toLowerCase();
+    
+    if (!item.tags.some(itemTag => itemTag.toLowerCase() === tag)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
@@ -1,5 +1,105 @@
 import { EventEmitter } from 'events';
 import { WebSocketConnection } from './websocket-connection';
+import {
+  buildHyperCubeDef,
+  getRowLimit,
+  HyperCubeQuery,
+  HyperCubeResult,
+  HyperCubeStreamHandlers,
+  HyperCubeStreamSummary,
+  readHyperCube,
+  readHyperCubeHeader,
+  readHyperCubePages
+} from './hypercube';
+import {
+  ExpressionResult,
+  ExpressionValidation,
+  normalizeExpression,
+  toExpressionResult,
+  toExpressionValidation
+} from './expressions';
+import {
+  applyMasterItemUpdate,
+  buildMasterItemProperties,
+  MASTER_ITEM_LIST_DEFS,
+  MasterItem,
+  MasterItemInput,
+  MasterItemType,
+  MasterItemUpdate,
+  toMasterItem,
+  toMasterItems
+} from './master-items';
+import {
+  buildReloadParams,
+  RELOAD_PROGRESS_INTERVAL,
+  ReloadError,
+  ReloadOptions,
+  ReloadProgress,
+  ReloadResult,
+  ScriptError,
+  toReloadProgress,
+  toScriptErrors
+} from './script';
+import {
+  DataModel,
+  DataModelTable,
+  FIELD_LIST_DEF,
+  FieldDescription,
+  SAMPLE_ROWS,
+  toDataModel,
+  toFieldDescription,
+  toSampleValues
+} from './data-model';
+import {
+  buildListObjectDef,
+  FieldValuesQuery,
+  FieldValuesResult,
+  MAX_VALUE_LIMIT,
+  readListObject
+} from './list-object';
+import {
+  applyBookmarkUpdate,
+  Bookmark,
+  BOOKMARK_LIST_DEF,
+  BookmarkInput,
+  BookmarkUpdate,
+  buildBookmarkProperties,
+  FieldSelectionSnapshot,
+  SessionState,
+  TEMPORARY_BOOKMARK_TITLE,
+  toBookmark,
+  toBookmarkIds,
+  toVariableSnapshots,
+  VARIABLE_LIST_DEF
+} from './bookmarks';
+import {
+  buildVisualizationDataDef,
+  getVisualizationColumns,
+  getVisualizationRowLimit,
+  MAX_OBJECT_DEPTH,
+  orderSheetObjects,
+  resolveLibraryItems,
+  SHEET_LIST_DEF,
+  SheetContent,
+  SheetContentOptions,
+  SheetSummary,
+  toSheetSummaries,
+  toVisualization,
+  Visualization
+} from './sheets';
+import {
+  buildCurrentSelectionsDef,
+  buildFieldStateDef,
+  DEFAULT_STATE_NAME,
+  FieldStateCounts,
+  FieldValue,
+  SelectionState,
+  toEngineFieldValues,
+  toFieldStateCounts,
+  toAlternateStateName,
+  toSelectionState,
+  toStateName
+} from './selections';
 import enigma from 'enigma.js';
 import schema from 'enigma.js/schemas/12.20.0.json';
 
@@ -27,6 +127,10 @@ export class QixSession extends EventEmitter {
   private _app: any = null;
   private _global: any = null;
   private _isConnected: boolean = false;
+  private _suspended: boolean = false;
+  private _lastState: SessionState | null = null;
+  private _stateSnapshot: Promise<void> | null = null;
+  private _stateChanged: boolean = false;
 
   /**
    * Creates a new QixSession instance
@@ -52,6 +156,13 @@ export class QixSession extends EventEmitter {
     return this._isConnected;
   }
 
+  /**
+   * Get the last known selections and variables, replayed when the session resumes
+   */
+  get lastState(): SessionState | null {
+    return this._lastState;
+  }
+
   /**
    * Get the enigma.js session
    */
@@ -95,29 +206,20 @@ export class QixSession extends EventEmitter {
       this._connection.on('disconnected', this._handleConnectionDisconnected.bind(this));
       this._connection.on('error', this._handleConnectionError.bind(this));
       this._connection.on('notification', this._handleConnectionNotification.bind(this));
+      this._connection.on('reconnect-failed', this._handleConnectionReconnectFailed.bind(this));
 
       // Connect the WebSocket
       await this._connection.connect();
 
-      // Create enigma.js session
-      this._session = enigma.create({
-        schema,
-        url: this._config.url,
-        createSocket: (url: string) => {
-          // Return the existing WebSocket connection
-          return this._connection!;
-        }
-      });
-
-      // Open the session
-      this._global = await this._session.open();
-
-      // Open the app
-      this._app = await this._global.openDoc(this._config.appId);
+      // Open the session and the app
+      await this._openApp();
 
       // Mark as connected
       this._isConnected = true;
 
+      // Remember the state to replay if the connection drops
+      this._trackState();
+
       // Emit connected event
       this.emit('connected');
     } catch (error) {
@@ -142,10 +244,15 @@ export class QixSession extends EventEmitter {
    * @returns Promise that resolves when closed
    */
   async close(): Promise<void> {
-    if (!this._isConnected) {
+    // A suspended session still has a connection that is reconnecting
+    if (!this._isConnected && !this._connection) {
       return;
     }
 
+    // Mark as disconnected first, so closing the connection does not suspend the session
+    this._isConnected = false;
+    this._suspended = false;
+
     try {
       // Close the session
       if (this._session) {
@@ -161,9 +268,6 @@ export class QixSession extends EventEmitter {
         this._connection = null;
       }
 
-      // Mark as disconnected
-      this._isConnected = false;
-
       // Emit closed event
       this.emit('closed');
     } catch (error) {
@@ -182,54 +286,130 @@ export class QixSession extends EventEmitter {
   /**
    * Get the current session state
    * 
-   * @returns Promise that resolves with the session state
+   * Selected values are read in full from the field, since the current
+   * selections only list the first few values of each field.
+   * 
+   * @returns Promise that resolves with the selections of each state and the variables of the session
    */
-  async getState(): Promise<any> {
-    if (!this._isConnected || !this._app) {
-      throw new Error('Not connected to engine');
+  async getState(): Promise<SessionState> {
+    this._requireApp();
+
+    const selections = await this._readSelectionSnapshot(DEFAULT_STATE_NAME);
+    const alternateStates: Record<string, FieldSelectionSnapshot[]> = {};
+
+    for (const stateName of await this.listAlternateStates()) {
+      alternateStates[stateName] = await this._readSelectionSnapshot(stateName);
     }
 
-    // Get the current selections
-    const selections = await this._app.getList('CurrentSelections');
+    const object = await this.createSessionObject(VARIABLE_LIST_DEF);
 
-    // Get the current variables
-    const variables = await this._app.getVariables();
+    try {
+      return { selections, alternateStates, variables: toVariableSnapshots(await object.getLayout()) };
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
 
-    // Return the state
-    return {
-      selections,
-      variables
-    };
+  /**
+   * Get the session state as last tracked after a change
+   * 
+   * Waits for a snapshot that is being read, so changes made through the
+   * session are included. The engine is only read when no snapshot was
+   * taken yet.
+   * 
+   * @returns Promise that resolves with the selections of each state and the variables of the session
+   */
+  async getTrackedState(): Promise<SessionState> {
+    this._requireApp();
+
+    while (this._stateSnapshot) {
+      await this._stateSnapshot;
+    }
+
+    return this._lastState || await this.getState();
   }
 
   /**
    * Set the session state
    * 
-   * @param state - State to set
+   * Alternate states of the state that the app does not have are added.
+   * 
+   * @param state - Selections and variables from `getState` or a bookmark
    * @returns Promise that resolves when state is set
    */
-  async setState(state: any): Promise<void> {
-    if (!this._isConnected || !this._app) {
-      throw new Error('Not connected to engine');
-    }
+  async setState(state: SessionState): Promise<void> {
+    this._requireApp();
 
-    // Clear all selections
-    await this._app.clearAll();
+    const existing = await this.listAlternateStates();
+    const alternateStates = Object.entries(state.alternateStates || {});
 
-    // Apply selections
-    if (state.selections) {
-      for (const field of state.selections.qSelectionObject.qSelections) {
-        const fieldObj = await this._app.getField(field.qField);
-        await fieldObj.selectValues(field.qSelectedValues, false, false);
+    for (const [stateName] of alternateStates) {
+      if (!existing.includes(stateName)) {
+        await this._app.addAlternateState(stateName);
       }
     }
 
-    // Apply variables
-    if (state.variables) {
-      for (const variable of state.variables) {
-        await this._app.setVariableValue(variable.qName, variable.qDefinition);
+    await this._applySelectionSnapshot(DEFAULT_STATE_NAME, state.selections || []);
+
+    for (const [stateName, selections] of alternateStates) {
+      await this._applySelectionSnapshot(stateName, selections);
+    }
+
+    for (const variable of state.variables || []) {
+      const object = await this._app.getVariableByName(variable.name).catch(() => null);
+
+      // Variables deleted since the state was saved are skipped
+      if (object) {
+        await object.setStringValue(variable.definition);
       }
     }
+
+    this._trackState();
+  }
+
+  /**
+   * List the alternate states of the app
+   * 
+   * @returns Promise that resolves with the names of the alternate states
+   */
+  async listAlternateStates(): Promise<string[]> {
+    this._requireApp();
+
+    const layout = await this._app.getAppLayout();
+
+    return (layout.qStateNames || []).filter((stateName: string) => stateName !== DEFAULT_STATE_NAME);
+  }
+
+  /**
+   * Add an alternate state to the app
+   * 
+   * @param stateName - Name of the alternate state
+   * @returns Promise that resolves when the state is added
+   */
+  async addAlternateState(stateName: string): Promise<void> {
+    const name = toAlternateStateName(stateName);
+
+    if ((await this.listAlternateStates()).includes(name)) {
+      throw new Error(`Alternate state already exists: ${name}`);
+    }
+
+    await this._app.addAlternateState(name);
+  }
+
+  /**
+   * Remove an alternate state from the app
+   * 
+   * @param stateName - Name of the alternate state
+   * @returns Promise that resolves when the state is removed
+   */
+  async removeAlternateState(stateName: string): Promise<void> {
+    const name = toAlternateStateName(stateName);
+
+    if (!(await this.listAlternateStates()).includes(name)) {
+      throw new Error(`Alternate state not found: ${name}`);
+    }
+
+    await this._app.removeAlternateState(name);
   }
 
   /**
@@ -286,6 +466,49 @@ export class QixSession extends EventEmitter {
     return await this._app.getObject(objectHandle);
   }
 
+  /**
+   * Check whether the app still has an object
+   * 
+   * @param objectType - Type of the object
+   * @param objectHandle - Handle of the object
+   * @returns Promise that resolves with true if the engine has the object
+   */
+  async hasObject(objectType: string, objectHandle: string): Promise<boolean> {
+    if (!this._isConnected || !this._app) {
+      throw new Error('Not connected to engine');
+    }
+
+    let getter: (id: string) => Promise<any>;
+
+    // Get the object based on type
+    switch (objectType) {
+      case 'GenericObject':
+        getter = (id) => this._app.getObject(id);
+        break;
+      case 'GenericBookmark':
+        getter = (id) => this._app.getBookmark(id);
+        break;
+      case 'GenericVariable':
+        getter = (id) => this._app.getVariableById(id);
+        break;
+      case 'GenericDimension':
+        getter = (id) => this._app.getDimension(id);
+        break;
+      case 'GenericMeasure':
+        getter = (id) => this._app.getMeasure(id);
+        break;
+      default:
+        throw new Error(`Unsupported object type: ${objectType}`);
+    }
+
+    // The engine returns no object, or fails, for IDs it does not know
+    try {
+      return Boolean(await getter(objectHandle));
+    } catch (error) {
+      return false;
+    }
+  }
+
   /**
    * Destroy an object
    * 
@@ -323,60 +546,1271 @@ export class QixSession extends EventEmitter {
     }
 
     // Execute the method
-    return await object[method](...params);
+    const result = await object[method](...params);
+
+    // Methods other than getters can change selections or variables, such as setStringValue
+    if (!/^get[A-Z]/.test(method)) {
+      this._trackState();
+    }
+
+    return result;
   }
 
   /**
-   * Get authentication headers based on auth type
+   * Create a session object
    * 
-   * @returns Authentication headers
+   * Session objects are not persisted in the app and are removed by the
+   * engine when the session ends.
+   * 
+   * @param properties - Object properties
+   * @returns Promise that resolves with the enigma.js object
    */
-  private _getAuthHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {};
+  async createSessionObject(properties: any): Promise<any> {
+    if (!this._isConnected || !this._app) {
+      throw new Error('Not connected to engine');
+    }
 
-    // Add auth headers based on auth type
-    if (this._config.authHeaders) {
-      // Use provided auth headers
-      Object.assign(headers, this._config.authHeaders);
-    } else {
-      // Add default headers based on auth type
-      switch (this._config.authType) {
-        case 'oauth2':
-          // OAuth2 headers would be added here
-          // This would typically be a Bearer token
-          break;
-        case 'jwt':
-          // JWT headers would be added here
-          break;
-        case 'apikey':
-          // API key headers would be added here
-          break;
+    return await this._app.createSessionObject(properties);
+  }
+
+  /**
+   * Destroy a session object
+   * 
+   * @param objectId - ID of the session object to destroy
+   * @returns Promise that resolves when the object is destroyed
+   */
+  async destroySessionObject(objectId: string): Promise<void> {
+    if (!this._isConnected || !this._app) {
+      throw new Error('Not connected to engine');
+    }
+
+    await this._app.destroySessionObject(objectId);
+  }
+
+  /**
+   * Query data through a temporary hypercube
+   * 
+   * @param query - Dimensions, measures, sort order and row limit
+   * @returns Promise that resolves with the typed rows and their headers
+   */
+  async queryHyperCube(query: HyperCubeQuery): Promise<HyperCubeResult> {
+    const object = await this.createSessionObject(buildHyperCubeDef(query));
+
+    try {
+      return await readHyperCube(object, query);
+    } finally {
+      // The hypercube is only needed for this query
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Stream data through a temporary hypercube
+   * 
+   * The header is delivered first, followed by one call per page of rows.
+   * Handlers are awaited, so a slow consumer holds back paging instead of
+   * buffering rows in memory.
+   * 
+   * @param query - Dimensions, measures, sort order and optional row limit
+   * @param handlers - Handlers for the header and each page of rows
+   * @param signal - Optional signal to cancel the stream between pages
+   * @returns Promise that resolves with the number of rows streamed
+   */
+  async streamHyperCube(
+    query: HyperCubeQuery,
+    handlers: HyperCubeStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<HyperCubeStreamSummary> {
+    const limit = getRowLimit(query, true);
+    const object = await this.createSessionObject(buildHyperCubeDef(query));
+
+    try {
+      const header = await readHyperCubeHeader(object, query);
+      let fetched = 0;
+
+      await handlers.header(header);
+
+      for await (const page of readHyperCubePages(object, header, limit, signal)) {
+        fetched = page.fetched;
+        await handlers.page(page);
       }
+
+      return {
+        fetched,
+        total: header.totalRows,
+        cancelled: Boolean(signal && signal.aborted)
+      };
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
     }
+  }
 
-    return headers;
+  /**
+   * Search and list the values of a field through a temporary list object
+   * 
+   * @param query - Field, search string, states and value limit
+   * @returns Promise that resolves with the field values and their states
+   */
+  async searchFieldValues(query: FieldValuesQuery): Promise<FieldValuesResult> {
+    const object = await this.createSessionObject(buildListObjectDef(query));
+
+    try {
+      return await readListObject(object, query);
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
   }
 
   /**
-   * Handle WebSocket connection connected event
+   * Get the data model of the app
+   * 
+   * @returns Promise that resolves with the tables, fields, keys, synthetic keys and circular references
    */
-  private _handleConnectionConnected(): void {
-    // This is handled in the connect method
+  async getDataModel(): Promise<DataModel> {
+    this._requireApp();
+
+    const object = await this.createSessionObject(FIELD_LIST_DEF);
+
+    try {
+      // Keys are reported per key group, without the $Syn tables of synthetic mode
+      const [tablesAndKeys, layout] = await Promise.all([
+        this._app.getTablesAndKeys({ qcx: 0, qcy: 0 }, { qcx: 0, qcy: 0 }, 0, false, false),
+        object.getLayout()
+      ]);
+
+      return toDataModel(tablesAndKeys, layout.qFieldList);
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
   }
 
   /**
-   * Handle WebSocket connection disconnected event
+   * Describe a field of the app
    * 
-   * @param event - Disconnected event
+   * @param fieldName - Name of the field
+   * @returns Promise that resolves with the field description
    */
-  private _handleConnectionDisconnected(event: any): void {
-    this._isConnected = false;
-    this._session = null;
-    this._app = null;
-    this._global = null;
+  async describeField(fieldName: string): Promise<FieldDescription> {
+    this._requireApp();
 
-    // Emit suspended event
-    this.emit('suspended', event);
+    const description = await this._app.getFieldDescription(fieldName);
+
+    if (!description) {
+      throw new Error(`Field not found: ${fieldName}`);
+    }
+
+    return toFieldDescription(description);
+  }
+
+  /**
+   * Get sample values of the fields of data model tables
+   * 
+   * @param tables - Tables to read, from the data model
+   * @param limit - Maximum number of distinct values per field
+   * @returns Promise that resolves with the sample values by field
+   */
+  async getSampleValues(tables: DataModelTable[], limit: number): Promise<Record<string, string[]>> {
+    this._requireApp();
+
+    const samples: Record<string, string[]> = {};
+
+    for (const table of tables) {
+      const rows = await this._app.getTableData(0, SAMPLE_ROWS, false, table.name);
+
+      toSampleValues(table, rows, limit, samples);
+    }
+
+    return samples;
+  }
+
+  /**
+   * Evaluate an expression under the current selections
+   * 
+   * @param expression - Chart expression, with or without a leading `=`
+   * @returns Promise that resolves with the number and text result
+   */
+  async evaluateExpression(expression: string): Promise<ExpressionResult> {
+    this._requireApp();
+
+    const normalized = normalizeExpression(expression);
+    const value = await this._app.evaluateEx(normalized);
+
+    return toExpressionResult(normalized, value);
+  }
+
+  /**
+   * Validate an expression without evaluating it
+   * 
+   * @param expression - Chart expression, with or without a leading `=`
+   * @returns Promise that resolves with the syntax error and the unknown field names with their positions
+   */
+  async checkExpression(expression: string): Promise<ExpressionValidation> {
+    this._requireApp();
+
+    const normalized = normalizeExpression(expression);
+    const [check, numberCheck] = await Promise.all([
+      this._app.checkExpression(normalized, []),
+      this._app.checkNumberOrExpression(normalized)
+    ]);
+
+    return toExpressionValidation(normalized, check, numberCheck);
+  }
+
+  /**
+   * List the master items of one type
+   * 
+   * @param type - Type of the master items
+   * @returns Promise that resolves with the master items
+   */
+  async listMasterItems(type: MasterItemType): Promise<MasterItem[]> {
+    this._requireApp();
+
+    const object = await this.createSessionObject(MASTER_ITEM_LIST_DEFS[type]);
+
+    try {
+      return toMasterItems(type, await object.getLayout());
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Get a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves with the master item
+   */
+  async getMasterItem(type: MasterItemType, id: string): Promise<MasterItem> {
+    const object = await this._getMasterItemObject(type, id);
+
+    return toMasterItem(type, await object.getProperties());
+  }
+
+  /**
+   * Create a master dimension or measure
+   * 
+   * @param input - Label, definition, description, tags and number format
+   * @returns Promise that resolves with the created master item
+   */
+  async createMasterItem(input: MasterItemInput): Promise<MasterItem> {
+    this._requireApp();
+
+    const properties = buildMasterItemProperties(input);
+    const object = input.type === 'measure'
+      ? await this._app.createMeasure(properties)
+      : await this._app.createDimension(properties);
+
+    return toMasterItem(input.type, await object.getProperties());
+  }
+
+  /**
+   * Update a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @param update - Properties to change
+   * @returns Promise that resolves with the updated master item
+   */
+  async updateMasterItem(type: MasterItemType, id: string, update: MasterItemUpdate): Promise<MasterItem> {
+    const object = await this._getMasterItemObject(type, id);
+    const properties = applyMasterItemUpdate(type, await object.getProperties(), update);
+
+    await object.setProperties(properties);
+
+    return toMasterItem(type, properties);
+  }
+
+  /**
+   * Delete a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves when the master item is deleted
+   */
+  async deleteMasterItem(type: MasterItemType, id: string): Promise<void> {
+    // Fail with a clear error for unknown IDs
+    await this._getMasterItemObject(type, id);
+
+    const destroyed = type === 'measure'
+      ? await this._app.destroyMeasure(id)
+      : type === 'dimension'
+        ? await this._app.destroyDimension(id)
+        : await this._app.destroyObject(id);
+
+    if (!destroyed) {
+      throw new Error(`Failed to delete master ${type}: ${id}`);
+    }
+  }
+
+  /**
+   * Get the engine properties of a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves with the properties
+   */
+  async getMasterItemProperties(type: MasterItemType, id: string): Promise<any> {
+    const object = await this._getMasterItemObject(type, id);
+
+    return await object.getProperties();
+  }
+
+  /**
+   * Set the engine properties of a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @param properties - Properties from `getMasterItemProperties`
+   * @returns Promise that resolves when the properties are set
+   */
+  async setMasterItemProperties(type: MasterItemType, id: string, properties: any): Promise<void> {
+    const object = await this._getMasterItemObject(type, id);
+
+    await object.setProperties(properties);
+  }
+
+  /**
+   * Create a master item again from its engine properties
+   * 
+   * The engine keeps the ID in the properties when no other item has it.
+   * 
+   * @param type - Type of the master item
+   * @param properties - Properties from `getMasterItemProperties`
+   * @returns Promise that resolves with the ID of the master item
+   */
+  async restoreMasterItem(type: MasterItemType, properties: any): Promise<string> {
+    this._requireApp();
+
+    const object = type === 'measure'
+      ? await this._app.createMeasure(properties)
+      : type === 'dimension'
+        ? await this._app.createDimension(properties)
+        : await this._app.createObject(properties);
+
+    return object.id;
+  }
+
+  /**
+   * List the bookmarks of the app
+   * 
+   * @returns Promise that resolves with the bookmarks and their selections
+   */
+  async listBookmarks(): Promise<Bookmark[]> {
+    this._requireApp();
+
+    const object = await this.createSessionObject(BOOKMARK_LIST_DEF);
+    let ids: string[];
+
+    try {
+      ids = toBookmarkIds(await object.getLayout());
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+
+    const bookmarks: Bookmark[] = [];
+
+    for (const id of ids) {
+      bookmarks.push(await this.getBookmark(id));
+    }
+
+    return bookmarks;
+  }
+
+  /**
+   * Get a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves with the bookmark and its selections
+   */
+  async getBookmark(id: string): Promise<Bookmark> {
+    const object = await this._getBookmarkObject(id);
+
+    return toBookmark(await object.getLayout());
+  }
+
+  /**
+   * Create a bookmark of the current selections
+   * 
+   * @param input - Title, description, sheet and whether to include variables
+   * @returns Promise that resolves with the created bookmark
+   */
+  async createBookmark(input: BookmarkInput): Promise<Bookmark> {
+    this._requireApp();
+
+    const fields = (await this.getSelectionState()).selections.map(selection => selection.field);
+    const object = await this._app.createBookmark(buildBookmarkProperties(input, fields));
+
+    return toBookmark(await object.getLayout());
+  }
+
+  /**
+   * Apply a bookmark to the session
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves when the bookmark is applied
+   */
+  async applyBookmark(id: string): Promise<void> {
+    // Fail with a clear error for unknown IDs
+    await this._getBookmarkObject(id);
+
+    if (!await this._app.applyBookmark(id)) {
+      throw new Error(`Failed to apply bookmark: ${id}`);
+    }
+
+    this._trackState();
+  }
+
+  /**
+   * Update the title, description or sheet of a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @param update - Properties to change
+   * @returns Promise that resolves with the updated bookmark
+   */
+  async updateBookmark(id: string, update: BookmarkUpdate): Promise<Bookmark> {
+    const object = await this._getBookmarkObject(id);
+
+    await object.setProperties(applyBookmarkUpdate(await object.getProperties(), update));
+
+    return toBookmark(await object.getLayout());
+  }
+
+  /**
+   * Delete a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves when the bookmark is deleted
+   */
+  async deleteBookmark(id: string): Promise<void> {
+    // Fail with a clear error for unknown IDs
+    await this._getBookmarkObject(id);
+
+    if (!await this._app.destroyBookmark(id)) {
+      throw new Error(`Failed to delete bookmark: ${id}`);
+    }
+  }
+
+  /**
+   * Create a bookmark of a session state without changing the current selections
+   * 
+   * The current selections and variables are held in a temporary bookmark
+   * while the state is applied, and are applied again afterwards.
+   * 
+   * @param state - Selections and variables to bookmark
+   * @param input - Title, description, sheet and whether to include variables
+   * @returns Promise that resolves with the created bookmark
+   */
+  async createBookmarkFromState(state: SessionState, input: BookmarkInput): Promise<Bookmark> {
+    this._requireApp();
+
+    // Check the input before any selection changes
+    buildBookmarkProperties(input);
+
+    const current = await this._app.createBookmark(buildBookmarkProperties({
+      title: TEMPORARY_BOOKMARK_TITLE,
+      includeVariables: true
+    }));
+    const currentId = current.id;
+
+    try {
+      await this.setState(state);
+
+      return await this.createBookmark(input);
+    } finally {
+      await this._app.applyBookmark(currentId).catch(() => {});
+      await this._app.destroyBookmark(currentId).catch(() => {});
+
+      // The snapshot taken while the state was applied is out of date again
+      this._trackState();
+    }
+  }
+
+  /**
+   * List the sheets of the app
+   * 
+   * @returns Promise that resolves with the sheets in the order of the app
+   */
+  async listSheets(): Promise<SheetSummary[]> {
+    this._requireApp();
+
+    const object = await this.createSessionObject(SHEET_LIST_DEF);
+
+    try {
+      return toSheetSummaries(await object.getLayout());
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Get the visualizations of a sheet with their columns and data
+   * 
+   * Objects in containers and filter panes are listed after their parent.
+   * Data is read under the current selections from a straight table copy of
+   * each visualization, so the objects of the sheet are left unchanged.
+   * 
+   * @param sheetId - ID of the sheet
+   * @param options - Whether to read data, and the row limit per visualization
+   * @returns Promise that resolves with the sheet and its visualizations
+   */
+  async getSheetContent(sheetId: string, options: SheetContentOptions = {}): Promise<SheetContent> {
+    this._requireApp();
+
+    const rows = getVisualizationRowLimit(options);
+    let sheet;
+
+    try {
+      sheet = await this._app.getObject(sheetId);
+    } catch (error) {
+      sheet = null;
+    }
+
+    if (!sheet || sheet.genericType !== 'sheet') {
+      throw new Error(`Sheet not found: ${sheetId}`);
+    }
+
+    const layout = await sheet.getLayout();
+    const childIds = (await sheet.getChildInfos()).map((info: any) => info.qId);
+    const visualizations: Visualization[] = [];
+
+    for (const id of orderSheetObjects(childIds, layout.cells)) {
+      await this._readVisualization(id, undefined, 0, options.includeData !== false ? rows : 0, visualizations);
+    }
+
+    return {
+      id: sheetId,
+      title: (layout.qMeta && layout.qMeta.title) || layout.title || '',
+      description: (layout.qMeta && layout.qMeta.description) || layout.description || '',
+      visualizations
+    };
+  }
+
+  /**
+   * Get the load script of the app
+   * 
+   * @returns Promise that resolves with the script text
+   */
+  async getScript(): Promise<string> {
+    this._requireApp();
+
+    return await this._app.getScript();
+  }
+
+  /**
+   * Replace the load script of the app
+   * 
+   * The script takes effect on the next reload, and is kept in the app once
+   * the app is saved.
+   * 
+   * @param script - Script text
+   * @returns Promise that resolves when the script is set
+   */
+  async setScript(script: string): Promise<void> {
+    this._requireApp();
+
+    if (typeof script !== 'string') {
+      throw new Error('Script must be a string');
+    }
+
+    await this._app.setScript(script);
+  }
+
+  /**
+   * Check the syntax of the load script of the app
+   * 
+   * @returns Promise that resolves with the syntax errors, with their lines
+   */
+  async checkScriptSyntax(): Promise<ScriptError[]> {
+    this._requireApp();
+
+    const [errors, script] = await Promise.all([
+      this._app.checkScriptSyntax(),
+      this._app.getScript()
+    ]);
+
+    return toScriptErrors(errors, script);
+  }
+
+  /**
+   * Reload the app in the engine
+   * 
+   * Polls the progress of the reload until it ends, collecting the log
+   * lines and errors the engine reports. When the reload fails, the script
+   * syntax is checked so the failing line can be reported. Saving is left
+   * to the caller.
+   * 
+   * @param options - Reload options
+   * @param onProgress - Optional callback for each progress poll
+   * @returns Promise that resolves with the result and log of the reload
+   */
+  async reload(options: ReloadOptions = {}, onProgress?: (progress: ReloadProgress) => void): Promise<ReloadResult> {
+    this._requireApp();
+
+    const startTime = Date.now();
+    const log: string[] = [];
+    const errors: ReloadError[] = [];
+
+    // enigma.js exposes the request ID on the returned promise
+    const request = this._app.doReloadEx(buildReloadParams(options));
+    const requestId: number = request.requestId;
+    let finished = false;
+
+    const poll = async (): Promise<void> => {
+      const progress = await this.getProgress(requestId);
+
+      log.push(...progress.messages);
+      errors.push(...progress.errors);
+
+      if (onProgress) {
+        onProgress(progress);
+      }
+    };
+
+    const polling = (async () => {
+      while (!finished) {
+        await new Promise(resolve => setTimeout(resolve, RELOAD_PROGRESS_INTERVAL));
+
+        if (!finished) {
+          await poll().catch(() => {});
+        }
+      }
+    })();
+
+    let result;
+
+    try {
+      result = await request;
+    } finally {
+      finished = true;
+      await polling;
+    }
+
+    // Collect the messages reported after the last poll
+    await poll().catch(() => {});
+
+    const success = Boolean(result && result.qSuccess);
+
+    return {
+      success,
+      partial: Boolean(options.partial),
+      saved: false,
+      log: log.join('\n'),
+      errors,
+      syntaxErrors: success ? [] : await this.checkScriptSyntax().catch(() => []),
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Get the progress of an engine request
+   * 
+   * @param requestId - ID of a reload or save request
+   * @returns Promise that resolves with the progress
+   */
+  async getProgress(requestId: number): Promise<ReloadProgress> {
+    if (!this._isConnected || !this._global) {
+      throw new Error('Not connected to engine');
+    }
+
+    return toReloadProgress(await this._global.getProgress(requestId));
+  }
+
+  /**
+   * Save the app
+   * 
+   * @returns Promise that resolves when the app is saved
+   */
+  async save(): Promise<void> {
+    this._requireApp();
+
+    await this._app.doSave();
+  }
+
+  /**
+   * Select values in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param values - Text or numeric values to select
+   * @param toggle - Whether to toggle the values instead of replacing the selection
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with true if the selection was applied
+   */
+  async selectFieldValues(fieldName: string, values: FieldValue[], toggle: boolean = false, stateName?: string): Promise<boolean> {
+    const field = await this._getField(fieldName, stateName);
+    const selected = await field.selectValues(toEngineFieldValues(values), toggle, false);
+
+    this._trackState();
+
+    return selected;
+  }
+
+  /**
+   * Clear the selections in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the field is cleared
+   */
+  async clearField(fieldName: string, stateName?: string): Promise<void> {
+    const field = await this._getField(fieldName, stateName);
+    await field.clear();
+    this._trackState();
+  }
+
+  /**
+   * Lock the selections in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the field is locked
+   */
+  async lockField(fieldName: string, stateName?: string): Promise<void> {
+    const field = await this._getField(fieldName, stateName);
+    await field.lock();
+    this._trackState();
+  }
+
+  /**
+   * Unlock the selections in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the field is unlocked
+   */
+  async unlockField(fieldName: string, stateName?: string): Promise<void> {
+    const field = await this._getField(fieldName, stateName);
+    await field.unlock();
+    this._trackState();
+  }
+
+  /**
+   * Clear the selections in all fields
+   * 
+   * @param lockedAlso - Whether to clear locked fields too
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the selections are cleared
+   */
+  async clearAll(lockedAlso: boolean = false, stateName?: string): Promise<void> {
+    this._requireApp();
+    await this._app.clearAll(lockedAlso, toStateName(stateName));
+    this._trackState();
+  }
+
+  /**
+   * Lock the selections in all fields
+   * 
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the selections are locked
+   */
+  async lockAll(stateName?: string): Promise<void> {
+    this._requireApp();
+    await this._app.lockAll(toStateName(stateName));
+    this._trackState();
+  }
+
+  /**
+   * Unlock the selections in all fields
+   * 
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves when the selections are unlocked
+   */
+  async unlockAll(stateName?: string): Promise<void> {
+    this._requireApp();
+    await this._app.unlockAll(toStateName(stateName));
+    this._trackState();
+  }
+
+  /**
+   * Go back one step in the selection history
+   * 
+   * @returns Promise that resolves when the step is undone
+   */
+  async back(): Promise<void> {
+    this._requireApp();
+    await this._app.back();
+    this._trackState();
+  }
+
+  /**
+   * Go forward one step in the selection history
+   * 
+   * @returns Promise that resolves when the step is redone
+   */
+  async forward(): Promise<void> {
+    this._requireApp();
+    await this._app.forward();
+    this._trackState();
+  }
+
+  /**
+   * Get the current selections with their state counts
+   * 
+   * @param fieldName - Optional field to report state counts for even when it has no selections
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state
+   */
+  async getSelectionState(fieldName?: string, stateName?: string): Promise<SelectionState> {
+    const state = toStateName(stateName);
+    const object = await this.createSessionObject(buildCurrentSelectionsDef(state));
+
+    try {
+      const selectionState = toSelectionState(await object.getLayout(), state);
+
+      if (fieldName && !selectionState.selections.some(selection => selection.field === fieldName)) {
+        selectionState.field = { field: fieldName, counts: await this._getFieldStateCounts(fieldName, state) };
+      }
+
+      return selectionState;
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Open the enigma.js session and the app over the WebSocket connection
+   * 
+   * @returns Promise that resolves when the app is open
+   */
+  private async _openApp(): Promise<void> {
+    // Create enigma.js session
+    this._session = enigma.create({
+      schema,
+      url: this._config.url,
+      createSocket: (url: string) => {
+        // Return the existing WebSocket connection
+        return this._connection!;
+      }
+    });
+
+    // Open the session
+    this._global = await this._session.open();
+
+    // Open the app
+    this._app = await this._global.openDoc(this._config.appId);
+  }
+
+  /**
+   * Snapshot the selections and variables after they change
+   * 
+   * Snapshots are read in the background, one at a time, so callers do not
+   * wait for them; changes made while a snapshot is read trigger another.
+   */
+  private _trackState(): void {
+    this._stateChanged = true;
+
+    if (this._stateSnapshot || !this._isConnected) {
+      return;
+    }
+
+    this._stateSnapshot = (async () => {
+      while (this._stateChanged && this._isConnected) {
+        this._stateChanged = false;
+
+        // Keep the previous snapshot when the state cannot be read
+        this._lastState = await this.getState().catch(() => this._lastState);
+      }
+
+      this._stateSnapshot = null;
+    })();
+  }
+
+  /**
+   * Reopen the session and the app after the connection came back, and replay the last known state
+   * 
+   * @returns Promise that resolves when the session is resumed or closed
+   */
+  private async _resume(): Promise<void> {
+    try {
+      await this._openApp();
+    } catch (error) {
+      // The app cannot be reopened, so the session ends
+      this.emit('error', error);
+      await this.close().catch(() => {});
+      return;
+    }
+
+    this._isConnected = true;
+    this._suspended = false;
+
+    let replayed = false;
+
+    // Replay the selections and variables the engine lost with the previous session
+    if (this._lastState) {
+      try {
+        await this.setState(this._lastState);
+        replayed = true;
+      } catch (error) {
+        this.emit('error', error);
+      }
+    }
+
+    // Emit resumed event
+    this.emit('resumed', { replayed });
+  }
+
+  /**
+   * Throw if the session has no open app
+   */
+  private _requireApp(): void {
+    if (!this._isConnected || !this._app) {
+      throw new Error('Not connected to engine');
+    }
+  }
+
+  /**
+   * Get a field of the app
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Optional alternate state the field handle selects in
+   * @returns Promise that resolves with the enigma.js field
+   */
+  private async _getField(fieldName: string, stateName?: string): Promise<any> {
+    this._requireApp();
+
+    const field = await this._app.getField(fieldName, toStateName(stateName));
+
+    if (!field) {
+      throw new Error(`Field not found: ${fieldName}`);
+    }
+
+    return field;
+  }
+
+  /**
+   * Read the selected values of each field in a selection state
+   * 
+   * @param stateName - Name of the selection state
+   * @returns Promise that resolves with the field selections
+   */
+  private async _readSelectionSnapshot(stateName: string): Promise<FieldSelectionSnapshot[]> {
+    const current = await this.getSelectionState(undefined, stateName);
+    const selections: FieldSelectionSnapshot[] = [];
+
+    for (const selection of current.selections) {
+      const result = await this.searchFieldValues({
+        field: selection.field,
+        states: ['S', 'L'],
+        limit: Math.min(Math.max(selection.counts.selected, 1), MAX_VALUE_LIMIT),
+        stateName
+      });
+
+      selections.push({
+        field: selection.field,
+        values: result.values.map(value => value.number !== null ? value.number : value.text),
+        locked: selection.locked
+      });
+    }
+
+    return selections;
+  }
+
+  /**
+   * Replace the selections of a selection state
+   * 
+   * @param stateName - Name of the selection state
+   * @param selections - Field selections to apply
+   * @returns Promise that resolves when the selections are applied
+   */
+  private async _applySelectionSnapshot(stateName: string, selections: FieldSelectionSnapshot[]): Promise<void> {
+    // Locked fields would keep selections the state does not have
+    await this._app.clearAll(true, stateName);
+
+    for (const selection of selections) {
+      const field = await this._getField(selection.field, stateName);
+
+      if (selection.values.length > 0) {
+        await field.selectValues(toEngineFieldValues(selection.values), false, false);
+      } else if (selection.search) {
+        await field.select(selection.search, false, 0);
+      }
+
+      if (selection.locked) {
+        await field.lock();
+      }
+    }
+  }
+
+  /**
+   * Get the state counts of a field through a temporary list object
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Name of the selection state
+   * @returns Promise that resolves with the field state counts
+   */
+  private async _getFieldStateCounts(fieldName: string, stateName: string): Promise<FieldStateCounts> {
+    const object = await this.createSessionObject(buildFieldStateDef(fieldName, stateName));
+
+    try {
+      const layout = await object.getLayout();
+      const listObject = layout.qListObject;
+
+      return toFieldStateCounts(listObject.qDimensionInfo.qStateCounts, listObject.qSize.qcy);
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Open a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves with the enigma.js generic bookmark
+   */
+  private async _getBookmarkObject(id: string): Promise<any> {
+    this._requireApp();
+
+    let object;
+
+    try {
+      object = await this._app.getBookmark(id);
+    } catch (error) {
+      object = null;
+    }
+
+    if (!object) {
+      throw new Error(`Bookmark not found: ${id}`);
+    }
+
+    return object;
+  }
+
+  /**
+   * Open a master item
+   * 
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves with the enigma.js generic dimension, measure or object
+   */
+  private async _getMasterItemObject(type: MasterItemType, id: string): Promise<any> {
+    this._requireApp();
+
+    let object;
+
+    try {
+      object = type === 'measure'
+        ? await this._app.getMeasure(id)
+        : type === 'dimension'
+          ? await this._app.getDimension(id)
+          : await this._app.getObject(id);
+    } catch (error) {
+      object = null;
+    }
+
+    if (!object || (type === 'visualization' && object.genericType !== 'masterobject')) {
+      throw new Error(`Master ${type} not found: ${id}`);
+    }
+
+    return object;
+  }
+
+  /**
+   * Read an object of a sheet and the objects nested in it
+   * 
+   * Errors are kept on the visualization, so one broken object does not
+   * hide the rest of the sheet.
+   * 
+   * @param id - ID of the object
+   * @param parentId - ID of the container holding the object
+   * @param depth - Nesting depth of the object
+   * @param rows - Maximum number of data rows, or 0 to skip the data
+   * @param visualizations - Visualizations read so far
+   * @returns Promise that resolves when the object and its children are read
+   */
+  private async _readVisualization(
+    id: string,
+    parentId: string | undefined,
+    depth: number,
+    rows: number,
+    visualizations: Visualization[]
+  ): Promise<void> {
+    let object;
+    let properties;
+    let visualization: Visualization;
+
+    try {
+      object = await this._app.getObject(id);
+
+      const layout = await object.getLayout();
+
+      properties = await object.getEffectiveProperties();
+      visualization = await this._resolveLibraryItems(toVisualization(layout, properties));
+    } catch (error) {
+      visualizations.push({
+        id,
+        type: 'unknown',
+        title: '',
+        ...(parentId ? { parentId } : {}),
+        dimensions: [],
+        measures: [],
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    if (parentId) {
+      visualization.parentId = parentId;
+    }
+
+    visualizations.push(visualization);
+
+    const dataDef = buildVisualizationDataDef(properties);
+
+    if (rows > 0 && dataDef && getVisualizationColumns(visualization).length > 0) {
+      try {
+        visualization.data = await this._readVisualizationData(visualization, dataDef, rows);
+      } catch (error) {
+        visualization.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (depth >= MAX_OBJECT_DEPTH) {
+      return;
+    }
+
+    const childInfos = await object.getChildInfos().catch(() => []);
+
+    for (const info of childInfos) {
+      await this._readVisualization(info.qId, id, depth + 1, rows, visualizations);
+    }
+  }
+
+  /**
+   * Fill in the master items a visualization uses
+   * 
+   * @param visualization - Visualization read from its layout
+   * @returns Promise that resolves with the visualization and its master item definitions
+   */
+  private async _resolveLibraryItems(visualization: Visualization): Promise<Visualization> {
+    const references = [
+      ...visualization.dimensions.map(dimension => ({ type: 'dimension' as const, id: dimension.libraryId })),
+      ...visualization.measures.map(measure => ({ type: 'measure' as const, id: measure.libraryId }))
+    ];
+    const items: MasterItem[] = [];
+
+    for (const { type, id } of references) {
+      if (id) {
+        // Deleted master items leave the reference unresolved
+        const item = await this.getMasterItem(type, id).catch(() => null);
+
+        if (item) {
+          items.push(item);
+        }
+      }
+    }
+
+    return resolveLibraryItems(visualization, items);
+  }
+
+  /**
+   * Read the data of a visualization through a session object copy
+   * 
+   * @param visualization - Visualization with its columns
+   * @param dataDef - Properties from `buildVisualizationDataDef`
+   * @param rows - Maximum number of rows
+   * @returns Promise that resolves with the typed rows
+   */
+  private async _readVisualizationData(visualization: Visualization, dataDef: any, rows: number): Promise<HyperCubeResult> {
+    const object = await this.createSessionObject(dataDef);
+
+    try {
+      const layout = await object.getLayout();
+      const hyperCube = layout.qHyperCube;
+
+      if (hyperCube.qError) {
+        throw new Error(`Invalid hypercube (error ${hyperCube.qError.qErrorCode})`);
+      }
+
+      const header = { columns: getVisualizationColumns(visualization), totalRows: hyperCube.qSize.qcy };
+      const data: HyperCubeResult = { columns: header.columns, rows: [], totalRows: header.totalRows, truncated: false };
+
+      for await (const page of readHyperCubePages(object, header, rows)) {
+        data.rows.push(...page.rows);
+      }
+
+      data.truncated = data.rows.length < data.totalRows;
+
+      return data;
+    } finally {
+      await this.destroySessionObject(object.id).catch(() => {});
+    }
+  }
+
+  /**
+   * Get authentication headers based on auth type
+   * 
+   * @returns Authentication headers
+   */
+  private _getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    // Add auth headers based on auth type
+    if (this._config.authHeaders) {
+      // Use provided auth headers
+      Object.assign(headers, this._config.authHeaders);
+    } else {
+      // Add default headers based on auth type
+      switch (this._config.authType) {
+        case 'oauth2':
+          // OAuth2 headers would be added here
+          // This would typically be a Bearer token
+          break;
+        case 'jwt':
+          // JWT headers would be added here
+          break;
+        case 'apikey':
+          // API key headers would be added here
+          break;
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Handle WebSocket connection connected event
+   */
+  private _handleConnectionConnected(): void {
+    // The first connection is handled in the connect method
+    if (this._suspended) {
+      this._resume().catch((error) => {
+        this.emit('error', error);
+      });
+    }
+  }
+
+  /**
+   * Handle WebSocket connection disconnected event
+   * 
+   * @param event - Disconnected event
+   */
+  private _handleConnectionDisconnected(event: any): void {
+    // Closed sessions, and sessions still resuming, have nothing to suspend
+    if (!this._isConnected) {
+      return;
+    }
+
+    this._isConnected = false;
+    this._suspended = true;
+    this._session = null;
+    this._app = null;
+    this._global = null;
+
+    // Emit suspended event
+    this.emit('suspended', event);
+  }
+
+  /**
+   * Handle WebSocket connection reconnect failed event
+   * 
+   * @param event - Reconnect failed event
+   */
+  private _handleConnectionReconnectFailed(event: any): void {
+    this._suspended = false;
+    this._connection = null;
+
+    // Emit closed event
+    this.emit('closed', event);
   }
 
   /**
@@ -0,0 +1,806 @@
+/**
+ * Interface for a section (tab) of a load script
+ */
+export interface ScriptSection {
+  name: string;
+  line: number;
+  endLine: number;
+}
+
+/**
+ * Interface for a LOAD or SELECT statement
+ */
+export interface ScriptLoadStatement {
+  kind: 'load' | 'select';
+
+  /**
+   * Name of the table the statement creates, from its label or source
+   */
+  table?: string;
+  line: number;
+  endLine: number;
+  section: string;
+
+  /**
+   * Field names, with `*` for a star load
+   */
+  fields: string[];
+
+  /**
+   * File, table or resident table the statement reads from
+   */
+  source?: string;
+  sourceKind: 'file' | 'resident' | 'inline' | 'autogenerate' | 'database' | 'preceding';
+  prefixes: string[];
+}
+
+/**
+ * Interface for a data connection used by a load script
+ */
+export interface ScriptConnection {
+  kind: 'lib-connect' | 'connect' | 'lib-path';
+
+  /**
+   * Connection name, connect string or `lib://` path
+   */
+  target: string;
+  line: number;
+}
+
+/**
+ * Interface for a variable assigned by a load script
+ */
+export interface ScriptVariable {
+  name: string;
+  kind: 'set' | 'let';
+  value: string;
+  line: number;
+}
+
+/**
+ * Interface for a STORE statement
+ */
+export interface ScriptStore {
+  table: string;
+  path: string;
+  format?: string;
+  line: number;
+}
+
+/**
+ * Interface for a subroutine definition or call
+ */
+export interface ScriptSubroutine {
+  name: string;
+  line: number;
+}
+
+/**
+ * Type for the rules of the script linter
+ */
+export type ScriptRule = 'synthetic-key-risk' | 'unqualified-star-load' | 'temp-table-not-dropped' | 'hard-coded-path';
+
+/**
+ * Interface for a problem found in a load script
+ */
+export interface ScriptFinding {
+  rule: ScriptRule;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  section: string;
+  table?: string;
+}
+
+/**
+ * Interface for the analysis of a load script
+ */
+export interface ScriptAnalysis {
+  sections: ScriptSection[];
+  statements: ScriptLoadStatement[];
+  connections: ScriptConnection[];
+  variables: ScriptVariable[];
+  stores: ScriptStore[];
+  subroutines: ScriptSubroutine[];
+  calls: ScriptSubroutine[];
+  drops: Array<{ tables: string[]; line: number }>;
+  findings: ScriptFinding[];
+}
+
+/**
+ * Interface for a statement of the script, with comments blanked out
+ */
+interface RawStatement {
+  text: string;
+  line: number;
+  endLine: number;
+}
+
+/**
+ * Interface for a table the script creates, as tracked by the linter
+ */
+interface TrackedTable {
+  name: string;
+  fields: Set<string>;
+  line: number;
+  section: string;
+  mapping: boolean;
+  qualified: boolean;
+  dropped: boolean;
+  residentSource: boolean;
+}
+
+/**
+ * Control statements, which end at the end of their line instead of at a `;`
+ */
+const CONTROL_STATEMENT = /^(sub|end\s+sub|if|elseif|else|end\s+if|for|next|do|loop|switch|case|default|end\s+switch|exit\s+(sub|for|do))\b/i;
+
+/**
+ * Prefixes of LOAD and SELECT statements
+ */
+const LOAD_PREFIX = new RegExp('^(noconcatenate|concatenate(\\s*\\([^)]*\\))?|((left|right|inner|outer)\\s+)?' +
+  '(join|keep)(\\s*\\([^)]*\\))?|mapping|buffer(\\s*\\([^)]*\\))?|first\\s+\\S+|sample\\s+\\S+|' +
+  'crosstable\\s*\\([^)]*\\)|generic|hierarchy\\w*\\s*\\([^)]*\\)|intervalmatch\\s*\\([^)]*\\)|' +
+  '(add|replace|merge(\\s*\\([^)]*\\))?)(\\s+only)?|semantic)\\s+', 'i');
+
+/**
+ * Table label at the start of a statement; `lib://` paths are not labels
+ */
+const TABLE_LABEL = /^(\[[^\]]*\]|"[^"]*"|[A-Za-z_\u00C0-\uFFFF][\w.\u00C0-\uFFFF]*)\s*:(?!\/)/;
+
+/**
+ * Blank out the comments of a script, keeping its length and line breaks
+ * 
+ * `//` after a `:` starts a URL such as `lib://`, not a comment.
+ * 
+ * @param script - Script text
+ * @returns The script with comment characters replaced by spaces
+ */
+export function blankComments(script: string): string {
+  const chars = script.split('');
+  let quote: string | null = null;
+  let i = 0;
+  
+  const blank = (from: number, to: number): void => {
+    for (let j = from; j < to; j++) {
+      if (chars[j] !== '\n') {
+        chars[j] = ' ';
+      }
+    }
+  };
+  
+  while (i < chars.length) {
+    const char = chars[i];
+    
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+      i++;
+      continue;
+    }
+    
+    if (char === '\'' || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === '/' && chars[i + 1] === '/' && chars[i - 1] !== ':') {
+      const end = script.indexOf('\n', i);
+      const to = end === -1 ? chars.length : end;
+      blank(i, to);
+      i = to;
+      continue;
+    } else if (char === '/' && chars[i + 1] === '*') {
+      const end = script.indexOf('*/', i + 2);
+      const to = end === -1 ? chars.length : end + 2;
+      blank(i, to);
+      i = to;
+      continue;
+    }
+    
+    i++;
+  }
+  
+  return chars.join('');
+}
+
+/**
+ * Blank out quoted, bracketed and parenthesized text
+ * 
+ * The result has the same length as the text, so keywords and separators
+ * found at the top level of the mask can be sliced from the original.
+ * 
+ * @param text - Statement text
+ * @returns The masked text
+ */
+function maskNested(text: string): string {
+  let result = '';
+  let quote: string | null = null;
+  let depth = 0;
+  
+  for (const char of text) {
+    if (quote) {
+      result += char === quote ? char : ' ';
+      
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"' || char === '`' || char === '[') {
+      quote = char === '[' ? ']' : char;
+      result += char;
+    } else if (char === '(') {
+      depth++;
+      result += depth === 1 ? char : ' ';
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+      result += depth === 0 ? char : ' ';
+    } else {
+      result += depth > 0 ? ' ' : char;
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Split a list at its top-level commas
+ * 
+ * @param text - Comma-separated list
+ * @returns The trimmed, non-empty items
+ */
+function splitTopLevel(text: string): string[] {
+  const mask = maskNested(text);
+  const items: string[] = [];
+  let start = 0;
+  
+  for (let i = 0; i <= mask.length; i++) {
+    if (i === mask.length || mask[i] === ',') {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  
+  return items.filter(item => item !== '');
+}
+
+/**
+ * Remove the brackets or quotes around a name
+ * 
+ * @param name - Name, possibly quoted
+ * @returns The bare name
+ */
+function unquote(name: string): string {
+  const trimmed = name.trim();
+  
+  if (/^\[[\s\S]*\]$/.test(trimmed) || /^"[\s\S]*"$/.test(trimmed) || /^'[\s\S]*'$/.test(trimmed) ||
+    /^`[\s\S]*`$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  
+  return trimmed;
+}
+
+/**
+ * Get the field name of an item of a LOAD or SELECT field list
+ * 
+ * @param item - Field expression, possibly with an alias
+ * @param select - Whether the item is from a SELECT, where columns may be table-qualified
+ * @returns The field name
+ */
+function toFieldName(item: string, select: boolean): string {
+  const mask = maskNested(item);
+  const aliases = Array.from(mask.matchAll(/\sas\s/gi));
+  
+  if (aliases.length > 0) {
+    const alias = aliases[aliases.length - 1];
+    return unquote(item.slice((alias.index as number) + alias[0].length));
+  }
+  
+  const name = unquote(item);
+  
+  if (select && /^[\w.]+$/.test(name)) {
+    return name.split('.').pop() as string;
+  }
+  
+  return name;
+}
+
+/**
+ * Read a source token, such as a file path or table name, at the start of a text
+ * 
+ * @param text - Text starting with the source
+ * @returns The source without brackets or quotes
+ */
+function readSource(text: string): string {
+  const trimmed = text.trim();
+  const match = /^(\[[^\]]*\]|'[^']*'|"[^"]*"|`[^`]*`|[^\s(;]+)/.exec(trimmed);
+  
+  return match ? unquote(match[1]) : '';
+}
+
+/**
+ * Split a script into statements
+ * 
+ * Statements end at a `;` outside quotes and brackets, and control
+ * statements such as `SUB` and `IF ... THEN` also end at the end of their
+ * line.
+ * 
+ * @param code - Script text with comments blanked out
+ * @param lineAt - Function that returns the line of an offset
+ * @returns The statements
+ */
+function splitStatements(code: string, lineAt: (offset: number) => number): RawStatement[] {
+  const statements: RawStatement[] = [];
+  let start = -1;
+  let control = false;
+  let quote: string | null = null;
+  
+  const end = (to: number): void => {
+    const text = code.slice(start, to).trim();
+    
+    if (text !== '') {
+      statements.push({ text, line: lineAt(start), endLine: lineAt(Math.max(start, to - 1)) });
+    }
+    
+    start = -1;
+    control = false;
+  };
+  
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    
+    if (start === -1) {
+      if (/\s/.test(char) || char === ';') {
+        continue;
+      }
+      
+      start = i;
+      control = CONTROL_STATEMENT.test(code.slice(i, i + 20));
+    }
+    
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === ';' || (control && char === '\n')) {
+      end(i);
+    }
+  }
+  
+  if (start !== -1) {
+    end(code.length);
+  }
+  
+  return statements;
+}
+
+/**
+ * Find the sections of a script from its `///$tab` markers
+ * 
+ * @param lines - Script lines
+ * @returns The sections; a script without markers has a single `Main` section
+ */
+function findSections(lines: string[]): ScriptSection[] {
+  const sections: ScriptSection[] = [];
+  
+  lines.forEach((line, index) => {
+    const match = /^\s*\/\/\/\$tab\s+(.*)$/.exec(line);
+    
+    if (match) {
+      if (sections.length > 0) {
+        sections[sections.length - 1].endLine = index;
+      }
+      
+      sections.push({ name: match[1].trim(), line: index + 1, endLine: lines.length });
+    }
+  });
+  
+  if (sections.length === 0 || (sections[0].line > 1 && lines.slice(0, sections[0].line - 1).some(line => line.trim()))) {
+    sections.unshift({ name: 'Main', line: 1, endLine: sections.length > 0 ? sections[0].line - 1 : lines.length });
+  }
+  
+  return sections;
+}
+
+/**
+ * Find the `lib://` paths in a statement
+ * 
+ * @param text - Statement text
+ * @returns The paths
+ */
+function findLibPaths(text: string): string[] {
+  const paths: string[] = [];
+  const pattern = /lib:\/\//gi;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(text)) !== null) {
+    const before = text[match.index - 1];
+    const close = before === '[' ? ']' : before === '\'' || before === '"' ? before : null;
+    const rest = text.slice(match.index);
+    const end = close ? rest.indexOf(close) : rest.search(/[\s;,)]/);
+    
+    paths.push(end === -1 ? rest : rest.slice(0, end));
+  }
+  
+  return paths;
+}
+
+/**
+ * Check whether a path is an absolute file system or network path
+ * 
+ * @param path - Path to check
+ * @returns Whether the path is hard-coded
+ */
+function isHardCodedPath(path: string): boolean {
+  return /^[a-zA-Z]:[\\/]/.test(path) || /^\\\\/.test(path) || /^\/(?!\/)/.test(path) || /^https?:\/\//i.test(path);
+}
+
+/**
+ * Check whether a table name marks a temporary table
+ * 
+ * @param name - Table name
+ * @returns Whether the name looks temporary
+ */
+function isTempName(name: string): boolean {
+  return /(^|[^a-zA-Z])(temp|tmp)([^a-zA-Z]|$)/i.test(name) || /^(Temp|TEMP|Tmp|TMP)(?=[A-Z0-9_ ])/.test(name);
+}
+
+/**
+ * Analyze a load script
+ * 
+ * Parses the script text without an engine: splits it into sections and
+ * statements, extracts loads, connections, variables, stores and
+ * subroutines, and lints it for common data model problems. The parser
+ * follows the common statement forms, so unusual constructs may be missed
+ * but do not fail the analysis.
+ * 
+ * @param script - Script text
+ * @returns The analysis, with line numbers starting at 1
+ */
+export function analyzeScript(script: string): ScriptAnalysis {
+  const lines = script.split('\n');
+  const lineStarts: number[] = [0];
+  
+  for (let i = 0; i < script.length; i++) {
+    if (script[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    
+    return low + 1;
+  };
+  
+  const sections = findSections(lines);
+  const sectionAt = (line: number): string => {
+    const section = sections.filter(candidate => candidate.line <= line).pop();
+    return section ? section.name : 'Main';
+  };
+  
+  const analysis: ScriptAnalysis = {
+    sections,
+    statements: [],
+    connections: [],
+    variables: [],
+    stores: [],
+    subroutines: [],
+    calls: [],
+    drops: [],
+    findings: []
+  };
+  
+  const tables: TrackedTable[] = [];
+  const findTable = (name: string): TrackedTable | undefined =>
+    tables.filter(table => table.name.toLowerCase() === name.toLowerCase()).pop();
+  let qualifyAll = false;
+  let chain: ScriptLoadStatement[] = [];
+  let chainLabel: string | undefined;
+  
+  for (const statement of splitStatements(blankComments(script), lineAt)) {
+    const section = sectionAt(statement.line);
+    
+    for (const path of findLibPaths(statement.text)) {
+      analysis.connections.push({ kind: 'lib-path', target: path, line: statement.line });
+    }
+    
+    let body = statement.text;
+    let label: string | undefined;
+    const labelMatch = TABLE_LABEL.exec(body);
+    
+    if (labelMatch) {
+      label = unquote(labelMatch[1]);
+      body = body.slice(labelMatch[0].length).trim();
+    }
+    
+    const prefixes: string[] = [];
+    let prefixMatch: RegExpExecArray | null;
+    
+    while ((prefixMatch = LOAD_PREFIX.exec(body)) !== null) {
+      prefixes.push(prefixMatch[1].replace(/\s+/g, ' ').trim());
+      body = body.slice(prefixMatch[0].length).trim();
+    }
+    
+    const keyword = /^(sql\s+select|select|load|set|let|lib\s+connect|(odbc|oledb|custom)?\s*connect(32|64)?|store|drop|call|sub|qualify|unqualify)\b/i
+      .exec(body);
+    const command = keyword ? keyword[1].toLowerCase().replace(/\s+/g, ' ') : '';
+    
+    if (command === 'load' || command === 'select' || command === 'sql select') {
+      const isSelect = command !== 'load';
+      const rest = body.slice(keyword![0].length);
+      const mask = maskNested(rest);
+      const clause = isSelect
+        ? /\b(from)\b/i.exec(mask)
+        : /\b(from|resident|inline|autogenerate|extension|where|while|group\s+by|order\s+by)\b/i.exec(mask);
+      const fieldText = (clause ? rest.slice(0, clause.index) : rest).replace(/^\s*distinct\b/i, '');
+      const load: ScriptLoadStatement = {
+        kind: isSelect ? 'select' : 'load',
+        line: statement.line,
+        endLine: statement.endLine,
+        section,
+        fields: splitTopLevel(fieldText).map(item => item === '*' ? '*' : toFieldName(item, isSelect)),
+        sourceKind: 'preceding',
+        prefixes
+      };
+      
+      if (clause) {
+        const after = rest.slice(clause.index + clause[0].length);
+        const clauseKeyword = clause[1].toLowerCase();
+        
+        if (isSelect) {
+          load.sourceKind = 'database';
+          load.source = readSource(after);
+        } else if (clauseKeyword === 'from') {
+          load.sourceKind = 'file';
+          load.source = readSource(after);
+        } else if (clauseKeyword === 'resident') {
+          load.sourceKind = 'resident';
+          load.source = readSource(after);
+        } else if (clauseKeyword === 'inline') {
+          load.sourceKind = 'inline';
+          
+          // The first line of inline data holds the field names
+          const header = /^\s*[[\x22'`]\s*([^\n]*)/.exec(after);
+          
+          if (header && load.fields.includes('*')) {
+            load.fields = splitTopLevel(header[1].replace(/[\]\x22'`]\s*$/, '')).map(unquote);
+          }
+        } else if (clauseKeyword === 'autogenerate') {
+          load.sourceKind = 'autogenerate';
+        }
+      }
+      
+      if (chain.length === 0) {
+        chainLabel = label;
+      }
+      
+      chain.push(load);
+      
+      if (load.sourceKind === 'preceding') {
+        analysis.statements.push(load);
+        continue;
+      }
+      
+      // A preceding load chain ends with the statement that reads a source
+      const top = chain[0];
+      const topPrefixes = top.prefixes.map(prefix => prefix.toLowerCase());
+      let fields = new Set<string>();
+      
+      for (const link of chain.slice().reverse()) {
+        const own = link.fields.filter(field => field !== '*');
+        fields = link.fields.includes('*') ? new Set([...fields, ...own]) : new Set(own);
+      }
+      
+      const name = chainLabel || (load.source ? load.source.split(/[\\/]/).pop()!.replace(/\.\w+$/, '') : undefined);
+      
+      for (const link of chain) {
+        link.table = name;
+      }
+      
+      analysis.statements.push(load);
+      
+      if (load.sourceKind === 'resident' && load.source) {
+        const source = findTable(load.source);
+        
+        if (source) {
+          source.residentSource = true;
+        }
+      }
+      
+      for (const link of chain) {
+        if (link.sourceKind !== 'preceding' && link.sourceKind !== 'inline' && link.sourceKind !== 'autogenerate' &&
+          link.fields.includes('*') && !qualifyAll) {
+          analysis.findings.push({
+            rule: 'unqualified-star-load',
+            severity: 'warning',
+            message: `${link.kind.toUpperCase()} * from ${link.source} loads every source field; list the fields ` +
+              'or qualify them to avoid unexpected associations',
+            line: link.line,
+            section: link.section,
+            table: name
+          });
+        }
+      }
+      
+      if (load.source && load.sourceKind === 'file' && isHardCodedPath(load.source)) {
+        analysis.findings.push({
+          rule: 'hard-coded-path',
+          severity: 'error',
+          message: `Hard-coded path ${load.source}; use a lib:// data connection`,
+          line: load.line,
+          section,
+          table: name
+        });
+      }
+      
+      const join = topPrefixes.find(prefix => /\b(join|keep)\b/.test(prefix));
+      const concatenate = topPrefixes.find(prefix => prefix.startsWith('concatenate'));
+      const target = (join || concatenate || '').match(/\(([^)]*)\)/);
+      
+      if (join || concatenate) {
+        const existing = target ? findTable(unquote(target[1])) : tables[tables.length - 1];
+        
+        if (existing && join) {
+          fields.forEach(field => existing.fields.add(field));
+        }
+      } else if (name) {
+        const identical = !topPrefixes.includes('noconcatenate') && tables.find(table =>
+          !table.dropped && table.fields.size === fields.size && [...fields].every(field => table.fields.has(field)));
+        
+        // Tables with the same fields are concatenated automatically
+        if (!identical || fields.size === 0) {
+          tables.push({
+            name,
+            fields,
+            line: top.line,
+            section: top.section,
+            mapping: topPrefixes.includes('mapping'),
+            qualified: qualifyAll,
+            dropped: false,
+            residentSource: false
+          });
+        }
+      }
+      
+      chain = [];
+      chainLabel = undefined;
+      continue;
+    }
+    
+    // A chain interrupted by another statement was not a preceding load
+    chain = [];
+    chainLabel = undefined;
+    
+    if (command === 'set' || command === 'let') {
+      const match = /^(set|let)\s+([^=]+?)\s*=\s*([\s\S]*)$/i.exec(body);
+      
+      if (match) {
+        analysis.variables.push({
+          name: match[2].trim(),
+          kind: command as 'set' | 'let',
+          value: match[3].trim(),
+          line: statement.line
+        });
+      }
+    } else if (command === 'lib connect') {
+      analysis.connections.push({
+        kind: 'lib-connect',
+        target: readSource(body.replace(/^lib\s+connect\s+to\s+/i, '')),
+        line: statement.line
+      });
+    } else if (command.endsWith('connect') || /connect(32|64)$/.test(command)) {
+      analysis.connections.push({
+        kind: 'connect',
+        target: body.replace(/^[\w\s]*?connect(32|64)?\s+(to\s+)?/i, '').trim(),
+        line: statement.line
+      });
+    } else if (command === 'store') {
+      const match = /^store\s+(?:[\s\S]+?\s+from\s+)?(\[[^\]]+\]|"[^"]+"|\S+)\s+into\s+(\[[^\]]+\]|'[^']+'|"[^"]+"|[^\s(]+)\s*(?:\(\s*(\w+)\s*\))?/i
+        .exec(body);
+      
+      if (match) {
+        const store: ScriptStore = { table: unquote(match[1]), path: unquote(match[2]), line: statement.line };
+        
+        if (match[3]) {
+          store.format = match[3].toLowerCase();
+        }
+        
+        analysis.stores.push(store);
+        
+        if (isHardCodedPath(store.path)) {
+          analysis.findings.push({
+            rule: 'hard-coded-path',
+            severity: 'error',
+            message: `Hard-coded path ${store.path}; use a lib:// data connection`,
+            line: statement.line,
+            section,
+            table: store.table
+          });
+        }
+      }
+    } else if (command === 'drop') {
+      const match = /^drop\s+tables?\s+([\s\S]+)$/i.exec(body);
+      
+      if (match) {
+        const dropped = splitTopLevel(match[1]).map(unquote);
+        
+        analysis.drops.push({ tables: dropped, line: statement.line });
+        
+        for (const name of dropped) {
+          tables.filter(table => table.name.toLowerCase() === name.toLowerCase())
+            .forEach(table => {
+              table.dropped = true;
+            });
+        }
+      }
+    } else if (command === 'call') {
+      analysis.calls.push({ name: readSource(body.replace(/^call\s+/i, '')), line: statement.line });
+    } else if (command === 'sub') {
+      analysis.subroutines.push({ name: readSource(body.replace(/^sub\s+/i, '')), line: statement.line });
+    } else if (command === 'qualify' && /^qualify\s+\*/i.test(body)) {
+      qualifyAll = true;
+    } else if (command === 'unqualify' && /^unqualify\s+\*/i.test(body)) {
+      qualifyAll = false;
+    }
+  }
+  
+  const remaining = tables.filter(table => !table.dropped && !table.mapping);
+  
+  for (const table of remaining) {
+    if (isTempName(table.name) || table.residentSource) {
+      analysis.findings.push({
+        rule: 'temp-table-not-dropped',
+        severity: 'warning',
+        message: `Table ${table.name} ` +
+          (table.residentSource ? 'is loaded resident into another table' : 'looks temporary') +
+          ' but is never dropped; add DROP TABLE [' + table.name + '] once it is no longer needed',
+        line: table.line,
+        section: table.section,
+        table: table.name
+      });
+    }
+  }
+  
+  // Tables that share more than one field get a synthetic key
+  remaining.forEach((table, index) => {
+    if (table.qualified) {
+      return;
+    }
+    
+    for (const other of remaining.slice(0, index)) {
+      const shared = other.qualified ? [] : [...table.fields].filter(field => other.fields.has(field));
+      
+      if (shared.length > 1) {
+        analysis.findings.push({
+          rule: 'synthetic-key-risk',
+          severity: 'warning',
+          message: `Tables ${other.name} and ${table.name} share the fields ${shared.join(', ')}, which creates ` +
+            'a synthetic key; rename fields or build a single key field',
+          line: table.line,
+          section: table.section,
+          table: table.name
+        });
+      }
+    }
+  });
+  
+  analysis.findings.sort((a, b) => a.line - b.line);
+  
+  return analysis;
+}
@@ -0,0 +1,575 @@
+import { analyzeScript, blankComments, ScriptLoadStatement, ScriptSection, ScriptVariable } from './script-analysis';
+
+/**
+ * Number of unchanged lines shown around each change of a unified diff
+ */
+export const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Number of line edits after which sections are compared as a whole
+ * 
+ * The line diff keeps its search state for every edit, so memory grows with
+ * the square of the edits; larger changes fall back to a coarse diff.
+ */
+export const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Interface for the comparison of a script section
+ */
+export interface ScriptSectionDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+
+  /**
+   * First line of the section in the base script
+   */
+  baseLine?: number;
+
+  /**
+   * First line of the section in the target script
+   */
+  targetLine?: number;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Interface for a table whose LOAD or SELECT statements were added, removed or changed
+ */
+export interface ScriptLoadChange {
+  table: string;
+  section: string;
+
+  /**
+   * First line of the table's statements, in the target script unless it was removed
+   */
+  line: number;
+  addedFields: string[];
+  removedFields: string[];
+
+  /**
+   * Sources the table reads from in each script
+   */
+  sources: { base: string[]; target: string[] };
+}
+
+/**
+ * Interface for a variable that was added, removed or changed
+ */
+export interface ScriptVariableChange {
+  name: string;
+
+  /**
+   * Line of the last assignment, in the target script unless it was removed
+   */
+  line: number;
+
+  /**
+   * Last assigned value in each script
+   */
+  base?: string;
+  target?: string;
+}
+
+/**
+ * Interface for the semantic changes between two scripts
+ */
+export interface ScriptDiffSummary {
+  loads: {
+    added: ScriptLoadChange[];
+    removed: ScriptLoadChange[];
+    changed: ScriptLoadChange[];
+  };
+  variables: {
+    added: ScriptVariableChange[];
+    removed: ScriptVariableChange[];
+    changed: ScriptVariableChange[];
+  };
+}
+
+/**
+ * Interface for the comparison of two scripts
+ */
+export interface ScriptDiff {
+  identical: boolean;
+
+  /**
+   * Unified diff from the base to the target script
+   */
+  diff: string;
+  sections: ScriptSectionDiff[];
+  summary: ScriptDiffSummary;
+}
+
+/**
+ * Interface for the labels of the compared scripts in a unified diff
+ */
+export interface ScriptDiffLabels {
+  base: string;
+  target: string;
+}
+
+/**
+ * Interface for where a compared script comes from
+ * 
+ * A source is script text, the saved script of an app, the current script
+ * of a context, or the script snapshot of a state saved in a context.
+ */
+export interface ScriptSource {
+  script?: string;
+  appId?: string;
+
+  /**
+   * Context to read the script or the saved state from
+   */
+  contextId?: string;
+  stateId?: string;
+}
+
+/**
+ * Interface for a line of a line diff
+ */
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Interface for the statements of a table in one script
+ */
+interface TableLoads {
+  section: string;
+  line: number;
+  fields: string[];
+  sources: string[];
+  definition: string;
+}
+
+/**
+ * Check the source of a compared script
+ * 
+ * @param value - Source to check
+ * @param role - Role of the script in the comparison, such as `base`, for errors
+ * @returns The script source
+ */
+export function toScriptSource(value: any, role: string): ScriptSource {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${role} must be an object with a script, appId, contextId or stateId`);
+  }
+  
+  const { script, appId, contextId, stateId } = value;
+  const kinds = [script !== undefined, appId !== undefined, contextId !== undefined || stateId !== undefined];
+  
+  if (kinds.filter(Boolean).length !== 1) {
+    throw new Error(`${role} must have exactly one of script, appId, or contextId with an optional stateId`);
+  }
+  
+  for (const [name, property] of Object.entries({ script, appId, contextId, stateId })) {
+    if (property !== undefined && typeof property !== 'string') {
+      throw new Error(`${role} ${name} must be a string`);
+    }
+  }
+  
+  return { script, appId, contextId, stateId };
+}
+
+/**
+ * Describe the source of a compared script for the unified diff header
+ * 
+ * @param source - Script source
+ * @param role - Role of the script in the comparison, used for script text
+ * @returns The label
+ */
+export function describeScriptSource(source: ScriptSource, role: string): string {
+  if (source.appId) {
+    return `app/${source.appId}`;
+  }
+  
+  if (source.stateId) {
+    return `state/${source.stateId}`;
+  }
+  
+  return source.contextId ? `context/${source.contextId}` : role;
+}
+
+/**
+ * Split a script into lines
+ * 
+ * @param script - Script text
+ * @returns The lines, without line breaks
+ */
+function toLines(script: string): string[] {
+  return script.split('\n').map(line => line.replace(/\r$/, ''));
+}
+
+/**
+ * Diff two lists of lines as a whole, keeping only their common first and last lines
+ * 
+ * @param a - Base lines
+ * @param b - Target lines
+ * @returns The diff lines in order
+ */
+function coarseDiffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  let end = 0;
+  
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++;
+  }
+  
+  return [
+    ...a.slice(0, start).map(text => ({ op: ' ' as const, text })),
+    ...a.slice(start, a.length - end).map(text => ({ op: '-' as const, text })),
+    ...b.slice(start, b.length - end).map(text => ({ op: '+' as const, text })),
+    ...a.slice(a.length - end).map(text => ({ op: ' ' as const, text }))
+  ];
+}
+
+/**
+ * Diff two lists of lines with the Myers algorithm
+ * 
+ * @param a - Base lines
+ * @param b - Target lines
+ * @returns The diff lines in order
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  
+  // Each trace entry keeps the diagonals -d-1..d+1 as they were before step d
+  const trace: Int32Array[] = [];
+  
+  search:
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_DIFF_EDITS) {
+      return coarseDiffLines(a, b);
+    }
+    
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      
+      v[offset + k] = x;
+      
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+  
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number): number => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    
+    while (x > prevX && y > prevY) {
+      lines.push({ op: ' ', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    
+    if (d > 0) {
+      lines.push(x === prevX ? { op: '+', text: b[prevY] } : { op: '-', text: a[prevX] });
+      x = prevX;
+      y = prevY;
+    }
+  }
+  
+  return lines.reverse();
+}
+
+/**
+ * Format the hunks of a line diff
+ * 
+ * @param lines - Diff lines
+ * @param baseStart - Line of the first base line in the whole base script
+ * @param targetStart - Line of the first target line in the whole target script
+ * @param heading - Text after each hunk header, such as the section name
+ * @returns The hunk text lines
+ */
+function toHunks(lines: DiffLine[], baseStart: number, targetStart: number, heading: string): string[] {
+  const output: string[] = [];
+  const changes = lines.map((line, index) => line.op !== ' ' ? index : -1).filter(index => index !== -1);
+  let i = 0;
+  
+  while (i < changes.length) {
+    let last = i;
+    
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * DIFF_CONTEXT_LINES) {
+      last++;
+    }
+    
+    const from = Math.max(0, changes[i] - DIFF_CONTEXT_LINES);
+    const to = Math.min(lines.length, changes[last] + DIFF_CONTEXT_LINES + 1);
+    const before = lines.slice(0, from);
+    const hunk = lines.slice(from, to);
+    const baseBefore = before.filter(line => line.op !== '+').length;
+    const targetBefore = before.filter(line => line.op !== '-').length;
+    const baseCount = hunk.filter(line => line.op !== '+').length;
+    const targetCount = hunk.filter(line => line.op !== '-').length;
+    
+    // An empty range starts at the line before it, as in other unified diffs
+    const baseLine = baseStart + baseBefore - (baseCount === 0 ? 1 : 0);
+    const targetLine = targetStart + targetBefore - (targetCount === 0 ? 1 : 0);
+    
+    output.push(`@@ -${baseLine},${baseCount} +${targetLine},${targetCount} @@ ${heading}`);
+    hunk.forEach(line => output.push(line.op + line.text));
+    
+    i = last + 1;
+  }
+  
+  return output;
+}
+
+/**
+ * Key the sections of a script by name, numbering repeated names
+ * 
+ * @param sections - Script sections
+ * @returns The sections by key
+ */
+function keySections(sections: ScriptSection[]): Array<{ key: string; section: ScriptSection }> {
+  const counts = new Map<string, number>();
+  
+  return sections.map(section => {
+    const count = (counts.get(section.name) || 0) + 1;
+    counts.set(section.name, count);
+    
+    return { key: count > 1 ? `${section.name}#${count}` : section.name, section };
+  });
+}
+
+/**
+ * Group the LOAD and SELECT statements of a script by table
+ * 
+ * @param statements - Statements of the script analysis
+ * @param code - Script lines with comments blanked out
+ * @returns The statements of each table
+ */
+function groupLoads(statements: ScriptLoadStatement[], code: string[]): Map<string, TableLoads> {
+  const tables = new Map<string, TableLoads>();
+  
+  for (const statement of statements) {
+    if (!statement.table) {
+      continue;
+    }
+    
+    const definition = code.slice(statement.line - 1, statement.endLine).join(' ').replace(/\s+/g, ' ').trim();
+    const table = tables.get(statement.table);
+    
+    if (table) {
+      statement.fields.filter(field => !table.fields.includes(field)).forEach(field => table.fields.push(field));
+      
+      if (statement.source && !table.sources.includes(statement.source)) {
+        table.sources.push(statement.source);
+      }
+      
+      table.definition += ` ${definition}`;
+    } else {
+      tables.set(statement.table, {
+        section: statement.section,
+        line: statement.line,
+        fields: [...statement.fields],
+        sources: statement.source ? [statement.source] : [],
+        definition
+      });
+    }
+  }
+  
+  return tables;
+}
+
+/**
+ * Compare the LOAD and SELECT statements of two scripts by table
+ * 
+ * A table changes when its fields, its sources or the text of its
+ * statements change, ignoring comments and whitespace.
+ * 
+ * @param base - Tables of the base script
+ * @param target - Tables of the target script
+ * @returns The added, removed and changed tables
+ */
+function compareLoads(base: Map<string, TableLoads>, target: Map<string, TableLoads>): ScriptDiffSummary['loads'] {
+  const loads: ScriptDiffSummary['loads'] = { added: [], removed: [], changed: [] };
+  
+  for (const [table, loadsOf] of target) {
+    const previous = base.get(table);
+    const change: ScriptLoadChange = {
+      table,
+      section: loadsOf.section,
+      line: loadsOf.line,
+      addedFields: loadsOf.fields.filter(field => !previous || !previous.fields.includes(field)),
+      removedFields: previous ? previous.fields.filter(field => !loadsOf.fields.includes(field)) : [],
+      sources: { base: previous ? previous.sources : [], target: loadsOf.sources }
+    };
+    
+    if (!previous) {
+      loads.added.push(change);
+    } else if (previous.definition !== loadsOf.definition) {
+      loads.changed.push(change);
+    }
+  }
+  
+  for (const [table, loadsOf] of base) {
+    if (!target.has(table)) {
+      loads.removed.push({
+        table,
+        section: loadsOf.section,
+        line: loadsOf.line,
+        addedFields: [],
+        removedFields: loadsOf.fields,
+        sources: { base: loadsOf.sources, target: [] }
+      });
+    }
+  }
+  
+  return loads;
+}
+
+/**
+ * Compare the variables of two scripts by name
+ * 
+ * @param base - Variables of the base script
+ * @param target - Variables of the target script
+ * @returns The added, removed and changed variables
+ */
+function compareVariables(base: ScriptVariable[], target: ScriptVariable[]): ScriptDiffSummary['variables'] {
+  const variables: ScriptDiffSummary['variables'] = { added: [], removed: [], changed: [] };
+  const assignments = (list: ScriptVariable[]): Map<string, ScriptVariable[]> => {
+    const byName = new Map<string, ScriptVariable[]>();
+    list.forEach(variable => byName.set(variable.name, [...(byName.get(variable.name) || []), variable]));
+    return byName;
+  };
+  const baseVariables = assignments(base);
+  const targetVariables = assignments(target);
+  const describe = (list: ScriptVariable[]): string => list.map(variable => `${variable.kind} ${variable.value}`).join('\n');
+  
+  for (const [name, list] of targetVariables) {
+    const previous = baseVariables.get(name);
+    const last = list[list.length - 1];
+    
+    if (!previous) {
+      variables.added.push({ name, line: last.line, target: last.value });
+    } else if (describe(previous) !== describe(list)) {
+      variables.changed.push({ name, line: last.line, base: previous[previous.length - 1].value, target: last.value });
+    }
+  }
+  
+  for (const [name, list] of baseVariables) {
+    if (!targetVariables.has(name)) {
+      const last = list[list.length - 1];
+      variables.removed.push({ name, line: last.line, base: last.value });
+    }
+  }
+  
+  return variables;
+}
+
+/**
+ * Compare two load scripts section by section
+ * 
+ * Sections are matched by name, so a section that moved between tabs is
+ * compared with itself. The unified diff holds one group of hunks per
+ * section, with line numbers in the whole scripts and the section name
+ * after each hunk header.
+ * 
+ * @param base - Base script text, such as the production app
+ * @param target - Target script text, such as the development app
+ * @param labels - Labels of the scripts in the unified diff header
+ * @returns The unified diff, the section comparison and the semantic summary
+ */
+export function diffScripts(base: string, target: string, labels: ScriptDiffLabels = { base: 'base', target: 'target' }): ScriptDiff {
+  const baseAnalysis = analyzeScript(base);
+  const targetAnalysis = analyzeScript(target);
+  const baseLines = toLines(base);
+  const targetLines = toLines(target);
+  const baseSections = keySections(baseAnalysis.sections);
+  const targetSections = keySections(targetAnalysis.sections);
+  const sections: ScriptSectionDiff[] = [];
+  const hunks: string[] = [];
+  let nextBase = 0;
+  
+  const compare = (baseSection: ScriptSection | undefined, targetSection: ScriptSection | undefined): void => {
+    const from = baseSection ? baseLines.slice(baseSection.line - 1, baseSection.endLine) : [];
+    const to = targetSection ? targetLines.slice(targetSection.line - 1, targetSection.endLine) : [];
+    const lines = diffLines(from, to);
+    const additions = lines.filter(line => line.op === '+').length;
+    const deletions = lines.filter(line => line.op === '-').length;
+    const name = (targetSection || baseSection as ScriptSection).name;
+    const sectionDiff: ScriptSectionDiff = {
+      name,
+      status: !baseSection ? 'added' : !targetSection ? 'removed' : additions + deletions > 0 ? 'changed' : 'unchanged',
+      additions,
+      deletions
+    };
+    
+    if (baseSection) {
+      sectionDiff.baseLine = baseSection.line;
+    }
+    
+    if (targetSection) {
+      sectionDiff.targetLine = targetSection.line;
+    }
+    
+    sections.push(sectionDiff);
+    hunks.push(...toHunks(lines, baseSection ? baseSection.line : 1, targetSection ? targetSection.line : 1, name));
+  };
+  
+  // Removed sections are listed where they were in the base script
+  const flushRemoved = (until: number): void => {
+    for (; nextBase < until; nextBase++) {
+      if (!targetSections.some(entry => entry.key === baseSections[nextBase].key)) {
+        compare(baseSections[nextBase].section, undefined);
+      }
+    }
+  };
+  
+  for (const { key, section } of targetSections) {
+    const index = baseSections.findIndex(entry => entry.key === key);
+    
+    if (index !== -1) {
+      flushRemoved(index);
+      nextBase = Math.max(nextBase, index + 1);
+    }
+    
+    compare(index !== -1 ? baseSections[index].section : undefined, section);
+  }
+  
+  flushRemoved(baseSections.length);
+  
+  const baseCode = toLines(blankComments(base));
+  const targetCode = toLines(blankComments(target));
+  const identical = base === target;
+  
+  return {
+    identical,
+    diff: hunks.length > 0 ? [`--- ${labels.base}`, `+++ ${labels.target}`, ...hunks].join('\n') + '\n' : '',
+    sections,
+    summary: {
+      loads: compareLoads(groupLoads(baseAnalysis.statements, baseCode), groupLoads(targetAnalysis.statements, targetCode)),
+      variables: compareVariables(baseAnalysis.variables, targetAnalysis.variables)
+    }
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Interval between reload progress polls in milliseconds
+ */
+export const RELOAD_PROGRESS_INTERVAL = 1000;
+
+/**
+ * Interface for a syntax error in a load script
+ */
+export interface ScriptError {
+  /**
+   * Line of the error in the whole script, starting at 1
+   */
+  line: number;
+
+  /**
+   * Column of the error in its line, starting at 1
+   */
+  column: number;
+  length: number;
+
+  /**
+   * Index of the script tab, starting at 0
+   */
+  tab: number;
+
+  /**
+   * Line of the error in its tab, starting at 1
+   */
+  lineInTab: number;
+
+  /**
+   * Text of the line with the error
+   */
+  text: string;
+
+  /**
+   * Whether the error follows from an earlier error
+   */
+  secondary: boolean;
+}
+
+/**
+ * Interface for the options of an engine-side reload
+ */
+export interface ReloadOptions {
+  /**
+   * Only run the Add, Replace and Merge statements of the script
+   */
+  partial?: boolean;
+
+  /**
+   * Save the app when the reload succeeds
+   */
+  save?: boolean;
+}
+
+/**
+ * Interface for an error reported during a reload
+ */
+export interface ReloadError {
+  message: string;
+
+  /**
+   * Script statement that failed
+   */
+  statement?: string;
+  code?: string;
+}
+
+/**
+ * Interface for the progress of a reload
+ */
+export interface ReloadProgress {
+  finished: boolean;
+
+  /**
+   * Log lines reported since the previous progress
+   */
+  messages: string[];
+
+  /**
+   * Current transient status, such as the number of rows fetched so far
+   */
+  status: string;
+  errors: ReloadError[];
+}
+
+/**
+ * Interface for the result of a reload
+ */
+export interface ReloadResult {
+  success: boolean;
+  partial: boolean;
+  saved: boolean;
+
+  /**
+   * Reload log text
+   */
+  log: string;
+  errors: ReloadError[];
+
+  /**
+   * Syntax errors of the script, checked when the reload fails
+   */
+  syntaxErrors: ScriptError[];
+  durationMs: number;
+}
+
+/**
+ * Build the parameters of `doReloadEx`
+ * 
+ * @param options - Reload options
+ * @returns The engine reload parameters
+ */
+export function buildReloadParams(options: ReloadOptions = {}): any {
+  return {
+    qMode: 0,
+    qPartial: Boolean(options.partial),
+    qDebug: false
+  };
+}
+
+/**
+ * Convert the syntax errors of `checkScriptSyntax`
+ * 
+ * Lines and columns are resolved against the script text, so each error
+ * carries the line as the user sees it in the whole script.
+ * 
+ * @param errors - `ScriptSyntaxError` list from the engine
+ * @param script - Script the errors refer to
+ * @returns The script errors
+ */
+export function toScriptErrors(errors: any[], script: string): ScriptError[] {
+  const lines = script.split(/\r?\n/);
+  
+  return (errors || []).map(error => {
+    const before = script.slice(0, error.qTextPos);
+    const line = before.split('\n').length;
+    
+    return {
+      line,
+      column: error.qColInLine + 1,
+      length: error.qErrLen,
+      tab: error.qTabIx,
+      lineInTab: error.qLineInTab + 1,
+      text: lines[line - 1] !== undefined ? lines[line - 1] : '',
+      secondary: Boolean(error.qSecondaryFailure)
+    };
+  });
+}
+
+/**
+ * Convert the result of `getProgress` for a reload
+ * 
+ * @param progress - `ProgressData` from the engine
+ * @returns The reload progress
+ */
+export function toReloadProgress(progress: any): ReloadProgress {
+  const messages = (progress.qPersistentProgress || '')
+    .split(/\r?\n/)
+    .filter((line: string) => line.trim() !== '');
+  
+  return {
+    finished: Boolean(progress.qFinished),
+    messages,
+    status: progress.qTransientProgress || '',
+    errors: (progress.qErrorData || []).map((error: any) => {
+      const reloadError: ReloadError = { message: error.qErrorString };
+      
+      if (error.qLine) {
+        reloadError.statement = error.qLine;
+      }
+      
+      if (error.qErrorDataCode !== undefined) {
+        reloadError.code = error.qErrorDataCode;
+      }
+      
+      return reloadError;
+    })
+  };
+}
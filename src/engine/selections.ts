@@ -0,0 +1,182 @@
+/**
+ * Interface for the state counts of a field
+ * 
+ * `selected` includes locked values. `excluded` covers every value that is
+ * excluded by selections in other fields, including selected or locked
+ * values that became excluded.
+ */
+export interface FieldStateCounts {
+  selected: number;
+  possible: number;
+  alternative: number;
+  excluded: number;
+  total: number;
+}
+
+/**
+ * Interface for a field in the current selections
+ */
+export interface FieldSelection {
+  field: string;
+
+  /**
+   * Selected values, as far as the engine lists them; see `counts` for the number
+   */
+  selected: string[];
+  locked: boolean;
+  counts: FieldStateCounts;
+}
+
+/**
+ * Interface for the selection state of an app
+ */
+export interface SelectionState {
+  /**
+   * Alternate state the selections apply to; omitted for the default state
+   */
+  stateName?: string;
+  selections: FieldSelection[];
+  backCount: number;
+  forwardCount: number;
+
+  /**
+   * State counts of the field an action was applied to, when it has no
+   * selections left and is therefore missing from the current selections
+   */
+  field?: { field: string; counts: FieldStateCounts };
+}
+
+/**
+ * Type for a value to select in a field
+ */
+export type FieldValue = string | number;
+
+/**
+ * Name of the default selection state
+ */
+export const DEFAULT_STATE_NAME = '$';
+
+/**
+ * Check the name of a selection state
+ * 
+ * @param stateName - Name of an alternate state, or nothing for the default state
+ * @returns The state name, `$` for the default state
+ */
+export function toStateName(stateName?: any): string {
+  if (stateName === undefined || stateName === null || stateName === '') {
+    return DEFAULT_STATE_NAME;
+  }
+  
+  if (typeof stateName !== 'string' || stateName.trim() === '') {
+    throw new Error('State name must be a non-empty string');
+  }
+  
+  return stateName;
+}
+
+/**
+ * Check the name of an alternate state
+ * 
+ * @param stateName - Name of the alternate state
+ * @returns The state name
+ */
+export function toAlternateStateName(stateName: any): string {
+  if (stateName === undefined || stateName === null || stateName === '') {
+    throw new Error('Alternate state requires a name');
+  }
+  
+  const name = toStateName(stateName);
+  
+  if (name === DEFAULT_STATE_NAME) {
+    throw new Error(`${DEFAULT_STATE_NAME} is the default state, not an alternate state`);
+  }
+  
+  return name;
+}
+
+/**
+ * Build the properties of a session object listing the current selections
+ * 
+ * @param stateName - Name of the selection state
+ * @returns Generic object properties with a `qSelectionObjectDef`
+ */
+export function buildCurrentSelectionsDef(stateName: string = DEFAULT_STATE_NAME): any {
+  return {
+    qInfo: { qType: 'mcp-current-selections' },
+    qSelectionObjectDef: { qStateName: stateName }
+  };
+}
+
+/**
+ * Build the properties of a session object reporting the state counts of a field
+ * 
+ * @param field - Name of the field
+ * @param stateName - Name of the selection state
+ * @returns Generic object properties with a `qListObjectDef`
+ */
+export function buildFieldStateDef(field: string, stateName: string = DEFAULT_STATE_NAME): any {
+  return {
+    qInfo: { qType: 'mcp-field-state' },
+    qListObjectDef: {
+      qStateName: stateName,
+      qDef: { qFieldDefs: [field] },
+      qShowAlternatives: true,
+      qInitialDataFetch: []
+    }
+  };
+}
+
+/**
+ * Convert values to the `FieldValue` structures expected by `Field.selectValues`
+ * 
+ * @param values - Text or numeric values
+ * @returns The engine field values
+ */
+export function toEngineFieldValues(values: FieldValue[]): any[] {
+  return values.map(value => typeof value === 'number'
+    ? { qText: String(value), qIsNumeric: true, qNumber: value }
+    : { qText: value });
+}
+
+/**
+ * Summarize engine state counts
+ * 
+ * @param stateCounts - `NxStateCounts` from the engine
+ * @param total - Number of distinct values in the field
+ * @returns The field state counts
+ */
+export function toFieldStateCounts(stateCounts: any, total: number): FieldStateCounts {
+  const counts = stateCounts || {};
+  
+  return {
+    selected: (counts.qSelected || 0) + (counts.qLocked || 0),
+    possible: counts.qOption || 0,
+    alternative: counts.qAlternative || 0,
+    excluded: (counts.qExcluded || 0) + (counts.qDeselected || 0) +
+      (counts.qSelectedExcluded || 0) + (counts.qLockedExcluded || 0),
+    total
+  };
+}
+
+/**
+ * Read the selection state from the layout of a current selections object
+ * 
+ * @param layout - Layout of a session object with a `qSelectionObjectDef`
+ * @param stateName - Name of the selection state the object lists
+ * @returns The selection state
+ */
+export function toSelectionState(layout: any, stateName: string = DEFAULT_STATE_NAME): SelectionState {
+  const selectionObject = layout.qSelectionObject;
+  
+  return {
+    ...(stateName !== DEFAULT_STATE_NAME ? { stateName } : {}),
+    selections: selectionObject.qSelections.map((selection: any) => ({
+      field: selection.qField,
+      selected: (selection.qSelectedFieldSelectionInfo || []).map((info: any) => info.qName),
+      locked: Boolean(selection.qLocked),
+      counts: toFieldStateCounts(selection.qStateCounts, selection.qTotal)
+    })),
+    backCount: selectionObject.qBackCount,
+    forwardCount: selectionObject.qForwardCount
+  };
+}
@@ -0,0 +1,345 @@
+import { HyperCubeColumn, HyperCubeResult } from './hypercube';
+import { MasterItem } from './master-items';
+
+/**
+ * Default number of data rows returned per visualization
+ */
+export const DEFAULT_VISUALIZATION_ROWS = 100;
+
+/**
+ * Maximum number of data rows returned per visualization
+ */
+export const MAX_VISUALIZATION_ROWS = 1000;
+
+/**
+ * Maximum depth of objects nested in containers and filter panes
+ */
+export const MAX_OBJECT_DEPTH = 3;
+
+/**
+ * Properties of a session object listing the sheets of the app
+ */
+export const SHEET_LIST_DEF = {
+  qInfo: { qType: 'mcp-sheet-list' },
+  qAppObjectListDef: {
+    qType: 'sheet',
+    qData: {
+      title: '/qMetaDef/title',
+      description: '/qMetaDef/description',
+      rank: '/rank'
+    }
+  }
+};
+
+/**
+ * Interface for a sheet in a sheet list
+ */
+export interface SheetSummary {
+  id: string;
+  title: string;
+  description: string;
+  published: boolean;
+}
+
+/**
+ * Interface for a dimension of a visualization
+ */
+export interface VisualizationDimension {
+  label: string;
+  fields?: string[];
+
+  /**
+   * Expression of a calculated dimension
+   */
+  expression?: string;
+
+  /**
+   * ID of the master dimension the column uses
+   */
+  libraryId?: string;
+}
+
+/**
+ * Interface for a measure of a visualization
+ */
+export interface VisualizationMeasure {
+  label: string;
+  expression?: string;
+
+  /**
+   * ID of the master measure the column uses
+   */
+  libraryId?: string;
+}
+
+/**
+ * Interface for a visualization on a sheet
+ */
+export interface Visualization {
+  id: string;
+  type: string;
+  title: string;
+  subtitle?: string;
+  footnote?: string;
+
+  /**
+   * ID of the container or filter pane holding the object
+   */
+  parentId?: string;
+
+  /**
+   * ID of the master visualization the object is linked to
+   */
+  masterId?: string;
+  dimensions: VisualizationDimension[];
+  measures: VisualizationMeasure[];
+
+  /**
+   * Rows of the visualization under the current selections
+   */
+  data?: HyperCubeResult;
+
+  /**
+   * Why the object or its data could not be read
+   */
+  error?: string;
+}
+
+/**
+ * Interface for the content of a sheet
+ */
+export interface SheetContent {
+  id: string;
+  title: string;
+  description: string;
+  visualizations: Visualization[];
+}
+
+/**
+ * Interface for the options of sheet content extraction
+ */
+export interface SheetContentOptions {
+  /**
+   * Whether to read the data of each visualization
+   */
+  includeData?: boolean;
+
+  /**
+   * Maximum number of data rows per visualization
+   */
+  rows?: number;
+}
+
+/**
+ * Get the number of data rows to read per visualization
+ * 
+ * @param options - Sheet content options
+ * @returns The row limit
+ */
+export function getVisualizationRowLimit(options: SheetContentOptions = {}): number {
+  if (options.rows === undefined) {
+    return DEFAULT_VISUALIZATION_ROWS;
+  }
+  
+  if (!Number.isInteger(options.rows) || options.rows < 1) {
+    throw new Error('Row limit must be a positive integer');
+  }
+  
+  return Math.min(options.rows, MAX_VISUALIZATION_ROWS);
+}
+
+/**
+ * Read the sheets from the layout of a sheet list session object
+ * 
+ * @param layout - Layout of a session object built from `SHEET_LIST_DEF`
+ * @returns The sheets in the order of the app
+ */
+export function toSheetSummaries(layout: any): SheetSummary[] {
+  const items = (layout.qAppObjectList && layout.qAppObjectList.qItems) || [];
+  
+  return items
+    .map((item: any) => ({
+      id: item.qInfo.qId,
+      title: (item.qData && item.qData.title) || (item.qMeta && item.qMeta.title) || '',
+      description: (item.qData && item.qData.description) || '',
+      published: Boolean(item.qMeta && item.qMeta.published),
+      rank: item.qData && typeof item.qData.rank === 'number' ? item.qData.rank : Infinity
+    }))
+    .sort((a: any, b: any) => a.rank - b.rank)
+    .map(({ rank, ...sheet }: any) => sheet);
+}
+
+/**
+ * Order the children of a sheet by their position in the sheet grid
+ * 
+ * Children missing from the cells keep their order after the placed ones.
+ * 
+ * @param childIds - Object IDs from `getChildInfos`
+ * @param cells - `cells` of the sheet layout
+ * @returns The ordered object IDs
+ */
+export function orderSheetObjects(childIds: string[], cells: any[] = []): string[] {
+  const position = (id: string): number => {
+    const cell = cells.find(candidate => candidate.name === id);
+    return cell ? (cell.row || 0) * 1000 + (cell.col || 0) : Infinity;
+  };
+  
+  return childIds
+    .map((id, index) => ({ id, index, position: position(id) }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(child => child.id);
+}
+
+/**
+ * Read text that the engine may return as a string or a string expression result
+ * 
+ * @param value - Layout value
+ * @returns The text
+ */
+function toText(value: any): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  
+  return value && typeof value.qStringExpression === 'string' ? value.qStringExpression : '';
+}
+
+/**
+ * Describe a visualization from its layout and effective properties
+ * 
+ * Column labels come from the layout, where the engine has resolved
+ * master item titles and label expressions; definitions come from the
+ * properties.
+ * 
+ * @param layout - Object layout
+ * @param properties - Effective object properties, merged with any master visualization
+ * @returns The visualization without data
+ */
+export function toVisualization(layout: any, properties: any): Visualization {
+  const hyperCube = layout.qHyperCube;
+  const listObject = layout.qListObject;
+  const hyperCubeDef = properties.qHyperCubeDef || {};
+  const visualization: Visualization = {
+    id: layout.qInfo.qId,
+    type: layout.visualization || layout.qInfo.qType,
+    title: toText(layout.title) || (layout.qMeta && layout.qMeta.title) || '',
+    dimensions: [],
+    measures: []
+  };
+  
+  if (toText(layout.subtitle)) {
+    visualization.subtitle = toText(layout.subtitle);
+  }
+  
+  if (toText(layout.footnote)) {
+    visualization.footnote = toText(layout.footnote);
+  }
+  
+  if (properties.qExtendsId) {
+    visualization.masterId = properties.qExtendsId;
+  }
+  
+  const toDimension = (info: any, def: any): VisualizationDimension => {
+    const dimension: VisualizationDimension = { label: (info && info.qFallbackTitle) || '' };
+    const fields: string[] = (def && def.qDef && def.qDef.qFieldDefs) || [];
+    
+    if (def && def.qLibraryId) {
+      dimension.libraryId = def.qLibraryId;
+    } else if (fields.length === 1 && fields[0].trim().startsWith('=')) {
+      dimension.expression = fields[0];
+    } else if (fields.length > 0) {
+      dimension.fields = fields;
+    }
+    
+    return dimension;
+  };
+  
+  if (hyperCube) {
+    visualization.dimensions = (hyperCube.qDimensionInfo || [])
+      .map((info: any, index: number) => toDimension(info, (hyperCubeDef.qDimensions || [])[index]));
+    visualization.measures = (hyperCube.qMeasureInfo || []).map((info: any, index: number) => {
+      const def = (hyperCubeDef.qMeasures || [])[index];
+      const measure: VisualizationMeasure = { label: info.qFallbackTitle || '' };
+      
+      if (def && def.qLibraryId) {
+        measure.libraryId = def.qLibraryId;
+      } else if (def && def.qDef && def.qDef.qDef) {
+        measure.expression = def.qDef.qDef;
+      }
+      
+      return measure;
+    });
+  } else if (listObject) {
+    visualization.dimensions = [toDimension(listObject.qDimensionInfo, properties.qListObjectDef)];
+  }
+  
+  return visualization;
+}
+
+/**
+ * Fill in the definitions of the master items a visualization uses
+ * 
+ * @param visualization - Visualization read with `toVisualization`
+ * @param items - Master dimensions and measures referenced by the visualization
+ * @returns The visualization with the fields and expressions of its master items
+ */
+export function resolveLibraryItems(visualization: Visualization, items: MasterItem[]): Visualization {
+  const find = (type: string, id: string) => items.find(item => item.type === type && item.id === id);
+  
+  return {
+    ...visualization,
+    dimensions: visualization.dimensions.map(dimension => {
+      const item = dimension.libraryId ? find('dimension', dimension.libraryId) : undefined;
+      
+      if (!item) {
+        return dimension;
+      }
+      
+      return item.expression !== undefined
+        ? { ...dimension, expression: item.expression }
+        : { ...dimension, fields: item.fields || [] };
+    }),
+    measures: visualization.measures.map(measure => {
+      const item = measure.libraryId ? find('measure', measure.libraryId) : undefined;
+      
+      return item && item.expression !== undefined ? { ...measure, expression: item.expression } : measure;
+    })
+  };
+}
+
+/**
+ * Build the properties of a session object that reads the data of a visualization
+ * 
+ * The copy is in straight table mode, so pivot and stacked charts are read
+ * as plain rows, and keeps the state, suppression and sorting of the chart.
+ * 
+ * @param properties - Effective object properties
+ * @returns Generic object properties, or undefined if the object has no hypercube
+ */
+export function buildVisualizationDataDef(properties: any): any | undefined {
+  if (!properties.qHyperCubeDef) {
+    return undefined;
+  }
+  
+  return {
+    qInfo: { qType: 'mcp-visualization-data' },
+    qHyperCubeDef: {
+      ...properties.qHyperCubeDef,
+      qMode: 'S',
+      qInitialDataFetch: []
+    }
+  };
+}
+
+/**
+ * Get the data columns of a visualization
+ * 
+ * @param visualization - Visualization with its dimensions and measures
+ * @returns The column headers, dimensions first
+ */
+export function getVisualizationColumns(visualization: Visualization): HyperCubeColumn[] {
+  return [
+    ...visualization.dimensions.map(dimension => ({ name: dimension.label, kind: 'dimension' as const, type: 'string' as const })),
+    ...visualization.measures.map(measure => ({ name: measure.label, kind: 'measure' as const, type: 'number' as const }))
+  ];
+}
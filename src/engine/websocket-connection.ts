@@ -23,6 +23,7 @@ export class WebSocketConnection extends EventEmitter {
   private _reconnectAttempts: number = 0;
   private _maxReconnectAttempts: number = 5;
   private _reconnectDelay: number = 1000;
+  private _reconnectTimer: NodeJS.Timeout | null = null;
   private _messageQueue: string[] = [];
   private _messageId: number = 1;
 
@@ -84,6 +85,12 @@ export class WebSocketConnection extends EventEmitter {
    * @returns Promise that resolves when disconnected
    */
   async disconnect(): Promise<void> {
+    // Stop reconnecting after a dropped connection
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+
     if (!this._isConnected || !this._socket) {
       return;
     }
@@ -234,11 +241,15 @@ export class WebSocketConnection extends EventEmitter {
 
       this.emit('reconnecting', { attempt: this._reconnectAttempts, delay });
 
-      setTimeout(() => {
+      this._reconnectTimer = setTimeout(() => {
+        this._reconnectTimer = null;
         this.connect().catch((error) => {
           this.emit('error', error);
         });
       }, delay);
+    } else if (!event.wasClean) {
+      // Give up once every attempt failed
+      this.emit('reconnect-failed', { attempts: this._reconnectAttempts });
     }
   }
 
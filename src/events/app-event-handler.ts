@@ -1,12 +1,24 @@
+import { EventEmitter } from 'events';
 import { WebhookEvent, WebhookHandler } from './types';
 import { APIManager } from '../api';
 import { LogManager } from '../utils';
 
+/**
+ * App updated event payload
+ * Emitted as `app-updated` when an app's data or definition changes
+ */
+export interface AppUpdatedEvent {
+  appId: string;
+  eventType: string;
+  timestamp: string;
+}
+
 /**
  * App event handler class
- * Handles app-related webhook events
+ * Handles app-related webhook events and emits `app-updated` for events
+ * that change an app, so other components can react to them
  */
-export class AppEventHandler implements WebhookHandler {
+export class AppEventHandler extends EventEmitter implements WebhookHandler {
   private apiManager: APIManager;
   private logger: LogManager;
   
@@ -16,6 +28,7 @@ export class AppEventHandler implements WebhookHandler {
    * @param logger Log manager
    */
   constructor(apiManager: APIManager, logger: LogManager) {
+    super();
     this.apiManager = apiManager;
     this.logger = logger;
   }
@@ -28,15 +41,18 @@ export class AppEventHandler implements WebhookHandler {
   async handleEvent(event: WebhookEvent): Promise<void> {
     switch (event.type) {
       case 'app.reload.succeeded':
+        this.emitAppUpdated(event);
         await this.handleAppReloadSucceeded(event);
         break;
       case 'app.reload.failed':
         await this.handleAppReloadFailed(event);
         break;
       case 'app.published':
+        this.emitAppUpdated(event);
         await this.handleAppPublished(event);
         break;
       case 'app.deleted':
+        this.emitAppUpdated(event);
         await this.handleAppDeleted(event);
         break;
       default:
@@ -53,6 +69,20 @@ export class AppEventHandler implements WebhookHandler {
     return eventType.startsWith('app.');
   }
   
+  /**
+   * Emit the app updated event for a webhook event
+   * @param event The webhook event
+   */
+  private emitAppUpdated(event: WebhookEvent): void {
+    const payload: AppUpdatedEvent = {
+      appId: event.data.appId,
+      eventType: event.type,
+      timestamp: event.timestamp
+    };
+    
+    this.emit('app-updated', payload);
+  }
+  
   /**
    * Handle app reload succeeded event
    * @param event The webhook event
@@ -1,7 +1,7 @@
 import { WebhookEvent, WebhookHandler, WebhookError, WebhookValidationError, WebhookProcessingError, WebhookNotificationError } from './types';
 import { WebhookManager } from './webhook-manager';
 import { NotificationHandler } from './notification-handler';
-import { AppEventHandler } from './app-event-handler';
+import { AppEventHandler, AppUpdatedEvent } from './app-event-handler';
 import { UserEventHandler } from './user-event-handler';
 import { SystemEventHandler } from './system-event-handler';
 
@@ -20,6 +20,7 @@ export {
   // Handlers
   NotificationHandler,
   AppEventHandler,
+  AppUpdatedEvent,
   UserEventHandler,
   SystemEventHandler
 };
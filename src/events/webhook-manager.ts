@@ -96,8 +96,11 @@ export class WebhookManager {
     hmac.update(body);
     const expectedSignature = hmac.digest('hex');
     
-    // Compare signatures
-    if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))) {
+    // Compare signatures; timingSafeEqual requires equal lengths
+    const signatureBuffer = Buffer.from(signature);
+    const expectedBuffer = Buffer.from(expectedSignature);
+    
+    if (signatureBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
       throw new WebhookValidationError('Invalid webhook signature');
     }
   }
@@ -297,17 +297,23 @@ export class ClaudeDesktopConnector {
   /**
    * Generate Claude Desktop configuration
    * 
+   * Claude Desktop launches the server as a child process and speaks MCP
+   * with it over stdio, so the entry points at the compiled stdio entrypoint.
+   * 
    * @returns Claude Desktop configuration object
    */
   public generateClaudeDesktopConfig(): any {
     return {
-      [this._connectorConfig.serverName]: {
-        command: `npx @qlik-cloud-mcp/server start --port ${this._connectorConfig.port}`,
-        env: {
-          QLIK_CLOUD_BASE_URL: this._connectorConfig.qlikCloudBaseUrl,
-          QLIK_CLOUD_TENANT_ID: this._connectorConfig.qlikCloudTenantId,
-          QLIK_CLOUD_AUTH_TYPE: this._connectorConfig.authType,
-          NODE_ENV: 'production'
+      mcpServers: {
+        [this._connectorConfig.serverName]: {
+          command: 'node',
+          args: [path.resolve(__dirname, '..', 'mcp-stdio.js')],
+          env: {
+            QLIK_CLOUD_BASE_URL: this._connectorConfig.qlikCloudBaseUrl,
+            QLIK_CLOUD_TENANT_ID: this._connectorConfig.qlikCloudTenantId,
+            QLIK_CLOUD_AUTH_TYPE: this._connectorConfig.authType,
+            NODE_ENV: 'production'
+          }
         }
       }
     };
@@ -359,7 +365,10 @@ export class ClaudeDesktopConnector {
       // Merge the configurations
       const newConfig = {
         ...existingConfig,
-        ...ourConfig
+        mcpServers: {
+          ...(existingConfig.mcpServers || {}),
+          ...ourConfig.mcpServers
+        }
       };
       
       // Write the updated configuration
@@ -398,8 +407,8 @@ export class ClaudeDesktopConnector {
       const existingConfig = JSON.parse(configContent);
       
       // Remove our configuration
-      if (existingConfig[this._connectorConfig.serverName]) {
-        delete existingConfig[this._connectorConfig.serverName];
+      if (existingConfig.mcpServers && existingConfig.mcpServers[this._connectorConfig.serverName]) {
+        delete existingConfig.mcpServers[this._connectorConfig.serverName];
       }
       
       // Write the updated configuration
@@ -0,0 +1,87 @@
+import dotenv from 'dotenv';
+import { EnvConfigManager, loadServerConfig } from './config';
+import { ModelContextManager } from './model/model-context-manager';
+import { createStateStore, StateStore } from './model/state-store';
+import { LogManager } from './utils/log-manager';
+import { createQlikMcpServer, loadQlikEnvironment, QlikEnvironment, StdioTransport } from './mcp';
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Logs go to stderr because stdout carries the protocol
+const logger = new LogManager({
+  level: (process.env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug') || 'info',
+  format: 'json',
+  stderr: true
+});
+
+let environment: QlikEnvironment;
+
+try {
+  environment = loadQlikEnvironment(logger);
+} catch (error) {
+  logger.error('Configuration error', { error: (error as Error).message });
+  process.exit(1);
+}
+
+let stateStore: StateStore;
+
+try {
+  stateStore = createStateStore(loadServerConfig(new EnvConfigManager('MCP_')).state);
+} catch (error) {
+  logger.error('State store error', { error: (error as Error).message });
+  process.exit(1);
+}
+
+// Create model context manager; saved states are kept in the configured store
+const contextManager = new ModelContextManager(undefined, stateStore);
+
+// Failed context saves and cleanups are logged without stopping the server
+contextManager.on('error', (error: Error) => {
+  logger.error('Model context error', { error });
+});
+
+// Create MCP server
+const server = createQlikMcpServer({
+  logger,
+  contextManager,
+  appClient: environment.clients.appClient,
+  spaceClient: environment.clients.spaceClient,
+  dataConnectionClient: environment.clients.dataConnectionClient,
+  engineUrl: environment.engineUrl,
+  authType: environment.authType
+});
+
+server.on('error', (error: Error) => {
+  logger.error('MCP server error', { error });
+});
+
+// Shut down when the client closes stdin
+server.on('closed', async () => {
+  await contextManager.dispose();
+  process.exit(0);
+});
+
+// Restore saved contexts before serving requests for them
+contextManager.restoreContexts()
+  .then((count) => {
+    logger.info('Restored model contexts', { count });
+    
+    return server.connect(new StdioTransport());
+  })
+  .then(() => {
+    logger.info('Qlik Cloud MCP server listening on stdio');
+  })
+  .catch((error: Error) => {
+    logger.error('Failed to start MCP server', { error });
+    process.exit(1);
+  });
+
+// Handle graceful shutdown; closing the transport triggers the closed handler
+process.on('SIGINT', () => {
+  server.close().catch(() => process.exit(1));
+});
+
+process.on('SIGTERM', () => {
+  server.close().catch(() => process.exit(1));
+});
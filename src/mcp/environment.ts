@@ -0,0 +1,68 @@
+import { AuthManager } from '../auth/auth-manager';
+import { createAllQlikCloudAPIClients } from '../api/qlik-cloud-clients-additional';
+import { LogManager } from '../utils/log-manager';
+
+/**
+ * Interface for the Qlik Cloud environment shared by the MCP entrypoints
+ */
+export interface QlikEnvironment {
+  authManager: AuthManager;
+  authType: 'oauth2' | 'jwt' | 'apikey';
+  clients: ReturnType<typeof createAllQlikCloudAPIClients>;
+
+  /**
+   * Build the engine WebSocket URL for an app
+   */
+  engineUrl: (appId: string) => string;
+}
+
+/**
+ * Create the authentication manager and API clients from environment variables
+ * 
+ * Reads the variables documented in `.env.example`. Throws if no
+ * authentication method is configured.
+ * 
+ * @param logger - Logger
+ * @param env - Environment variables
+ * @returns The Qlik Cloud environment
+ */
+export function loadQlikEnvironment(logger: LogManager, env: NodeJS.ProcessEnv = process.env): QlikEnvironment {
+  const baseUrl = env.QLIK_CLOUD_BASE_URL || '';
+  const authType = (env.QLIK_CLOUD_AUTH_TYPE as 'oauth2' | 'jwt' | 'apikey') || 'oauth2';
+  
+  // Create authentication manager from the configured credentials
+  const authManager = new AuthManager({
+    defaultAuthType: authType,
+    oauth2: env.OAUTH2_CLIENT_ID ? {
+      clientId: env.OAUTH2_CLIENT_ID,
+      clientSecret: env.OAUTH2_CLIENT_SECRET || '',
+      tokenUrl: env.OAUTH2_TOKEN_URL || `${baseUrl}/oauth/token`
+    } : undefined,
+    jwt: env.JWT_SECRET ? {
+      key: env.JWT_SECRET,
+      issuer: env.JWT_ISSUER || '',
+      audience: env.JWT_AUDIENCE
+    } : undefined,
+    apiKey: env.API_KEY ? {
+      apiKey: env.API_KEY
+    } : undefined
+  });
+  
+  // Create Qlik Cloud API clients
+  const clients = createAllQlikCloudAPIClients(
+    {
+      baseUrl,
+      tenantId: env.QLIK_CLOUD_TENANT_ID || '',
+      authType
+    },
+    authManager,
+    logger
+  );
+  
+  return {
+    authManager,
+    authType,
+    clients,
+    engineUrl: (appId: string) => `${baseUrl.replace(/^http/, 'ws').replace(/\/$/, '')}/app/${appId}`
+  };
+}
@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import { ServerResponse } from 'http';
+import { JsonRpcMessage, McpTransport } from './types';
+
+/**
+ * HttpTransport class for the MCP streamable HTTP transport
+ * 
+ * One instance backs each MCP session. Client requests arrive as HTTP POSTs
+ * and are answered in the POST response, so this transport only carries
+ * server-to-client messages: they are written to the session's SSE stream,
+ * opened by the client with a GET. Messages sent while no stream is open
+ * are queued and flushed when the client reconnects.
+ */
+export class HttpTransport extends EventEmitter implements McpTransport {
+  private _sessionId: string;
+  private _stream: ServerResponse | null = null;
+  private _queue: (JsonRpcMessage | JsonRpcMessage[])[] = [];
+  private _maxQueueSize: number;
+  private _keepAliveInterval: NodeJS.Timeout | null = null;
+  private _keepAliveMs: number;
+  private _isClosed: boolean = false;
+  private _lastActivity: Date = new Date();
+
+  /**
+   * Creates a new HttpTransport instance
+   * 
+   * @param sessionId - MCP session ID
+   * @param maxQueueSize - Maximum number of messages kept while no stream is open
+   * @param keepAliveMs - Interval in milliseconds for SSE keep-alive comments
+   */
+  constructor(sessionId: string, maxQueueSize: number = 100, keepAliveMs: number = 25000) {
+    super();
+    this._sessionId = sessionId;
+    this._maxQueueSize = maxQueueSize;
+    this._keepAliveMs = keepAliveMs;
+  }
+
+  /**
+   * Get the session ID
+   */
+  get sessionId(): string {
+    return this._sessionId;
+  }
+
+  /**
+   * Check if an SSE stream is open
+   */
+  get hasStream(): boolean {
+    return this._stream !== null;
+  }
+
+  /**
+   * Check if the transport is closed
+   */
+  get isClosed(): boolean {
+    return this._isClosed;
+  }
+
+  /**
+   * Get the last activity timestamp
+   */
+  get lastActivity(): Date {
+    return new Date(this._lastActivity.getTime());
+  }
+
+  /**
+   * Start the transport
+   * 
+   * @returns Promise that resolves when the transport is ready
+   */
+  async start(): Promise<void> {
+    this.touch();
+  }
+
+  /**
+   * Record activity on the session
+   */
+  touch(): void {
+    this._lastActivity = new Date();
+  }
+
+  /**
+   * Attach an SSE stream for server-to-client messages
+   * 
+   * Any previously attached stream is ended, since a session has a single
+   * notification stream.
+   * 
+   * @param res - HTTP response to stream events to
+   */
+  attachStream(res: ServerResponse): void {
+    if (this._isClosed) {
+      throw new Error(`Session closed: ${this._sessionId}`);
+    }
+    
+    // Replace an existing stream
+    this._detachStream(true);
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'Mcp-Session-Id': this._sessionId
+    });
+    res.flushHeaders();
+    
+    this._stream = res;
+    this.touch();
+    
+    res.on('close', () => {
+      if (this._stream === res) {
+        this._detachStream(false);
+      }
+    });
+    
+    // Keep idle connections open through proxies
+    this._keepAliveInterval = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, this._keepAliveMs);
+    
+    // Deliver messages queued while no stream was open
+    const queued = this._queue;
+    this._queue = [];
+    
+    for (const message of queued) {
+      this._writeEvent(message);
+    }
+  }
+
+  /**
+   * Send a message to the client over the SSE stream
+   * 
+   * @param message - Message to send
+   * @returns Promise that resolves when the message is written or queued
+   */
+  async send(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void> {
+    if (this._isClosed) {
+      return;
+    }
+    
+    if (!this._stream) {
+      this._queue.push(message);
+      
+      // Drop the oldest messages when the client does not reconnect
+      if (this._queue.length > this._maxQueueSize) {
+        this._queue.shift();
+      }
+      return;
+    }
+    
+    this._writeEvent(message);
+  }
+
+  /**
+   * Close the transport and its SSE stream
+   * 
+   * @returns Promise that resolves when the transport is closed
+   */
+  async close(): Promise<void> {
+    if (this._isClosed) {
+      return;
+    }
+    
+    this._isClosed = true;
+    this._queue = [];
+    this._detachStream(true);
+    
+    // Emit close event
+    this.emit('close');
+  }
+
+  /**
+   * Write a message as an SSE event
+   * 
+   * @param message - Message to write
+   */
+  private _writeEvent(message: JsonRpcMessage | JsonRpcMessage[]): void {
+    if (!this._stream) {
+      return;
+    }
+    
+    this._stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    this.touch();
+  }
+
+  /**
+   * Detach the SSE stream
+   * 
+   * @param end - Whether to end the HTTP response
+   */
+  private _detachStream(end: boolean): void {
+    if (this._keepAliveInterval) {
+      clearInterval(this._keepAliveInterval);
+      this._keepAliveInterval = null;
+    }
+    
+    if (this._stream && end) {
+      this._stream.end();
+    }
+    
+    this._stream = null;
+  }
+}
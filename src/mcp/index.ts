@@ -0,0 +1,92 @@
+import { McpServer, McpServerConfig } from './mcp-server';
+import { StdioTransport } from './stdio-transport';
+import { HttpTransport } from './http-transport';
+import { loadQlikEnvironment, QlikEnvironment } from './environment';
+import { createQlikMcpServer, QlikMcpServerOptions } from './qlik-mcp-server';
+import { registerQlikTools, resolveContext, resolveConnectedContext, QlikToolDependencies } from './qlik-tools';
+import { registerQlikDataTools } from './qlik-data-tools';
+import { registerQlikSelectionTools } from './qlik-selection-tools';
+import { registerQlikMasterItemTools } from './qlik-master-item-tools';
+import { registerQlikScriptTools } from './qlik-script-tools';
+import { registerQlikLineageTools } from './qlik-lineage-tools';
+import { registerQlikBookmarkTools } from './qlik-bookmark-tools';
+import { registerQlikHistoryTools } from './qlik-history-tools';
+import { registerQlikResources, appResourceUri, spaceResourceUri } from './qlik-resources';
+import { ResourceNotifier } from './resource-notifier';
+import { registerQlikPrompts } from './qlik-prompts';
+import {
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcErrorCode,
+  McpError,
+  McpTool,
+  McpToolResult,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpPrompt,
+  McpPromptArgument,
+  McpPromptMessage,
+  McpTransport,
+  McpRequestContext,
+  McpServerCapabilities,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from './types';
+
+export {
+  // Server
+  McpServer,
+  McpServerConfig,
+  createQlikMcpServer,
+  QlikMcpServerOptions,
+  loadQlikEnvironment,
+  QlikEnvironment,
+  
+  // Transports
+  StdioTransport,
+  HttpTransport,
+  
+  // Tools
+  registerQlikTools,
+  registerQlikDataTools,
+  registerQlikSelectionTools,
+  registerQlikMasterItemTools,
+  registerQlikScriptTools,
+  registerQlikLineageTools,
+  registerQlikBookmarkTools,
+  registerQlikHistoryTools,
+  resolveContext,
+  resolveConnectedContext,
+  QlikToolDependencies,
+  
+  // Resources
+  registerQlikResources,
+  appResourceUri,
+  spaceResourceUri,
+  ResourceNotifier,
+  
+  // Prompts
+  registerQlikPrompts,
+  
+  // Types
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcErrorCode,
+  McpError,
+  McpTool,
+  McpToolResult,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpPrompt,
+  McpPromptArgument,
+  McpPromptMessage,
+  McpTransport,
+  McpRequestContext,
+  McpServerCapabilities,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS
+};
@@ -0,0 +1,839 @@
+import { EventEmitter } from 'events';
+import { LogManager } from '../utils/log-manager';
+import {
+  JsonRpcErrorCode,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  LATEST_PROTOCOL_VERSION,
+  McpError,
+  McpImplementation,
+  McpPrompt,
+  McpRequestContext,
+  McpRequestHandler,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpServerCapabilities,
+  McpTool,
+  McpToolResult,
+  McpTransport,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  createErrorResponse
+} from './types';
+
+/**
+ * Interface for MCP server configuration
+ */
+export interface McpServerConfig {
+  name: string;
+  version: string;
+  instructions?: string;
+}
+
+/**
+ * McpServer class implementing the Model Context Protocol
+ * 
+ * This class handles the JSON-RPC side of MCP: the initialize handshake,
+ * capability negotiation and dispatch of requests to registered tools and
+ * request handlers. It is transport agnostic; transports feed it decoded
+ * messages and deliver its responses and notifications.
+ */
+export class McpServer extends EventEmitter {
+  private _config: McpServerConfig;
+  private _logger: LogManager;
+  private _tools: Map<string, McpTool> = new Map();
+  private _resourceTemplates: Map<string, McpResourceTemplate> = new Map();
+  private _prompts: Map<string, McpPrompt> = new Map();
+  private _subscriptions: Set<string> = new Set();
+  private _handlers: Map<string, McpRequestHandler> = new Map();
+  private _capabilities: McpServerCapabilities = {};
+  private _transport: McpTransport | null = null;
+  private _isInitialized: boolean = false;
+  private _protocolVersion: string | null = null;
+  private _clientInfo: McpImplementation | undefined;
+  private _clientCapabilities: Record<string, any> = {};
+  private _contextId: string | null = null;
+
+  /**
+   * Creates a new McpServer instance
+   * 
+   * @param config - Server name, version and instructions
+   * @param logger - Logger
+   */
+  constructor(config: McpServerConfig, logger: LogManager) {
+    super();
+    this._config = config;
+    this._logger = logger;
+    
+    // Register the built-in protocol handlers
+    this._setupProtocolHandlers();
+  }
+
+  /**
+   * Get the server configuration
+   */
+  get config(): McpServerConfig {
+    return { ...this._config };
+  }
+
+  /**
+   * Check if the client has completed the initialize handshake
+   */
+  get isInitialized(): boolean {
+    return this._isInitialized;
+  }
+
+  /**
+   * Get the negotiated protocol version
+   */
+  get protocolVersion(): string | null {
+    return this._protocolVersion;
+  }
+
+  /**
+   * Get the client info sent during initialization
+   */
+  get clientInfo(): McpImplementation | undefined {
+    return this._clientInfo;
+  }
+
+  /**
+   * Get the capabilities sent by the client during initialization
+   */
+  get clientCapabilities(): Record<string, any> {
+    return { ...this._clientCapabilities };
+  }
+
+  /**
+   * Get the server capabilities
+   */
+  get capabilities(): McpServerCapabilities {
+    return { ...this._capabilities };
+  }
+
+  /**
+   * Get the connected transport
+   */
+  get transport(): McpTransport | null {
+    return this._transport;
+  }
+
+  /**
+   * Get the ID of the model context bound to this session
+   */
+  get contextId(): string | null {
+    return this._contextId;
+  }
+
+  /**
+   * Bind a model context to this session
+   * 
+   * Tools use the bound context when a call does not name one explicitly.
+   * 
+   * @param contextId - ID of the context to bind, or null to unbind
+   */
+  bindContext(contextId: string | null): void {
+    this._contextId = contextId;
+    
+    // Emit context bound event
+    this.emit('context-bound', { contextId });
+  }
+
+  /**
+   * Register a tool
+   * 
+   * @param tool - Tool to register
+   */
+  registerTool(tool: McpTool): void {
+    if (this._tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    
+    this._tools.set(tool.name, tool);
+    
+    // Advertise tool support
+    this.registerCapabilities({ tools: { listChanged: false } });
+  }
+
+  /**
+   * Get all registered tools
+   * 
+   * @returns Array of registered tools
+   */
+  getTools(): McpTool[] {
+    return Array.from(this._tools.values());
+  }
+
+  /**
+   * Register a resource template
+   * 
+   * @param template - Resource template to register
+   */
+  registerResourceTemplate(template: McpResourceTemplate): void {
+    if (this._resourceTemplates.has(template.uriTemplate)) {
+      throw new Error(`Resource template already registered: ${template.uriTemplate}`);
+    }
+    
+    this._resourceTemplates.set(template.uriTemplate, template);
+    
+    // Advertise resource support, keeping any subscribe capability
+    this.registerCapabilities({ resources: { listChanged: false, ...this._capabilities.resources } });
+  }
+
+  /**
+   * Get all registered resource templates
+   * 
+   * @returns Array of registered resource templates
+   */
+  getResourceTemplates(): McpResourceTemplate[] {
+    return Array.from(this._resourceTemplates.values());
+  }
+
+  /**
+   * Find the resource template matching a URI
+   * 
+   * @param uri - Resource URI
+   * @returns The template and its variable values, or null if no template matches
+   */
+  matchResourceTemplate(uri: string): { template: McpResourceTemplate; variables: Record<string, string> } | null {
+    for (const template of this._resourceTemplates.values()) {
+      const variables = this._matchUriTemplate(template.uriTemplate, uri);
+      
+      if (variables) {
+        return { template, variables };
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Register a prompt
+   * 
+   * @param prompt - Prompt to register
+   */
+  registerPrompt(prompt: McpPrompt): void {
+    if (this._prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
+    }
+    
+    this._prompts.set(prompt.name, prompt);
+    
+    // Advertise prompt support
+    this.registerCapabilities({ prompts: { listChanged: false } });
+  }
+
+  /**
+   * Get all registered prompts
+   * 
+   * @returns Array of registered prompts
+   */
+  getPrompts(): McpPrompt[] {
+    return Array.from(this._prompts.values());
+  }
+
+  /**
+   * Allow clients to subscribe to resource updates
+   */
+  enableResourceSubscriptions(): void {
+    this.registerCapabilities({ resources: { listChanged: false, ...this._capabilities.resources, subscribe: true } });
+    this.setRequestHandler('resources/subscribe', this._handleResourcesSubscribe.bind(this));
+    this.setRequestHandler('resources/unsubscribe', this._handleResourcesUnsubscribe.bind(this));
+  }
+
+  /**
+   * Get the resource URIs the client is subscribed to
+   * 
+   * @returns Array of subscribed URIs
+   */
+  getSubscriptions(): string[] {
+    return Array.from(this._subscriptions);
+  }
+
+  /**
+   * Notify the client that a subscribed resource changed
+   * 
+   * @param uri - URI of the changed resource
+   * @returns Promise that resolves with true if the client was notified
+   */
+  async notifyResourceUpdated(uri: string): Promise<boolean> {
+    if (!this._subscriptions.has(uri)) {
+      return false;
+    }
+    
+    await this.notify('notifications/resources/updated', { uri });
+    
+    return true;
+  }
+
+  /**
+   * Register a handler for a request method
+   * 
+   * @param method - JSON-RPC method name
+   * @param handler - Handler for the method
+   */
+  setRequestHandler(method: string, handler: McpRequestHandler): void {
+    this._handlers.set(method, handler);
+  }
+
+  /**
+   * Merge capabilities into the capabilities advertised to clients
+   * 
+   * @param capabilities - Capabilities to advertise
+   */
+  registerCapabilities(capabilities: McpServerCapabilities): void {
+    this._capabilities = { ...this._capabilities, ...capabilities };
+  }
+
+  /**
+   * Connect the server to a transport
+   * 
+   * @param transport - Transport to connect to
+   * @returns Promise that resolves when the transport is started
+   */
+  async connect(transport: McpTransport): Promise<void> {
+    if (this._transport) {
+      throw new Error('Server is already connected to a transport');
+    }
+    
+    this._transport = transport;
+    
+    // Set up transport event handlers
+    transport.on('message', this._handleTransportMessage.bind(this));
+    transport.on('close', this._handleTransportClose.bind(this));
+    transport.on('error', this._handleTransportError.bind(this));
+    
+    // Start the transport
+    await transport.start();
+    
+    this._logger.info('MCP server connected to transport', { sessionId: transport.sessionId });
+  }
+
+  /**
+   * Close the server and its transport
+   * 
+   * @returns Promise that resolves when closed
+   */
+  async close(): Promise<void> {
+    if (!this._transport) {
+      return;
+    }
+    
+    const transport = this._transport;
+    this._transport = null;
+    await transport.close();
+  }
+
+  /**
+   * Send a notification to the client
+   * 
+   * @param method - Notification method
+   * @param params - Notification parameters
+   * @returns Promise that resolves when the notification is sent
+   */
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    if (!this._transport || !this._isInitialized) {
+      return;
+    }
+    
+    await this._transport.send({
+      jsonrpc: '2.0',
+      method,
+      params
+    });
+  }
+
+  /**
+   * Handle an incoming JSON-RPC message or batch
+   * 
+   * @param message - Decoded message
+   * @returns Promise that resolves with the response, or null for notifications
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    // Handle batches
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return createErrorResponse(null, JsonRpcErrorCode.InvalidRequest, 'Empty batch');
+      }
+      
+      const responses: JsonRpcResponse[] = [];
+      
+      for (const item of message) {
+        const response = await this._handleSingleMessage(item);
+        
+        if (response) {
+          responses.push(response);
+        }
+      }
+      
+      return responses.length > 0 ? responses : null;
+    }
+    
+    return this._handleSingleMessage(message);
+  }
+
+  /**
+   * Handle a single JSON-RPC message
+   * 
+   * @param message - Decoded message
+   * @returns Promise that resolves with the response, or null for notifications
+   */
+  private async _handleSingleMessage(message: any): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+      return createErrorResponse(null, JsonRpcErrorCode.InvalidRequest, 'Invalid JSON-RPC message');
+    }
+    
+    // Responses to server-initiated requests are not used
+    if (message.method === undefined) {
+      return null;
+    }
+    
+    if (typeof message.method !== 'string') {
+      return createErrorResponse(message.id ?? null, JsonRpcErrorCode.InvalidRequest, 'Invalid method');
+    }
+    
+    // Notifications have no ID and never get a response
+    if (message.id === undefined || message.id === null) {
+      await this._handleNotification(message.method, message.params || {});
+      return null;
+    }
+    
+    return this._handleRequest(message.id, message.method, message.params || {});
+  }
+
+  /**
+   * Handle a JSON-RPC request
+   * 
+   * @param id - Request ID
+   * @param method - Request method
+   * @param params - Request parameters
+   * @returns Promise that resolves with the response
+   */
+  private async _handleRequest(id: JsonRpcId, method: string, params: Record<string, any>): Promise<JsonRpcResponse> {
+    // Only initialize and ping are allowed before the handshake
+    if (!this._protocolVersion && method !== 'initialize' && method !== 'ping') {
+      return createErrorResponse(id, JsonRpcErrorCode.ServerNotInitialized, 'Server not initialized');
+    }
+    
+    const handler = this._handlers.get(method);
+    
+    if (!handler) {
+      return createErrorResponse(id, JsonRpcErrorCode.MethodNotFound, `Method not found: ${method}`);
+    }
+    
+    try {
+      const result = await handler(params, this._getRequestContext());
+      
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: result ?? {}
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        return createErrorResponse(id, error.code, error.message, error.data);
+      }
+      
+      this._logger.error('MCP request failed', { method, error });
+      
+      return createErrorResponse(id, JsonRpcErrorCode.InternalError, (error as Error).message || 'Internal error');
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC notification
+   * 
+   * @param method - Notification method
+   * @param params - Notification parameters
+   */
+  private async _handleNotification(method: string, params: Record<string, any>): Promise<void> {
+    switch (method) {
+      case 'notifications/initialized':
+        this._isInitialized = true;
+        this.emit('initialized', { clientInfo: this._clientInfo, protocolVersion: this._protocolVersion });
+        break;
+      
+      case 'notifications/cancelled':
+        this.emit('cancelled', params);
+        break;
+      
+      default:
+        this.emit('notification', { method, params });
+    }
+  }
+
+  /**
+   * Set up the built-in protocol handlers
+   */
+  private _setupProtocolHandlers(): void {
+    this.setRequestHandler('initialize', this._handleInitialize.bind(this));
+    this.setRequestHandler('ping', async () => ({}));
+    this.setRequestHandler('tools/list', this._handleToolsList.bind(this));
+    this.setRequestHandler('tools/call', this._handleToolsCall.bind(this));
+    this.setRequestHandler('resources/list', this._handleResourcesList.bind(this));
+    this.setRequestHandler('resources/templates/list', this._handleResourceTemplatesList.bind(this));
+    this.setRequestHandler('resources/read', this._handleResourcesRead.bind(this));
+    this.setRequestHandler('prompts/list', this._handlePromptsList.bind(this));
+    this.setRequestHandler('prompts/get', this._handlePromptsGet.bind(this));
+  }
+
+  /**
+   * Handle the initialize request
+   * 
+   * @param params - Initialize parameters
+   * @returns Initialize result
+   */
+  private async _handleInitialize(params: Record<string, any>): Promise<any> {
+    const requestedVersion = params.protocolVersion;
+    
+    // Echo the requested version if we support it, otherwise offer our latest
+    this._protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+      ? requestedVersion
+      : LATEST_PROTOCOL_VERSION;
+    this._clientInfo = params.clientInfo;
+    this._clientCapabilities = params.capabilities || {};
+    
+    this._logger.info('MCP client initializing', {
+      clientInfo: this._clientInfo,
+      protocolVersion: this._protocolVersion
+    });
+    
+    const result: Record<string, any> = {
+      protocolVersion: this._protocolVersion,
+      capabilities: this._capabilities,
+      serverInfo: {
+        name: this._config.name,
+        version: this._config.version
+      }
+    };
+    
+    if (this._config.instructions) {
+      result.instructions = this._config.instructions;
+    }
+    
+    return result;
+  }
+
+  /**
+   * Handle the tools/list request
+   * 
+   * @returns Tools list result
+   */
+  private async _handleToolsList(): Promise<any> {
+    return {
+      tools: this.getTools().map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }))
+    };
+  }
+
+  /**
+   * Handle the tools/call request
+   * 
+   * @param params - Call parameters
+   * @param context - Request context
+   * @returns Tool call result
+   */
+  private async _handleToolsCall(params: Record<string, any>, context: McpRequestContext): Promise<McpToolResult> {
+    const { name, arguments: args = {} } = params;
+    const tool = this._tools.get(name);
+    
+    if (!tool) {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+    
+    // Validate required arguments
+    const missing = (tool.inputSchema.required || []).filter(key => args[key] === undefined || args[key] === null);
+    
+    if (missing.length > 0) {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, `Missing required arguments: ${missing.join(', ')}`);
+    }
+    
+    try {
+      const output = await tool.handler(args, context);
+      
+      return this._toToolResult(output);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      this._logger.error('MCP tool failed', { tool: name, error });
+      
+      // Tool failures are reported to the model rather than as protocol errors
+      return {
+        content: [{ type: 'text', text: (error as Error).message || 'Tool execution failed' }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Convert a tool handler output into a tool result
+   * 
+   * @param output - Handler output
+   * @returns Tool result
+   */
+  private _toToolResult(output: any): McpToolResult {
+    if (output && Array.isArray(output.content)) {
+      return output;
+    }
+    
+    const text = typeof output === 'string' ? output : JSON.stringify(output ?? null, null, 2);
+    
+    return {
+      content: [{ type: 'text', text }]
+    };
+  }
+
+  /**
+   * Handle the resources/list request
+   * 
+   * @param params - List parameters
+   * @param context - Request context
+   * @returns Resources list result
+   */
+  private async _handleResourcesList(params: Record<string, any>, context: McpRequestContext): Promise<any> {
+    const resources: McpResource[] = [];
+    
+    for (const template of this._resourceTemplates.values()) {
+      if (!template.list) {
+        continue;
+      }
+      
+      const listed = await template.list(context);
+      
+      resources.push(...listed.map(resource => ({
+        mimeType: template.mimeType,
+        ...resource
+      })));
+    }
+    
+    return { resources };
+  }
+
+  /**
+   * Handle the resources/templates/list request
+   * 
+   * @returns Resource templates list result
+   */
+  private async _handleResourceTemplatesList(): Promise<any> {
+    return {
+      resourceTemplates: this.getResourceTemplates().map(template => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType
+      }))
+    };
+  }
+
+  /**
+   * Handle the resources/read request
+   * 
+   * @param params - Read parameters
+   * @param context - Request context
+   * @returns Resource read result
+   */
+  private async _handleResourcesRead(params: Record<string, any>, context: McpRequestContext): Promise<any> {
+    const { uri } = params;
+    
+    if (typeof uri !== 'string') {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, 'Missing required arguments: uri');
+    }
+    
+    const match = this.matchResourceTemplate(uri);
+    
+    if (!match) {
+      throw new McpError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri });
+    }
+    
+    const output = await match.template.read(match.variables, context);
+    const contents: McpResourceContents = typeof output === 'string'
+      ? { uri, mimeType: match.template.mimeType || 'text/plain', text: output }
+      : { uri, mimeType: 'application/json', text: JSON.stringify(output ?? null, null, 2) };
+    
+    return { contents: [contents] };
+  }
+
+  /**
+   * Handle the resources/subscribe request
+   * 
+   * @param params - Subscribe parameters
+   * @returns Empty result
+   */
+  private async _handleResourcesSubscribe(params: Record<string, any>): Promise<any> {
+    const { uri } = params;
+    
+    if (typeof uri !== 'string') {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, 'Missing required arguments: uri');
+    }
+    
+    if (!this.matchResourceTemplate(uri)) {
+      throw new McpError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri });
+    }
+    
+    this._subscriptions.add(uri);
+    
+    // Emit subscribed event
+    this.emit('resource-subscribed', { uri });
+    
+    return {};
+  }
+
+  /**
+   * Handle the resources/unsubscribe request
+   * 
+   * @param params - Unsubscribe parameters
+   * @returns Empty result
+   */
+  private async _handleResourcesUnsubscribe(params: Record<string, any>): Promise<any> {
+    const { uri } = params;
+    
+    if (this._subscriptions.delete(uri)) {
+      // Emit unsubscribed event
+      this.emit('resource-unsubscribed', { uri });
+    }
+    
+    return {};
+  }
+
+  /**
+   * Handle the prompts/list request
+   * 
+   * @returns Prompts list result
+   */
+  private async _handlePromptsList(): Promise<any> {
+    return {
+      prompts: this.getPrompts().map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.arguments || []
+      }))
+    };
+  }
+
+  /**
+   * Handle the prompts/get request
+   * 
+   * @param params - Get parameters
+   * @param context - Request context
+   * @returns Prompt get result
+   */
+  private async _handlePromptsGet(params: Record<string, any>, context: McpRequestContext): Promise<any> {
+    const { name, arguments: args = {} } = params;
+    const prompt = this._prompts.get(name);
+    
+    if (!prompt) {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    
+    // Validate required arguments
+    const missing = (prompt.arguments || [])
+      .filter(argument => argument.required && (args[argument.name] === undefined || args[argument.name] === ''))
+      .map(argument => argument.name);
+    
+    if (missing.length > 0) {
+      throw new McpError(JsonRpcErrorCode.InvalidParams, `Missing required arguments: ${missing.join(', ')}`);
+    }
+    
+    const messages = await prompt.handler(args, context);
+    
+    return {
+      description: prompt.description,
+      messages
+    };
+  }
+
+  /**
+   * Match a URI against a URI template
+   * 
+   * @param uriTemplate - URI template with `{name}` variables
+   * @param uri - URI to match
+   * @returns The variable values, or null if the URI does not match
+   */
+  private _matchUriTemplate(uriTemplate: string, uri: string): Record<string, string> | null {
+    const names: string[] = [];
+    const pattern = uriTemplate
+      .split(/(\{[^}]+\})/)
+      .map(part => {
+        if (part.startsWith('{') && part.endsWith('}')) {
+          names.push(part.slice(1, -1));
+          return '([^/?#]+)';
+        }
+        
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    const match = new RegExp(`^${pattern}$`).exec(uri);
+    
+    if (!match) {
+      return null;
+    }
+    
+    const variables: Record<string, string> = {};
+    names.forEach((name, index) => {
+      variables[name] = decodeURIComponent(match[index + 1]);
+    });
+    
+    return variables;
+  }
+
+  /**
+   * Get the context passed to request handlers
+   * 
+   * @returns The request context
+   */
+  private _getRequestContext(): McpRequestContext {
+    return {
+      sessionId: this._transport?.sessionId,
+      contextId: this._contextId || undefined,
+      clientInfo: this._clientInfo
+    };
+  }
+
+  /**
+   * Handle transport message event
+   * 
+   * @param message - Decoded message
+   */
+  private async _handleTransportMessage(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void> {
+    try {
+      const response = await this.handleMessage(message);
+      
+      if (response && this._transport) {
+        await this._transport.send(response);
+      }
+    } catch (error) {
+      this._logger.error('Failed to handle MCP message', { error });
+    }
+  }
+
+  /**
+   * Handle transport close event
+   */
+  private _handleTransportClose(): void {
+    this._transport = null;
+    this._isInitialized = false;
+    this._subscriptions.clear();
+    
+    // Emit closed event
+    this.emit('closed');
+  }
+
+  /**
+   * Handle transport error event
+   * 
+   * @param error - Error event
+   */
+  private _handleTransportError(error: Error): void {
+    this._logger.error('MCP transport error', { error });
+    
+    // Emit error event
+    this.emit('error', error);
+  }
+}
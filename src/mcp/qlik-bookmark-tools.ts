@@ -0,0 +1,190 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, resolveConnectedContext } from './qlik-tools';
+
+/**
+ * JSON schema for the context ID argument of the bookmark tools
+ */
+const CONTEXT_ID_SCHEMA = {
+  type: 'string',
+  description: 'ID of the context (defaults to the session context)'
+};
+
+/**
+ * JSON schema for the editable properties of a bookmark
+ */
+const BOOKMARK_PROPERTIES = {
+  title: { type: 'string', description: 'Title of the bookmark' },
+  description: { type: 'string', description: 'Description of the bookmark' },
+  sheetId: { type: 'string', description: 'ID of the sheet to show when the bookmark is applied' }
+};
+
+/**
+ * JSON schema for the variables flag of a new bookmark
+ */
+const INCLUDE_VARIABLES_SCHEMA = {
+  type: 'boolean',
+  description: 'Save the variable values with the selections'
+};
+
+/**
+ * Register the tools that manage and apply the bookmarks of an app
+ * 
+ * Bookmarks are stored in the app and shared with its users, while saved
+ * states are kept by the model context; the publish and import tools
+ * convert between the two.
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikBookmarkTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager } = deps;
+  
+  server.registerTool({
+    name: 'qlik_list_bookmarks',
+    description: 'List the bookmarks of an app with their selections, sheet and variables',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { bookmarks: await context.listBookmarks() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_create_bookmark',
+    description: 'Create a bookmark of the current selections',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        ...BOOKMARK_PROPERTIES,
+        includeVariables: INCLUDE_VARIABLES_SCHEMA
+      },
+      required: ['title']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.createBookmark({
+        title: args.title,
+        description: args.description,
+        sheetId: args.sheetId,
+        includeVariables: Boolean(args.includeVariables)
+      });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_apply_bookmark',
+    description: 'Apply a bookmark. Returns the selection state after the change and the sheet of the bookmark.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        id: { type: 'string', description: 'ID of the bookmark' }
+      },
+      required: ['id']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      const bookmark = await context.getBookmark(args.id);
+      const selections = await context.applyBookmark(args.id);
+      
+      return { id: bookmark.id, title: bookmark.title, sheetId: bookmark.sheetId, ...selections };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_update_bookmark',
+    description: 'Update the title, description or sheet of a bookmark. Only the given properties change.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        id: { type: 'string', description: 'ID of the bookmark' },
+        ...BOOKMARK_PROPERTIES
+      },
+      required: ['id']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.updateBookmark(args.id, {
+        title: args.title,
+        description: args.description,
+        sheetId: args.sheetId
+      });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_delete_bookmark',
+    description: 'Delete a bookmark from the app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        id: { type: 'string', description: 'ID of the bookmark' }
+      },
+      required: ['id']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      await context.deleteBookmark(args.id);
+      
+      return { deleted: true, id: args.id };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_publish_state_as_bookmark',
+    description: 'Create a bookmark in the app from a state saved with qlik_save_model_state, so other ' +
+      'users can apply it. The current selections are kept.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        stateId: { type: 'string', description: 'ID of the saved state' },
+        ...BOOKMARK_PROPERTIES,
+        includeVariables: INCLUDE_VARIABLES_SCHEMA
+      },
+      required: ['stateId', 'title']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.publishStateAsBookmark(args.stateId, {
+        title: args.title,
+        description: args.description,
+        sheetId: args.sheetId,
+        includeVariables: Boolean(args.includeVariables)
+      });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_import_bookmark_as_state',
+    description: 'Save the selections and variables of a bookmark as a state of the model context, to ' +
+      'restore with qlik_restore_model_state',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        id: { type: 'string', description: 'ID of the bookmark' },
+        name: { type: 'string', description: 'Name of the state (defaults to the bookmark title)' }
+      },
+      required: ['id']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { stateId: await context.importBookmarkAsState(args.id, args.name) };
+    }
+  });
+}
@@ -0,0 +1,287 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, resolveConnectedContext } from './qlik-tools';
+import { DEFAULT_ROW_LIMIT, MAX_ROW_LIMIT } from '../engine/hypercube';
+import { DEFAULT_VALUE_LIMIT, MAX_VALUE_LIMIT } from '../engine/list-object';
+import {
+  buildDataDictionary,
+  DEFAULT_SAMPLE_SIZE,
+  MAX_SAMPLE_SIZE,
+  toDataDictionaryMarkdown
+} from '../engine/data-dictionary';
+import { DEFAULT_VISUALIZATION_ROWS, MAX_VISUALIZATION_ROWS } from '../engine/sheets';
+
+/**
+ * JSON schema for a hypercube dimension
+ */
+const DIMENSION_SCHEMA = {
+  oneOf: [
+    { type: 'string', description: 'Field name' },
+    {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Field name' },
+        libraryId: { type: 'string', description: 'ID of a master dimension' },
+        label: { type: 'string', description: 'Column label' }
+      }
+    }
+  ]
+};
+
+/**
+ * JSON schema for a hypercube measure
+ */
+const MEASURE_SCHEMA = {
+  oneOf: [
+    { type: 'string', description: 'Chart expression, such as Sum(Sales)' },
+    {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'Chart expression, such as Sum(Sales)' },
+        libraryId: { type: 'string', description: 'ID of a master measure' },
+        label: { type: 'string', description: 'Column label' }
+      }
+    }
+  ]
+};
+
+/**
+ * JSON schema for the alternate state argument of the data tools
+ */
+const STATE_NAME_SCHEMA = {
+  type: 'string',
+  description: 'Alternate state to read in, instead of the default state'
+};
+
+/**
+ * Register the tools that read data from the Qlik Associative Engine
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikDataTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager, appClient } = deps;
+  
+  server.registerTool({
+    name: 'qlik_query_data',
+    description: 'Query aggregated data from an app under the current selections. Returns one row per ' +
+      'combination of dimension values, with column headers and typed values.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to query (defaults to the session context)' },
+        dimensions: { type: 'array', items: DIMENSION_SCHEMA, description: 'Fields or master dimensions to group by' },
+        measures: { type: 'array', items: MEASURE_SCHEMA, description: 'Expressions or master measures to calculate' },
+        sort: {
+          type: 'array',
+          description: 'Sort order, by column index, label, field, expression or master item ID',
+          items: {
+            type: 'object',
+            properties: {
+              column: { type: ['string', 'integer'] },
+              direction: { type: 'string', enum: ['asc', 'desc'] }
+            },
+            required: ['column']
+          }
+        },
+        limit: {
+          type: 'integer',
+          description: `Maximum number of rows to return (default ${DEFAULT_ROW_LIMIT}, at most ${MAX_ROW_LIMIT})`
+        },
+        stateName: STATE_NAME_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.queryData({
+        dimensions: args.dimensions,
+        measures: args.measures,
+        sort: args.sort,
+        limit: args.limit,
+        stateName: args.stateName
+      });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_search_field_values',
+    description: 'Search and list the values of a field with their selection state. Use it to look up ' +
+      'the exact spelling of values before selecting them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to search (defaults to the session context)' },
+        field: { type: 'string', description: 'Name of the field' },
+        search: { type: 'string', description: 'Search string; * and ? are wildcards, as in *corp*' },
+        states: {
+          type: 'array',
+          items: { type: 'string', enum: ['S', 'O', 'X', 'A', 'L', 'XS', 'XL', 'D'] },
+          description: 'Only return values in these states: S selected, O possible, X excluded, A alternative, L locked'
+        },
+        frequency: { type: 'boolean', description: 'Include the number of times each value occurs' },
+        limit: {
+          type: 'integer',
+          description: `Maximum number of values to return (default ${DEFAULT_VALUE_LIMIT}, at most ${MAX_VALUE_LIMIT})`
+        },
+        stateName: STATE_NAME_SCHEMA
+      },
+      required: ['field']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.searchFieldValues({
+        field: args.field,
+        search: args.search,
+        states: args.states,
+        frequency: Boolean(args.frequency),
+        limit: args.limit,
+        stateName: args.stateName
+      });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_data_model',
+    description: 'Get the data model of an app: tables with row counts, fields with tags and cardinality, ' +
+      'the keys linking tables, synthetic keys and circular references. Pass a field to describe only that field.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' },
+        field: { type: 'string', description: 'Name of a field to describe instead of the whole model' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return args.field ? context.describeField(args.field) : context.getDataModel();
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_evaluate_expression',
+    description: 'Evaluate a chart expression, such as Sum(Sales) or Count(distinct Customer), under the ' +
+      'current selections and return its number and text result',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' },
+        expression: { type: 'string', description: 'Chart expression, with or without a leading =' }
+      },
+      required: ['expression']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.evaluate(args.expression);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_check_expression',
+    description: 'Validate a chart expression without evaluating it. Reports syntax errors and unknown field ' +
+      'names with their positions; check drafted measures with this before saving them as master items.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' },
+        expression: { type: 'string', description: 'Chart expression, with or without a leading =' }
+      },
+      required: ['expression']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.checkExpression(args.expression);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_generate_data_dictionary',
+    description: 'Generate the data dictionary of an app as Markdown or JSON: tables, fields with tags, ' +
+      'cardinality and sample values, master dimensions and measures with their expressions, descriptions ' +
+      'and the sheets and objects that use them, and variables.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' },
+        format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+        sampleSize: {
+          type: 'number',
+          description: `Sample values per field (default ${DEFAULT_SAMPLE_SIZE}, max ${MAX_SAMPLE_SIZE}, 0 for none)`
+        }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      const appId = context.config.appId;
+      const sampleSize = Math.min(
+        Math.max(0, Math.floor(args.sampleSize !== undefined ? args.sampleSize : DEFAULT_SAMPLE_SIZE)),
+        MAX_SAMPLE_SIZE
+      );
+      const [app, dataModel, dimensions, measures, sheets, objects, variables] = await Promise.all([
+        appClient.getApp(appId),
+        context.getDataModel(),
+        appClient.getAppDimensions(appId),
+        appClient.getAppMeasures(appId),
+        appClient.getAppSheets(appId),
+        appClient.getAppObjects(appId),
+        appClient.getAppVariables(appId)
+      ]);
+      const dictionary = buildDataDictionary({
+        app: { id: app.id, name: app.name, description: app.description },
+        dataModel,
+        sampleValues: sampleSize > 0 ? await context.getSampleValues(dataModel.tables, sampleSize) : {},
+        dimensions,
+        measures,
+        sheets,
+        objects,
+        variables
+      });
+      
+      return args.format === 'json' ? dictionary : toDataDictionaryMarkdown(dictionary);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_sheets',
+    description: 'List the sheets of an app with their IDs, titles and descriptions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { sheets: await context.listSheets() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_sheet_content',
+    description: 'Get the visualizations of a sheet with their type, title, dimensions and measures, ' +
+      'including the definitions of the master items they use, and the data each visualization shows ' +
+      'under the current selections. Objects in containers and filter panes are listed with their parent.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' },
+        sheetId: { type: 'string', description: 'ID of the sheet, from qlik_list_sheets' },
+        includeData: { type: 'boolean', description: 'Read the data of each visualization (default true)' },
+        rows: {
+          type: 'number',
+          description: `Maximum data rows per visualization (default ${DEFAULT_VISUALIZATION_ROWS}, max ${MAX_VISUALIZATION_ROWS})`
+        }
+      },
+      required: ['sheetId']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.getSheetContent(args.sheetId, { includeData: args.includeData, rows: args.rows });
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, resolveConnectedContext, resolveContext } from './qlik-tools';
+
+/**
+ * JSON schema for the context ID argument of the history tools
+ */
+const CONTEXT_ID_SCHEMA = {
+  type: 'string',
+  description: 'ID of the context (defaults to the session context)'
+};
+
+/**
+ * Register the tools that undo and redo the operations of a model context
+ * 
+ * Object creates and deletes, selections, variable changes, method
+ * executions and master item changes are recorded, so a wrong step can be
+ * taken back without restoring a whole saved state.
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikHistoryTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager } = deps;
+  
+  server.registerTool({
+    name: 'qlik_get_history',
+    description: 'List the operations of a model context that can be undone or redone, oldest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const { history } = await resolveContext(contextManager, args, requestContext);
+      
+      return { entries: history.getEntries(), canUndo: history.canUndo, canRedo: history.canRedo };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_undo',
+    description: 'Undo the last operation of a model context, such as a selection, a master item edit or ' +
+      'a created object',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { entry: await context.undo() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_redo',
+    description: 'Redo the last undone operation of a model context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { entry: await context.redo() };
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { McpServer } from './mcp-server';
+import { JsonRpcErrorCode, McpError } from './types';
+import { QlikToolDependencies } from './qlik-tools';
+import { QlikCloudApp } from '../api/qlik-cloud-clients';
+import {
+  buildLineage,
+  getDownstreamLineage,
+  LineageApp,
+  LineageConnection,
+  toLineageDot,
+  toLineageMermaid
+} from '../engine/lineage';
+
+/**
+ * Register the tools that trace data lineage across apps
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikLineageTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { appClient, spaceClient, dataConnectionClient } = deps;
+  
+  server.registerTool({
+    name: 'qlik_get_lineage',
+    description: 'Build the data lineage graph of the apps in a space, or of given apps, from their load ' +
+      'scripts and the data connections of the tenant. Nodes are connections, files, QVDs, tables and apps; ' +
+      'QVDs stored by one app and loaded by another link the two. Give a node to see only what depends on it, ' +
+      'such as the apps affected by a change to a connection. Returns JSON, Graphviz DOT or a Mermaid flowchart.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        spaceId: { type: 'string', description: 'ID of a space to include the apps of' },
+        appIds: { type: 'array', items: { type: 'string' }, description: 'IDs of apps to include' },
+        node: {
+          type: 'string',
+          description: 'ID or name of a node, such as a connection name or a QVD path, to keep only the graph downstream of it'
+        },
+        format: { type: 'string', enum: ['json', 'dot', 'mermaid'], description: 'Output format (default json)' }
+      }
+    },
+    handler: async (args) => {
+      const appIds: string[] = Array.isArray(args.appIds) ? args.appIds : [];
+      
+      if (!args.spaceId && appIds.length === 0) {
+        throw new McpError(JsonRpcErrorCode.InvalidParams, 'Missing required arguments: spaceId or appIds');
+      }
+      
+      const [spaceApps, listedApps] = await Promise.all([
+        args.spaceId ? spaceClient.getSpaceApps(args.spaceId) : Promise.resolve([] as QlikCloudApp[]),
+        Promise.all(appIds.map(appId => appClient.getApp(appId)))
+      ]);
+      const apps = [...spaceApps, ...listedApps]
+        .filter((app, index, all) => all.findIndex(other => other.id === app.id) === index);
+      
+      // Apps whose script cannot be read, and a tenant whose connections
+      // cannot be listed, still leave a useful graph
+      const [lineageApps, connections] = await Promise.all([
+        Promise.all(apps.map(async (app): Promise<LineageApp> => {
+          try {
+            return { id: app.id, name: app.name, script: await appClient.getAppScript(app.id) };
+          } catch (error) {
+            return { id: app.id, name: app.name, error: (error as Error).message };
+          }
+        })),
+        dataConnectionClient.getDataConnections()
+          .then(list => list.map((connection): LineageConnection => ({
+            id: connection.id,
+            name: connection.name,
+            type: connection.type
+          })))
+          .catch(() => [] as LineageConnection[])
+      ]);
+      
+      let graph = buildLineage(lineageApps, connections);
+      
+      if (args.node) {
+        graph = getDownstreamLineage(graph, args.node);
+      }
+      
+      if (args.format === 'dot') {
+        return toLineageDot(graph);
+      }
+      
+      if (args.format === 'mermaid') {
+        return toLineageMermaid(graph);
+      }
+      
+      return graph;
+    }
+  });
+}
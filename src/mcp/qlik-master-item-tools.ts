@@ -0,0 +1,178 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, resolveConnectedContext } from './qlik-tools';
+import { MASTER_ITEM_TYPES, MasterItemUpdate, toMasterItemType } from '../engine/master-items';
+
+/**
+ * JSON schema for the context ID argument of the master item tools
+ */
+const CONTEXT_ID_SCHEMA = {
+  type: 'string',
+  description: 'ID of the context (defaults to the session context)'
+};
+
+/**
+ * JSON schema for the type of a master item
+ */
+const TYPE_SCHEMA = {
+  type: 'string',
+  enum: MASTER_ITEM_TYPES,
+  description: 'Type of the master item'
+};
+
+/**
+ * JSON schema for the editable properties of a master item
+ */
+const ITEM_PROPERTIES = {
+  label: { type: 'string', description: 'Label shown in the library' },
+  description: { type: 'string', description: 'Description of the item' },
+  tags: { type: 'array', items: { type: 'string' }, description: 'Tags to find the item by' },
+  expression: { type: 'string', description: 'Expression of a measure, or of a calculated dimension' },
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Fields of a dimension; more than one field makes a drill-down dimension'
+  },
+  numberFormat: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['number', 'money', 'date', 'time', 'timestamp', 'interval'] },
+      pattern: { type: 'string', description: 'Format pattern, such as #,##0.00' }
+    },
+    required: ['type', 'pattern'],
+    description: 'Number format of a measure'
+  }
+};
+
+/**
+ * Pick the editable properties of a master item from tool arguments
+ * 
+ * @param args - Tool arguments
+ * @returns The properties that were given
+ */
+function toMasterItemUpdate(args: Record<string, any>): MasterItemUpdate {
+  const update: MasterItemUpdate = {};
+  
+  for (const key of Object.keys(ITEM_PROPERTIES) as Array<keyof MasterItemUpdate>) {
+    if (args[key] !== undefined) {
+      update[key] = args[key];
+    }
+  }
+  
+  return update;
+}
+
+/**
+ * Register the tools that maintain the master item library of an app
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikMasterItemTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager } = deps;
+  
+  server.registerTool({
+    name: 'qlik_list_master_items',
+    description: 'List the master dimensions, measures and visualizations of an app, optionally filtered ' +
+      'by type, by text in the label or description, or by tag',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        type: TYPE_SCHEMA,
+        query: { type: 'string', description: 'Text to find in the label or description' },
+        tag: { type: 'string', description: 'Tag the items must have' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const type = args.type !== undefined ? toMasterItemType(args.type) : undefined;
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { items: await context.listMasterItems({ type, query: args.query, tag: args.tag }) };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_master_item',
+    description: 'Get a master item with its definition',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        type: TYPE_SCHEMA,
+        id: { type: 'string', description: 'ID of the master item' }
+      },
+      required: ['type', 'id']
+    },
+    handler: async (args, requestContext) => {
+      const type = toMasterItemType(args.type);
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.getMasterItem(type, args.id);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_create_master_item',
+    description: 'Create a master dimension from fields or a master measure from an expression. ' +
+      'Validate measure expressions with qlik_check_expression first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        type: { type: 'string', enum: ['dimension', 'measure'], description: 'Type of the master item' },
+        ...ITEM_PROPERTIES
+      },
+      required: ['type', 'label']
+    },
+    handler: async (args, requestContext) => {
+      const type = toMasterItemType(args.type);
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.createMasterItem({ ...toMasterItemUpdate(args), type, label: args.label });
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_update_master_item',
+    description: 'Update a master item. Only the given properties change; visualizations only take a ' +
+      'label, description and tags.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        type: TYPE_SCHEMA,
+        id: { type: 'string', description: 'ID of the master item' },
+        ...ITEM_PROPERTIES
+      },
+      required: ['type', 'id']
+    },
+    handler: async (args, requestContext) => {
+      const type = toMasterItemType(args.type);
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.updateMasterItem(type, args.id, toMasterItemUpdate(args));
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_delete_master_item',
+    description: 'Delete a master item from the app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        type: TYPE_SCHEMA,
+        id: { type: 'string', description: 'ID of the master item' }
+      },
+      required: ['type', 'id']
+    },
+    handler: async (args, requestContext) => {
+      const type = toMasterItemType(args.type);
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      await context.deleteMasterItem(type, args.id);
+      
+      return { deleted: true, type, id: args.id };
+    }
+  });
+}
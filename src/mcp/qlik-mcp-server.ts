@@ -0,0 +1,67 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, registerQlikTools } from './qlik-tools';
+import { registerQlikDataTools } from './qlik-data-tools';
+import { registerQlikSelectionTools } from './qlik-selection-tools';
+import { registerQlikMasterItemTools } from './qlik-master-item-tools';
+import { registerQlikScriptTools } from './qlik-script-tools';
+import { registerQlikLineageTools } from './qlik-lineage-tools';
+import { registerQlikBookmarkTools } from './qlik-bookmark-tools';
+import { registerQlikHistoryTools } from './qlik-history-tools';
+import { registerQlikResources } from './qlik-resources';
+import { registerQlikPrompts } from './qlik-prompts';
+import { LogManager } from '../utils/log-manager';
+
+/**
+ * Interface for Qlik MCP server options
+ */
+export interface QlikMcpServerOptions extends QlikToolDependencies {
+  logger: LogManager;
+  name?: string;
+  version?: string;
+}
+
+/**
+ * Instructions sent to MCP clients during initialization
+ */
+const SERVER_INSTRUCTIONS = 'Tools for exploring Qlik Cloud apps and spaces and for working with ' +
+  'model contexts, which hold an engine session on a single app. Create a model context for an app ' +
+  'before using engine features, and reuse its ID across calls; qlik_get_data_model shows the tables ' +
+  'and fields to work with, qlik_query_data returns aggregated ' +
+  'rows for dimensions and measures under the current selections, and the selection tools filter ' +
+  'them. App metadata, load scripts and master items are also available as qlik:// resources, and ' +
+  'prompts cover common analysis workflows.';
+
+/**
+ * Factory function to create an MCP server with the Qlik Cloud capabilities registered
+ * 
+ * @param options - Server options and dependencies
+ * @returns The MCP server
+ */
+export function createQlikMcpServer(options: QlikMcpServerOptions): McpServer {
+  const server = new McpServer(
+    {
+      name: options.name || 'qlik-cloud-mcp',
+      version: options.version || '1.0.0',
+      instructions: SERVER_INSTRUCTIONS
+    },
+    options.logger
+  );
+  
+  // Register tools
+  registerQlikTools(server, options);
+  registerQlikDataTools(server, options);
+  registerQlikSelectionTools(server, options);
+  registerQlikMasterItemTools(server, options);
+  registerQlikScriptTools(server, options);
+  registerQlikLineageTools(server, options);
+  registerQlikBookmarkTools(server, options);
+  registerQlikHistoryTools(server, options);
+  
+  // Register resources
+  registerQlikResources(server, options);
+  
+  // Register prompts
+  registerQlikPrompts(server, options);
+  
+  return server;
+}
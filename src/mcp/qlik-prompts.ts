@@ -0,0 +1,196 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies } from './qlik-tools';
+import { appResourceUri } from './qlik-resources';
+import { JsonRpcErrorCode, McpError, McpPromptMessage } from './types';
+
+/**
+ * Maximum number of reload log characters embedded in a prompt
+ */
+const MAX_RELOAD_LOG_LENGTH = 10000;
+
+/**
+ * Build a user message with text content
+ * 
+ * @param text - Message text
+ * @returns The prompt message
+ */
+function textMessage(text: string): McpPromptMessage {
+  return {
+    role: 'user',
+    content: { type: 'text', text }
+  };
+}
+
+/**
+ * Build a user message embedding a resource
+ * 
+ * @param uri - Resource URI
+ * @param value - Resource contents; non-strings are serialized as JSON
+ * @param mimeType - MIME type for string contents
+ * @returns The prompt message
+ */
+function resourceMessage(uri: string, value: any, mimeType: string = 'text/plain'): McpPromptMessage {
+  const isText = typeof value === 'string';
+  
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri,
+        mimeType: isText ? mimeType : 'application/json',
+        text: isText ? value : JSON.stringify(value, null, 2)
+      }
+    }
+  };
+}
+
+/**
+ * Register the prompt catalog for common Qlik analysis workflows
+ * 
+ * Each prompt fetches live app content through the app clients when it is
+ * requested, so the instructions always travel with the current script,
+ * master items and reload state of the tenant.
+ * 
+ * @param server - MCP server to register the prompts with
+ * @param deps - Prompt dependencies
+ */
+export function registerQlikPrompts(server: McpServer, deps: QlikToolDependencies): void {
+  const { appClient } = deps;
+  
+  server.registerPrompt({
+    name: 'explain_data_model',
+    title: 'Explain this app\'s data model',
+    description: 'Explain the tables, keys and master items of an app, based on its load script',
+    arguments: [
+      { name: 'appId', description: 'ID of the app', required: true }
+    ],
+    handler: async ({ appId }) => {
+      const [app, script, measures, dimensions] = await Promise.all([
+        appClient.getApp(appId),
+        appClient.getAppScript(appId),
+        appClient.getAppMeasures(appId),
+        appClient.getAppDimensions(appId)
+      ]);
+      const appUri = appResourceUri(appId);
+      
+      return [
+        textMessage(
+          `Explain the data model of the Qlik app "${app.name}" (last reloaded ${app.lastReloadTime || 'never'}). ` +
+          'Using the load script below, describe each table the script creates, where its data comes from, ' +
+          'and the fields that associate tables with each other. Point out synthetic keys, circular ' +
+          'references and data islands. Then explain which tables and fields the master measures and ' +
+          'dimensions depend on.'
+        ),
+        resourceMessage(`${appUri}/script`, script),
+        resourceMessage(`${appUri}/measures`, { measures }),
+        resourceMessage(`${appUri}/dimensions`, { dimensions })
+      ];
+    }
+  });
+  
+  server.registerPrompt({
+    name: 'review_load_script',
+    title: 'Review this load script',
+    description: 'Review an app\'s load script for correctness, performance and maintainability',
+    arguments: [
+      { name: 'appId', description: 'ID of the app', required: true },
+      { name: 'focus', description: 'Optional area to focus the review on, such as performance or incremental loads' }
+    ],
+    handler: async ({ appId, focus }) => {
+      const [app, script] = await Promise.all([
+        appClient.getApp(appId),
+        appClient.getAppScript(appId)
+      ]);
+      
+      return [
+        textMessage(
+          `Review the load script of the Qlik app "${app.name}". ` +
+          'Look for errors, unintended synthetic keys, non-optimized QVD loads, repeated logic that belongs ' +
+          'in a subroutine or variable, hard-coded paths and missing comments. For each finding, quote the ' +
+          'relevant lines and suggest a concrete change.' +
+          (focus ? ` Focus the review on: ${focus}.` : '')
+        ),
+        resourceMessage(`${appResourceUri(appId)}/script`, script)
+      ];
+    }
+  });
+  
+  server.registerPrompt({
+    name: 'summarize_reload_failure',
+    title: 'Summarize the last reload failure',
+    description: 'Summarize why the most recent failed reload of an app failed and how to fix it',
+    arguments: [
+      { name: 'appId', description: 'ID of the app', required: true }
+    ],
+    handler: async ({ appId }) => {
+      const [app, reloads] = await Promise.all([
+        appClient.getApp(appId),
+        appClient.getAppReloads(appId)
+      ]);
+      const failed = reloads.find(reload => reload.status === 'FAILED');
+      
+      if (!failed) {
+        return [
+          textMessage(
+            `The Qlik app "${app.name}" has no failed reload among its last ${reloads.length} reloads ` +
+            `(last successful reload: ${app.lastReloadTime || 'never'}). Say so, and summarize the recent ` +
+            'reload history below.'
+          ),
+          resourceMessage(`${appResourceUri(appId)}/reloads`, { reloads })
+        ];
+      }
+      
+      // Keep the end of the log, where the error is reported
+      const log = failed.log || '';
+      const logTail = log.length > MAX_RELOAD_LOG_LENGTH ? log.slice(-MAX_RELOAD_LOG_LENGTH) : log;
+      
+      return [
+        textMessage(
+          `The reload of the Qlik app "${app.name}" started at ${failed.startTime || failed.creationTime} failed. ` +
+          `The last successful reload was at ${app.lastReloadTime || 'never'}. Using the reload log below, ` +
+          'summarize what failed, the statement and data source involved, the most likely root cause and ' +
+          'the steps to fix it.'
+        ),
+        resourceMessage(`${appResourceUri(appId)}/reloads/${encodeURIComponent(failed.id)}/log`, logTail),
+        resourceMessage(`${appResourceUri(appId)}/script`, await appClient.getAppScript(appId))
+      ];
+    }
+  });
+  
+  server.registerPrompt({
+    name: 'draft_set_analysis',
+    title: 'Draft set analysis for a measure',
+    description: 'Draft a set analysis expression for a measure, reusing the app\'s master items',
+    arguments: [
+      { name: 'appId', description: 'ID of the app', required: true },
+      { name: 'requirement', description: 'What the measure should calculate, such as "sales for last year in Europe"', required: true },
+      { name: 'measureId', description: 'Optional ID of a master measure to start from' }
+    ],
+    handler: async ({ appId, requirement, measureId }) => {
+      const [measures, dimensions] = await Promise.all([
+        appClient.getAppMeasures(appId),
+        appClient.getAppDimensions(appId)
+      ]);
+      const base = measureId ? measures.find(measure => measure.id === measureId) : undefined;
+      
+      if (measureId && !base) {
+        throw new McpError(JsonRpcErrorCode.InvalidParams, `Measure not found: ${measureId}`);
+      }
+      
+      const appUri = appResourceUri(appId);
+      
+      return [
+        textMessage(
+          `Draft a Qlik set analysis expression that calculates: ${requirement}. ` +
+          (base ? `Start from the master measure "${base.title || base.id}" and keep its aggregation. ` : '') +
+          'Reuse existing master measures and dimension fields where possible, use field names exactly as ' +
+          'they appear in the master items below, and explain each set modifier. If the requirement is ' +
+          'ambiguous, list the assumptions you made.'
+        ),
+        resourceMessage(`${appUri}/measures`, { measures }),
+        resourceMessage(`${appUri}/dimensions`, { dimensions })
+      ];
+    }
+  });
+}
@@ -0,0 +1,129 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies } from './qlik-tools';
+import { JsonRpcErrorCode, McpError } from './types';
+
+/**
+ * Build the resource URI for an app
+ * 
+ * @param appId - ID of the app
+ * @returns The app resource URI
+ */
+export function appResourceUri(appId: string): string {
+  return `qlik://apps/${encodeURIComponent(appId)}`;
+}
+
+/**
+ * Build the resource URI for a space
+ * 
+ * @param spaceId - ID of the space
+ * @returns The space resource URI
+ */
+export function spaceResourceUri(spaceId: string): string {
+  return `qlik://spaces/${encodeURIComponent(spaceId)}`;
+}
+
+/**
+ * Register the Qlik Cloud app and space resources
+ * 
+ * Apps and spaces are listed by resources/list; scripts and master items
+ * are only exposed as templates so listing stays one API call per family.
+ * 
+ * @param server - MCP server to register the resources with
+ * @param deps - Resource dependencies
+ */
+export function registerQlikResources(server: McpServer, deps: QlikToolDependencies): void {
+  const { appClient, spaceClient } = deps;
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}',
+    name: 'Qlik Cloud app',
+    description: 'App metadata, including owner, space and last reload time',
+    mimeType: 'application/json',
+    list: async () => {
+      const apps = await appClient.getApps();
+      
+      return apps.map(app => ({
+        uri: appResourceUri(app.id),
+        name: app.name,
+        description: app.description
+      }));
+    },
+    read: async ({ appId }) => appClient.getApp(appId)
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}/script',
+    name: 'Qlik Cloud app load script',
+    description: 'The load script of an app',
+    mimeType: 'text/plain',
+    read: async ({ appId }) => appClient.getAppScript(appId)
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}/measures',
+    name: 'Qlik Cloud app master measures',
+    description: 'The master measures of an app with their expressions',
+    mimeType: 'application/json',
+    read: async ({ appId }) => ({ measures: await appClient.getAppMeasures(appId) })
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}/dimensions',
+    name: 'Qlik Cloud app master dimensions',
+    description: 'The master dimensions of an app with their field definitions',
+    mimeType: 'application/json',
+    read: async ({ appId }) => ({ dimensions: await appClient.getAppDimensions(appId) })
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}/reloads',
+    name: 'Qlik Cloud app reloads',
+    description: 'The most recent reloads of an app, newest first',
+    mimeType: 'application/json',
+    read: async ({ appId }) => ({ reloads: await appClient.getAppReloads(appId) })
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://apps/{appId}/reloads/{reloadId}/log',
+    name: 'Qlik Cloud app reload log',
+    description: 'The log of a reload of an app',
+    mimeType: 'text/plain',
+    read: async ({ appId, reloadId }) => {
+      const reload = await appClient.getReload(reloadId);
+      
+      // Reload IDs are global, so check the reload belongs to the app of the URI
+      if (reload.appId !== appId) {
+        throw new McpError(JsonRpcErrorCode.ResourceNotFound, `Reload not found: ${reloadId}`);
+      }
+      
+      return reload.log || '';
+    }
+  });
+  
+  server.registerResourceTemplate({
+    uriTemplate: 'qlik://spaces/{spaceId}',
+    name: 'Qlik Cloud space',
+    description: 'Space metadata and the apps it contains',
+    mimeType: 'application/json',
+    list: async () => {
+      const spaces = await spaceClient.getSpaces();
+      
+      return spaces.map(space => ({
+        uri: spaceResourceUri(space.id),
+        name: space.name,
+        description: space.description
+      }));
+    },
+    read: async ({ spaceId }) => {
+      const [space, apps] = await Promise.all([
+        spaceClient.getSpace(spaceId),
+        spaceClient.getSpaceApps(spaceId)
+      ]);
+      
+      return {
+        ...space,
+        apps: apps.map(app => ({ ...app, uri: appResourceUri(app.id) }))
+      };
+    }
+  });
+}
@@ -0,0 +1,217 @@
+import { McpServer } from './mcp-server';
+import { McpRequestContext } from './types';
+import { QlikToolDependencies, resolveConnectedContext, resolveContext } from './qlik-tools';
+import { analyzeScript } from '../engine/script-analysis';
+import { describeScriptSource, diffScripts, ScriptSource, toScriptSource } from '../engine/script-diff';
+
+/**
+ * Maximum number of reload log characters returned by the reload tool
+ */
+const MAX_RELOAD_LOG_LENGTH = 20000;
+
+/**
+ * JSON schema for the context ID argument of the script tools
+ */
+const CONTEXT_ID_SCHEMA = {
+  type: 'string',
+  description: 'ID of the context (defaults to the session context)'
+};
+
+/**
+ * JSON schema for a script compared by the diff tool
+ */
+const SCRIPT_SOURCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    appId: { type: 'string', description: 'ID of an app to compare the saved script of' },
+    contextId: { type: 'string', description: 'ID of a context to compare the engine script of, or to load stateId from' },
+    stateId: { type: 'string', description: 'ID of a state saved with qlik_save_model_state to compare the script snapshot of' },
+    script: { type: 'string', description: 'Script text to compare' }
+  }
+};
+
+/**
+ * Read the text of a script compared by the diff tool
+ * 
+ * @param deps - Tool dependencies
+ * @param source - Script source
+ * @param requestContext - Request context
+ * @returns Promise that resolves with the script text
+ */
+async function readScript(deps: QlikToolDependencies, source: ScriptSource, requestContext: McpRequestContext): Promise<string> {
+  if (source.script !== undefined) {
+    return source.script;
+  }
+  
+  if (source.appId) {
+    return await deps.appClient.getAppScript(source.appId);
+  }
+  
+  const args = { contextId: source.contextId };
+  
+  // Saved states are kept by the context, so reading them needs no engine session
+  return source.stateId
+    ? await (await resolveContext(deps.contextManager, args, requestContext)).getStateScript(source.stateId)
+    : await (await resolveConnectedContext(deps.contextManager, args, requestContext)).getScript();
+}
+
+/**
+ * Register the tools that edit the load script and reload an app in the engine
+ * 
+ * Reloads run in the engine session of the model context, so a script set
+ * with `qlik_set_script` can be reloaded and checked before it is saved.
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikScriptTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager, appClient } = deps;
+  
+  server.registerTool({
+    name: 'qlik_get_script',
+    description: 'Get the load script of an app as it is in the engine session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { script: await context.getScript() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_set_script',
+    description: 'Replace the load script of an app and check its syntax. The script takes effect on the ' +
+      'next reload and is kept once the app is saved.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        script: { type: 'string', description: 'Full script text' }
+      },
+      required: ['script']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { syntaxErrors: await context.setScript(args.script) };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_check_script',
+    description: 'Check the syntax of the load script of an app. Reports each error with its line, ' +
+      'column and line text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { syntaxErrors: await context.checkScript() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_reload_script',
+    description: 'Reload an app in the engine and wait for it to end. Returns whether it succeeded, the ' +
+      'reload log, the failing statements and, on failure, the script syntax errors.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        partial: { type: 'boolean', description: 'Only run the Add, Replace and Merge statements' },
+        save: { type: 'boolean', description: 'Save the app when the reload succeeds' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      const result = await context.reload({ partial: Boolean(args.partial), save: Boolean(args.save) });
+      
+      // The end of the log holds the failing statement
+      if (result.log.length > MAX_RELOAD_LOG_LENGTH) {
+        return { ...result, log: result.log.slice(-MAX_RELOAD_LOG_LENGTH), logTruncated: true };
+      }
+      
+      return result;
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_save_app',
+    description: 'Save an app, keeping its script and reloaded data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      await context.save();
+      
+      return { saved: true };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_analyze_script',
+    description: 'Analyze a load script without reloading it. Returns its sections, LOAD and SELECT ' +
+      'statements, connections, variables, stores and subroutine calls, and findings with line numbers ' +
+      'for synthetic key risks, unqualified * loads, temporary tables that are never dropped and ' +
+      'hard-coded paths. Analyzes the saved script of an app, the script of a context, or script text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        appId: { type: 'string', description: 'ID of an app to analyze the saved script of' },
+        contextId: { type: 'string', description: 'ID of a context to analyze the engine script of, including unsaved edits' },
+        script: { type: 'string', description: 'Script text to analyze' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      let script: string;
+      
+      if (typeof args.script === 'string') {
+        script = args.script;
+      } else if (args.appId) {
+        script = await appClient.getAppScript(args.appId);
+      } else {
+        script = await (await resolveConnectedContext(contextManager, args, requestContext)).getScript();
+      }
+      
+      return analyzeScript(script);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_diff_scripts',
+    description: 'Compare two load scripts section by section, such as the scripts of a development and a ' +
+      'production app, or the current script and the snapshot of a saved state. Returns a unified diff, ' +
+      'the changes of each section and a summary of the added, removed and changed LOAD statements and variables.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base: { ...SCRIPT_SOURCE_SCHEMA, description: 'Script to compare from, such as the production app' },
+        target: { ...SCRIPT_SOURCE_SCHEMA, description: 'Script to compare to, such as the development app' }
+      },
+      required: ['base', 'target']
+    },
+    handler: async (args, requestContext) => {
+      const base = toScriptSource(args.base, 'base');
+      const target = toScriptSource(args.target, 'target');
+      
+      return diffScripts(await readScript(deps, base, requestContext), await readScript(deps, target, requestContext), {
+        base: describeScriptSource(base, 'base'),
+        target: describeScriptSource(target, 'target')
+      });
+    }
+  });
+}
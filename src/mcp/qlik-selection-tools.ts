@@ -0,0 +1,208 @@
+import { McpServer } from './mcp-server';
+import { QlikToolDependencies, resolveConnectedContext } from './qlik-tools';
+
+/**
+ * JSON schema for the context ID argument of the selection tools
+ */
+const CONTEXT_ID_SCHEMA = {
+  type: 'string',
+  description: 'ID of the context (defaults to the session context)'
+};
+
+/**
+ * JSON schema for the alternate state argument of the selection tools
+ */
+const STATE_NAME_SCHEMA = {
+  type: 'string',
+  description: 'Alternate state to use, instead of the default state'
+};
+
+/**
+ * Register the tools that change and read the selections of a model context
+ * 
+ * Every tool returns the selection state after the change, with the
+ * selected, possible and excluded value counts of each selected field, so
+ * the effect of a filter can be checked right away.
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikSelectionTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager } = deps;
+  
+  server.registerTool({
+    name: 'qlik_get_selections',
+    description: 'Get the current selections with selected, possible and excluded value counts per field',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        field: { type: 'string', description: 'Field to report value counts for, even without selections' },
+        stateName: STATE_NAME_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.getSelections(args.field, args.stateName);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_select_values',
+    description: 'Select values in a field. Replaces the selection in the field unless toggle is set.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        field: { type: 'string', description: 'Name of the field' },
+        values: {
+          type: 'array',
+          items: { type: ['string', 'number'] },
+          description: 'Values to select; use numbers for numeric field values'
+        },
+        toggle: { type: 'boolean', description: 'Toggle the values in the current selection instead' },
+        stateName: STATE_NAME_SCHEMA
+      },
+      required: ['field', 'values']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.selectValues(args.field, args.values, Boolean(args.toggle), args.stateName);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_clear_selections',
+    description: 'Clear the selections in a field, or in all fields if no field is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        field: { type: 'string', description: 'Name of the field to clear' },
+        lockedAlso: { type: 'boolean', description: 'Also clear locked fields when clearing all fields' },
+        stateName: STATE_NAME_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return args.field
+        ? context.clearField(args.field, args.stateName)
+        : context.clearAll(Boolean(args.lockedAlso), args.stateName);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_lock_selections',
+    description: 'Lock the selections in a field, or in all fields if no field is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        field: { type: 'string', description: 'Name of the field to lock' },
+        stateName: STATE_NAME_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.lock(args.field, args.stateName);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_unlock_selections',
+    description: 'Unlock the selections in a field, or in all fields if no field is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        field: { type: 'string', description: 'Name of the field to unlock' },
+        stateName: STATE_NAME_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return context.unlock(args.field, args.stateName);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_step_selections',
+    description: 'Go back or forward one step in the selection history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        direction: { type: 'string', enum: ['back', 'forward'], description: 'Direction to step in' }
+      },
+      required: ['direction']
+    },
+    handler: async (args, requestContext) => {
+      if (args.direction !== 'back' && args.direction !== 'forward') {
+        throw new Error(`Invalid direction: ${args.direction}`);
+      }
+      
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return args.direction === 'back' ? context.back() : context.forward();
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_alternate_states',
+    description: 'List the alternate states of an app. Alternate states hold selections apart from the ' +
+      'default state, to compare two selections side by side.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { stateNames: await context.listAlternateStates() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_add_alternate_state',
+    description: 'Add an alternate state. Pass its name as stateName to the selection and data tools to ' +
+      'select and query in it, such as last year next to this year.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        stateName: { type: 'string', description: 'Name of the alternate state' }
+      },
+      required: ['stateName']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { stateNames: await context.addAlternateState(args.stateName) };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_remove_alternate_state',
+    description: 'Remove an alternate state with its selections',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: CONTEXT_ID_SCHEMA,
+        stateName: { type: 'string', description: 'Name of the alternate state' }
+      },
+      required: ['stateName']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveConnectedContext(contextManager, args, requestContext);
+      
+      return { stateNames: await context.removeAlternateState(args.stateName) };
+    }
+  });
+}
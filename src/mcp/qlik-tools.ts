@@ -0,0 +1,341 @@
+import { McpServer } from './mcp-server';
+import { JsonRpcErrorCode, McpError, McpRequestContext } from './types';
+import { ModelContextManager } from '../model/model-context-manager';
+import { ModelContext } from '../model/model-context';
+import { QlikCloudAppClient, QlikCloudSpaceClient } from '../api/qlik-cloud-clients';
+import { QlikCloudDataConnectionClient } from '../api/qlik-cloud-clients-additional';
+
+/**
+ * Interface for the dependencies of the Qlik MCP tools
+ */
+export interface QlikToolDependencies {
+  contextManager: ModelContextManager;
+  appClient: QlikCloudAppClient;
+  spaceClient: QlikCloudSpaceClient;
+  dataConnectionClient: QlikCloudDataConnectionClient;
+
+  /**
+   * Build the engine WebSocket URL for an app
+   */
+  engineUrl: (appId: string) => string;
+
+  /**
+   * Authentication type used for new model contexts
+   */
+  authType?: 'oauth2' | 'jwt' | 'apikey';
+}
+
+/**
+ * Get a model context or throw if it does not exist
+ * 
+ * @param contextManager - Model context manager
+ * @param contextId - ID of the context
+ * @returns Promise that resolves with the model context
+ */
+export async function requireContext(contextManager: ModelContextManager, contextId: string): Promise<ModelContext> {
+  const context = await contextManager.loadContext(contextId);
+  
+  if (!context) {
+    throw new Error(`Context not found: ${contextId}`);
+  }
+  
+  return context;
+}
+
+/**
+ * Get the model context named by the tool arguments, falling back to the
+ * context bound to the session
+ * 
+ * @param contextManager - Model context manager
+ * @param args - Tool arguments
+ * @param requestContext - Request context
+ * @returns Promise that resolves with the model context
+ */
+export async function resolveContext(
+  contextManager: ModelContextManager,
+  args: Record<string, any>,
+  requestContext: McpRequestContext
+): Promise<ModelContext> {
+  const contextId = args.contextId || requestContext.contextId;
+  
+  if (!contextId) {
+    throw new McpError(JsonRpcErrorCode.InvalidParams, 'Missing required arguments: contextId');
+  }
+  
+  return await requireContext(contextManager, contextId);
+}
+
+/**
+ * Get the model context for a tool call, connecting it to the engine if needed
+ * 
+ * @param contextManager - Model context manager
+ * @param args - Tool arguments
+ * @param requestContext - Request context
+ * @returns Promise that resolves with the connected model context
+ */
+export async function resolveConnectedContext(
+  contextManager: ModelContextManager,
+  args: Record<string, any>,
+  requestContext: McpRequestContext
+): Promise<ModelContext> {
+  const context = await resolveContext(contextManager, args, requestContext);
+  
+  if (!context.isConnected) {
+    await context.connect();
+  }
+  
+  return context;
+}
+
+/**
+ * Describe a model context for tool output
+ * 
+ * @param context - Model context
+ * @returns Context summary
+ */
+export function describeContext(context: ModelContext): Record<string, any> {
+  return {
+    id: context.id,
+    name: context.config.name,
+    description: context.config.description,
+    appId: context.config.appId,
+    isConnected: context.isConnected,
+    lastActivity: context.lastActivity
+  };
+}
+
+/**
+ * Register the Qlik Cloud app, space and model context tools
+ * 
+ * @param server - MCP server to register the tools with
+ * @param deps - Tool dependencies
+ */
+export function registerQlikTools(server: McpServer, deps: QlikToolDependencies): void {
+  const { contextManager, appClient, spaceClient } = deps;
+  
+  server.registerTool({
+    name: 'qlik_list_apps',
+    description: 'List Qlik Cloud apps available to the configured user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', description: 'Maximum number of apps to return' },
+        offset: { type: 'integer', description: 'Offset for pagination' }
+      }
+    },
+    handler: async (args) => {
+      const apps = await appClient.getApps();
+      const offset = args.offset || 0;
+      const limit = args.limit || apps.length;
+      
+      return {
+        total: apps.length,
+        apps: apps.slice(offset, offset + limit)
+      };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_app',
+    description: 'Get a Qlik Cloud app by ID, including its last reload time and owner',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        appId: { type: 'string', description: 'ID of the app to get' }
+      },
+      required: ['appId']
+    },
+    handler: async (args) => appClient.getApp(args.appId)
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_app_script',
+    description: 'Get the load script of a Qlik Cloud app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        appId: { type: 'string', description: 'ID of the app to get the script for' }
+      },
+      required: ['appId']
+    },
+    handler: async (args) => appClient.getAppScript(args.appId)
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_spaces',
+    description: 'List Qlik Cloud spaces',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    },
+    handler: async () => ({ spaces: await spaceClient.getSpaces() })
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_space_apps',
+    description: 'List the apps in a Qlik Cloud space',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        spaceId: { type: 'string', description: 'ID of the space' }
+      },
+      required: ['spaceId']
+    },
+    handler: async (args) => ({ apps: await spaceClient.getSpaceApps(args.spaceId) })
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_model_contexts',
+    description: 'List all model contexts',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    },
+    handler: async () => ({ contexts: contextManager.getAllContexts().map(describeContext) })
+  });
+  
+  server.registerTool({
+    name: 'qlik_create_model_context',
+    description: 'Create a new model context for a Qlik Cloud app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        appId: { type: 'string', description: 'ID of the app to create a context for' },
+        name: { type: 'string', description: 'Name of the context' },
+        description: { type: 'string', description: 'Description of the context' },
+        connect: { type: 'boolean', description: 'Connect the context to the engine right away' }
+      },
+      required: ['appId', 'name']
+    },
+    handler: async (args) => {
+      const context = await contextManager.createContext({
+        appId: args.appId,
+        name: args.name,
+        description: args.description,
+        engineUrl: deps.engineUrl(args.appId),
+        authType: deps.authType
+      });
+      
+      if (args.connect) {
+        await context.connect();
+      }
+      
+      // The first context created in a session becomes the session context
+      if (!server.contextId) {
+        server.bindContext(context.id);
+      }
+      
+      return describeContext(context);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_get_model_context',
+    description: 'Get a model context by ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to get (defaults to the session context)' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveContext(contextManager, args, requestContext);
+      
+      return {
+        ...describeContext(context),
+        metadata: context.getAllMetadata()
+      };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_delete_model_context',
+    description: 'Delete a model context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to delete' }
+      },
+      required: ['contextId']
+    },
+    handler: async (args) => {
+      const deleted = await contextManager.deleteContext(args.contextId);
+      
+      if (!deleted) {
+        throw new Error(`Context not found: ${args.contextId}`);
+      }
+      
+      return { success: true };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_connect_model_context',
+    description: 'Connect a model context to the Qlik Associative Engine',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to connect (defaults to the session context)' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveContext(contextManager, args, requestContext);
+      await context.connect();
+      
+      return describeContext(context);
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_save_model_state',
+    description: 'Save the current selections, variables and objects of a model context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to save state for (defaults to the session context)' },
+        name: { type: 'string', description: 'Name of the state' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveContext(contextManager, args, requestContext);
+      const stateId = await context.saveState(args.name);
+      
+      return { stateId };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_list_model_states',
+    description: 'List the saved states of a model context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context (defaults to the session context)' }
+      }
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveContext(contextManager, args, requestContext);
+      
+      return { states: await context.state.list() };
+    }
+  });
+  
+  server.registerTool({
+    name: 'qlik_restore_model_state',
+    description: 'Restore a saved state of a model context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        contextId: { type: 'string', description: 'ID of the context to restore state for (defaults to the session context)' },
+        stateId: { type: 'string', description: 'ID of the state to restore' }
+      },
+      required: ['stateId']
+    },
+    handler: async (args, requestContext) => {
+      const context = await resolveContext(contextManager, args, requestContext);
+      await context.restoreState(args.stateId);
+      
+      return { success: true };
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import { McpServer } from './mcp-server';
+import { appResourceUri } from './qlik-resources';
+import { AppEventHandler, AppUpdatedEvent } from '../events/app-event-handler';
+import { LogManager } from '../utils/log-manager';
+
+/**
+ * ResourceNotifier class for MCP resource subscriptions
+ * 
+ * This class turns app webhook events into `notifications/resources/updated`
+ * messages. MCP servers are added as their sessions start; when an app
+ * changes, every server subscribed to the app resource, or to one of its
+ * sub-resources such as the script, is notified.
+ */
+export class ResourceNotifier {
+  private _servers: Set<McpServer> = new Set();
+  private _logger: LogManager;
+
+  /**
+   * Creates a new ResourceNotifier instance
+   * 
+   * @param appEventHandler - App event handler emitting `app-updated` events
+   * @param logger - Logger
+   */
+  constructor(appEventHandler: AppEventHandler, logger: LogManager) {
+    this._logger = logger;
+    
+    appEventHandler.on('app-updated', (event: AppUpdatedEvent) => {
+      this.notifyAppUpdated(event.appId).catch((error) => {
+        this._logger.error('Failed to send resource updates', { appId: event.appId, error });
+      });
+    });
+  }
+
+  /**
+   * Get the number of tracked servers
+   */
+  get size(): number {
+    return this._servers.size;
+  }
+
+  /**
+   * Track an MCP server until it closes
+   * 
+   * @param server - MCP server to notify
+   */
+  addServer(server: McpServer): void {
+    server.enableResourceSubscriptions();
+    this._servers.add(server);
+    
+    server.once('closed', () => {
+      this.removeServer(server);
+    });
+  }
+
+  /**
+   * Stop tracking an MCP server
+   * 
+   * @param server - MCP server to remove
+   */
+  removeServer(server: McpServer): void {
+    this._servers.delete(server);
+  }
+
+  /**
+   * Notify subscribers of an app and its sub-resources
+   * 
+   * @param appId - ID of the changed app
+   * @returns Promise that resolves with the number of notifications sent
+   */
+  async notifyAppUpdated(appId: string): Promise<number> {
+    const appUri = appResourceUri(appId);
+    let sent = 0;
+    
+    for (const server of this._servers) {
+      const uris = server.getSubscriptions().filter(uri => uri === appUri || uri.startsWith(`${appUri}/`));
+      
+      for (const uri of uris) {
+        if (await server.notifyResourceUpdated(uri)) {
+          sent++;
+        }
+      }
+    }
+    
+    if (sent > 0) {
+      this._logger.info('Sent resource updates', { appId, notifications: sent });
+    }
+    
+    return sent;
+  }
+}
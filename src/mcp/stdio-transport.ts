@@ -0,0 +1,163 @@
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import { JsonRpcErrorCode, JsonRpcMessage, McpTransport, createErrorResponse } from './types';
+
+/**
+ * StdioTransport class for MCP over standard input and output
+ * 
+ * Messages are newline-delimited JSON-RPC, one message per line. This is
+ * the transport used when an MCP client such as Claude Desktop launches the
+ * server as a child process.
+ */
+export class StdioTransport extends EventEmitter implements McpTransport {
+  private _input: Readable;
+  private _output: Writable;
+  private _buffer: string = '';
+  private _isStarted: boolean = false;
+  private _onData: (chunk: Buffer | string) => void;
+  private _onEnd: () => void;
+  private _onError: (error: Error) => void;
+
+  /**
+   * Creates a new StdioTransport instance
+   * 
+   * @param input - Stream to read messages from
+   * @param output - Stream to write messages to
+   */
+  constructor(input: Readable = process.stdin, output: Writable = process.stdout) {
+    super();
+    this._input = input;
+    this._output = output;
+    this._onData = this._handleData.bind(this);
+    this._onEnd = this._handleEnd.bind(this);
+    this._onError = this._handleError.bind(this);
+  }
+
+  /**
+   * Start reading messages from the input stream
+   * 
+   * @returns Promise that resolves when the transport is ready
+   */
+  async start(): Promise<void> {
+    if (this._isStarted) {
+      return;
+    }
+    
+    this._isStarted = true;
+    this._input.on('data', this._onData);
+    this._input.on('end', this._onEnd);
+    this._input.on('error', this._onError);
+  }
+
+  /**
+   * Write a message to the output stream
+   * 
+   * @param message - Message to send
+   * @returns Promise that resolves when the message is written
+   */
+  async send(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void> {
+    const line = JSON.stringify(message) + '\n';
+    
+    return new Promise((resolve, reject) => {
+      this._output.write(line, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Stop reading messages
+   * 
+   * @returns Promise that resolves when the transport is closed
+   */
+  async close(): Promise<void> {
+    if (!this._isStarted) {
+      return;
+    }
+    
+    this._detach();
+    
+    // Emit close event
+    this.emit('close');
+  }
+
+  /**
+   * Handle input data
+   * 
+   * @param chunk - Data chunk
+   */
+  private _handleData(chunk: Buffer | string): void {
+    this._buffer += chunk.toString();
+    
+    // Process every complete line
+    let newlineIndex = this._buffer.indexOf('\n');
+    
+    while (newlineIndex !== -1) {
+      const line = this._buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      this._buffer = this._buffer.slice(newlineIndex + 1);
+      
+      if (line.trim()) {
+        this._processLine(line);
+      }
+      
+      newlineIndex = this._buffer.indexOf('\n');
+    }
+  }
+
+  /**
+   * Decode a single line and emit it as a message
+   * 
+   * @param line - Line to decode
+   */
+  private _processLine(line: string): void {
+    let message: JsonRpcMessage | JsonRpcMessage[];
+    
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      // Report the parse error to the client
+      this.send(createErrorResponse(null, JsonRpcErrorCode.ParseError, 'Parse error')).catch((sendError) => {
+        this.emit('error', sendError);
+      });
+      return;
+    }
+    
+    // Emit message event
+    this.emit('message', message);
+  }
+
+  /**
+   * Handle input end event
+   */
+  private _handleEnd(): void {
+    this._detach();
+    
+    // Emit close event
+    this.emit('close');
+  }
+
+  /**
+   * Handle input error event
+   * 
+   * @param error - Error event
+   */
+  private _handleError(error: Error): void {
+    // Emit error event
+    this.emit('error', error);
+  }
+
+  /**
+   * Remove the input stream listeners
+   */
+  private _detach(): void {
+    this._isStarted = false;
+    this._buffer = '';
+    this._input.removeListener('data', this._onData);
+    this._input.removeListener('end', this._onEnd);
+    this._input.removeListener('error', this._onError);
+  }
+}
@@ -0,0 +1,386 @@
+import { EventEmitter } from 'events';
+
+/**
+ * MCP protocol versions supported by the server, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Latest MCP protocol version supported by the server
+ */
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * JSON-RPC error codes used by the MCP server
+ */
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32003,
+  ResourceNotFound: -32002
+};
+
+/**
+ * JSON-RPC request identifier
+ */
+export type JsonRpcId = string | number;
+
+/**
+ * Interface for JSON-RPC request
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Interface for JSON-RPC notification
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Interface for JSON-RPC success response
+ */
+export interface JsonRpcSuccessResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: any;
+}
+
+/**
+ * Interface for JSON-RPC error response
+ */
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  error: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+/**
+ * JSON-RPC response
+ */
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+
+/**
+ * Any JSON-RPC message exchanged over an MCP transport
+ */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Interface for MCP implementation info (client or server)
+ */
+export interface McpImplementation {
+  name: string;
+  version: string;
+}
+
+/**
+ * Interface for MCP server capabilities
+ */
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+}
+
+/**
+ * Interface for MCP content blocks returned by tools
+ */
+export interface McpTextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Interface for MCP tool call result
+ */
+export interface McpToolResult {
+  content: McpTextContent[];
+  isError?: boolean;
+}
+
+/**
+ * Interface for MCP tool definition
+ */
+export interface McpTool {
+  /**
+   * Unique tool name
+   */
+  name: string;
+
+  /**
+   * Human readable description shown to the model
+   */
+  description: string;
+
+  /**
+   * JSON schema describing the tool arguments
+   */
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+
+  /**
+   * Execute the tool
+   * 
+   * @param args - Tool arguments
+   * @param context - Request context
+   * @returns Promise that resolves with the tool output
+   */
+  handler(args: Record<string, any>, context: McpRequestContext): Promise<any>;
+}
+
+/**
+ * Interface for a concrete MCP resource
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Interface for the contents of a resource returned by resources/read
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+/**
+ * Interface for an MCP resource template
+ * 
+ * Templates describe a family of resources with an RFC 6570 level 1 URI
+ * template such as `qlik://apps/{appId}`. The server matches resources/read
+ * requests against the registered templates.
+ */
+export interface McpResourceTemplate {
+  /**
+   * URI template with `{name}` variables
+   */
+  uriTemplate: string;
+
+  /**
+   * Human readable name of the resource family
+   */
+  name: string;
+
+  /**
+   * Description shown to the client
+   */
+  description?: string;
+
+  /**
+   * MIME type of the resource contents
+   */
+  mimeType?: string;
+
+  /**
+   * List the concrete resources of this template for resources/list
+   * 
+   * @param context - Request context
+   * @returns Promise that resolves with the resources
+   */
+  list?(context: McpRequestContext): Promise<McpResource[]>;
+
+  /**
+   * Read a resource
+   * 
+   * Strings are returned as-is; other values are serialized as JSON.
+   * 
+   * @param variables - Values of the URI template variables
+   * @param context - Request context
+   * @returns Promise that resolves with the resource contents
+   */
+  read(variables: Record<string, string>, context: McpRequestContext): Promise<any>;
+}
+
+/**
+ * Interface for a resource embedded in a prompt message
+ */
+export interface McpEmbeddedResource {
+  type: 'resource';
+  resource: McpResourceContents;
+}
+
+/**
+ * Interface for an MCP prompt message
+ */
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpTextContent | McpEmbeddedResource;
+}
+
+/**
+ * Interface for an MCP prompt argument
+ */
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Interface for MCP prompt definition
+ */
+export interface McpPrompt {
+  /**
+   * Unique prompt name
+   */
+  name: string;
+
+  /**
+   * Human readable title shown in prompt pickers
+   */
+  title?: string;
+
+  /**
+   * Description of what the prompt does
+   */
+  description: string;
+
+  /**
+   * Arguments the prompt accepts
+   */
+  arguments?: McpPromptArgument[];
+
+  /**
+   * Build the prompt messages
+   * 
+   * @param args - Prompt arguments
+   * @param context - Request context
+   * @returns Promise that resolves with the prompt messages
+   */
+  handler(args: Record<string, string>, context: McpRequestContext): Promise<McpPromptMessage[]>;
+}
+
+/**
+ * Interface for the context passed to request and tool handlers
+ */
+export interface McpRequestContext {
+  /**
+   * Session ID when the transport tracks sessions
+   */
+  sessionId?: string;
+
+  /**
+   * ID of the model context bound to the session
+   */
+  contextId?: string;
+
+  /**
+   * Client info sent during initialization
+   */
+  clientInfo?: McpImplementation;
+}
+
+/**
+ * Handler for an MCP request method
+ */
+export type McpRequestHandler = (params: Record<string, any>, context: McpRequestContext) => Promise<any>;
+
+/**
+ * Interface for MCP transports
+ * 
+ * Transports emit `message` for every decoded JSON-RPC message,
+ * `close` when the underlying channel ends and `error` on failures.
+ */
+export interface McpTransport extends EventEmitter {
+  /**
+   * Session ID when the transport tracks sessions
+   */
+  readonly sessionId?: string;
+
+  /**
+   * Start reading messages
+   * 
+   * @returns Promise that resolves when the transport is ready
+   */
+  start(): Promise<void>;
+
+  /**
+   * Send a message to the client
+   * 
+   * @param message - Message to send
+   * @returns Promise that resolves when the message is written
+   */
+  send(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void>;
+
+  /**
+   * Close the transport
+   * 
+   * @returns Promise that resolves when the transport is closed
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * MCP error class
+ * 
+ * Thrown by request handlers to produce a JSON-RPC error response.
+ */
+export class McpError extends Error {
+  /**
+   * JSON-RPC error code
+   */
+  code: number;
+
+  /**
+   * Error data
+   */
+  data?: any;
+
+  /**
+   * Constructor
+   * @param code JSON-RPC error code
+   * @param message Error message
+   * @param data Optional error data
+   */
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Create a JSON-RPC error response
+ * 
+ * @param id - Request ID
+ * @param code - Error code
+ * @param message - Error message
+ * @param data - Optional error data
+ * @returns The error response
+ */
+export function createErrorResponse(id: JsonRpcId | null, code: number, message: string, data?: any): JsonRpcErrorResponse {
+  const response: JsonRpcErrorResponse = {
+    jsonrpc: '2.0',
+    id,
+    error: { code, message }
+  };
+  
+  if (data !== undefined) {
+    response.error.data = data;
+  }
+  
+  return response;
+}
@@ -0,0 +1,216 @@
+/**
+ * Type for an operation recorded in the history of a model context
+ */
+export type HistoryEntryType =
+  | 'object-created'
+  | 'object-deleted'
+  | 'selections-changed'
+  | 'variable-changed'
+  | 'method-executed'
+  | 'master-item-created'
+  | 'master-item-updated'
+  | 'master-item-deleted';
+
+/**
+ * Default number of operations kept in the history of a model context
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Check whether an object method only reads, so executing it is not recorded
+ * 
+ * @param method - Name of the method
+ * @returns True for getters such as `getLayout` and `getProperties`
+ */
+export function isReadMethod(method: string): boolean {
+  return /^get[A-Z]/.test(method);
+}
+
+/**
+ * Interface for an operation recorded in the history of a model context
+ */
+export interface HistoryEntry {
+  id: number;
+  type: HistoryEntryType;
+  timestamp: string;
+
+  /**
+   * Name of the operation, such as the selection action or the method
+   */
+  action: string;
+
+  /**
+   * Object handle, field or master item the operation applied to
+   */
+  target?: string;
+
+  /**
+   * Whether the operation is undone, so it can be redone
+   */
+  undone: boolean;
+}
+
+/**
+ * Interface for the functions that undo and redo a recorded operation
+ */
+export interface HistoryOperation {
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+}
+
+/**
+ * ContextHistory class for the undo and redo history of a model context
+ * 
+ * Operations are kept in the order they were made. Undoing steps back one
+ * operation at a time; recording a new operation drops the undone ones.
+ */
+export class ContextHistory {
+  private _contextId: string;
+  private _limit: number;
+  private _entries: Array<{ entry: HistoryEntry; operation: HistoryOperation }> = [];
+  private _position: number = 0;
+  private _nextId: number = 1;
+  private _queue: Promise<any> = Promise.resolve();
+
+  /**
+   * Creates a new ContextHistory instance
+   * 
+   * @param contextId - ID of the associated model context
+   * @param limit - Number of operations to keep; older operations are dropped
+   */
+  constructor(contextId: string, limit: number = DEFAULT_HISTORY_LIMIT) {
+    this._contextId = contextId;
+    this._limit = limit;
+  }
+
+  /**
+   * Check if an operation can be undone
+   */
+  get canUndo(): boolean {
+    return this._position > 0;
+  }
+
+  /**
+   * Check if an undone operation can be redone
+   */
+  get canRedo(): boolean {
+    return this._position < this._entries.length;
+  }
+
+  /**
+   * Record an operation
+   * 
+   * @param type - Type of the operation
+   * @param action - Name of the operation
+   * @param target - Object handle, field or master item the operation applied to
+   * @param operation - Functions that undo and redo the operation
+   * @returns The recorded entry
+   */
+  record(type: HistoryEntryType, action: string, target: string | undefined, operation: HistoryOperation): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: this._nextId++,
+      type,
+      timestamp: new Date().toISOString(),
+      action,
+      target,
+      undone: false
+    };
+    
+    // A new operation replaces the undone ones
+    this._entries.splice(this._position);
+    this._entries.push({ entry, operation });
+    
+    if (this._entries.length > this._limit) {
+      this._entries.splice(0, this._entries.length - this._limit);
+    }
+    
+    this._position = this._entries.length;
+    
+    return { ...entry };
+  }
+
+  /**
+   * Undo the last operation that is not undone
+   * 
+   * @returns Promise that resolves with the undone entry
+   */
+  async undo(): Promise<HistoryEntry> {
+    return this._enqueue(async () => {
+      if (!this.canUndo) {
+        throw new Error('Nothing to undo');
+      }
+      
+      const { entry, operation } = this._entries[this._position - 1];
+      
+      // The position only moves once the operation is undone, so a failure can be retried
+      await operation.undo();
+      
+      entry.undone = true;
+      this._position--;
+      
+      return { ...entry };
+    });
+  }
+
+  /**
+   * Redo the first undone operation
+   * 
+   * @returns Promise that resolves with the redone entry
+   */
+  async redo(): Promise<HistoryEntry> {
+    return this._enqueue(async () => {
+      if (!this.canRedo) {
+        throw new Error('Nothing to redo');
+      }
+      
+      const { entry, operation } = this._entries[this._position];
+      
+      await operation.redo();
+      
+      entry.undone = false;
+      this._position++;
+      
+      return { ...entry };
+    });
+  }
+
+  /**
+   * Get the recorded operations, oldest first
+   * 
+   * @returns Array of history entries
+   */
+  getEntries(): HistoryEntry[] {
+    return this._entries.map(({ entry }) => ({ ...entry }));
+  }
+
+  /**
+   * Clear the history
+   */
+  clear(): void {
+    this._entries = [];
+    this._position = 0;
+  }
+
+  /**
+   * Get the number of recorded operations
+   * 
+   * @returns The number of operations
+   */
+  get size(): number {
+    return this._entries.length;
+  }
+
+  /**
+   * Run undo and redo steps one at a time
+   * 
+   * @param step - Step to run
+   * @returns Promise that resolves with the result of the step
+   */
+  private _enqueue<T>(step: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(step);
+    
+    this._queue = result.catch(() => {});
+    
+    return result;
+  }
+}
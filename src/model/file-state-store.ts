@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextRecord, sortStateSummaries, StateEntry, StateStore, StateSummary, toStateSummary } from './state-store';
+
+/**
+ * Convert an ID to a file name that cannot leave its directory
+ * 
+ * @param id - Context or state ID
+ * @returns The file name
+ */
+function toFileName(id: string): string {
+  return encodeURIComponent(id).replace(/^\.+$/, dots => '%2E'.repeat(dots.length));
+}
+
+/**
+ * FileStateStore class for keeping saved states as JSON files
+ * 
+ * Each context is a file next to a directory holding one file per state,
+ * so contexts and states survive restarts when the directory is on a
+ * persistent volume.
+ */
+export class FileStateStore implements StateStore {
+  private _directory: string;
+
+  /**
+   * Creates a new FileStateStore instance
+   * 
+   * @param directory - Directory to keep the states in; created when missing
+   */
+  constructor(directory: string) {
+    this._directory = path.resolve(directory);
+  }
+
+  /**
+   * Save a state
+   * 
+   * @param entry - State to save
+   */
+  async save(entry: StateEntry): Promise<void> {
+    await this._writeFile(this._getStateFile(entry.contextId, entry.id), entry);
+  }
+
+  /**
+   * Load a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   * @returns The state or null if not found
+   */
+  async load(contextId: string, stateId: string): Promise<StateEntry | null> {
+    return this._readFile<StateEntry>(this._getStateFile(contextId, stateId));
+  }
+
+  /**
+   * List the states of a context
+   * 
+   * @param contextId - ID of the context
+   * @returns The state metadata, newest first
+   */
+  async list(contextId: string): Promise<StateSummary[]> {
+    const directory = this._getContextDirectory(contextId);
+    const summaries: StateSummary[] = [];
+    
+    for (const file of await this._listFiles(directory)) {
+      const entry = await this._readFile<StateEntry>(path.join(directory, file));
+      
+      if (entry) {
+        summaries.push(toStateSummary(entry));
+      }
+    }
+    
+    return sortStateSummaries(summaries);
+  }
+
+  /**
+   * Delete a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   */
+  async delete(contextId: string, stateId: string): Promise<void> {
+    await fs.promises.rm(this._getStateFile(contextId, stateId), { force: true });
+  }
+
+  /**
+   * Delete all states of a context
+   * 
+   * @param contextId - ID of the context
+   */
+  async clear(contextId: string): Promise<void> {
+    await fs.promises.rm(this._getContextDirectory(contextId), { recursive: true, force: true });
+  }
+
+  /**
+   * Save a context
+   * 
+   * @param record - Context to save
+   */
+  async saveContext(record: ContextRecord): Promise<void> {
+    await this._writeFile(this._getContextFile(record.id), record);
+  }
+
+  /**
+   * List the saved contexts
+   * 
+   * @returns The saved contexts
+   */
+  async listContexts(): Promise<ContextRecord[]> {
+    const records: ContextRecord[] = [];
+    
+    for (const file of await this._listFiles(this._directory)) {
+      const record = await this._readFile<ContextRecord>(path.join(this._directory, file));
+      
+      if (record) {
+        records.push(record);
+      }
+    }
+    
+    return records;
+  }
+
+  /**
+   * Delete a saved context
+   * 
+   * @param contextId - ID of the context
+   */
+  async deleteContext(contextId: string): Promise<void> {
+    await fs.promises.rm(this._getContextFile(contextId), { force: true });
+  }
+
+  /**
+   * Close the store
+   */
+  async close(): Promise<void> {
+    // Files are written as states are saved, so there is nothing to release
+  }
+
+  /**
+   * Get the directory of the states of a context
+   * 
+   * @param contextId - ID of the context
+   * @returns The directory path
+   */
+  private _getContextDirectory(contextId: string): string {
+    return path.join(this._directory, toFileName(contextId));
+  }
+
+  /**
+   * Get the file of a context
+   * 
+   * @param contextId - ID of the context
+   * @returns The file path
+   */
+  private _getContextFile(contextId: string): string {
+    return path.join(this._directory, `${toFileName(contextId)}.json`);
+  }
+
+  /**
+   * Get the file of a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   * @returns The file path
+   */
+  private _getStateFile(contextId: string, stateId: string): string {
+    return path.join(this._getContextDirectory(contextId), `${toFileName(stateId)}.json`);
+  }
+
+  /**
+   * List the JSON files of a directory
+   * 
+   * @param directory - Directory path
+   * @returns The file names, or none if the directory does not exist
+   */
+  private async _listFiles(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+      
+      return entries
+        .filter(entry => entry.isFile() && entry.name.endsWith('.json'))
+        .map(entry => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Write a JSON file
+   * 
+   * @param file - Path of the file
+   * @param value - Value to write
+   */
+  private async _writeFile(file: string, value: any): Promise<void> {
+    const temporaryFile = `${file}.${process.pid}.tmp`;
+    
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    
+    // Rename the written file so a crash never leaves a partial file
+    await fs.promises.writeFile(temporaryFile, JSON.stringify(value), 'utf8');
+    await fs.promises.rename(temporaryFile, file);
+  }
+
+  /**
+   * Read a JSON file
+   * 
+   * @param file - Path of the file
+   * @returns The value or null if the file does not exist
+   */
+  private async _readFile<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      
+      throw error;
+    }
+  }
+}
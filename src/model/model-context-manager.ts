@@ -1,4 +1,5 @@
 import { ModelContext, ModelContextConfig } from './model-context';
+import { ContextRecord, StateStore } from './state-store';
 import { EventEmitter } from 'events';
 
 /**
@@ -12,19 +13,27 @@ export class ModelContextManager extends EventEmitter {
   private _contexts: Map<string, ModelContext> = new Map();
   private _cleanupInterval: NodeJS.Timeout | null = null;
   private _inactivityTimeout: number = 30 * 60 * 1000; // 30 minutes
+  private _stateStore: StateStore | undefined;
+  private _pendingSaves: Map<string, Promise<void>> = new Map();
+  private _pendingLoads: Map<string, Promise<ModelContext | null>> = new Map();
+  private _disposed: boolean = false;
 
   /**
    * Creates a new ModelContextManager instance
    * 
    * @param inactivityTimeout - Optional timeout in milliseconds for inactive contexts
+   * @param stateStore - Optional store to keep all contexts and their saved states in;
+   * the manager closes it when disposed
    */
-  constructor(inactivityTimeout?: number) {
+  constructor(inactivityTimeout?: number, stateStore?: StateStore) {
     super();
     
     if (inactivityTimeout !== undefined) {
       this._inactivityTimeout = inactivityTimeout;
     }
     
+    this._stateStore = stateStore;
+    
     // Start cleanup interval
     this._startCleanupInterval();
   }
@@ -37,13 +46,22 @@ export class ModelContextManager extends EventEmitter {
    */
   async createContext(config: ModelContextConfig): Promise<ModelContext> {
     // Create the context
-    const context = new ModelContext(config);
+    const context = new ModelContext(config, undefined, this._stateStore);
     
     // Store the context
     this._contexts.set(context.id, context);
     
     // Set up event forwarding
     this._setupEventForwarding(context);
+    this._setupPersistence(context);
+    
+    // Save the context so it survives a restart
+    try {
+      await this._saveContext(context);
+    } catch (error) {
+      this._contexts.delete(context.id);
+      throw error;
+    }
     
     // Emit context created event
     this.emit('context-created', { contextId: context.id });
@@ -51,6 +69,59 @@ export class ModelContextManager extends EventEmitter {
     return context;
   }
 
+  /**
+   * Restore the contexts saved in the state store
+   * 
+   * Restored contexts keep their IDs, metadata and object registry, and
+   * reconnect to the engine on first use if they were connected.
+   * 
+   * @returns Promise that resolves with the number of restored contexts
+   */
+  async restoreContexts(): Promise<number> {
+    if (!this._stateStore) {
+      return 0;
+    }
+    
+    const records = await this._stateStore.listContexts();
+    
+    for (const record of records) {
+      if (!this._contexts.has(record.id)) {
+        await this._addRestoredContext(record);
+      }
+    }
+    
+    return records.length;
+  }
+
+  /**
+   * Get a model context by ID, loading it from the state store if needed
+   * 
+   * Contexts unloaded by the inactivity cleanup are kept in the store and
+   * load again here on their next use.
+   * 
+   * @param contextId - ID of the context to get
+   * @returns Promise that resolves with the model context or null if not found
+   */
+  async loadContext(contextId: string): Promise<ModelContext | null> {
+    const context = this._contexts.get(contextId);
+    
+    if (context || !this._stateStore || this._disposed) {
+      return context || null;
+    }
+    
+    // Concurrent requests for the same context share one load
+    let load = this._pendingLoads.get(contextId);
+    
+    if (!load) {
+      load = this._loadSavedContext(contextId).finally(() => {
+        this._pendingLoads.delete(contextId);
+      });
+      this._pendingLoads.set(contextId, load);
+    }
+    
+    return load;
+  }
+
   /**
    * Get a model context by ID
    * 
@@ -92,6 +163,13 @@ export class ModelContextManager extends EventEmitter {
     // Remove the context
     this._contexts.delete(contextId);
     
+    // Remove the saved context and its states
+    if (this._stateStore) {
+      await (this._pendingSaves.get(contextId) || Promise.resolve()).catch(() => {});
+      await this._stateStore.deleteContext(contextId);
+      await this._stateStore.clear(contextId);
+    }
+    
     // Emit context deleted event
     this.emit('context-deleted', { contextId });
     
@@ -135,9 +213,14 @@ export class ModelContextManager extends EventEmitter {
       }
     }
     
-    // Delete inactive contexts
+    // Unload inactive contexts; saved contexts and their states stay in the
+    // store, so only contexts without a store are deleted
     for (const contextId of inactiveContextIds) {
-      await this.deleteContext(contextId);
+      if (this._stateStore) {
+        await this._unloadContext(contextId);
+      } else {
+        await this.deleteContext(contextId);
+      }
     }
     
     return inactiveContextIds.length;
@@ -149,6 +232,10 @@ export class ModelContextManager extends EventEmitter {
    * @returns Promise that resolves when disposed
    */
   async dispose(): Promise<void> {
+    // Keep the saved contexts as they are, so they reconnect after a restart
+    this._disposed = true;
+    await Promise.all(Array.from(this._pendingSaves.values()).map(save => save.catch(() => {})));
+    
     // Stop cleanup interval
     if (this._cleanupInterval) {
       clearInterval(this._cleanupInterval);
@@ -164,6 +251,67 @@ export class ModelContextManager extends EventEmitter {
     
     // Clear the contexts map
     this._contexts.clear();
+    
+    // Close the state store
+    if (this._stateStore) {
+      await this._stateStore.close();
+    }
+  }
+
+  /**
+   * Load a context saved in the state store
+   * 
+   * @param contextId - ID of the context to load
+   * @returns Promise that resolves with the loaded context or null if not saved
+   */
+  private async _loadSavedContext(contextId: string): Promise<ModelContext | null> {
+    const records = await (this._stateStore as StateStore).listContexts();
+    const record = records.find(saved => saved.id === contextId);
+    
+    if (!record) {
+      return null;
+    }
+    
+    return this._contexts.get(contextId) || await this._addRestoredContext(record);
+  }
+
+  /**
+   * Add a context restored from its saved record
+   * 
+   * @param record - Saved context record
+   * @returns Promise that resolves with the restored context
+   */
+  private async _addRestoredContext(record: ContextRecord): Promise<ModelContext> {
+    const context = await ModelContext.restore(record, undefined, this._stateStore);
+    
+    this._contexts.set(context.id, context);
+    this._setupEventForwarding(context);
+    this._setupPersistence(context);
+    
+    return context;
+  }
+
+  /**
+   * Disconnect a context and drop it from memory, keeping it in the state store
+   * 
+   * @param contextId - ID of the context to unload
+   * @returns Promise that resolves when the context is unloaded
+   */
+  private async _unloadContext(contextId: string): Promise<void> {
+    const context = this._contexts.get(contextId);
+    
+    if (!context) {
+      return;
+    }
+    
+    // Remove the context after its pending saves but before the disconnect,
+    // so a context that was connected reconnects on first use when loaded again
+    await (this._pendingSaves.get(contextId) || Promise.resolve()).catch(() => {});
+    this._contexts.delete(contextId);
+    await context.disconnect();
+    context.removeAllListeners();
+    
+    this.emit('context-unloaded', { contextId });
   }
 
   /**
@@ -192,6 +340,11 @@ export class ModelContextManager extends EventEmitter {
       'state-restored',
       'object-created',
       'object-deleted',
+      'objects-rehydrated',
+      'selections-changed',
+      'history-changed',
+      'reload-progress',
+      'reload-finished',
       'session-closed',
       'session-suspended',
       'session-resumed',
@@ -208,4 +361,71 @@ export class ModelContextManager extends EventEmitter {
       });
     }
   }
+
+  /**
+   * Save a context again whenever its persisted parts change
+   * 
+   * @param context - Context to save on changes
+   */
+  private _setupPersistence(context: ModelContext): void {
+    if (!this._stateStore) {
+      return;
+    }
+    
+    const eventsToPersist = [
+      'connected',
+      'disconnected',
+      'session-closed',
+      'state-restored',
+      'object-created',
+      'object-deleted',
+      'objects-rehydrated',
+      'metadata-changed'
+    ];
+    
+    for (const event of eventsToPersist) {
+      context.on(event, () => {
+        this._saveContext(context).catch((error) => {
+          this.emit('error', error);
+        });
+      });
+    }
+  }
+
+  /**
+   * Save a context to the state store
+   * 
+   * Saves of a context run one after the other, so the last change wins.
+   * 
+   * @param context - Context to save
+   * @returns Promise that resolves when the context is saved
+   */
+  private _saveContext(context: ModelContext): Promise<void> {
+    const store = this._stateStore;
+    
+    if (!store || this._disposed) {
+      return Promise.resolve();
+    }
+    
+    const previous = this._pendingSaves.get(context.id) || Promise.resolve();
+    const save = previous
+      .catch(() => {})
+      .then(async () => {
+        // Deleted contexts are not saved again
+        if (this._contexts.get(context.id) === context) {
+          await store.saveContext(context.toRecord());
+        }
+      });
+    
+    this._pendingSaves.set(context.id, save);
+    
+    // Forget the save once it is the last one
+    save.catch(() => {}).then(() => {
+      if (this._pendingSaves.get(context.id) === save) {
+        this._pendingSaves.delete(context.id);
+      }
+    });
+    
+    return save;
+  }
 }
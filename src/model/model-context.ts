@@ -1,6 +1,31 @@
 import { ModelState } from './model-state';
+import { ContextRecord, StateStore } from './state-store';
 import { ObjectRegistry } from './object-registry';
+import { ContextHistory, HistoryEntry, isReadMethod } from './context-history';
 import { QixSession, QixSessionConfig } from '../engine/qix-session';
+import {
+  HyperCubeQuery,
+  HyperCubeResult,
+  HyperCubeStreamHandlers,
+  HyperCubeStreamSummary
+} from '../engine/hypercube';
+import { FieldValue, SelectionState } from '../engine/selections';
+import { FieldValuesQuery, FieldValuesResult } from '../engine/list-object';
+import { DataModel, DataModelTable, FieldDescription } from '../engine/data-model';
+import { ReloadOptions, ReloadResult, ScriptError } from '../engine/script';
+import { analyzeScript, ScriptAnalysis } from '../engine/script-analysis';
+import { ExpressionResult, ExpressionValidation } from '../engine/expressions';
+import {
+  MASTER_ITEM_TYPES,
+  MasterItem,
+  MasterItemInput,
+  MasterItemSearch,
+  MasterItemType,
+  MasterItemUpdate,
+  matchesMasterItemSearch
+} from '../engine/master-items';
+import { SheetContent, SheetContentOptions, SheetSummary } from '../engine/sheets';
+import { Bookmark, BookmarkInput, BookmarkUpdate, SessionState, toSessionState } from '../engine/bookmarks';
 import { AuthManager } from '../auth/auth-manager';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
@@ -16,6 +41,14 @@ export interface ModelContextConfig {
   authType?: 'oauth2' | 'jwt' | 'apikey';
 }
 
+/**
+ * Interface for a snapshot of an object and the session state, to undo a method execution
+ */
+interface ObjectSnapshot {
+  properties: any;
+  state: SessionState;
+}
+
 /**
  * ModelContext class for managing model context
  * 
@@ -27,30 +60,64 @@ export class ModelContext extends EventEmitter {
   private _config: ModelContextConfig;
   private _state: ModelState;
   private _objectRegistry: ObjectRegistry;
+  private _history: ContextHistory;
   private _session: QixSession | null = null;
   private _authManager: AuthManager | null = null;
   private _isConnected: boolean = false;
   private _lastActivity: Date = new Date();
   private _metadata: Map<string, any> = new Map();
+  private _reloadInProgress: boolean = false;
+  private _reconnectOnUse: boolean = false;
+  private _reconnecting: Promise<void> | null = null;
 
   /**
    * Creates a new ModelContext instance
    * 
    * @param config - Configuration for the model context
    * @param authManager - Optional authentication manager
+   * @param stateStore - Optional store to keep saved states in
+   * @param contextId - Optional ID of a context restored after a restart
    */
-  constructor(config: ModelContextConfig, authManager?: AuthManager) {
+  constructor(config: ModelContextConfig, authManager?: AuthManager, stateStore?: StateStore, contextId?: string) {
     super();
-    this._id = uuidv4();
+    this._id = contextId || uuidv4();
     this._config = config;
-    this._state = new ModelState(this._id);
+    this._state = new ModelState(this._id, stateStore);
     this._objectRegistry = new ObjectRegistry(this._id);
+    this._history = new ContextHistory(this._id);
     this._authManager = authManager || null;
     
     // Update last activity
     this._updateLastActivity();
   }
 
+  /**
+   * Restore a context saved with `toRecord`
+   * 
+   * The context keeps its ID and reconnects to the engine on first use if it
+   * was connected when it was saved.
+   * 
+   * @param record - Saved context
+   * @param authManager - Optional authentication manager
+   * @param stateStore - Optional store to keep saved states in
+   * @returns Promise that resolves with the restored context
+   */
+  static async restore(record: ContextRecord, authManager?: AuthManager, stateStore?: StateStore): Promise<ModelContext> {
+    const context = new ModelContext(record.config, authManager, stateStore, record.id);
+    
+    for (const [key, value] of Object.entries(record.metadata || {})) {
+      context._metadata.set(key, value);
+    }
+    
+    if (record.objects) {
+      await context._objectRegistry.setState(record.objects);
+    }
+    
+    context._reconnectOnUse = Boolean(record.connected);
+    
+    return context;
+  }
+
   /**
    * Get the context ID
    */
@@ -79,6 +146,13 @@ export class ModelContext extends EventEmitter {
     return this._objectRegistry;
   }
 
+  /**
+   * Get the undo and redo history
+   */
+  get history(): ContextHistory {
+    return this._history;
+  }
+
   /**
    * Check if the context is connected to the engine
    */
@@ -86,6 +160,13 @@ export class ModelContext extends EventEmitter {
     return this._isConnected;
   }
 
+  /**
+   * Check if a reload of the app is in progress
+   */
+  get isReloading(): boolean {
+    return this._reloadInProgress;
+  }
+
   /**
    * Get the last activity timestamp
    */
@@ -116,6 +197,12 @@ export class ModelContext extends EventEmitter {
         sessionConfig.authHeaders = await this._authManager.getAuthHeaders(this._config.authType);
       }
       
+      // Drop a session suspended by a network failure
+      if (this._session) {
+        this._session.removeAllListeners();
+        await this._session.close().catch(() => {});
+      }
+      
       // Create QIX session
       this._session = new QixSession(sessionConfig);
       
@@ -127,6 +214,10 @@ export class ModelContext extends EventEmitter {
       
       // Mark as connected
       this._isConnected = true;
+      this._reconnectOnUse = false;
+      
+      // Re-create the objects the engine lost with the previous session
+      await this._rehydrateObjects();
       
       // Update last activity
       this._updateLastActivity();
@@ -152,6 +243,19 @@ export class ModelContext extends EventEmitter {
    */
   async disconnect(): Promise<void> {
     if (!this._isConnected || !this._session) {
+      // A suspended session stops resuming, and a restored context that has
+      // not reconnected yet stays disconnected
+      if (this._session || this._reconnectOnUse) {
+        if (this._session) {
+          this._session.removeAllListeners();
+          await this._session.close().catch(() => {});
+          this._session = null;
+        }
+        
+        this._reconnectOnUse = false;
+        this.emit('disconnected', { contextId: this._id });
+      }
+      
       return;
     }
     
@@ -178,6 +282,43 @@ export class ModelContext extends EventEmitter {
     }
   }
 
+  /**
+   * Reconnect a context restored after a restart on its first use
+   * 
+   * Only contexts that were connected when they were saved reconnect.
+   * 
+   * @returns Promise that resolves with whether the context is connected
+   */
+  async reconnectIfRestored(): Promise<boolean> {
+    if (this._reconnectOnUse && !this._isConnected) {
+      // Concurrent first uses share one connection attempt
+      if (!this._reconnecting) {
+        this._reconnecting = this.connect().finally(() => {
+          this._reconnecting = null;
+        });
+      }
+      
+      await this._reconnecting;
+    }
+    
+    return this._isConnected;
+  }
+
+  /**
+   * Get the record to save the context with, to restore it after a restart
+   * 
+   * @returns The context record
+   */
+  toRecord(): ContextRecord {
+    return {
+      id: this._id,
+      config: this.config,
+      metadata: this.getAllMetadata(),
+      objects: this._objectRegistry.getState(),
+      connected: this._isConnected || this._reconnectOnUse
+    };
+  }
+
   /**
    * Save the current state
    * 
@@ -188,6 +329,9 @@ export class ModelContext extends EventEmitter {
     // Update last activity
     this._updateLastActivity();
     
+    // Include the selections of a restored context
+    await this.reconnectIfRestored();
+    
     // Get the current state
     const state = await this._getCurrentState();
     
@@ -222,9 +366,14 @@ export class ModelContext extends EventEmitter {
       throw new Error(`State not found: ${stateId}`);
     }
     
+    await this.reconnectIfRestored();
+    
     // Restore the state
     await this._restoreState(state);
     
+    // Operations made before the state was restored can no longer be undone
+    this._history.clear();
+    
     // Emit state restored event
     this.emit('state-restored', { contextId: this._id, stateId });
   }
@@ -237,7 +386,7 @@ export class ModelContext extends EventEmitter {
    * @returns Promise that resolves with the object handle
    */
   async createObject(objectType: string, properties: any): Promise<string> {
-    if (!this._isConnected || !this._session) {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
       throw new Error('Not connected to engine');
     }
     
@@ -250,6 +399,16 @@ export class ModelContext extends EventEmitter {
     // Register the object
     this._objectRegistry.registerObject(objectHandle, objectType, properties);
     
+    // Record the operation so it can be undone
+    let removed: any = null;
+    
+    this._history.record('object-created', objectType, objectHandle, {
+      undo: async () => {
+        removed = await this._removeObject(objectHandle);
+      },
+      redo: () => this._restoreObject(removed)
+    });
+    
     // Emit object created event
     this.emit('object-created', { contextId: this._id, objectHandle, objectType, properties });
     
@@ -263,7 +422,7 @@ export class ModelContext extends EventEmitter {
    * @returns Promise that resolves when the object is deleted
    */
   async deleteObject(objectHandle: string): Promise<void> {
-    if (!this._isConnected || !this._session) {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
       throw new Error('Not connected to engine');
     }
     
@@ -275,14 +434,16 @@ export class ModelContext extends EventEmitter {
     // Update last activity
     this._updateLastActivity();
     
-    // Destroy the object
-    await this._session.destroyObject(objectHandle);
-    
-    // Unregister the object
-    this._objectRegistry.unregisterObject(objectHandle);
+    // Destroy and unregister the object
+    const objectMeta = await this._removeObject(objectHandle);
     
-    // Emit object deleted event
-    this.emit('object-deleted', { contextId: this._id, objectHandle });
+    // Record the operation so it can be undone
+    this._history.record('object-deleted', objectMeta.type, objectHandle, {
+      undo: () => this._restoreObject(objectMeta),
+      redo: async () => {
+        await this._removeObject(objectHandle);
+      }
+    });
   }
 
   /**
@@ -294,7 +455,7 @@ export class ModelContext extends EventEmitter {
    * @returns Promise that resolves with the result
    */
   async executeMethod(objectHandle: string, method: string, params: any[] = []): Promise<any> {
-    if (!this._isConnected || !this._session) {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
       throw new Error('Not connected to engine');
     }
     
@@ -306,144 +467,1185 @@ export class ModelContext extends EventEmitter {
     // Update last activity
     this._updateLastActivity();
     
+    // Snapshot the object and the session so a change can be undone
+    const before = isReadMethod(method) ? null : await this._snapshotObject(this._session, objectHandle);
+    
     // Execute the method
-    const result = await this._session.executeMethod(objectHandle, method, params);
+    const result = await this._session.executeMethod(this._objectRegistry.resolveHandle(objectHandle), method, params);
     
     // Update object properties if the method returns properties
     if (result && typeof result === 'object' && result.qProp) {
       this._objectRegistry.updateObject(objectHandle, result.qProp);
+    } else if (method === 'setProperties' && params[0]) {
+      // Keep the properties an object is re-created from after a reconnect
+      this._objectRegistry.updateObject(objectHandle, params[0]);
+    }
+    
+    if (before) {
+      const type = this._objectRegistry.getObject(objectHandle).type === 'GenericVariable'
+        ? 'variable-changed'
+        : 'method-executed';
+      let after: ObjectSnapshot;
+      
+      this._history.record(type, method, objectHandle, {
+        undo: async () => {
+          const session = await this._requireSession();
+          
+          after = await this._snapshotObject(session, objectHandle);
+          await this._applyObjectSnapshot(session, objectHandle, before);
+        },
+        redo: async () => {
+          await this._applyObjectSnapshot(await this._requireSession(), objectHandle, after);
+        }
+      });
     }
     
     return result;
   }
 
   /**
-   * Get metadata
+   * Query data under the current selections
    * 
-   * @param key - Metadata key
-   * @returns Metadata value or undefined if not found
+   * @param query - Dimensions, measures, sort order and row limit
+   * @returns Promise that resolves with the typed rows and their headers
    */
-  getMetadata(key: string): any {
-    return this._metadata.get(key);
+  async queryData(query: HyperCubeQuery): Promise<HyperCubeResult> {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
+      throw new Error('Not connected to engine');
+    }
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await this._session.queryHyperCube(query);
   }
 
   /**
-   * Set metadata
+   * Stream data under the current selections, page by page
    * 
-   * @param key - Metadata key
-   * @param value - Metadata value
+   * @param query - Dimensions, measures, sort order and optional row limit
+   * @param handlers - Handlers for the header and each page of rows
+   * @param signal - Optional signal to cancel the stream between pages
+   * @returns Promise that resolves with the number of rows streamed
    */
-  setMetadata(key: string, value: any): void {
-    this._metadata.set(key, value);
+  async streamData(
+    query: HyperCubeQuery,
+    handlers: HyperCubeStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<HyperCubeStreamSummary> {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
+      throw new Error('Not connected to engine');
+    }
     
     // Update last activity
     this._updateLastActivity();
+    
+    return await this._session.streamHyperCube(query, {
+      header: handlers.header,
+      page: async (page) => {
+        // Long exports count as activity
+        this._updateLastActivity();
+        await handlers.page(page);
+      }
+    }, signal);
   }
 
   /**
-   * Delete metadata
+   * Get the data model of the app
    * 
-   * @param key - Metadata key
-   * @returns True if the metadata was deleted, false if not found
+   * @returns Promise that resolves with the tables, fields, keys, synthetic keys and circular references
    */
-  deleteMetadata(key: string): boolean {
+  async getDataModel(): Promise<DataModel> {
+    const session = await this._requireSession();
+    
     // Update last activity
     this._updateLastActivity();
     
-    return this._metadata.delete(key);
+    return await session.getDataModel();
   }
 
   /**
-   * Get all metadata
+   * Describe a field of the app
    * 
-   * @returns Object containing all metadata
+   * @param fieldName - Name of the field
+   * @returns Promise that resolves with the field description
    */
-  getAllMetadata(): Record<string, any> {
-    const metadata: Record<string, any> = {};
+  async describeField(fieldName: string): Promise<FieldDescription> {
+    const session = await this._requireSession();
     
-    for (const [key, value] of this._metadata.entries()) {
-      metadata[key] = value;
-    }
+    // Update last activity
+    this._updateLastActivity();
     
-    return metadata;
+    return await session.describeField(fieldName);
   }
 
   /**
-   * Update last activity timestamp
+   * Get sample values of the fields of data model tables
+   * 
+   * @param tables - Tables to read, from the data model
+   * @param limit - Maximum number of distinct values per field
+   * @returns Promise that resolves with the sample values by field
    */
-  private _updateLastActivity(): void {
-    this._lastActivity = new Date();
+  async getSampleValues(tables: DataModelTable[], limit: number): Promise<Record<string, string[]>> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getSampleValues(tables, limit);
   }
 
   /**
-   * Set up session event handlers
+   * Evaluate an expression under the current selections
+   * 
+   * @param expression - Chart expression, with or without a leading `=`
+   * @returns Promise that resolves with the number and text result
    */
-  private _setupSessionEventHandlers(): void {
-    if (!this._session) {
-      return;
+  async evaluate(expression: string): Promise<ExpressionResult> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.evaluateExpression(expression);
+  }
+
+  /**
+   * Validate an expression without evaluating it
+   * 
+   * @param expression - Chart expression, with or without a leading `=`
+   * @returns Promise that resolves with the validation result
+   */
+  async checkExpression(expression: string): Promise<ExpressionValidation> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.checkExpression(expression);
+  }
+
+  /**
+   * List and search the master items of the app
+   * 
+   * @param search - Optional type, label or description text, and tag to filter by
+   * @returns Promise that resolves with the matching master items
+   */
+  async listMasterItems(search: MasterItemSearch = {}): Promise<MasterItem[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const types = search.type ? [search.type] : MASTER_ITEM_TYPES;
+    const items: MasterItem[] = [];
+    
+    for (const type of types) {
+      items.push(...await session.listMasterItems(type));
     }
     
-    // Forward relevant events
-    this._session.on('suspended', this._handleSessionSuspended.bind(this));
-    this._session.on('closed', this._handleSessionClosed.bind(this));
-    this._session.on('notification', this._handleSessionNotification.bind(this));
-    this._session.on('error', this._handleSessionError.bind(this));
+    return items.filter(item => matchesMasterItemSearch(item, search));
   }
 
   /**
-   * Handle session suspended event
+   * Get a master item
    * 
-   * @param event - Suspended event
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves with the master item
    */
-  private _handleSessionSuspended(event: any): void {
-    this._isConnected = false;
+  async getMasterItem(type: MasterItemType, id: string): Promise<MasterItem> {
+    const session = await this._requireSession();
     
-    // Emit session suspended event
-    this.emit('session-suspended', { contextId: this._id, event });
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getMasterItem(type, id);
   }
 
   /**
-   * Handle session closed event
+   * Create a master dimension or measure
    * 
-   * @param event - Closed event
+   * @param input - Label, definition, description, tags and number format
+   * @returns Promise that resolves with the created master item
    */
-  private _handleSessionClosed(event: any): void {
-    this._isConnected = false;
-    this._session = null;
+  async createMasterItem(input: MasterItemInput): Promise<MasterItem> {
+    const session = await this._requireSession();
     
-    // Emit session closed event
-    this.emit('session-closed', { contextId: this._id, event });
+    // Update last activity
+    this._updateLastActivity();
+    
+    const item = await session.createMasterItem(input);
+    let properties: any;
+    
+    // Record the operation so it can be undone
+    this._history.record('master-item-created', item.type, item.id, {
+      undo: async () => {
+        const current = await this._requireSession();
+        
+        properties = await current.getMasterItemProperties(item.type, item.id);
+        await current.deleteMasterItem(item.type, item.id);
+      },
+      redo: async () => {
+        await (await this._requireSession()).restoreMasterItem(item.type, properties);
+      }
+    });
+    
+    return item;
   }
 
   /**
-   * Handle session notification event
+   * Update a master item
    * 
-   * @param notification - Notification event
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @param update - Properties to change
+   * @returns Promise that resolves with the updated master item
    */
-  private _handleSessionNotification(notification: any): void {
-    // Emit notification event
-    this.emit('notification', { contextId: this._id, notification });
+  async updateMasterItem(type: MasterItemType, id: string, update: MasterItemUpdate): Promise<MasterItem> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const before = await session.getMasterItemProperties(type, id);
+    const item = await session.updateMasterItem(type, id, update);
+    let after: any;
+    
+    // Record the operation so it can be undone
+    this._history.record('master-item-updated', type, id, {
+      undo: async () => {
+        const current = await this._requireSession();
+        
+        after = await current.getMasterItemProperties(type, id);
+        await current.setMasterItemProperties(type, id, before);
+      },
+      redo: async () => {
+        await (await this._requireSession()).setMasterItemProperties(type, id, after);
+      }
+    });
+    
+    return item;
   }
 
   /**
-   * Handle session error event
+   * Delete a master item
    * 
-   * @param error - Error event
+   * @param type - Type of the master item
+   * @param id - ID of the master item
+   * @returns Promise that resolves when the master item is deleted
    */
-  private _handleSessionError(error: Error): void {
-    // Emit error event
-    this.emit('error', { contextId: this._id, error });
+  async deleteMasterItem(type: MasterItemType, id: string): Promise<void> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const properties = await session.getMasterItemProperties(type, id);
+    
+    await session.deleteMasterItem(type, id);
+    
+    // Record the operation so it can be undone
+    this._history.record('master-item-deleted', type, id, {
+      undo: async () => {
+        await (await this._requireSession()).restoreMasterItem(type, properties);
+      },
+      redo: async () => {
+        await (await this._requireSession()).deleteMasterItem(type, id);
+      }
+    });
   }
 
   /**
-   * Get the current state
+   * List the sheets of the app
    * 
-   * @returns Promise that resolves with the current state
+   * @returns Promise that resolves with the sheets
    */
-  private async _getCurrentState(): Promise<any> {
-    // Get session state if connected
-    const sessionState = this._isConnected && this._session
-      ? await this._session.getState()
+  async listSheets(): Promise<SheetSummary[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.listSheets();
+  }
+
+  /**
+   * Get the visualizations of a sheet with their columns and data under the current selections
+   * 
+   * @param sheetId - ID of the sheet
+   * @param options - Whether to read data, and the row limit per visualization
+   * @returns Promise that resolves with the sheet content
+   */
+  async getSheetContent(sheetId: string, options: SheetContentOptions = {}): Promise<SheetContent> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getSheetContent(sheetId, options);
+  }
+
+  /**
+   * List the bookmarks of the app
+   * 
+   * @returns Promise that resolves with the bookmarks and their selections
+   */
+  async listBookmarks(): Promise<Bookmark[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.listBookmarks();
+  }
+
+  /**
+   * Get a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves with the bookmark and its selections
+   */
+  async getBookmark(id: string): Promise<Bookmark> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getBookmark(id);
+  }
+
+  /**
+   * Create a bookmark of the current selections
+   * 
+   * @param input - Title, description, sheet and whether to include variables
+   * @returns Promise that resolves with the created bookmark
+   */
+  async createBookmark(input: BookmarkInput): Promise<Bookmark> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.createBookmark(input);
+  }
+
+  /**
+   * Apply a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async applyBookmark(id: string): Promise<SelectionState> {
+    return this._changeSelections('apply-bookmark', session => session.applyBookmark(id));
+  }
+
+  /**
+   * Update the title, description or sheet of a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @param update - Properties to change
+   * @returns Promise that resolves with the updated bookmark
+   */
+  async updateBookmark(id: string, update: BookmarkUpdate): Promise<Bookmark> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.updateBookmark(id, update);
+  }
+
+  /**
+   * Delete a bookmark
+   * 
+   * @param id - ID of the bookmark
+   * @returns Promise that resolves when the bookmark is deleted
+   */
+  async deleteBookmark(id: string): Promise<void> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    await session.deleteBookmark(id);
+  }
+
+  /**
+   * Publish a saved state as a bookmark of the app
+   * 
+   * The current selections are kept.
+   * 
+   * @param stateId - ID of the saved state
+   * @param input - Title, description, sheet and whether to include variables
+   * @returns Promise that resolves with the created bookmark
+   */
+  async publishStateAsBookmark(stateId: string, input: BookmarkInput): Promise<Bookmark> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const state = await this._state.load(stateId);
+    
+    if (!state) {
+      throw new Error(`State not found: ${stateId}`);
+    }
+    
+    if (!state.session) {
+      throw new Error(`State has no selections: ${stateId}`);
+    }
+    
+    return await session.createBookmarkFromState(state.session, input);
+  }
+
+  /**
+   * Save a bookmark of the app as a state
+   * 
+   * The state holds the selections and variables of the bookmark, and the
+   * script, objects and metadata of the context as they are now.
+   * 
+   * @param bookmarkId - ID of the bookmark
+   * @param name - Name of the state, defaulting to the bookmark title
+   * @returns Promise that resolves with the state ID
+   */
+  async importBookmarkAsState(bookmarkId: string, name?: string): Promise<string> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const bookmark = await session.getBookmark(bookmarkId);
+    const state = await this._getCurrentState();
+    
+    state.session = toSessionState(bookmark);
+    state.name = name || bookmark.title;
+    state.bookmarkId = bookmarkId;
+    
+    const stateId = await this._state.save(state);
+    
+    // Emit state saved event
+    this.emit('state-saved', { contextId: this._id, stateId, name: state.name, bookmarkId });
+    
+    return stateId;
+  }
+
+  /**
+   * Get the load script of the app
+   * 
+   * @returns Promise that resolves with the script text
+   */
+  async getScript(): Promise<string> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getScript();
+  }
+
+  /**
+   * Replace the load script of the app
+   * 
+   * @param script - Script text
+   * @returns Promise that resolves with the syntax errors of the new script
+   */
+  async setScript(script: string): Promise<ScriptError[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    await session.setScript(script);
+    
+    return await session.checkScriptSyntax();
+  }
+
+  /**
+   * Check the syntax of the load script of the app
+   * 
+   * @returns Promise that resolves with the syntax errors
+   */
+  async checkScript(): Promise<ScriptError[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.checkScriptSyntax();
+  }
+
+  /**
+   * Analyze the load script of the app without reloading it
+   * 
+   * @returns Promise that resolves with the statements, connections, variables and findings of the script
+   */
+  async analyzeScript(): Promise<ScriptAnalysis> {
+    return analyzeScript(await this.getScript());
+  }
+
+  /**
+   * Get the script snapshot of a saved state
+   * 
+   * @param stateId - ID of the saved state
+   * @returns Promise that resolves with the script text as it was when the state was saved
+   */
+  async getStateScript(stateId: string): Promise<string> {
+    // Update last activity
+    this._updateLastActivity();
+    
+    const state = await this._state.load(stateId);
+    
+    if (!state) {
+      throw new Error(`State not found: ${stateId}`);
+    }
+    
+    if (typeof state.script !== 'string') {
+      throw new Error(`State has no script snapshot: ${stateId}`);
+    }
+    
+    return state.script;
+  }
+
+  /**
+   * Reload the app in the engine
+   * 
+   * Emits `reload-progress` for each progress poll, and saves the app
+   * afterwards if asked to and the reload succeeded.
+   * 
+   * @param options - Reload options
+   * @returns Promise that resolves with the result and log of the reload
+   */
+  async reload(options: ReloadOptions = {}): Promise<ReloadResult> {
+    const session = await this._requireSession();
+    
+    if (this._reloadInProgress) {
+      throw new Error('Reload already in progress');
+    }
+    
+    this._reloadInProgress = true;
+    
+    try {
+      const result = await session.reload(options, progress => {
+        // Long reloads count as activity
+        this._updateLastActivity();
+        
+        this.emit('reload-progress', { contextId: this._id, progress });
+      });
+      
+      if (result.success && options.save) {
+        await session.save();
+        result.saved = true;
+      }
+      
+      this.emit('reload-finished', {
+        contextId: this._id,
+        success: result.success,
+        partial: result.partial,
+        saved: result.saved,
+        errors: result.errors
+      });
+      
+      return result;
+    } finally {
+      this._reloadInProgress = false;
+      this._updateLastActivity();
+    }
+  }
+
+  /**
+   * Save the app
+   * 
+   * @returns Promise that resolves when the app is saved
+   */
+  async save(): Promise<void> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    await session.save();
+  }
+
+  /**
+   * Search and list the values of a field under the current selections
+   * 
+   * @param query - Field, search string, states and value limit
+   * @returns Promise that resolves with the field values and their states
+   */
+  async searchFieldValues(query: FieldValuesQuery): Promise<FieldValuesResult> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.searchFieldValues(query);
+  }
+
+  /**
+   * Get the current selections with their state counts
+   * 
+   * @param fieldName - Optional field to report state counts for even when it has no selections
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state
+   */
+  async getSelections(fieldName?: string, stateName?: string): Promise<SelectionState> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.getSelectionState(fieldName, stateName);
+  }
+
+  /**
+   * Select values in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param values - Text or numeric values to select
+   * @param toggle - Whether to toggle the values instead of replacing the selection
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async selectValues(fieldName: string, values: FieldValue[], toggle: boolean = false, stateName?: string): Promise<SelectionState> {
+    return this._changeSelections('select', session =>
+      session.selectFieldValues(fieldName, values, toggle, stateName), fieldName, stateName);
+  }
+
+  /**
+   * Clear the selections in a field
+   * 
+   * @param fieldName - Name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async clearField(fieldName: string, stateName?: string): Promise<SelectionState> {
+    return this._changeSelections('clear', session => session.clearField(fieldName, stateName), fieldName, stateName);
+  }
+
+  /**
+   * Clear the selections in all fields
+   * 
+   * @param lockedAlso - Whether to clear locked fields too
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async clearAll(lockedAlso: boolean = false, stateName?: string): Promise<SelectionState> {
+    return this._changeSelections('clear-all', session => session.clearAll(lockedAlso, stateName), undefined, stateName);
+  }
+
+  /**
+   * Lock the selections in a field, or in all fields if no field is given
+   * 
+   * @param fieldName - Optional name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async lock(fieldName?: string, stateName?: string): Promise<SelectionState> {
+    return fieldName
+      ? this._changeSelections('lock', session => session.lockField(fieldName, stateName), fieldName, stateName)
+      : this._changeSelections('lock-all', session => session.lockAll(stateName), undefined, stateName);
+  }
+
+  /**
+   * Unlock the selections in a field, or in all fields if no field is given
+   * 
+   * @param fieldName - Optional name of the field
+   * @param stateName - Optional alternate state, instead of the default state
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async unlock(fieldName?: string, stateName?: string): Promise<SelectionState> {
+    return fieldName
+      ? this._changeSelections('unlock', session => session.unlockField(fieldName, stateName), fieldName, stateName)
+      : this._changeSelections('unlock-all', session => session.unlockAll(stateName), undefined, stateName);
+  }
+
+  /**
+   * List the alternate states of the app
+   * 
+   * @returns Promise that resolves with the names of the alternate states
+   */
+  async listAlternateStates(): Promise<string[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    return await session.listAlternateStates();
+  }
+
+  /**
+   * Add an alternate state, to make selections in apart from the default state
+   * 
+   * @param stateName - Name of the alternate state
+   * @returns Promise that resolves with the names of the alternate states
+   */
+  async addAlternateState(stateName: string): Promise<string[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    await session.addAlternateState(stateName);
+    
+    return await session.listAlternateStates();
+  }
+
+  /**
+   * Remove an alternate state with its selections
+   * 
+   * @param stateName - Name of the alternate state
+   * @returns Promise that resolves with the names of the remaining alternate states
+   */
+  async removeAlternateState(stateName: string): Promise<string[]> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    await session.removeAlternateState(stateName);
+    
+    return await session.listAlternateStates();
+  }
+
+  /**
+   * Go back one step in the selection history
+   * 
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async back(): Promise<SelectionState> {
+    return this._changeSelections('back', session => session.back());
+  }
+
+  /**
+   * Go forward one step in the selection history
+   * 
+   * @returns Promise that resolves with the selection state after the change
+   */
+  async forward(): Promise<SelectionState> {
+    return this._changeSelections('forward', session => session.forward());
+  }
+
+  /**
+   * Undo the last operation: an object create or delete, a selection, a
+   * variable change, a method execution or a master item change
+   * 
+   * @returns Promise that resolves with the undone history entry
+   */
+  async undo(): Promise<HistoryEntry> {
+    await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const entry = await this._history.undo();
+    
+    // Emit history changed event
+    this.emit('history-changed', { contextId: this._id, action: 'undo', entry });
+    
+    return entry;
+  }
+
+  /**
+   * Redo the last undone operation
+   * 
+   * @returns Promise that resolves with the redone history entry
+   */
+  async redo(): Promise<HistoryEntry> {
+    await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    const entry = await this._history.redo();
+    
+    // Emit history changed event
+    this.emit('history-changed', { contextId: this._id, action: 'redo', entry });
+    
+    return entry;
+  }
+
+  /**
+   * Get metadata
+   * 
+   * @param key - Metadata key
+   * @returns Metadata value or undefined if not found
+   */
+  getMetadata(key: string): any {
+    return this._metadata.get(key);
+  }
+
+  /**
+   * Set metadata
+   * 
+   * @param key - Metadata key
+   * @param value - Metadata value
+   */
+  setMetadata(key: string, value: any): void {
+    this._metadata.set(key, value);
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    // Emit metadata changed event
+    this.emit('metadata-changed', { contextId: this._id, key });
+  }
+
+  /**
+   * Delete metadata
+   * 
+   * @param key - Metadata key
+   * @returns True if the metadata was deleted, false if not found
+   */
+  deleteMetadata(key: string): boolean {
+    // Update last activity
+    this._updateLastActivity();
+    
+    const deleted = this._metadata.delete(key);
+    
+    if (deleted) {
+      // Emit metadata changed event
+      this.emit('metadata-changed', { contextId: this._id, key });
+    }
+    
+    return deleted;
+  }
+
+  /**
+   * Get all metadata
+   * 
+   * @returns Object containing all metadata
+   */
+  getAllMetadata(): Record<string, any> {
+    const metadata: Record<string, any> = {};
+    
+    for (const [key, value] of this._metadata.entries()) {
+      metadata[key] = value;
+    }
+    
+    return metadata;
+  }
+
+  /**
+   * Update last activity timestamp
+   */
+  private _updateLastActivity(): void {
+    this._lastActivity = new Date();
+  }
+
+  /**
+   * Get the session or throw if not connected
+   * 
+   * @returns Promise that resolves with the QIX session
+   */
+  private async _requireSession(): Promise<QixSession> {
+    if (!(await this.reconnectIfRestored()) || !this._session) {
+      throw new Error('Not connected to engine');
+    }
+    
+    return this._session;
+  }
+
+  /**
+   * Apply a selection change and read the resulting selection state
+   * 
+   * @param action - Name of the change, reported in the `selections-changed` event
+   * @param change - Change to apply to the session
+   * @param fieldName - Field the change applies to, if any
+   * @param stateName - Alternate state the change applies to, if any
+   * @returns Promise that resolves with the selection state after the change
+   */
+  private async _changeSelections(
+    action: string,
+    change: (session: QixSession) => Promise<any>,
+    fieldName?: string,
+    stateName?: string
+  ): Promise<SelectionState> {
+    const session = await this._requireSession();
+    
+    // Update last activity
+    this._updateLastActivity();
+    
+    // The tracked state is kept up to date by the session, so it costs no extra engine reads
+    const before = await session.getTrackedState();
+    
+    await change(session);
+    const selections = await session.getSelectionState(fieldName, stateName);
+    let after: SessionState;
+    
+    // Record the operation so it can be undone
+    this._history.record('selections-changed', action, fieldName, {
+      undo: async () => {
+        const current = await this._requireSession();
+        
+        after = await current.getTrackedState();
+        await this._replaySelections(current, 'undo', before, fieldName, stateName);
+      },
+      redo: async () => {
+        await this._replaySelections(await this._requireSession(), 'redo', after, fieldName, stateName);
+      }
+    });
+    
+    // Emit selections changed event
+    this.emit('selections-changed', { contextId: this._id, action, field: fieldName, stateName, selections });
+    
+    return selections;
+  }
+
+  /**
+   * Set the selections and variables of the session back to a snapshot
+   * 
+   * @param session - QIX session
+   * @param action - Name of the change, reported in the `selections-changed` event
+   * @param state - Snapshot from `getState`
+   * @param fieldName - Field the original change applied to, if any
+   * @param stateName - Alternate state the original change applied to, if any
+   */
+  private async _replaySelections(
+    session: QixSession,
+    action: string,
+    state: SessionState,
+    fieldName?: string,
+    stateName?: string
+  ): Promise<void> {
+    await session.setState(state);
+    const selections = await session.getSelectionState(fieldName, stateName);
+    
+    // Emit selections changed event
+    this.emit('selections-changed', { contextId: this._id, action, field: fieldName, stateName, selections });
+  }
+
+  /**
+   * Destroy and unregister an object
+   * 
+   * @param objectHandle - Handle of the object
+   * @returns Promise that resolves with the metadata of the removed object
+   */
+  private async _removeObject(objectHandle: string): Promise<any> {
+    const session = await this._requireSession();
+    const objectMeta = this._objectRegistry.getObject(objectHandle);
+    
+    if (!objectMeta) {
+      throw new Error(`Object not found: ${objectHandle}`);
+    }
+    
+    // Destroy the object
+    await session.destroyObject(this._objectRegistry.resolveHandle(objectHandle));
+    
+    // Unregister the object
+    this._objectRegistry.unregisterObject(objectHandle);
+    
+    // Emit object deleted event
+    this.emit('object-deleted', { contextId: this._id, objectHandle });
+    
+    return objectMeta;
+  }
+
+  /**
+   * Create and register a removed object again under its handle
+   * 
+   * @param objectMeta - Metadata of the removed object
+   */
+  private async _restoreObject(objectMeta: any): Promise<void> {
+    const session = await this._requireSession();
+    const { handle: objectHandle, type: objectType, properties } = objectMeta;
+    
+    const engineHandle = await this._createEngineObject(session, objectType, objectHandle, properties);
+    
+    // Register the object
+    this._objectRegistry.registerObject(objectHandle, objectType, properties);
+    this._objectRegistry.remapObject(objectHandle, engineHandle);
+    
+    // Emit object created event
+    this.emit('object-created', { contextId: this._id, objectHandle, objectType, properties });
+  }
+
+  /**
+   * Create an object in the engine, asking for its registered handle as ID
+   * 
+   * @param session - QIX session
+   * @param objectType - Type of the object
+   * @param objectHandle - Registered handle of the object
+   * @param properties - Object properties
+   * @returns Promise that resolves with the ID the engine gave the object
+   */
+  private async _createEngineObject(session: QixSession, objectType: string, objectHandle: string, properties: any): Promise<string> {
+    return await session.createObject(objectType, {
+      ...properties,
+      qInfo: { ...(properties && properties.qInfo), qId: objectHandle }
+    });
+  }
+
+  /**
+   * Snapshot the properties of an object with the selections and variables of the session
+   * 
+   * @param session - QIX session
+   * @param objectHandle - Handle of the object
+   * @returns Promise that resolves with the snapshot
+   */
+  private async _snapshotObject(session: QixSession, objectHandle: string): Promise<ObjectSnapshot> {
+    // Objects without properties only have their session state restored
+    const properties = await session
+      .executeMethod(this._objectRegistry.resolveHandle(objectHandle), 'getProperties')
+      .catch(() => null);
+    
+    return { properties, state: await session.getTrackedState() };
+  }
+
+  /**
+   * Set an object and the session back to a snapshot
+   * 
+   * @param session - QIX session
+   * @param objectHandle - Handle of the object
+   * @param snapshot - Snapshot from `_snapshotObject`
+   */
+  private async _applyObjectSnapshot(session: QixSession, objectHandle: string, snapshot: ObjectSnapshot): Promise<void> {
+    if (snapshot.properties) {
+      await session.executeMethod(this._objectRegistry.resolveHandle(objectHandle), 'setProperties', [snapshot.properties]);
+      this._objectRegistry.updateObject(objectHandle, snapshot.properties);
+    }
+    
+    await session.setState(snapshot.state);
+  }
+
+  /**
+   * Set up session event handlers
+   */
+  private _setupSessionEventHandlers(): void {
+    if (!this._session) {
+      return;
+    }
+    
+    // Forward relevant events
+    this._session.on('suspended', this._handleSessionSuspended.bind(this));
+    this._session.on('resumed', this._handleSessionResumed.bind(this));
+    this._session.on('closed', this._handleSessionClosed.bind(this));
+    this._session.on('notification', this._handleSessionNotification.bind(this));
+    this._session.on('error', this._handleSessionError.bind(this));
+  }
+
+  /**
+   * Re-create registered objects that the engine no longer has
+   * 
+   * Objects are requested under their registered handle; when the engine
+   * gives them another ID, the registry maps the registered handle to it so
+   * clients keep using the handles they know.
+   */
+  private async _rehydrateObjects(): Promise<void> {
+    if (!this._session || this._objectRegistry.size === 0) {
+      return;
+    }
+    
+    const recreated: string[] = [];
+    const failed: string[] = [];
+    
+    for (const objectMeta of this._objectRegistry.getAllObjects()) {
+      const { handle, type, properties } = objectMeta;
+      
+      try {
+        // Objects saved in the app survive the session
+        if (await this._session.hasObject(type, this._objectRegistry.resolveHandle(handle))) {
+          continue;
+        }
+        
+        const engineHandle = await this._createEngineObject(this._session, type, handle, properties);
+        
+        this._objectRegistry.remapObject(handle, engineHandle);
+        recreated.push(handle);
+      } catch (error) {
+        // Keep the object registered so the next reconnect retries it
+        failed.push(handle);
+      }
+    }
+    
+    if (recreated.length > 0 || failed.length > 0) {
+      this.emit('objects-rehydrated', {
+        contextId: this._id,
+        recreated,
+        failed,
+        handles: this._objectRegistry.getHandleMap()
+      });
+    }
+  }
+
+  /**
+   * Handle session suspended event
+   * 
+   * @param event - Suspended event
+   */
+  private _handleSessionSuspended(event: any): void {
+    this._isConnected = false;
+    
+    // Emit session suspended event
+    this.emit('session-suspended', { contextId: this._id, event });
+  }
+
+  /**
+   * Handle session resumed event
+   * 
+   * The session has already replayed its selections and variables, so only
+   * the objects are left to re-create.
+   * 
+   * @param event - Resumed event
+   */
+  private async _handleSessionResumed(event: any): Promise<void> {
+    this._isConnected = true;
+    
+    // Re-create the objects the engine lost with the previous session
+    await this._rehydrateObjects();
+    
+    // Emit session resumed event
+    this.emit('session-resumed', { contextId: this._id, event });
+  }
+
+  /**
+   * Handle session closed event
+   * 
+   * @param event - Closed event
+   */
+  private _handleSessionClosed(event: any): void {
+    this._isConnected = false;
+    this._session = null;
+    
+    // Emit session closed event
+    this.emit('session-closed', { contextId: this._id, event });
+  }
+
+  /**
+   * Handle session notification event
+   * 
+   * @param notification - Notification event
+   */
+  private _handleSessionNotification(notification: any): void {
+    // Emit notification event
+    this.emit('notification', { contextId: this._id, notification });
+  }
+
+  /**
+   * Handle session error event
+   * 
+   * @param error - Error event
+   */
+  private _handleSessionError(error: Error): void {
+    // Emit error event
+    this.emit('error', { contextId: this._id, error });
+  }
+
+  /**
+   * Get the current state
+   * 
+   * @returns Promise that resolves with the current state
+   */
+  private async _getCurrentState(): Promise<any> {
+    // Get session state if connected
+    const sessionState = this._isConnected && this._session
+      ? await this._session.getState()
+      : null;
+    
+    // Snapshot the script so it can be compared later; users without
+    // access to the script can still save states
+    const script = this._isConnected && this._session
+      ? await this._session.getScript().catch(() => null)
       : null;
     
     // Get object registry state
@@ -456,6 +1658,7 @@ export class ModelContext extends EventEmitter {
     return {
       timestamp: new Date().toISOString(),
       session: sessionState,
+      script,
       objects: objectState,
       metadata
     };
@@ -1,20 +1,25 @@
+import { MemoryStateStore, StateStore, StateSummary } from './state-store';
+
 /**
  * ModelState class for managing the persistence of model state
  * 
  * This class handles saving and loading model state, allowing for
- * state persistence across sessions.
+ * state persistence across sessions. States are kept by a state store,
+ * which may be shared by all contexts of a server.
  */
 export class ModelState {
   private _contextId: string;
-  private _states: Map<string, any> = new Map();
+  private _store: StateStore;
 
   /**
    * Creates a new ModelState instance
    * 
    * @param contextId - ID of the associated model context
+   * @param store - Optional store to keep the states in; defaults to memory
    */
-  constructor(contextId: string) {
+  constructor(contextId: string, store?: StateStore) {
     this._contextId = contextId;
+    this._store = store || new MemoryStateStore();
   }
 
   /**
@@ -27,16 +32,12 @@ export class ModelState {
     const stateId = `state-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     
     // Store the state data with metadata
-    const stateEntry = {
+    await this._store.save({
       id: stateId,
       contextId: this._contextId,
       timestamp: new Date().toISOString(),
       data: stateData
-    };
-    
-    // In a real implementation, this would persist to a database or file system
-    // For now, we'll store in memory
-    this._states.set(stateId, stateEntry);
+    });
     
     return stateId;
   }
@@ -48,9 +49,7 @@ export class ModelState {
    * @returns Promise that resolves with the state data or null if not found
    */
   async load(stateId: string): Promise<any | null> {
-    // In a real implementation, this would retrieve from a database or file system
-    // For now, we'll retrieve from memory
-    const stateEntry = this._states.get(stateId);
+    const stateEntry = await this._store.load(this._contextId, stateId);
     
     if (!stateEntry) {
       return null;
@@ -64,19 +63,9 @@ export class ModelState {
    * 
    * @returns Promise that resolves with an array of state metadata
    */
-  async list(): Promise<any[]> {
-    // Convert the map to an array of state entries
-    const states = Array.from(this._states.values()).map(state => ({
-      id: state.id,
-      contextId: state.contextId,
-      timestamp: state.timestamp,
-      name: state.data.name || state.id
-    }));
-    
-    // Sort by timestamp, newest first
-    return states.sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+  async list(): Promise<StateSummary[]> {
+    // Stores sort by timestamp, newest first
+    return this._store.list(this._contextId);
   }
 
   /**
@@ -86,9 +75,7 @@ export class ModelState {
    * @returns Promise that resolves when the state is deleted
    */
   async delete(stateId: string): Promise<void> {
-    // In a real implementation, this would delete from a database or file system
-    // For now, we'll delete from memory
-    this._states.delete(stateId);
+    await this._store.delete(this._contextId, stateId);
   }
 
   /**
@@ -97,6 +84,6 @@ export class ModelState {
    * @returns Promise that resolves when all states are cleared
    */
   async clear(): Promise<void> {
-    this._states.clear();
+    await this._store.clear(this._contextId);
   }
 }
@@ -7,6 +7,7 @@
 export class ObjectRegistry {
   private _contextId: string;
   private _objects: Map<string, any> = new Map();
+  private _engineHandles: Map<string, string> = new Map();
 
   /**
    * Creates a new ObjectRegistry instance
@@ -66,9 +67,48 @@ export class ObjectRegistry {
    * @returns True if the object was unregistered, false if not found
    */
   unregisterObject(handle: string): boolean {
+    this._engineHandles.delete(handle);
     return this._objects.delete(handle);
   }
 
+  /**
+   * Map an object to the handle the engine gave it when it was re-created
+   * 
+   * Clients keep using the handle the object was registered with.
+   * 
+   * @param handle - Object handle
+   * @param engineHandle - Handle of the object in the current engine session
+   */
+  remapObject(handle: string, engineHandle: string): void {
+    if (engineHandle === handle) {
+      this._engineHandles.delete(handle);
+    } else {
+      this._engineHandles.set(handle, engineHandle);
+    }
+  }
+
+  /**
+   * Get the handle of an object in the current engine session
+   * 
+   * @param handle - Object handle
+   * @returns The engine handle, which is the object handle unless the object was re-created under another ID
+   */
+  resolveHandle(handle: string): string {
+    return this._engineHandles.get(handle) || handle;
+  }
+
+  /**
+   * Get the objects that the engine knows under another handle
+   * 
+   * @returns Engine handles by object handle
+   */
+  getHandleMap(): Record<string, string> {
+    return Array.from(this._engineHandles.entries()).reduce((acc, [handle, engineHandle]) => {
+      acc[handle] = engineHandle;
+      return acc;
+    }, {} as Record<string, string>);
+  }
+
   /**
    * Get an object's metadata from the registry
    * 
@@ -119,7 +159,8 @@ export class ObjectRegistry {
       objects: Array.from(this._objects.entries()).reduce((acc, [handle, meta]) => {
         acc[handle] = meta;
         return acc;
-      }, {} as Record<string, any>)
+      }, {} as Record<string, any>),
+      handles: this.getHandleMap()
     };
   }
 
@@ -131,6 +172,7 @@ export class ObjectRegistry {
   async setState(state: any): Promise<void> {
     // Clear existing objects
     this._objects.clear();
+    this._engineHandles.clear();
     
     // Restore objects from state
     if (state.objects) {
@@ -138,6 +180,13 @@ export class ObjectRegistry {
         this._objects.set(handle, meta);
       });
     }
+    
+    // Restore the handles of re-created objects
+    if (state.handles) {
+      Object.entries(state.handles).forEach(([handle, engineHandle]) => {
+        this._engineHandles.set(handle, engineHandle as string);
+      });
+    }
   }
 
   /**
@@ -145,6 +194,7 @@ export class ObjectRegistry {
    */
   clear(): void {
     this._objects.clear();
+    this._engineHandles.clear();
   }
 
   /**
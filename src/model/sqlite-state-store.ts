@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { ContextRecord, StateEntry, StateStore, StateSummary } from './state-store';
+
+/**
+ * Interface for a row of the states table
+ */
+interface StateRow {
+  id: string;
+  context_id: string;
+  timestamp: string;
+  name: string;
+  data: string;
+}
+
+/**
+ * Load the SQLite driver
+ * 
+ * The driver is a native optional dependency, so it is only required when
+ * the SQLite store is used.
+ * 
+ * @returns The database constructor
+ */
+function loadDriver(): typeof Database {
+  try {
+    return require('better-sqlite3');
+  } catch (error) {
+    throw new Error(`The SQLite state store requires the better-sqlite3 package: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * SqliteStateStore class for keeping model contexts and saved states in an embedded SQLite database
+ */
+export class SqliteStateStore implements StateStore {
+  private _db: Database.Database;
+
+  /**
+   * Creates a new SqliteStateStore instance
+   * 
+   * @param file - Database file, created when missing, or `:memory:`
+   */
+  constructor(file: string) {
+    const Driver = loadDriver();
+    
+    if (file !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    }
+    
+    this._db = new Driver(file);
+    this._db.pragma('journal_mode = WAL');
+    this._db.exec(`
+      CREATE TABLE IF NOT EXISTS states (
+        context_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (context_id, id)
+      );
+      CREATE TABLE IF NOT EXISTS contexts (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Save a state
+   * 
+   * @param entry - State to save
+   */
+  async save(entry: StateEntry): Promise<void> {
+    this._db
+      .prepare('INSERT OR REPLACE INTO states (context_id, id, timestamp, name, data) VALUES (?, ?, ?, ?, ?)')
+      .run(entry.contextId, entry.id, entry.timestamp, (entry.data && entry.data.name) || entry.id, JSON.stringify(entry.data));
+  }
+
+  /**
+   * Load a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   * @returns The state or null if not found
+   */
+  async load(contextId: string, stateId: string): Promise<StateEntry | null> {
+    const row = this._db
+      .prepare('SELECT * FROM states WHERE context_id = ? AND id = ?')
+      .get(contextId, stateId) as StateRow | undefined;
+    
+    if (!row) {
+      return null;
+    }
+    
+    return {
+      id: row.id,
+      contextId: row.context_id,
+      timestamp: row.timestamp,
+      data: JSON.parse(row.data)
+    };
+  }
+
+  /**
+   * List the states of a context
+   * 
+   * @param contextId - ID of the context
+   * @returns The state metadata, newest first
+   */
+  async list(contextId: string): Promise<StateSummary[]> {
+    const rows = this._db
+      .prepare('SELECT id, context_id, timestamp, name FROM states WHERE context_id = ? ORDER BY timestamp DESC')
+      .all(contextId) as StateRow[];
+    
+    return rows.map(row => ({
+      id: row.id,
+      contextId: row.context_id,
+      timestamp: row.timestamp,
+      name: row.name
+    }));
+  }
+
+  /**
+   * Delete a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   */
+  async delete(contextId: string, stateId: string): Promise<void> {
+    this._db.prepare('DELETE FROM states WHERE context_id = ? AND id = ?').run(contextId, stateId);
+  }
+
+  /**
+   * Delete all states of a context
+   * 
+   * @param contextId - ID of the context
+   */
+  async clear(contextId: string): Promise<void> {
+    this._db.prepare('DELETE FROM states WHERE context_id = ?').run(contextId);
+  }
+
+  /**
+   * Save a context
+   * 
+   * @param record - Context to save
+   */
+  async saveContext(record: ContextRecord): Promise<void> {
+    this._db.prepare('INSERT OR REPLACE INTO contexts (id, data) VALUES (?, ?)').run(record.id, JSON.stringify(record));
+  }
+
+  /**
+   * List the saved contexts
+   * 
+   * @returns The saved contexts
+   */
+  async listContexts(): Promise<ContextRecord[]> {
+    const rows = this._db.prepare('SELECT data FROM contexts').all() as Array<{ data: string }>;
+    
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Delete a saved context
+   * 
+   * @param contextId - ID of the context
+   */
+  async deleteContext(contextId: string): Promise<void> {
+    this._db.prepare('DELETE FROM contexts WHERE id = ?').run(contextId);
+  }
+
+  /**
+   * Close the database
+   */
+  async close(): Promise<void> {
+    if (this._db.open) {
+      this._db.close();
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import { ModelContextConfig } from './model-context';
+import { FileStateStore } from './file-state-store';
+import { SqliteStateStore } from './sqlite-state-store';
+
+/**
+ * Type for the backend that keeps saved states
+ */
+export type StateStoreType = 'memory' | 'filesystem' | 'sqlite';
+
+/**
+ * State store types
+ */
+export const STATE_STORE_TYPES: StateStoreType[] = ['memory', 'filesystem', 'sqlite'];
+
+/**
+ * Default directory of the filesystem store
+ */
+export const DEFAULT_STATE_DIRECTORY = 'data/states';
+
+/**
+ * Default database file of the SQLite store
+ */
+export const DEFAULT_STATE_DATABASE = 'data/states.db';
+
+/**
+ * Interface for the configuration of a state store
+ */
+export interface StateStoreConfig {
+  store: StateStoreType;
+
+  /**
+   * Directory of the filesystem store, or database file of the SQLite store
+   */
+  path?: string;
+}
+
+/**
+ * Interface for a saved state of a model context
+ */
+export interface StateEntry {
+  id: string;
+  contextId: string;
+  timestamp: string;
+
+  /**
+   * State data, such as selections, variables and object registry snapshots
+   */
+  data: any;
+}
+
+/**
+ * Interface for the metadata of a saved state
+ */
+export interface StateSummary {
+  id: string;
+  contextId: string;
+  timestamp: string;
+  name: string;
+}
+
+/**
+ * Interface for a saved model context, restored with the same ID on boot
+ */
+export interface ContextRecord {
+  id: string;
+  config: ModelContextConfig;
+  metadata: Record<string, any>;
+
+  /**
+   * Object registry snapshot
+   */
+  objects: any;
+
+  /**
+   * Whether the context was connected, so it reconnects on first use
+   */
+  connected: boolean;
+}
+
+/**
+ * Interface for a backend that keeps model contexts and their saved states
+ */
+export interface StateStore {
+  /**
+   * Save a state, replacing any state with the same ID
+   */
+  save(entry: StateEntry): Promise<void>;
+
+  /**
+   * Load a state, or null if it is not found
+   */
+  load(contextId: string, stateId: string): Promise<StateEntry | null>;
+
+  /**
+   * List the states of a context, newest first
+   */
+  list(contextId: string): Promise<StateSummary[]>;
+  delete(contextId: string, stateId: string): Promise<void>;
+
+  /**
+   * Delete all states of a context
+   */
+  clear(contextId: string): Promise<void>;
+
+  /**
+   * Save a context, replacing any context with the same ID
+   */
+  saveContext(record: ContextRecord): Promise<void>;
+
+  /**
+   * List the saved contexts
+   */
+  listContexts(): Promise<ContextRecord[]>;
+  deleteContext(contextId: string): Promise<void>;
+
+  /**
+   * Release the resources of the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Convert a saved state to its metadata
+ * 
+ * @param entry - Saved state
+ * @returns The state metadata
+ */
+export function toStateSummary(entry: StateEntry): StateSummary {
+  return {
+    id: entry.id,
+    contextId: entry.contextId,
+    timestamp: entry.timestamp,
+    name: (entry.data && entry.data.name) || entry.id
+  };
+}
+
+/**
+ * Sort state metadata newest first
+ * 
+ * @param summaries - State metadata
+ * @returns The sorted state metadata
+ */
+export function sortStateSummaries(summaries: StateSummary[]): StateSummary[] {
+  return summaries.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+/**
+ * MemoryStateStore class for keeping model contexts and saved states in memory
+ * 
+ * Contexts and states are lost when the server stops, so this store suits development
+ * and tests.
+ */
+export class MemoryStateStore implements StateStore {
+  private _states: Map<string, Map<string, StateEntry>> = new Map();
+  private _contexts: Map<string, ContextRecord> = new Map();
+
+  /**
+   * Save a state
+   * 
+   * @param entry - State to save
+   */
+  async save(entry: StateEntry): Promise<void> {
+    let states = this._states.get(entry.contextId);
+    
+    if (!states) {
+      states = new Map();
+      this._states.set(entry.contextId, states);
+    }
+    
+    states.set(entry.id, entry);
+  }
+
+  /**
+   * Load a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   * @returns The state or null if not found
+   */
+  async load(contextId: string, stateId: string): Promise<StateEntry | null> {
+    const states = this._states.get(contextId);
+    
+    return (states && states.get(stateId)) || null;
+  }
+
+  /**
+   * List the states of a context
+   * 
+   * @param contextId - ID of the context
+   * @returns The state metadata, newest first
+   */
+  async list(contextId: string): Promise<StateSummary[]> {
+    const states = this._states.get(contextId);
+    
+    return sortStateSummaries(states ? Array.from(states.values()).map(toStateSummary) : []);
+  }
+
+  /**
+   * Delete a state
+   * 
+   * @param contextId - ID of the context
+   * @param stateId - ID of the state
+   */
+  async delete(contextId: string, stateId: string): Promise<void> {
+    const states = this._states.get(contextId);
+    
+    if (states) {
+      states.delete(stateId);
+    }
+  }
+
+  /**
+   * Delete all states of a context
+   * 
+   * @param contextId - ID of the context
+   */
+  async clear(contextId: string): Promise<void> {
+    this._states.delete(contextId);
+  }
+
+  /**
+   * Save a context
+   * 
+   * @param record - Context to save
+   */
+  async saveContext(record: ContextRecord): Promise<void> {
+    this._contexts.set(record.id, record);
+  }
+
+  /**
+   * List the saved contexts
+   * 
+   * @returns The saved contexts
+   */
+  async listContexts(): Promise<ContextRecord[]> {
+    return Array.from(this._contexts.values());
+  }
+
+  /**
+   * Delete a saved context
+   * 
+   * @param contextId - ID of the context
+   */
+  async deleteContext(contextId: string): Promise<void> {
+    this._contexts.delete(contextId);
+  }
+
+  /**
+   * Close the store
+   */
+  async close(): Promise<void> {
+    // States live as long as the store, so there is nothing to release
+  }
+}
+
+/**
+ * Create the state store of a configuration
+ * 
+ * @param config - State store configuration
+ * @returns The state store
+ */
+export function createStateStore(config: StateStoreConfig): StateStore {
+  switch (config.store) {
+    case 'memory':
+      return new MemoryStateStore();
+    case 'filesystem':
+      return new FileStateStore(config.path || DEFAULT_STATE_DIRECTORY);
+    case 'sqlite':
+      return new SqliteStateStore(config.path || DEFAULT_STATE_DATABASE);
+    default:
+      throw new Error(`Invalid state store: ${config.store}; expected one of ${STATE_STORE_TYPES.join(', ')}`);
+  }
+}
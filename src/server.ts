@@ -1,6 +1,12 @@
 import dotenv from 'dotenv';
-import { CompositeConfigManager, EnvConfigManager, loadServerConfig, validateServerConfig } from './config';
-import { Server } from './server';
+import { CompositeConfigManager, EnvConfigManager, loadServerConfig } from './config';
+import { Server } from './server/server';
+import { ModelContextManager } from './model/model-context-manager';
+import { createStateStore, StateStore } from './model/state-store';
+import { LogManager } from './utils/log-manager';
+import { APIManager } from './api/api-manager';
+import { AppEventHandler, WebhookManager } from './events';
+import { createQlikMcpServer, loadQlikEnvironment, QlikEnvironment, ResourceNotifier } from './mcp';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -10,25 +16,92 @@ const configManager = new CompositeConfigManager([
   new EnvConfigManager('MCP_')
 ]);
 
-// Load server configuration
-const config = loadServerConfig(configManager);
+// Fall back to PORT from .env for the server port
+if (!configManager.has('server.port') && process.env.PORT) {
+  configManager.set('server.port', Number(process.env.PORT));
+}
+
+// Create logger
+const logger = new LogManager({
+  level: (process.env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug') || 'info',
+  format: 'json'
+});
+
+let environment: QlikEnvironment;
+
+try {
+  environment = loadQlikEnvironment(logger);
+} catch (error) {
+  console.error('Configuration error:', (error as Error).message);
+  process.exit(1);
+}
+
+let stateStore: StateStore;
 
-// Validate configuration
 try {
-  validateServerConfig(config);
+  stateStore = createStateStore(loadServerConfig(configManager).state);
 } catch (error) {
-  console.error('Configuration error:', error.message);
+  console.error('State store error:', (error as Error).message);
   process.exit(1);
 }
 
-// Create and start server
-const server = new Server(config);
+// Create model context manager; saved states are kept in the configured store
+const contextManager = new ModelContextManager(undefined, stateStore);
+
+// Failed context saves and cleanups are logged without stopping the server
+contextManager.on('error', (error: Error) => {
+  logger.error('Model context error', { error });
+});
+
+// Create webhook handling; app events drive MCP resource subscriptions
+const appEventHandler = new AppEventHandler(
+  new APIManager(process.env.QLIK_CLOUD_BASE_URL || '', environment.authManager),
+  logger
+);
+const resourceNotifier = new ResourceNotifier(appEventHandler, logger);
+
+// Webhooks are only accepted when a secret is configured to validate their signatures
+let webhookManager: WebhookManager | undefined;
 
-server.start()
+if (process.env.MCP_WEBHOOK_SECRET) {
+  webhookManager = new WebhookManager({ secret: process.env.MCP_WEBHOOK_SECRET }, logger);
+  webhookManager.registerHandler(appEventHandler);
+} else {
+  logger.warn('MCP_WEBHOOK_SECRET is not set; webhook endpoint disabled');
+}
+
+// Create and start server, serving MCP over HTTP at /mcp
+const server = new Server(contextManager, environment.authManager, logger, configManager, {
+  createServer: () => {
+    const mcpServer = createQlikMcpServer({
+      logger,
+      contextManager,
+      appClient: environment.clients.appClient,
+      spaceClient: environment.clients.spaceClient,
+      dataConnectionClient: environment.clients.dataConnectionClient,
+      engineUrl: environment.engineUrl,
+      authType: environment.authType
+    });
+    
+    resourceNotifier.addServer(mcpServer);
+    
+    return mcpServer;
+  },
+  engineUrl: environment.engineUrl,
+  authType: environment.authType
+}, webhookManager, environment.clients.appClient);
+
+// Restore saved contexts before serving requests for them
+contextManager.restoreContexts()
+  .then((count) => {
+    logger.info('Restored model contexts', { count });
+    
+    return server.start();
+  })
   .then(() => {
     console.log('Qlik Cloud MCP server started successfully');
   })
-  .catch((error) => {
+  .catch((error: Error) => {
     console.error('Failed to start server:', error);
     process.exit(1);
   });
@@ -37,11 +110,13 @@ server.start()
 process.on('SIGINT', async () => {
   console.log('Shutting down...');
   await server.stop();
+  await contextManager.dispose();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Shutting down...');
   await server.stop();
+  await contextManager.dispose();
   process.exit(0);
 });
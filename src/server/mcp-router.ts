@@ -0,0 +1,401 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ModelContextManager } from '../model/model-context-manager';
+import { LogManager } from '../utils/log-manager';
+import { McpServer } from '../mcp/mcp-server';
+import { HttpTransport } from '../mcp/http-transport';
+import { JsonRpcErrorCode, createErrorResponse } from '../mcp/types';
+
+/**
+ * Interface for MCP router options
+ */
+export interface McpRouterOptions {
+  /**
+   * Create the MCP server for a new session
+   */
+  createServer: () => McpServer;
+
+  /**
+   * Build the engine WebSocket URL for an app
+   */
+  engineUrl: (appId: string) => string;
+
+  /**
+   * Authentication type used for session contexts
+   */
+  authType?: 'oauth2' | 'jwt' | 'apikey';
+
+  /**
+   * Timeout in milliseconds after which idle sessions are closed
+   */
+  sessionTimeout?: number;
+}
+
+/**
+ * Interface for an MCP HTTP session
+ */
+interface McpSession {
+  server: McpServer;
+  transport: HttpTransport;
+}
+
+/**
+ * Router for the MCP streamable HTTP endpoint
+ * 
+ * This router serves MCP over HTTP for clients that cannot launch the
+ * server as a local process. Clients POST JSON-RPC messages, open a GET
+ * SSE stream for server notifications and end the session with a DELETE.
+ * Sessions are tracked with the `Mcp-Session-Id` header; each session has
+ * its own MCP server and is bound to its own model context, created from
+ * the `appId` query parameter on initialization or by the first
+ * `qlik_create_model_context` call. The context is deleted when the session
+ * ends, idles out or the router is disposed, since a session does not
+ * outlive the server that created it.
+ */
+export class McpRouter {
+  private _router: express.Router;
+  private _contextManager: ModelContextManager;
+  private _logger: LogManager;
+  private _options: McpRouterOptions;
+  private _sessions: Map<string, McpSession> = new Map();
+  private _cleanupInterval: NodeJS.Timeout | null = null;
+  private _sessionTimeout: number = 30 * 60 * 1000; // 30 minutes
+
+  /**
+   * Creates a new McpRouter instance
+   * 
+   * @param contextManager - Model context manager
+   * @param logger - Logger
+   * @param options - Router options
+   */
+  constructor(
+    contextManager: ModelContextManager,
+    logger: LogManager,
+    options: McpRouterOptions
+  ) {
+    this._contextManager = contextManager;
+    this._logger = logger;
+    this._options = options;
+    this._router = express.Router();
+    
+    if (options.sessionTimeout !== undefined) {
+      this._sessionTimeout = options.sessionTimeout;
+    }
+    
+    // Set up routes
+    this._setupRoutes();
+    
+    // Unbind contexts deleted outside of the session
+    this._contextManager.on('context-deleted', this._handleContextDeleted.bind(this));
+    
+    // Start cleanup interval
+    this._startCleanupInterval();
+  }
+
+  /**
+   * Get the Express router
+   */
+  get router(): express.Router {
+    return this._router;
+  }
+
+  /**
+   * Get the number of open sessions
+   */
+  get size(): number {
+    return this._sessions.size;
+  }
+
+  /**
+   * Get the MCP server for a session
+   * 
+   * @param sessionId - ID of the session
+   * @returns The MCP server or null if not found
+   */
+  getSession(sessionId: string): McpServer | null {
+    const session = this._sessions.get(sessionId);
+    
+    return session ? session.server : null;
+  }
+
+  /**
+   * Close a session and delete its model context
+   * 
+   * @param sessionId - ID of the session to close
+   * @returns Promise that resolves with true if closed, false if not found
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    const session = this._sessions.get(sessionId);
+    
+    if (!session) {
+      return false;
+    }
+    
+    // Remove the session first so the close handler does not run twice
+    this._sessions.delete(sessionId);
+    
+    const contextId = session.server.contextId;
+    await session.server.close();
+    
+    if (contextId) {
+      await this._contextManager.deleteContext(contextId);
+    }
+    
+    this._logger.info('MCP session closed', { sessionId, contextId });
+    
+    return true;
+  }
+
+  /**
+   * Close idle sessions
+   * 
+   * @returns Promise that resolves with the number of closed sessions
+   */
+  async cleanupInactiveSessions(): Promise<number> {
+    const now = Date.now();
+    const inactiveSessionIds: string[] = [];
+    
+    // Find inactive sessions; an open SSE stream keeps a session alive
+    for (const [sessionId, session] of this._sessions.entries()) {
+      const inactiveTime = now - session.transport.lastActivity.getTime();
+      
+      if (!session.transport.hasStream && inactiveTime > this._sessionTimeout) {
+        inactiveSessionIds.push(sessionId);
+      }
+    }
+    
+    // Close inactive sessions
+    for (const sessionId of inactiveSessionIds) {
+      await this.closeSession(sessionId);
+    }
+    
+    return inactiveSessionIds.length;
+  }
+
+  /**
+   * Close all sessions and stop the cleanup interval
+   * 
+   * @returns Promise that resolves when disposed
+   */
+  async dispose(): Promise<void> {
+    // Stop cleanup interval
+    if (this._cleanupInterval) {
+      clearInterval(this._cleanupInterval);
+      this._cleanupInterval = null;
+    }
+    
+    for (const sessionId of Array.from(this._sessions.keys())) {
+      await this.closeSession(sessionId);
+    }
+  }
+
+  /**
+   * Set up MCP routes
+   */
+  private _setupRoutes(): void {
+    this._router.post('/', this._handlePost.bind(this));
+    this._router.get('/', this._handleGet.bind(this));
+    this._router.delete('/', this._handleDelete.bind(this));
+  }
+
+  /**
+   * Handle JSON-RPC messages from the client
+   */
+  private async _handlePost(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const sessionId = req.header('mcp-session-id');
+      const message = req.body;
+      
+      // Messages without a session must start one
+      if (!sessionId) {
+        if (!message || Array.isArray(message) || message.method !== 'initialize') {
+          res.status(400).json(createErrorResponse(
+            null,
+            JsonRpcErrorCode.InvalidRequest,
+            'Bad Request: Mcp-Session-Id header is required'
+          ));
+          return;
+        }
+        
+        const session = await this._createSession(req.query.appId as string | undefined);
+        const response = await session.server.handleMessage(message);
+        
+        res.setHeader('Mcp-Session-Id', session.transport.sessionId);
+        res.json(response);
+        return;
+      }
+      
+      const session = this._sessions.get(sessionId);
+      
+      if (!session) {
+        res.status(404).json(createErrorResponse(null, JsonRpcErrorCode.InvalidRequest, 'Session not found'));
+        return;
+      }
+      
+      session.transport.touch();
+      const response = await session.server.handleMessage(message);
+      
+      // Notifications and responses are only acknowledged
+      if (!response) {
+        res.status(202).end();
+        return;
+      }
+      
+      res.setHeader('Mcp-Session-Id', sessionId);
+      res.json(response);
+    } catch (error) {
+      this._logger.error('Failed to handle MCP request', { error });
+      res.status(500).json(createErrorResponse(null, JsonRpcErrorCode.InternalError, 'Failed to handle MCP request'));
+    }
+  }
+
+  /**
+   * Open the SSE stream for server-to-client messages
+   */
+  private async _handleGet(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const session = this._getRequestSession(req, res);
+      
+      if (!session) {
+        return;
+      }
+      
+      if (!req.accepts('text/event-stream')) {
+        res.status(406).json({ error: 'Client must accept text/event-stream' });
+        return;
+      }
+      
+      session.transport.attachStream(res);
+    } catch (error) {
+      this._logger.error('Failed to open MCP stream', { error });
+      res.status(500).json({ error: 'Failed to open MCP stream' });
+    }
+  }
+
+  /**
+   * End a session
+   */
+  private async _handleDelete(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const session = this._getRequestSession(req, res);
+      
+      if (!session) {
+        return;
+      }
+      
+      await this.closeSession(session.transport.sessionId);
+      
+      res.status(204).end();
+    } catch (error) {
+      this._logger.error('Failed to close MCP session', { error });
+      res.status(500).json({ error: 'Failed to close MCP session' });
+    }
+  }
+
+  /**
+   * Look up the session named by the request, responding with an error if missing
+   * 
+   * @returns The session or null if a response was sent
+   */
+  private _getRequestSession(req: express.Request, res: express.Response): McpSession | null {
+    const sessionId = req.header('mcp-session-id');
+    
+    if (!sessionId) {
+      res.status(400).json({ error: 'Mcp-Session-Id header is required' });
+      return null;
+    }
+    
+    const session = this._sessions.get(sessionId);
+    
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return null;
+    }
+    
+    return session;
+  }
+
+  /**
+   * Create a session and its MCP server
+   * 
+   * @param appId - Optional app to create the session context for
+   * @returns Promise that resolves with the created session
+   */
+  private async _createSession(appId?: string): Promise<McpSession> {
+    const sessionId = uuidv4();
+    
+    // Create the context first so a bad app leaves no server or transport behind
+    let contextId: string | null = null;
+    
+    if (appId) {
+      const context = await this._contextManager.createContext({
+        appId,
+        name: `MCP session ${sessionId}`,
+        engineUrl: this._options.engineUrl(appId),
+        authType: this._options.authType
+      });
+      
+      contextId = context.id;
+    }
+    
+    const transport = new HttpTransport(sessionId);
+    const server = this._options.createServer();
+    
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      // Do not leave a context behind for a session that never opened
+      if (contextId) {
+        await this._contextManager.deleteContext(contextId);
+      }
+      
+      throw error;
+    }
+    
+    // Forget the session if the server or transport closes it
+    server.on('closed', () => {
+      if (this._sessions.has(sessionId)) {
+        this.closeSession(sessionId).catch((error) => {
+          this._logger.error('Failed to close MCP session', { sessionId, error });
+        });
+      }
+    });
+    
+    // Bind the context for the requested app
+    if (contextId) {
+      server.bindContext(contextId);
+    }
+    
+    const session: McpSession = { server, transport };
+    this._sessions.set(sessionId, session);
+    
+    this._logger.info('MCP session created', { sessionId, contextId: server.contextId });
+    
+    return session;
+  }
+
+  /**
+   * Handle context deleted event
+   * 
+   * @param data - Event data
+   */
+  private _handleContextDeleted(data: { contextId: string }): void {
+    for (const session of this._sessions.values()) {
+      if (session.server.contextId === data.contextId) {
+        session.server.bindContext(null);
+      }
+    }
+  }
+
+  /**
+   * Start the cleanup interval
+   */
+  private _startCleanupInterval(): void {
+    // Clean up every 5 minutes
+    this._cleanupInterval = setInterval(() => {
+      this.cleanupInactiveSessions().catch((error) => {
+        this._logger.error('Failed to clean up MCP sessions', { error });
+      });
+    }, 5 * 60 * 1000);
+  }
+}
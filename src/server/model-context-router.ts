@@ -2,6 +2,16 @@ import express from 'express';
 import { ModelContextManager } from '../model/model-context-manager';
 import { AuthManager } from '../auth/auth-manager';
 import { LogManager } from '../utils/log-manager';
+import { QlikCloudAppClient } from '../api/qlik-cloud-clients';
+import { normalizeExpression } from '../engine/expressions';
+import { analyzeScript } from '../engine/script-analysis';
+import { describeScriptSource, diffScripts, ScriptSource, toScriptSource } from '../engine/script-diff';
+import { buildHyperCubeDef, getRowLimit, HyperCubeQuery } from '../engine/hypercube';
+import { SelectionState, toAlternateStateName, toStateName } from '../engine/selections';
+import { buildListObjectDef, FieldValueState, FieldValuesQuery } from '../engine/list-object';
+import { buildMasterItemProperties, MasterItemInput, MasterItemUpdate, toMasterItemType } from '../engine/master-items';
+import { BookmarkInput, BookmarkUpdate, buildBookmarkProperties, validateBookmarkUpdate } from '../engine/bookmarks';
+import { ModelContext } from '../model/model-context';
 
 /**
  * Router for model context API endpoints
@@ -14,6 +24,7 @@ export class ModelContextRouter {
   private _contextManager: ModelContextManager;
   private _authManager: AuthManager;
   private _logger: LogManager;
+  private _appClient: QlikCloudAppClient | null;
 
   /**
    * Creates a new ModelContextRouter instance
@@ -21,15 +32,18 @@ export class ModelContextRouter {
    * @param contextManager - Model context manager
    * @param authManager - Authentication manager
    * @param logger - Logger
+   * @param appClient - Optional app client for comparing the scripts of apps
    */
   constructor(
     contextManager: ModelContextManager,
     authManager: AuthManager,
-    logger: LogManager
+    logger: LogManager,
+    appClient?: QlikCloudAppClient
   ) {
     this._contextManager = contextManager;
     this._authManager = authManager;
     this._logger = logger;
+    this._appClient = appClient || null;
     this._router = express.Router();
     
     // Set up routes
@@ -63,12 +77,73 @@ export class ModelContextRouter {
     this._router.post('/contexts/:id/state/restore', this._restoreState.bind(this));
     this._router.get('/contexts/:id/states', this._listStates.bind(this));
     
+    // Data operations
+    this._router.post('/contexts/:id/query', this._queryData.bind(this));
+    this._router.post('/contexts/:id/query/stream', this._streamData.bind(this));
+    
+    // Expression operations
+    this._router.post('/contexts/:id/expressions/evaluate', this._evaluateExpression.bind(this));
+    this._router.post('/contexts/:id/expressions/check', this._checkExpression.bind(this));
+    
+    // Data model operations
+    this._router.get('/contexts/:id/datamodel', this._getDataModel.bind(this));
+    this._router.get('/contexts/:id/datamodel/fields/:field', this._describeField.bind(this));
+    
+    // Script and reload operations
+    this._router.get('/contexts/:id/script', this._getScript.bind(this));
+    this._router.put('/contexts/:id/script', this._setScript.bind(this));
+    this._router.post('/contexts/:id/script/check', this._checkScript.bind(this));
+    this._router.get('/contexts/:id/script/analysis', this._analyzeContextScript.bind(this));
+    this._router.post('/script/analyze', this._analyzeScript.bind(this));
+    this._router.post('/script/diff', this._diffScripts.bind(this));
+    this._router.post('/contexts/:id/reload', this._reload.bind(this));
+    this._router.post('/contexts/:id/save', this._save.bind(this));
+    
+    // Master item operations
+    this._router.get('/contexts/:id/master-items', this._listMasterItems.bind(this));
+    this._router.post('/contexts/:id/master-items', this._createMasterItem.bind(this));
+    this._router.get('/contexts/:id/master-items/:type/:itemId', this._getMasterItem.bind(this));
+    this._router.put('/contexts/:id/master-items/:type/:itemId', this._updateMasterItem.bind(this));
+    this._router.delete('/contexts/:id/master-items/:type/:itemId', this._deleteMasterItem.bind(this));
+    
+    // Bookmark operations
+    this._router.get('/contexts/:id/bookmarks', this._listBookmarks.bind(this));
+    this._router.post('/contexts/:id/bookmarks', this._createBookmark.bind(this));
+    this._router.get('/contexts/:id/bookmarks/:bookmarkId', this._getBookmark.bind(this));
+    this._router.put('/contexts/:id/bookmarks/:bookmarkId', this._updateBookmark.bind(this));
+    this._router.delete('/contexts/:id/bookmarks/:bookmarkId', this._deleteBookmark.bind(this));
+    this._router.post('/contexts/:id/bookmarks/:bookmarkId/apply', this._applyBookmark.bind(this));
+    this._router.post('/contexts/:id/bookmarks/:bookmarkId/import', this._importBookmark.bind(this));
+    this._router.post('/contexts/:id/states/:stateId/bookmark', this._publishState.bind(this));
+    
+    // Field operations
+    this._router.get('/contexts/:id/fields/:field/values', this._searchFieldValues.bind(this));
+    
+    // Selection operations
+    this._router.get('/contexts/:id/selections', this._getSelections.bind(this));
+    this._router.post('/contexts/:id/selections/select', this._selectValues.bind(this));
+    this._router.post('/contexts/:id/selections/clear', this._clearSelections.bind(this));
+    this._router.post('/contexts/:id/selections/lock', this._lockSelections.bind(this));
+    this._router.post('/contexts/:id/selections/unlock', this._unlockSelections.bind(this));
+    this._router.post('/contexts/:id/selections/back', this._stepSelections.bind(this, 'back'));
+    this._router.post('/contexts/:id/selections/forward', this._stepSelections.bind(this, 'forward'));
+    
+    // Alternate state operations
+    this._router.get('/contexts/:id/alternate-states', this._listAlternateStates.bind(this));
+    this._router.post('/contexts/:id/alternate-states', this._addAlternateState.bind(this));
+    this._router.delete('/contexts/:id/alternate-states/:stateName', this._removeAlternateState.bind(this));
+    
     // Object operations
     this._router.get('/contexts/:id/objects', this._listObjects.bind(this));
     this._router.post('/contexts/:id/objects', this._createObject.bind(this));
     this._router.get('/contexts/:id/objects/:objectId', this._getObject.bind(this));
     this._router.delete('/contexts/:id/objects/:objectId', this._deleteObject.bind(this));
     this._router.post('/contexts/:id/objects/:objectId/method', this._executeMethod.bind(this));
+    
+    // History operations
+    this._router.get('/contexts/:id/history', this._getHistory.bind(this));
+    this._router.post('/contexts/:id/history/undo', this._stepHistory.bind(this, 'undo'));
+    this._router.post('/contexts/:id/history/redo', this._stepHistory.bind(this, 'redo'));
   }
 
   /**
@@ -134,7 +209,7 @@ export class ModelContextRouter {
   private async _getContext(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -181,7 +256,7 @@ export class ModelContextRouter {
   private async _connectContext(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -208,7 +283,7 @@ export class ModelContextRouter {
   private async _disconnectContext(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -235,7 +310,7 @@ export class ModelContextRouter {
   private async _getState(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -259,7 +334,7 @@ export class ModelContextRouter {
     try {
       const { id } = req.params;
       const { name } = req.body;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -283,7 +358,7 @@ export class ModelContextRouter {
     try {
       const { id } = req.params;
       const { stateId } = req.body;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -311,7 +386,7 @@ export class ModelContextRouter {
   private async _listStates(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -328,13 +403,866 @@ export class ModelContextRouter {
     }
   }
 
+  /**
+   * Query data through a temporary hypercube
+   */
+  private async _queryData(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { dimensions, measures, sort, limit, stateName } = req.body;
+      const query: HyperCubeQuery = { dimensions, measures, sort, limit, stateName };
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the query before it reaches the engine
+      try {
+        buildHyperCubeDef(query);
+        getRowLimit(query);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      // Query the data
+      const result = await context.queryData(query);
+      
+      res.json(result);
+    } catch (error) {
+      this._logger.error('Failed to query data', { error });
+      res.status(500).json({ error: 'Failed to query data' });
+    }
+  }
+
+  /**
+   * Stream data through a temporary hypercube as NDJSON
+   * 
+   * Writes a `header` line, one `rows` line per page with the progress so
+   * far, and an `end` line. Closing the connection cancels the query
+   * before the next page is fetched.
+   */
+  private async _streamData(req: express.Request, res: express.Response): Promise<void> {
+    const controller = new AbortController();
+    
+    try {
+      const { id } = req.params;
+      const { dimensions, measures, sort, limit, stateName } = req.body;
+      const query: HyperCubeQuery = { dimensions, measures, sort, limit, stateName };
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the query before it reaches the engine
+      try {
+        buildHyperCubeDef(query);
+        getRowLimit(query, true);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      // no-transform keeps the compression middleware from buffering lines
+      res.status(200);
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort();
+        }
+      });
+      
+      // Wait for the client to catch up before fetching the next page
+      const writeLine = async (line: Record<string, any>): Promise<void> => {
+        if (!res.write(`${JSON.stringify(line)}\n`) && !controller.signal.aborted) {
+          await new Promise<void>((resolve) => {
+            res.once('drain', resolve);
+            controller.signal.addEventListener('abort', () => resolve(), { once: true });
+          });
+        }
+      };
+      
+      // Stream the data
+      const summary = await context.streamData(query, {
+        header: (header) => writeLine({ type: 'header', ...header }),
+        page: (page) => writeLine({ type: 'rows', ...page })
+      }, controller.signal);
+      
+      if (summary.cancelled) {
+        this._logger.info('Data stream cancelled', { contextId: id, fetched: summary.fetched });
+        return;
+      }
+      
+      await writeLine({ type: 'end', ...summary });
+      res.end();
+    } catch (error) {
+      this._logger.error('Failed to stream data', { error });
+      
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to stream data' });
+        return;
+      }
+      
+      res.end(`${JSON.stringify({ type: 'error', error: 'Failed to stream data' })}\n`);
+    }
+  }
+
+  /**
+   * Evaluate an expression under the current selections
+   */
+  private async _evaluateExpression(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { expression } = req.body;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the expression before it reaches the engine
+      try {
+        normalizeExpression(expression);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      const result = await context.evaluate(expression);
+      
+      res.json(result);
+    } catch (error) {
+      this._logger.error('Failed to evaluate expression', { error });
+      res.status(500).json({ error: 'Failed to evaluate expression' });
+    }
+  }
+
+  /**
+   * Validate an expression without evaluating it
+   */
+  private async _checkExpression(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { expression } = req.body;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the expression before it reaches the engine
+      try {
+        normalizeExpression(expression);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      const result = await context.checkExpression(expression);
+      
+      res.json(result);
+    } catch (error) {
+      this._logger.error('Failed to check expression', { error });
+      res.status(500).json({ error: 'Failed to check expression' });
+    }
+  }
+
+  /**
+   * Get the data model of a context's app
+   */
+  private async _getDataModel(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      // Get the data model
+      const dataModel = await context.getDataModel();
+      
+      res.json(dataModel);
+    } catch (error) {
+      this._logger.error('Failed to get data model', { error });
+      res.status(500).json({ error: 'Failed to get data model' });
+    }
+  }
+
+  /**
+   * Describe a field of a context's app
+   */
+  private async _describeField(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id, field } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      // Describe the field
+      const description = await context.describeField(field);
+      
+      res.json(description);
+    } catch (error) {
+      this._logger.error('Failed to describe field', { error });
+      res.status(500).json({ error: 'Failed to describe field' });
+    }
+  }
+
+  /**
+   * Get the load script of a context's app
+   */
+  private async _getScript(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleScript(req, res, 'get script', async context => ({ script: await context.getScript() }));
+  }
+
+  /**
+   * Replace the load script of a context's app
+   */
+  private async _setScript(req: express.Request, res: express.Response): Promise<void> {
+    const { script } = req.body;
+    
+    if (typeof script !== 'string') {
+      res.status(400).json({ error: 'Script must be a string' });
+      return;
+    }
+    
+    await this._handleScript(req, res, 'set script', async context => ({
+      syntaxErrors: await context.setScript(script)
+    }));
+  }
+
+  /**
+   * Check the syntax of the load script of a context's app
+   */
+  private async _checkScript(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleScript(req, res, 'check script', async context => ({
+      syntaxErrors: await context.checkScript()
+    }));
+  }
+
+  /**
+   * Analyze the load script of a context's app
+   */
+  private async _analyzeContextScript(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleScript(req, res, 'analyze script', context => context.analyzeScript());
+  }
+
+  /**
+   * Analyze load script text
+   */
+  private async _analyzeScript(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { script } = req.body;
+      
+      if (typeof script !== 'string') {
+        res.status(400).json({ error: 'Script must be a string' });
+        return;
+      }
+      
+      res.json(analyzeScript(script));
+    } catch (error) {
+      this._logger.error('Failed to analyze script', { error });
+      res.status(500).json({ error: 'Failed to analyze script' });
+    }
+  }
+
+  /**
+   * Compare two load scripts section by section
+   * 
+   * Scripts come from text, the saved script of an app, the current script
+   * of a context, or the script snapshot of a state saved in a context.
+   */
+  private async _diffScripts(req: express.Request, res: express.Response): Promise<void> {
+    const sources: ScriptSource[] = [];
+    
+    try {
+      const { base, target } = req.body || {};
+      
+      sources.push(toScriptSource(base, 'base'), toScriptSource(target, 'target'));
+      
+      if (!this._appClient && sources.some(source => source.appId !== undefined)) {
+        throw new Error('Scripts of apps cannot be read without an app client');
+      }
+      
+      if (sources.some(source => source.stateId !== undefined && source.contextId === undefined)) {
+        throw new Error('stateId requires a contextId');
+      }
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+    
+    try {
+      const scripts: string[] = [];
+      
+      for (const source of sources) {
+        if (source.script !== undefined) {
+          scripts.push(source.script);
+          continue;
+        }
+        
+        if (source.appId !== undefined) {
+          scripts.push(await (this._appClient as QlikCloudAppClient).getAppScript(source.appId));
+          continue;
+        }
+        
+        const context = await this._contextManager.loadContext(source.contextId as string);
+        
+        if (!context) {
+          res.status(404).json({ error: 'Context not found' });
+          return;
+        }
+        
+        if (source.stateId !== undefined) {
+          const state = await context.state.load(source.stateId);
+          
+          if (!state) {
+            res.status(404).json({ error: 'State not found' });
+            return;
+          }
+          
+          if (typeof state.script !== 'string') {
+            res.status(409).json({ error: 'State has no script snapshot' });
+            return;
+          }
+          
+          scripts.push(state.script);
+        } else if (!(await context.reconnectIfRestored())) {
+          res.status(409).json({ error: 'Context not connected' });
+          return;
+        } else {
+          scripts.push(await context.getScript());
+        }
+      }
+      
+      res.json(diffScripts(scripts[0], scripts[1], {
+        base: describeScriptSource(sources[0], 'base'),
+        target: describeScriptSource(sources[1], 'target')
+      }));
+    } catch (error) {
+      this._logger.error('Failed to diff scripts', { error });
+      res.status(500).json({ error: 'Failed to diff scripts' });
+    }
+  }
+
+  /**
+   * Reload a context's app in the engine
+   * 
+   * Responds when the reload ends; subscribed WebSocket clients receive
+   * `reload-progress` messages in the meantime.
+   */
+  private async _reload(req: express.Request, res: express.Response): Promise<void> {
+    const { partial, save } = req.body || {};
+    const context = await this._contextManager.loadContext(req.params.id);
+    
+    if (context && context.isReloading) {
+      res.status(409).json({ error: 'Reload already in progress' });
+      return;
+    }
+    
+    await this._handleScript(req, res, 'reload app', context =>
+      context.reload({ partial: Boolean(partial), save: Boolean(save) }));
+  }
+
+  /**
+   * Save a context's app
+   */
+  private async _save(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleScript(req, res, 'save app', async context => {
+      await context.save();
+      
+      return { success: true };
+    });
+  }
+
+  /**
+   * Run a script, reload or save operation on a connected context
+   * 
+   * @param req - Request with the context ID
+   * @param res - Response to send the result to
+   * @param operation - Description of the operation, for errors
+   * @param run - Operation to run
+   */
+  private async _handleScript(
+    req: express.Request,
+    res: express.Response,
+    operation: string,
+    run: (context: ModelContext) => Promise<any>
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      res.json(await run(context));
+    } catch (error) {
+      this._logger.error(`Failed to ${operation}`, { error });
+      res.status(500).json({ error: `Failed to ${operation}` });
+    }
+  }
+
+  /**
+   * List and search the master items of a context's app
+   */
+  private async _listMasterItems(req: express.Request, res: express.Response): Promise<void> {
+    const { type, query, tag } = req.query;
+    
+    await this._handleAppItems(req, res, 'list master items', async context => ({
+      items: await context.listMasterItems({
+        type: type !== undefined ? toMasterItemType(type) : undefined,
+        query: query as string | undefined,
+        tag: tag as string | undefined
+      })
+    }), () => type !== undefined && toMasterItemType(type));
+  }
+
+  /**
+   * Create a master dimension or measure
+   */
+  private async _createMasterItem(req: express.Request, res: express.Response): Promise<void> {
+    const { type, label, description, tags, expression, fields, numberFormat } = req.body;
+    const input: MasterItemInput = { type, label, description, tags, expression, fields, numberFormat };
+    
+    await this._handleAppItems(req, res, 'create master item', async context => {
+      const item = await context.createMasterItem(input);
+      
+      res.status(201);
+      
+      return item;
+    }, () => buildMasterItemProperties(input));
+  }
+
+  /**
+   * Get a master item
+   */
+  private async _getMasterItem(req: express.Request, res: express.Response): Promise<void> {
+    const { type, itemId } = req.params;
+    
+    await this._handleAppItems(req, res, 'get master item', context =>
+      context.getMasterItem(toMasterItemType(type), itemId), () => toMasterItemType(type));
+  }
+
+  /**
+   * Update a master item
+   */
+  private async _updateMasterItem(req: express.Request, res: express.Response): Promise<void> {
+    const { type, itemId } = req.params;
+    const { label, description, tags, expression, fields, numberFormat } = req.body;
+    const update: MasterItemUpdate = { label, description, tags, expression, fields, numberFormat };
+    
+    // Properties that were not given are kept
+    for (const key of Object.keys(update) as Array<keyof MasterItemUpdate>) {
+      if (update[key] === undefined) {
+        delete update[key];
+      }
+    }
+    
+    await this._handleAppItems(req, res, 'update master item', context =>
+      context.updateMasterItem(toMasterItemType(type), itemId, update), () => toMasterItemType(type));
+  }
+
+  /**
+   * Delete a master item
+   */
+  private async _deleteMasterItem(req: express.Request, res: express.Response): Promise<void> {
+    const { type, itemId } = req.params;
+    
+    await this._handleAppItems(req, res, 'delete master item', async context => {
+      await context.deleteMasterItem(toMasterItemType(type), itemId);
+      
+      return { success: true };
+    }, () => toMasterItemType(type));
+  }
+
+  /**
+   * List the bookmarks of the app
+   */
+  private async _listBookmarks(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleAppItems(req, res, 'list bookmarks', async context => ({
+      bookmarks: await context.listBookmarks()
+    }), () => {});
+  }
+
+  /**
+   * Create a bookmark of the current selections
+   */
+  private async _createBookmark(req: express.Request, res: express.Response): Promise<void> {
+    const { title, description, sheetId, includeVariables } = req.body;
+    const input: BookmarkInput = { title, description, sheetId, includeVariables: Boolean(includeVariables) };
+    
+    await this._handleAppItems(req, res, 'create bookmark', async context => {
+      const bookmark = await context.createBookmark(input);
+      
+      res.status(201);
+      
+      return bookmark;
+    }, () => buildBookmarkProperties(input));
+  }
+
+  /**
+   * Get a bookmark
+   */
+  private async _getBookmark(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleAppItems(req, res, 'get bookmark', context =>
+      context.getBookmark(req.params.bookmarkId), () => {});
+  }
+
+  /**
+   * Update the title, description or sheet of a bookmark
+   */
+  private async _updateBookmark(req: express.Request, res: express.Response): Promise<void> {
+    const { title, description, sheetId } = req.body;
+    const update: BookmarkUpdate = { title, description, sheetId };
+    
+    await this._handleAppItems(req, res, 'update bookmark', context =>
+      context.updateBookmark(req.params.bookmarkId, update), () => validateBookmarkUpdate(update));
+  }
+
+  /**
+   * Delete a bookmark
+   */
+  private async _deleteBookmark(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleAppItems(req, res, 'delete bookmark', async context => {
+      await context.deleteBookmark(req.params.bookmarkId);
+      
+      return { success: true };
+    }, () => {});
+  }
+
+  /**
+   * Apply a bookmark
+   */
+  private async _applyBookmark(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleAppItems(req, res, 'apply bookmark', context =>
+      context.applyBookmark(req.params.bookmarkId), () => {});
+  }
+
+  /**
+   * Save a bookmark as a state of the context
+   */
+  private async _importBookmark(req: express.Request, res: express.Response): Promise<void> {
+    const { name } = req.body;
+    
+    await this._handleAppItems(req, res, 'import bookmark', async context => {
+      const stateId = await context.importBookmarkAsState(req.params.bookmarkId, name);
+      
+      res.status(201);
+      
+      return { stateId };
+    }, () => {});
+  }
+
+  /**
+   * Publish a saved state as a bookmark
+   */
+  private async _publishState(req: express.Request, res: express.Response): Promise<void> {
+    const { title, description, sheetId, includeVariables } = req.body;
+    const input: BookmarkInput = { title, description, sheetId, includeVariables: Boolean(includeVariables) };
+    
+    await this._handleAppItems(req, res, 'publish state', async context => {
+      const bookmark = await context.publishStateAsBookmark(req.params.stateId, input);
+      
+      res.status(201);
+      
+      return bookmark;
+    }, () => buildBookmarkProperties(input));
+  }
+
+  /**
+   * List the alternate states of the app
+   */
+  private async _listAlternateStates(req: express.Request, res: express.Response): Promise<void> {
+    await this._handleAppItems(req, res, 'list alternate states', async context => ({
+      stateNames: await context.listAlternateStates()
+    }), () => {});
+  }
+
+  /**
+   * Add an alternate state
+   */
+  private async _addAlternateState(req: express.Request, res: express.Response): Promise<void> {
+    const { stateName } = req.body;
+    
+    await this._handleAppItems(req, res, 'add alternate state', async context => {
+      const stateNames = await context.addAlternateState(stateName);
+      
+      res.status(201);
+      
+      return { stateNames };
+    }, () => toAlternateStateName(stateName));
+  }
+
+  /**
+   * Remove an alternate state
+   */
+  private async _removeAlternateState(req: express.Request, res: express.Response): Promise<void> {
+    const { stateName } = req.params;
+    
+    await this._handleAppItems(req, res, 'remove alternate state', async context => ({
+      stateNames: await context.removeAlternateState(stateName)
+    }), () => toAlternateStateName(stateName));
+  }
+
+  /**
+   * Run a master item, bookmark or alternate state operation on a connected context
+   * 
+   * @param req - Request with the context ID
+   * @param res - Response to send the result to
+   * @param operation - Description of the operation, for errors
+   * @param run - Operation to run
+   * @param validate - Check of the request that throws before the engine is called
+   */
+  private async _handleAppItems(
+    req: express.Request,
+    res: express.Response,
+    operation: string,
+    run: (context: ModelContext) => Promise<any>,
+    validate: () => void
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the request before it reaches the engine
+      try {
+        validate();
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      res.json(await run(context));
+    } catch (error) {
+      this._logger.error(`Failed to ${operation}`, { error });
+      res.status(500).json({ error: `Failed to ${operation}` });
+    }
+  }
+
+  /**
+   * Search and list the values of a field
+   */
+  private async _searchFieldValues(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id, field } = req.params;
+      const { search, states, frequency, limit, stateName } = req.query;
+      const query: FieldValuesQuery = {
+        field,
+        search: search as string | undefined,
+        states: states ? (states as string).split(',') as FieldValueState[] : undefined,
+        frequency: frequency === 'true',
+        limit: limit === undefined ? undefined : Number(limit),
+        stateName: stateName as string | undefined
+      };
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the search before it reaches the engine
+      try {
+        buildListObjectDef(query);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      // Search the field values
+      const result = await context.searchFieldValues(query);
+      
+      res.json(result);
+    } catch (error) {
+      this._logger.error('Failed to search field values', { error });
+      res.status(500).json({ error: 'Failed to search field values' });
+    }
+  }
+
+  /**
+   * Get the current selections of a context
+   */
+  private async _getSelections(req: express.Request, res: express.Response): Promise<void> {
+    const stateName = req.query.stateName as string | undefined;
+    
+    await this._handleSelections(req, res, 'get selections', context =>
+      context.getSelections(req.query.field as string | undefined, stateName), stateName);
+  }
+
+  /**
+   * Select values in a field
+   */
+  private async _selectValues(req: express.Request, res: express.Response): Promise<void> {
+    const { field, values, toggle, stateName } = req.body;
+    
+    if (!field || !Array.isArray(values)) {
+      res.status(400).json({ error: 'Missing required fields' });
+      return;
+    }
+    
+    await this._handleSelections(req, res, 'select values', context =>
+      context.selectValues(field, values, Boolean(toggle), stateName), stateName);
+  }
+
+  /**
+   * Clear the selections in a field, or in all fields
+   */
+  private async _clearSelections(req: express.Request, res: express.Response): Promise<void> {
+    const { field, lockedAlso, stateName } = req.body;
+    
+    await this._handleSelections(req, res, 'clear selections', context =>
+      field ? context.clearField(field, stateName) : context.clearAll(Boolean(lockedAlso), stateName), stateName);
+  }
+
+  /**
+   * Lock the selections in a field, or in all fields
+   */
+  private async _lockSelections(req: express.Request, res: express.Response): Promise<void> {
+    const { field, stateName } = req.body;
+    
+    await this._handleSelections(req, res, 'lock selections', context => context.lock(field, stateName), stateName);
+  }
+
+  /**
+   * Unlock the selections in a field, or in all fields
+   */
+  private async _unlockSelections(req: express.Request, res: express.Response): Promise<void> {
+    const { field, stateName } = req.body;
+    
+    await this._handleSelections(req, res, 'unlock selections', context => context.unlock(field, stateName), stateName);
+  }
+
+  /**
+   * Go back or forward one step in the selection history
+   */
+  private async _stepSelections(
+    direction: 'back' | 'forward',
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    await this._handleSelections(req, res, `step ${direction}`, context =>
+      direction === 'back' ? context.back() : context.forward()
+    );
+  }
+
+  /**
+   * Run a selection operation on a connected context and respond with the selection state
+   * 
+   * @param req - Request with the context ID
+   * @param res - Response
+   * @param operation - Operation name for error messages
+   * @param run - Operation to run
+   * @param stateName - Alternate state the operation applies to, if any
+   */
+  private async _handleSelections(
+    req: express.Request,
+    res: express.Response,
+    operation: string,
+    run: (context: ModelContext) => Promise<SelectionState>,
+    stateName?: any
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      // Validate the state name before it reaches the engine
+      try {
+        toStateName(stateName);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      res.json(await run(context));
+    } catch (error) {
+      this._logger.error(`Failed to ${operation}`, { error });
+      res.status(500).json({ error: `Failed to ${operation}` });
+    }
+  }
+
   /**
    * List all objects in a context
    */
   private async _listObjects(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -358,7 +1286,7 @@ export class ModelContextRouter {
     try {
       const { id } = req.params;
       const { objectType, properties } = req.body;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -390,7 +1318,7 @@ export class ModelContextRouter {
   private async _getObject(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id, objectId } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -418,7 +1346,7 @@ export class ModelContextRouter {
   private async _deleteObject(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id, objectId } = req.params;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -442,7 +1370,7 @@ export class ModelContextRouter {
     try {
       const { id, objectId } = req.params;
       const { method, params } = req.body;
-      const context = this._contextManager.getContext(id);
+      const context = await this._contextManager.loadContext(id);
       
       if (!context) {
         res.status(404).json({ error: 'Context not found' });
@@ -463,4 +1391,64 @@ export class ModelContextRouter {
       res.status(500).json({ error: 'Failed to execute method' });
     }
   }
+
+  /**
+   * Get the undo and redo history of a context
+   */
+  private async _getHistory(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      const { history } = context;
+      
+      res.json({ entries: history.getEntries(), canUndo: history.canUndo, canRedo: history.canRedo });
+    } catch (error) {
+      this._logger.error('Failed to get history', { error });
+      res.status(500).json({ error: 'Failed to get history' });
+    }
+  }
+
+  /**
+   * Undo the last operation of a context, or redo the last undone one
+   */
+  private async _stepHistory(
+    direction: 'undo' | 'redo',
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const context = await this._contextManager.loadContext(id);
+      
+      if (!context) {
+        res.status(404).json({ error: 'Context not found' });
+        return;
+      }
+      
+      if (!(await context.reconnectIfRestored())) {
+        res.status(409).json({ error: 'Context not connected' });
+        return;
+      }
+      
+      const { history } = context;
+      
+      if (direction === 'undo' ? !history.canUndo : !history.canRedo) {
+        res.status(409).json({ error: `Nothing to ${direction}` });
+        return;
+      }
+      
+      const entry = direction === 'undo' ? await context.undo() : await context.redo();
+      
+      res.json({ entry, canUndo: history.canUndo, canRedo: history.canRedo });
+    } catch (error) {
+      this._logger.error(`Failed to ${direction}`, { error });
+      res.status(500).json({ error: `Failed to ${direction}` });
+    }
+  }
 }
@@ -5,10 +5,14 @@ import helmet from 'helmet';
 import compression from 'compression';
 import { ModelContextRouter } from './model-context-router';
 import { WebSocketHandler } from './websocket-handler';
+import { McpRouter, McpRouterOptions } from './mcp-router';
 import { ModelContextManager } from '../model/model-context-manager';
 import { AuthManager } from '../auth/auth-manager';
 import { LogManager } from '../utils/log-manager';
 import { ConfigManager } from '../config/config-manager';
+import { WebhookManager } from '../events/webhook-manager';
+import { WebhookValidationError } from '../events/types';
+import { QlikCloudAppClient } from '../api/qlik-cloud-clients';
 
 /**
  * Server class for the Model Context Protocol server
@@ -25,6 +29,10 @@ export class Server {
   private _config: ConfigManager;
   private _contextRouter: ModelContextRouter;
   private _wsHandler: WebSocketHandler;
+  private _mcpRouter: McpRouter | null = null;
+  private _mcpOptions: McpRouterOptions | null;
+  private _webhookManager: WebhookManager | null;
+  private _appClient: QlikCloudAppClient | null;
   private _port: number;
 
   /**
@@ -34,17 +42,26 @@ export class Server {
    * @param authManager - Authentication manager
    * @param logger - Logger
    * @param config - Configuration manager
+   * @param mcpOptions - Optional options for serving MCP over HTTP at /mcp
+   * @param webhookManager - Optional webhook manager for Qlik Cloud webhooks at /webhooks/qlik
+   * @param appClient - Optional app client for comparing the scripts of apps
    */
   constructor(
     contextManager: ModelContextManager,
     authManager: AuthManager,
     logger: LogManager,
-    config: ConfigManager
+    config: ConfigManager,
+    mcpOptions?: McpRouterOptions,
+    webhookManager?: WebhookManager,
+    appClient?: QlikCloudAppClient
   ) {
     this._contextManager = contextManager;
     this._authManager = authManager;
     this._logger = logger;
     this._config = config;
+    this._mcpOptions = mcpOptions || null;
+    this._webhookManager = webhookManager || null;
+    this._appClient = appClient || null;
     this._port = config.get('server.port', 3000);
     
     // Create Express app
@@ -82,6 +99,13 @@ export class Server {
     return this._server;
   }
 
+  /**
+   * Get the MCP router, if MCP over HTTP is enabled
+   */
+  get mcpRouter(): McpRouter | null {
+    return this._mcpRouter;
+  }
+
   /**
    * Start the server
    * 
@@ -102,6 +126,11 @@ export class Server {
    * @returns Promise that resolves when the server is stopped
    */
   async stop(): Promise<void> {
+    // Close MCP sessions, which also ends their SSE streams
+    if (this._mcpRouter) {
+      await this._mcpRouter.dispose();
+    }
+    
     return new Promise((resolve, reject) => {
       this._server.close((err) => {
         if (err) {
@@ -119,14 +148,19 @@ export class Server {
    * Set up middleware
    */
   private _setupMiddleware(): void {
+    // Keep webhook bodies raw for signature validation
+    if (this._webhookManager) {
+      this._app.use('/webhooks/qlik', express.raw({ type: 'application/json' }));
+    }
+    
     // Parse JSON bodies
     this._app.use(express.json());
     
     // Parse URL-encoded bodies
     this._app.use(express.urlencoded({ extended: true }));
     
-    // Enable CORS
-    this._app.use(cors());
+    // Enable CORS, exposing the MCP session header to browser clients
+    this._app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
     
     // Enable security headers
     this._app.use(helmet());
@@ -152,12 +186,24 @@ export class Server {
     this._contextRouter = new ModelContextRouter(
       this._contextManager,
       this._authManager,
-      this._logger
+      this._logger,
+      this._appClient || undefined
     );
     
     // Set up API routes
     this._app.use('/api/v1/model', this._contextRouter.router);
     
+    // Set up MCP streamable HTTP endpoint
+    if (this._mcpOptions) {
+      this._mcpRouter = new McpRouter(this._contextManager, this._logger, this._mcpOptions);
+      this._app.use('/mcp', this._mcpRouter.router);
+    }
+    
+    // Set up Qlik Cloud webhook endpoint
+    if (this._webhookManager) {
+      this._app.post('/webhooks/qlik', this._handleWebhook.bind(this));
+    }
+    
     // Set up health check route
     this._app.get('/health', (req, res) => {
       res.json({ status: 'ok' });
@@ -175,12 +221,35 @@ export class Server {
     });
   }
 
+  /**
+   * Handle Qlik Cloud webhook events
+   */
+  private async _handleWebhook(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const signature = req.headers['x-qlik-signature'] as string;
+      
+      const payload = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+      
+      await this._webhookManager!.processWebhook(payload, signature);
+      
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof WebhookValidationError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      
+      this._logger.error('Failed to process webhook', { error });
+      res.status(500).json({ error: 'Failed to process webhook' });
+    }
+  }
+
   /**
    * Authentication middleware
    */
   private _authMiddleware(req: express.Request, res: express.Response, next: express.NextFunction): void {
-    // Skip authentication for health check
-    if (req.path === '/health') {
+    // Skip authentication for health check and signed webhooks
+    if (req.path === '/health' || req.path === '/webhooks/qlik') {
       next();
       return;
     }
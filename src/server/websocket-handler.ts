@@ -5,6 +5,7 @@ import { AuthManager } from '../auth/auth-manager';
 import { LogManager } from '../utils/log-manager';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
+import { buildHyperCubeDef, getRowLimit, HyperCubeQuery } from '../engine/hypercube';
 
 /**
  * Interface for WebSocket message
@@ -31,6 +32,7 @@ export class WebSocketHandler extends EventEmitter {
   private _clients: Map<string, WebSocket> = new Map();
   private _clientContexts: Map<string, Set<string>> = new Map();
   private _contextClients: Map<string, Set<string>> = new Map();
+  private _clientQueries: Map<string, Map<string, AbortController>> = new Map();
 
   /**
    * Creates a new WebSocketHandler instance
@@ -85,6 +87,7 @@ export class WebSocketHandler extends EventEmitter {
     // Store client
     this._clients.set(clientId, ws);
     this._clientContexts.set(clientId, new Set());
+    this._clientQueries.set(clientId, new Map());
     
     // Set up client event handlers
     ws.on('message', (message: WebSocket.Data) => {
@@ -150,6 +153,14 @@ export class WebSocketHandler extends EventEmitter {
           await this._handleRestoreState(clientId, data);
           break;
         
+        case 'query-data':
+          await this._handleQueryData(clientId, data);
+          break;
+        
+        case 'cancel-query':
+          this._handleCancelQuery(clientId, data);
+          break;
+        
         default:
           this._sendToClient(clientId, {
             type: 'error',
@@ -187,6 +198,17 @@ export class WebSocketHandler extends EventEmitter {
       this._clientContexts.delete(clientId);
     }
     
+    // Cancel running queries
+    const queries = this._clientQueries.get(clientId);
+    
+    if (queries) {
+      for (const controller of queries.values()) {
+        controller.abort();
+      }
+      
+      this._clientQueries.delete(clientId);
+    }
+    
     // Remove client
     this._clients.delete(clientId);
     
@@ -222,7 +244,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -292,7 +314,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -347,7 +369,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -400,7 +422,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -455,7 +477,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -508,7 +530,7 @@ export class WebSocketHandler extends EventEmitter {
     }
     
     // Get the context
-    const context = this._contextManager.getContext(contextId);
+    const context = await this._contextManager.loadContext(contextId);
     
     if (!context) {
       this._sendToClient(clientId, {
@@ -542,6 +564,131 @@ export class WebSocketHandler extends EventEmitter {
     }
   }
 
+  /**
+   * Handle query data message
+   * 
+   * Streams the rows as a `query-header` message, one `query-rows` message
+   * per page with the progress so far, and a `query-end` message. The next
+   * page is only fetched once the previous one has been sent.
+   * 
+   * @param clientId - Client ID
+   * @param message - Message data
+   */
+  private async _handleQueryData(clientId: string, message: WebSocketMessage): Promise<void> {
+    const { id, contextId, dimensions, measures, sort, limit, stateName } = message;
+    const query: HyperCubeQuery = { dimensions, measures, sort, limit, stateName };
+    
+    if (!id || !contextId) {
+      this._sendToClient(clientId, {
+        type: 'error',
+        id,
+        error: 'Missing required fields'
+      });
+      return;
+    }
+    
+    // Get the context
+    const context = await this._contextManager.loadContext(contextId);
+    
+    if (!context) {
+      this._sendToClient(clientId, {
+        type: 'error',
+        id,
+        error: 'Context not found'
+      });
+      return;
+    }
+    
+    const queries = this._clientQueries.get(clientId);
+    
+    if (!queries || queries.has(id)) {
+      this._sendToClient(clientId, {
+        type: 'error',
+        id,
+        error: 'Query already running'
+      });
+      return;
+    }
+    
+    // Validate the query before it reaches the engine
+    try {
+      buildHyperCubeDef(query);
+      getRowLimit(query, true);
+    } catch (error) {
+      this._sendToClient(clientId, {
+        type: 'error',
+        id,
+        error: (error as Error).message
+      });
+      return;
+    }
+    
+    const controller = new AbortController();
+    queries.set(id, controller);
+    
+    try {
+      // Stream the data
+      const summary = await context.streamData(query, {
+        header: (header) => this._sendToClientAsync(clientId, {
+          type: 'query-header',
+          id,
+          contextId,
+          ...header
+        }),
+        page: (page) => this._sendToClientAsync(clientId, {
+          type: 'query-rows',
+          id,
+          contextId,
+          ...page
+        })
+      }, controller.signal);
+      
+      // Send end of stream
+      this._sendToClient(clientId, {
+        type: 'query-end',
+        id,
+        contextId,
+        ...summary
+      });
+    } catch (error) {
+      this._logger.error('Failed to query data', { clientId, contextId, error });
+      
+      // Send error response
+      this._sendToClient(clientId, {
+        type: 'error',
+        id,
+        error: 'Failed to query data'
+      });
+    } finally {
+      queries.delete(id);
+    }
+  }
+
+  /**
+   * Handle cancel query message
+   * 
+   * The query stops before its next page is fetched and ends with a
+   * `query-end` message marked as cancelled.
+   * 
+   * @param clientId - Client ID
+   * @param message - Message data, with `queryId` set to the ID of the query message
+   */
+  private _handleCancelQuery(clientId: string, message: WebSocketMessage): void {
+    const queries = this._clientQueries.get(clientId);
+    const controller = queries && queries.get(message.queryId);
+    
+    if (!controller) {
+      this._sendToClient(clientId, {
+        type: 'error',
+        id: message.id,
+        error: 'Query not found'
+      });
+      return;
+    }
+    
+    controller.abort();
+  }
+
   /**
    * Set up context event handlers
    */
@@ -554,6 +701,11 @@ export class WebSocketHandler extends EventEmitter {
       'context:state-restored',
       'context:object-created',
       'context:object-deleted',
+      'context:objects-rehydrated',
+      'context:selections-changed',
+      'context:history-changed',
+      'context:reload-progress',
+      'context:reload-finished',
       'context:session-closed',
       'context:session-suspended',
       'context:session-resumed',
@@ -665,4 +817,29 @@ export class WebSocketHandler extends EventEmitter {
       this._logger.error('Failed to send message to client', { clientId, error });
     }
   }
+
+  /**
+   * Send a message to a client once it has been written to the socket
+   * 
+   * @param clientId - Client ID
+   * @param message - Message to send
+   * @returns Promise that resolves when the message is sent
+   */
+  private _sendToClientAsync(clientId: string, message: any): Promise<void> {
+    const client = this._clients.get(clientId);
+    
+    if (!client) {
+      return Promise.resolve();
+    }
+    
+    return new Promise((resolve) => {
+      client.send(JSON.stringify(message), (error?: Error) => {
+        if (error) {
+          this._logger.error('Failed to send message to client', { clientId, error });
+        }
+        
+        resolve();
+      });
+    });
+  }
 }
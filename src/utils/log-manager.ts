@@ -13,6 +13,13 @@ export interface LogManagerConfig {
    * Log format
    */
   format: 'json' | 'simple';
+  
+  /**
+   * Write every log level to stderr (optional)
+   * 
+   * Required when stdout carries protocol traffic, e.g. the MCP stdio transport.
+   */
+  stderr?: boolean;
 }
 
 /**
@@ -32,11 +39,49 @@ export class LogManager {
       level: config.level,
       format: config.format === 'json' ? winston.format.json() : winston.format.simple(),
       transports: [
-        new winston.transports.Console()
+        new winston.transports.Console({
+          stderrLevels: config.stderr ? ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'] : undefined
+        })
       ]
     });
   }
   
+  /**
+   * Log an error message
+   * @param message The message
+   * @param meta Optional metadata
+   */
+  error(message: string, meta?: Record<string, any>): void {
+    this.logger.error(message, meta);
+  }
+  
+  /**
+   * Log a warning message
+   * @param message The message
+   * @param meta Optional metadata
+   */
+  warn(message: string, meta?: Record<string, any>): void {
+    this.logger.warn(message, meta);
+  }
+  
+  /**
+   * Log an info message
+   * @param message The message
+   * @param meta Optional metadata
+   */
+  info(message: string, meta?: Record<string, any>): void {
+    this.logger.info(message, meta);
+  }
+  
+  /**
+   * Log a debug message
+   * @param message The message
+   * @param meta Optional metadata
+   */
+  debug(message: string, meta?: Record<string, any>): void {
+    this.logger.debug(message, meta);
+  }
+  
   /**
    * Create request logger middleware
    * @returns Express middleware
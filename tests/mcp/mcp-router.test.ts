@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { McpRouter } from '../../src/server/mcp-router';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { ModelContextManager } from '../../src/model/model-context-manager';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('McpRouter', () => {
+  let router: McpRouter;
+  let httpServer: http.Server;
+  let baseUrl: string;
+  let mockLogger: LogManager;
+  let mockContextManager: any;
+  
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' }
+    }
+  };
+  
+  const post = (body: any, sessionId?: string, query: string = '') => fetch(`${baseUrl}/mcp${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+    },
+    body: JSON.stringify(body)
+  });
+  
+  const openSession = async (query?: string): Promise<string> => {
+    const response = await post(initializeRequest, undefined, query);
+    const sessionId = response.headers.get('mcp-session-id') as string;
+    
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    
+    return sessionId;
+  };
+  
+  beforeEach(async () => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn()
+    } as unknown as LogManager;
+    
+    let nextContextId = 1;
+    mockContextManager = new EventEmitter();
+    mockContextManager.createContext = jest.fn(async () => ({ id: `context-${nextContextId++}` }));
+    mockContextManager.deleteContext = jest.fn(async (contextId: string) => {
+      mockContextManager.emit('context-deleted', { contextId });
+      return true;
+    });
+    
+    router = new McpRouter(mockContextManager as ModelContextManager, mockLogger, {
+      createServer: () => {
+        const server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+        
+        server.registerTool({
+          name: 'whoami',
+          description: 'Return the session and context IDs',
+          inputSchema: { type: 'object' },
+          handler: async (args, context) => ({ sessionId: context.sessionId, contextId: context.contextId })
+        });
+        
+        return server;
+      },
+      engineUrl: (appId: string) => `wss://tenant.example.com/app/${appId}`
+    });
+    
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', router.router);
+    
+    httpServer = http.createServer(app);
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+  
+  afterEach(async () => {
+    await router.dispose();
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+  
+  it('should create a session on initialize', async () => {
+    const response = await post(initializeRequest);
+    const body: any = await response.json();
+    
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    expect(body.result.serverInfo.name).toBe('test-server');
+    expect(router.size).toBe(1);
+  });
+  
+  it('should reject requests without a session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    
+    expect(response.status).toBe(400);
+  });
+  
+  it('should return 404 for unknown sessions', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'unknown');
+    
+    expect(response.status).toBe(404);
+  });
+  
+  it('should acknowledge notifications with 202', async () => {
+    const response = await post(initializeRequest);
+    const sessionId = response.headers.get('mcp-session-id') as string;
+    
+    const ack = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    
+    expect(ack.status).toBe(202);
+    expect(router.getSession(sessionId)?.isInitialized).toBe(true);
+  });
+  
+  it('should route requests to the session server', async () => {
+    const sessionId = await openSession();
+    
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'whoami' }
+    }, sessionId);
+    const body: any = await response.json();
+    
+    expect(JSON.parse(body.result.content[0].text)).toEqual({ sessionId });
+  });
+  
+  it('should bind a model context for the appId query parameter', async () => {
+    const sessionId = await openSession('?appId=app-1');
+    
+    expect(mockContextManager.createContext).toHaveBeenCalledWith(expect.objectContaining({
+      appId: 'app-1',
+      engineUrl: 'wss://tenant.example.com/app/app-1'
+    }));
+    expect(router.getSession(sessionId)?.contextId).toBe('context-1');
+  });
+  
+  it('should not open a session when its context cannot be created', async () => {
+    mockContextManager.createContext.mockRejectedValueOnce(new Error('App not found'));
+    
+    const response = await post(initializeRequest, undefined, '?appId=missing');
+    
+    expect(response.status).toBe(500);
+    expect(response.headers.get('mcp-session-id')).toBeNull();
+    expect(router.size).toBe(0);
+  });
+  
+  it('should delete the context of a session that fails to connect', async () => {
+    const connect = jest.spyOn(McpServer.prototype, 'connect').mockRejectedValueOnce(new Error('Transport closed'));
+    
+    const response = await post(initializeRequest, undefined, '?appId=app-1');
+    connect.mockRestore();
+    
+    expect(response.status).toBe(500);
+    expect(router.size).toBe(0);
+    expect(mockContextManager.deleteContext).toHaveBeenCalledWith('context-1');
+  });
+  
+  it('should give each session its own context', async () => {
+    const first = await openSession('?appId=app-1');
+    const second = await openSession('?appId=app-1');
+    
+    expect(router.getSession(first)?.contextId).toBe('context-1');
+    expect(router.getSession(second)?.contextId).toBe('context-2');
+  });
+  
+  it('should delete the session and its context on DELETE', async () => {
+    const sessionId = await openSession('?appId=app-1');
+    
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId }
+    });
+    
+    expect(response.status).toBe(204);
+    expect(router.size).toBe(0);
+    expect(mockContextManager.deleteContext).toHaveBeenCalledWith('context-1');
+  });
+  
+  it('should delete session contexts when disposed', async () => {
+    await openSession('?appId=app-1');
+    
+    await router.dispose();
+    
+    expect(router.size).toBe(0);
+    expect(mockContextManager.deleteContext).toHaveBeenCalledWith('context-1');
+  });
+  
+  it('should unbind contexts deleted outside of the session', async () => {
+    const sessionId = await openSession('?appId=app-1');
+    
+    mockContextManager.emit('context-deleted', { contextId: 'context-1' });
+    
+    expect(router.getSession(sessionId)?.contextId).toBeNull();
+  });
+  
+  it('should stream notifications over SSE', async () => {
+    const sessionId = await openSession();
+    
+    // Sent before the stream opens, so it is queued
+    await router.getSession(sessionId)?.notify('notifications/message', { level: 'info', data: 'hello' });
+    
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/mcp`, {
+      headers: { 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      signal: controller.signal
+    });
+    
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    const text = new TextDecoder().decode(value);
+    
+    expect(text).toContain('event: message');
+    expect(text).toContain('"method":"notifications/message"');
+    
+    controller.abort();
+  });
+  
+  it('should close idle sessions', async () => {
+    await router.dispose();
+    
+    router = new McpRouter(mockContextManager as ModelContextManager, mockLogger, {
+      createServer: () => new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger),
+      engineUrl: (appId: string) => appId,
+      sessionTimeout: -1
+    });
+    
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', router.router);
+    httpServer.removeAllListeners('request');
+    httpServer.on('request', app);
+    
+    await openSession();
+    
+    expect(router.size).toBe(1);
+    expect(await router.cleanupInactiveSessions()).toBe(1);
+    expect(router.size).toBe(0);
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { JsonRpcErrorCode, LATEST_PROTOCOL_VERSION, McpError } from '../../src/mcp/types';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('McpServer', () => {
+  let server: McpServer;
+  let mockLogger: LogManager;
+  
+  const initialize = async (protocolVersion: string = '2025-03-26') => {
+    const response: any = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion,
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      }
+    });
+    
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    
+    return response;
+  };
+  
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn()
+    } as unknown as LogManager;
+    
+    server = new McpServer({ name: 'test-server', version: '1.2.3' }, mockLogger);
+    
+    server.registerTool({
+      name: 'echo',
+      description: 'Echo the arguments',
+      inputSchema: {
+        type: 'object',
+        properties: { text: { type: 'string' } },
+        required: ['text']
+      },
+      handler: async (args) => ({ echoed: args.text })
+    });
+  });
+  
+  describe('initialize', () => {
+    it('should negotiate a supported protocol version', async () => {
+      const response = await initialize('2025-03-26');
+      
+      expect(response.id).toBe(1);
+      expect(response.result.protocolVersion).toBe('2025-03-26');
+      expect(response.result.serverInfo).toEqual({ name: 'test-server', version: '1.2.3' });
+      expect(response.result.capabilities.tools).toBeDefined();
+      expect(server.isInitialized).toBe(true);
+      expect(server.clientInfo).toEqual({ name: 'test-client', version: '1.0.0' });
+    });
+    
+    it('should offer the latest version for unsupported versions', async () => {
+      const response = await initialize('1999-01-01');
+      
+      expect(response.result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    });
+    
+    it('should reject requests before initialization', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.ServerNotInitialized);
+      expect(response.error.code).not.toBe(JsonRpcErrorCode.ResourceNotFound);
+    });
+    
+    it('should answer ping before initialization', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 'p', method: 'ping' });
+      
+      expect(response).toEqual({ jsonrpc: '2.0', id: 'p', result: {} });
+    });
+  });
+  
+  describe('tools', () => {
+    beforeEach(async () => {
+      await initialize();
+    });
+    
+    it('should list registered tools', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      
+      expect(response.result.tools).toEqual([
+        expect.objectContaining({ name: 'echo', description: 'Echo the arguments' })
+      ]);
+    });
+    
+    it('should call a tool and wrap the output as text content', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'echo', arguments: { text: 'hello' } }
+      });
+      
+      expect(response.result.isError).toBeUndefined();
+      expect(JSON.parse(response.result.content[0].text)).toEqual({ echoed: 'hello' });
+    });
+    
+    it('should reject unknown tools with invalid params', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'tools/call',
+        params: { name: 'missing', arguments: {} }
+      });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.InvalidParams);
+    });
+    
+    it('should reject calls with missing required arguments', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 5,
+        method: 'tools/call',
+        params: { name: 'echo', arguments: {} }
+      });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.InvalidParams);
+      expect(response.error.message).toContain('text');
+    });
+    
+    it('should report tool failures as error results', async () => {
+      server.registerTool({
+        name: 'fail',
+        description: 'Always fails',
+        inputSchema: { type: 'object' },
+        handler: async () => {
+          throw new Error('Context not found: abc');
+        }
+      });
+      
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'tools/call',
+        params: { name: 'fail' }
+      });
+      
+      expect(response.result.isError).toBe(true);
+      expect(response.result.content[0].text).toBe('Context not found: abc');
+    });
+  });
+  
+  describe('resources', () => {
+    beforeEach(async () => {
+      server.registerResourceTemplate({
+        uriTemplate: 'test://items/{itemId}',
+        name: 'Item',
+        mimeType: 'application/json',
+        list: async () => [{ uri: 'test://items/a', name: 'A' }],
+        read: async ({ itemId }) => ({ itemId })
+      });
+      
+      server.registerResourceTemplate({
+        uriTemplate: 'test://items/{itemId}/notes',
+        name: 'Item notes',
+        mimeType: 'text/markdown',
+        read: async ({ itemId }) => `# Notes for ${itemId}`
+      });
+      
+      await initialize();
+    });
+    
+    it('should advertise the resources capability', () => {
+      expect(server.capabilities.resources).toEqual({ listChanged: false });
+    });
+    
+    it('should list resources from templates', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' });
+      
+      expect(response.result.resources).toEqual([
+        { uri: 'test://items/a', name: 'A', mimeType: 'application/json' }
+      ]);
+    });
+    
+    it('should list resource templates', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'resources/templates/list' });
+      
+      expect(response.result.resourceTemplates.map((t: any) => t.uriTemplate)).toEqual([
+        'test://items/{itemId}',
+        'test://items/{itemId}/notes'
+      ]);
+    });
+    
+    it('should read JSON resources', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'resources/read',
+        params: { uri: 'test://items/a%20b' }
+      });
+      
+      expect(response.result.contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(response.result.contents[0].text)).toEqual({ itemId: 'a b' });
+    });
+    
+    it('should read text resources with the template MIME type', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 5,
+        method: 'resources/read',
+        params: { uri: 'test://items/a/notes' }
+      });
+      
+      expect(response.result.contents[0]).toEqual({
+        uri: 'test://items/a/notes',
+        mimeType: 'text/markdown',
+        text: '# Notes for a'
+      });
+    });
+    
+    it('should return resource not found for unknown URIs', async () => {
+      const response: any = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'resources/read',
+        params: { uri: 'test://other/a' }
+      });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.ResourceNotFound);
+    });
+  });
+  
+  describe('handleMessage', () => {
+    beforeEach(async () => {
+      await initialize();
+    });
+    
+    it('should return method not found for unknown methods', async () => {
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 7, method: 'unknown/method' });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.MethodNotFound);
+    });
+    
+    it('should convert McpError into JSON-RPC errors', async () => {
+      server.setRequestHandler('custom/fail', async () => {
+        throw new McpError(JsonRpcErrorCode.InvalidParams, 'Bad input', { field: 'x' });
+      });
+      
+      const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 8, method: 'custom/fail' });
+      
+      expect(response.error).toEqual({ code: JsonRpcErrorCode.InvalidParams, message: 'Bad input', data: { field: 'x' } });
+    });
+    
+    it('should not respond to notifications', async () => {
+      const response = await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: {} });
+      
+      expect(response).toBeNull();
+    });
+    
+    it('should reject invalid messages', async () => {
+      const response: any = await server.handleMessage({ id: 9, method: 'ping' });
+      
+      expect(response.error.code).toBe(JsonRpcErrorCode.InvalidRequest);
+    });
+    
+    it('should handle batches', async () => {
+      const response: any = await server.handleMessage([
+        { jsonrpc: '2.0', id: 10, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/cancelled' },
+        { jsonrpc: '2.0', id: 11, method: 'tools/list' }
+      ]);
+      
+      expect(response).toHaveLength(2);
+      expect(response.map((r: any) => r.id)).toEqual([10, 11]);
+    });
+  });
+});
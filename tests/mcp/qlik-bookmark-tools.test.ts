@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikBookmarkTools } from '../../src/mcp/qlik-bookmark-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik bookmark tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  
+  const bookmark = {
+    id: 'bookmark-1',
+    title: 'Nordic customers',
+    description: '',
+    sheetId: 'sheet-1',
+    published: false,
+    selections: [{ field: 'Country', values: ['Denmark', 'Norway'], locked: false }]
+  };
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: { contextId: 'context-1', ...args } }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockContext = {
+      id: 'context-1',
+      isConnected: true,
+      listBookmarks: jest.fn(async () => [bookmark]),
+      getBookmark: jest.fn(async () => bookmark),
+      createBookmark: jest.fn(async () => bookmark),
+      applyBookmark: jest.fn(async () => ({ selections: [], backCount: 1, forwardCount: 0 })),
+      updateBookmark: jest.fn(async () => bookmark),
+      deleteBookmark: jest.fn(async () => undefined),
+      publishStateAsBookmark: jest.fn(async () => bookmark),
+      importBookmarkAsState: jest.fn(async () => 'state-1')
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikBookmarkTools(server, { contextManager } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should list bookmarks with their selections', async () => {
+    const response = await callTool('qlik_list_bookmarks', {});
+    
+    expect(JSON.parse(response.result.content[0].text).bookmarks[0].selections[0].field).toBe('Country');
+  });
+  
+  it('should create, update and delete bookmarks', async () => {
+    await callTool('qlik_create_bookmark', { title: 'Nordic customers', sheetId: 'sheet-1' });
+    await callTool('qlik_update_bookmark', { id: 'bookmark-1', description: 'Nordics' });
+    
+    const deleted = await callTool('qlik_delete_bookmark', { id: 'bookmark-1' });
+    
+    expect(mockContext.createBookmark).toHaveBeenCalledWith({
+      title: 'Nordic customers',
+      description: undefined,
+      sheetId: 'sheet-1',
+      includeVariables: false
+    });
+    expect(mockContext.updateBookmark).toHaveBeenCalledWith('bookmark-1', {
+      title: undefined,
+      description: 'Nordics',
+      sheetId: undefined
+    });
+    expect(JSON.parse(deleted.result.content[0].text)).toEqual({ deleted: true, id: 'bookmark-1' });
+  });
+  
+  it('should apply a bookmark and return its sheet with the selections', async () => {
+    const response = await callTool('qlik_apply_bookmark', { id: 'bookmark-1' });
+    const result = JSON.parse(response.result.content[0].text);
+    
+    expect(mockContext.applyBookmark).toHaveBeenCalledWith('bookmark-1');
+    expect(result).toMatchObject({ id: 'bookmark-1', sheetId: 'sheet-1', backCount: 1 });
+  });
+  
+  it('should convert between saved states and bookmarks', async () => {
+    const published = await callTool('qlik_publish_state_as_bookmark', { stateId: 'state-1', title: 'Shared' });
+    const imported = await callTool('qlik_import_bookmark_as_state', { id: 'bookmark-1' });
+    
+    expect(mockContext.publishStateAsBookmark).toHaveBeenCalledWith('state-1', {
+      title: 'Shared',
+      description: undefined,
+      sheetId: undefined,
+      includeVariables: false
+    });
+    expect(JSON.parse(published.result.content[0].text).id).toBe('bookmark-1');
+    expect(mockContext.importBookmarkAsState).toHaveBeenCalledWith('bookmark-1', undefined);
+    expect(JSON.parse(imported.result.content[0].text)).toEqual({ stateId: 'state-1' });
+  });
+  
+  it('should report engine errors as tool errors', async () => {
+    mockContext.publishStateAsBookmark.mockRejectedValue(new Error('State not found: state-2'));
+    
+    const response = await callTool('qlik_publish_state_as_bookmark', { stateId: 'state-2', title: 'Shared' });
+    
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain('State not found');
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikDataTools } from '../../src/mcp/qlik-data-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik data tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  let mockAppClient: any;
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: args }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockContext = {
+      id: 'context-1',
+      config: { appId: 'app-1' },
+      isConnected: false,
+      connect: jest.fn(async () => {
+        mockContext.isConnected = true;
+      }),
+      queryData: jest.fn(async () => ({
+        columns: [{ name: 'Region', kind: 'dimension', type: 'string' }],
+        rows: [['North']],
+        totalRows: 1,
+        truncated: false
+      })),
+      searchFieldValues: jest.fn(async () => ({
+        field: 'Customer',
+        values: [{ text: 'Acme Corp', number: null, state: 'O' }],
+        totalValues: 1,
+        counts: { selected: 0, possible: 1, alternative: 0, excluded: 0, total: 1 },
+        truncated: false
+      })),
+      getDataModel: jest.fn(async () => ({
+        tables: [],
+        fields: [],
+        keys: [],
+        syntheticKeys: [],
+        circularReferences: []
+      })),
+      describeField: jest.fn(async () => ({ name: 'Customer', tables: ['Orders'], cardinality: 3 })),
+      evaluate: jest.fn(async () => ({ expression: 'Sum(Sales)', text: '1234', number: 1234, isNumeric: true })),
+      checkExpression: jest.fn(async () => ({
+        expression: 'Sum(Sals)',
+        valid: false,
+        badFields: [{ name: 'Sals', position: 4, length: 4 }],
+        dangerousFields: []
+      })),
+      getSampleValues: jest.fn(async () => ({})),
+      listSheets: jest.fn(async () => [{ id: 'sheet-1', title: 'Overview', description: '', published: true }]),
+      getSheetContent: jest.fn(async () => ({
+        id: 'sheet-1',
+        title: 'Overview',
+        description: '',
+        visualizations: [{
+          id: 'chart-1',
+          type: 'barchart',
+          title: 'Sales by Region',
+          dimensions: [{ label: 'Region', fields: ['Region'] }],
+          measures: [{ label: 'Revenue', expression: 'Sum(Sales)', libraryId: 'measure-1' }]
+        }]
+      }))
+    };
+    
+    mockAppClient = {
+      getApp: jest.fn(async () => ({ id: 'app-1', name: 'Sales' })),
+      getAppDimensions: jest.fn(async () => []),
+      getAppMeasures: jest.fn(async () => [{ id: 'measure-1', title: 'Revenue', expression: 'Sum(Sales)' }]),
+      getAppSheets: jest.fn(async () => []),
+      getAppObjects: jest.fn(async () => []),
+      getAppVariables: jest.fn(async () => [])
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikDataTools(server, { contextManager, appClient: mockAppClient } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should connect the session context and query data', async () => {
+    server.bindContext('context-1');
+    
+    const response = await callTool('qlik_query_data', {
+      dimensions: ['Region'],
+      measures: ['Sum(Sales)'],
+      sort: [{ column: 1, direction: 'desc' }],
+      limit: 10
+    });
+    
+    expect(mockContext.connect).toHaveBeenCalled();
+    expect(mockContext.queryData).toHaveBeenCalledWith({
+      dimensions: ['Region'],
+      measures: ['Sum(Sales)'],
+      sort: [{ column: 1, direction: 'desc' }],
+      limit: 10
+    });
+    expect(JSON.parse(response.result.content[0].text).rows).toEqual([['North']]);
+  });
+  
+  it('should report query errors as tool errors', async () => {
+    mockContext.queryData.mockRejectedValue(new Error('Invalid dimension: Regoin (error 7)'));
+    
+    const response = await callTool('qlik_query_data', { contextId: 'context-1', dimensions: ['Regoin'] });
+    
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain('Invalid dimension');
+  });
+  
+  it('should search field values', async () => {
+    const response = await callTool('qlik_search_field_values', {
+      contextId: 'context-1',
+      field: 'Customer',
+      search: '*acme*',
+      states: ['O']
+    });
+    
+    expect(mockContext.searchFieldValues).toHaveBeenCalledWith({
+      field: 'Customer',
+      search: '*acme*',
+      states: ['O'],
+      frequency: false,
+      limit: undefined
+    });
+    expect(JSON.parse(response.result.content[0].text).values[0].text).toBe('Acme Corp');
+  });
+  
+  it('should get the data model or describe a single field', async () => {
+    const model = await callTool('qlik_get_data_model', { contextId: 'context-1' });
+    const field = await callTool('qlik_get_data_model', { contextId: 'context-1', field: 'Customer' });
+    
+    expect(mockContext.getDataModel).toHaveBeenCalledTimes(1);
+    expect(mockContext.describeField).toHaveBeenCalledWith('Customer');
+    expect(JSON.parse(model.result.content[0].text).circularReferences).toEqual([]);
+    expect(JSON.parse(field.result.content[0].text).tables).toEqual(['Orders']);
+  });
+  
+  it('should evaluate and check expressions', async () => {
+    const evaluated = await callTool('qlik_evaluate_expression', { contextId: 'context-1', expression: '=Sum(Sales)' });
+    const checked = await callTool('qlik_check_expression', { contextId: 'context-1', expression: 'Sum(Sals)' });
+    
+    expect(mockContext.evaluate).toHaveBeenCalledWith('=Sum(Sales)');
+    expect(JSON.parse(evaluated.result.content[0].text).number).toBe(1234);
+    expect(mockContext.checkExpression).toHaveBeenCalledWith('Sum(Sals)');
+    expect(JSON.parse(checked.result.content[0].text).badFields[0].name).toBe('Sals');
+  });
+  
+  it('should generate the data dictionary of the context app', async () => {
+    const response = await callTool('qlik_generate_data_dictionary', { contextId: 'context-1', sampleSize: 50 });
+    const markdown: string = response.result.content[0].text;
+    
+    expect(mockAppClient.getAppMeasures).toHaveBeenCalledWith('app-1');
+    expect(mockContext.getSampleValues).toHaveBeenCalledWith([], 20);
+    expect(markdown.startsWith('# Data Dictionary: Sales\n')).toBe(true);
+    expect(markdown).toContain('```\nSum(Sales)\n```');
+  });
+  
+  it('should list sheets and get the content of a sheet', async () => {
+    const sheets = await callTool('qlik_list_sheets', { contextId: 'context-1' });
+    const content = await callTool('qlik_get_sheet_content', { contextId: 'context-1', sheetId: 'sheet-1', rows: 10 });
+    const missing = await callTool('qlik_get_sheet_content', { contextId: 'context-1' });
+    
+    expect(JSON.parse(sheets.result.content[0].text).sheets[0].id).toBe('sheet-1');
+    expect(mockContext.getSheetContent).toHaveBeenCalledWith('sheet-1', { includeData: undefined, rows: 10 });
+    expect(JSON.parse(content.result.content[0].text).visualizations[0].measures[0].expression).toBe('Sum(Sales)');
+    expect(missing.error.message).toContain('sheetId');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikHistoryTools } from '../../src/mcp/qlik-history-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik history tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  
+  const entry = {
+    id: 1,
+    type: 'selections-changed',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    action: 'select',
+    target: 'Country',
+    undone: false
+  };
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: { contextId: 'context-1', ...args } }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockContext = {
+      id: 'context-1',
+      isConnected: true,
+      history: {
+        getEntries: jest.fn(() => [entry]),
+        canUndo: true,
+        canRedo: false
+      },
+      undo: jest.fn(async () => ({ ...entry, undone: true })),
+      redo: jest.fn(async () => entry)
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikHistoryTools(server, { contextManager } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should list the history of a context', async () => {
+    const response = await callTool('qlik_get_history', {});
+    
+    expect(JSON.parse(response.result.content[0].text)).toEqual({ entries: [entry], canUndo: true, canRedo: false });
+  });
+  
+  it('should undo and redo the last operation', async () => {
+    const undone = await callTool('qlik_undo', {});
+    const redone = await callTool('qlik_redo', {});
+    
+    expect(mockContext.undo).toHaveBeenCalled();
+    expect(JSON.parse(undone.result.content[0].text)).toEqual({ entry: { ...entry, undone: true } });
+    expect(JSON.parse(redone.result.content[0].text)).toEqual({ entry });
+  });
+  
+  it('should report an error when there is nothing to redo', async () => {
+    mockContext.redo.mockRejectedValueOnce(new Error('Nothing to redo'));
+    
+    const response = await callTool('qlik_redo', {});
+    
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain('Nothing to redo');
+  });
+  
+  it('should not undo on a disconnected context', async () => {
+    mockContext.isConnected = false;
+    
+    const response = await callTool('qlik_undo', {});
+    
+    expect(response.result.isError).toBe(true);
+    expect(mockContext.undo).not.toHaveBeenCalled();
+  });
+});
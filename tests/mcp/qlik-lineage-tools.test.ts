@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikLineageTools } from '../../src/mcp/qlik-lineage-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik lineage tools', () => {
+  let server: McpServer;
+  let mockAppClient: any;
+  let mockSpaceClient: any;
+  let mockDataConnectionClient: any;
+  
+  const callTool = (args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name: 'qlik_get_lineage', arguments: args }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    const scripts: Record<string, string> = {
+      'app-1': 'Sales: SQL SELECT * FROM dbo.Sales;\nSTORE Sales INTO [lib://DataFiles/sales.qvd] (qvd);',
+      'app-2': 'Sales: LOAD * FROM [lib://DataFiles/sales.qvd] (qvd);'
+    };
+    
+    mockAppClient = {
+      getApp: jest.fn(async (appId: string) => ({ id: appId, name: appId === 'app-2' ? 'Dashboard' : 'Other' })),
+      getAppScript: jest.fn(async (appId: string) => {
+        if (!scripts[appId]) {
+          throw new Error('Forbidden');
+        }
+        
+        return scripts[appId];
+      })
+    };
+    
+    mockSpaceClient = {
+      getSpaceApps: jest.fn(async () => [{ id: 'app-1', name: 'Extract' }, { id: 'app-2', name: 'Dashboard' }])
+    };
+    
+    mockDataConnectionClient = {
+      getDataConnections: jest.fn(async () => [{ id: 'conn-1', name: 'DataFiles', type: 'folder' }])
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikLineageTools(server, {
+      appClient: mockAppClient,
+      spaceClient: mockSpaceClient,
+      dataConnectionClient: mockDataConnectionClient
+    } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should build the lineage of the apps in a space and of listed apps', async () => {
+    const response = await callTool({ spaceId: 'space-1', appIds: ['app-2', 'app-3'] });
+    const graph = JSON.parse(response.result.content[0].text);
+    
+    expect(mockSpaceClient.getSpaceApps).toHaveBeenCalledWith('space-1');
+    expect(graph.nodes.filter((node: any) => node.kind === 'app')).toEqual([
+      { id: 'app:app-1', kind: 'app', label: 'Extract', appId: 'app-1' },
+      { id: 'app:app-2', kind: 'app', label: 'Dashboard', appId: 'app-2' },
+      { id: 'app:app-3', kind: 'app', label: 'Other', appId: 'app-3', error: 'Forbidden' }
+    ]);
+    expect(graph.nodes.find((node: any) => node.kind === 'connection' && node.label === 'DataFiles').connectionId).toBe('conn-1');
+  });
+  
+  it('should export the graph downstream of a node as Mermaid', async () => {
+    mockDataConnectionClient.getDataConnections.mockRejectedValue(new Error('Forbidden'));
+    
+    const response = await callTool({ spaceId: 'space-1', node: 'lib://DataFiles/sales.qvd', format: 'mermaid' });
+    const mermaid: string = response.result.content[0].text;
+    
+    expect(mermaid.startsWith('flowchart LR\n')).toBe(true);
+    expect(mermaid).toContain('{{"Dashboard"}}');
+    expect(mermaid).not.toContain('Extract');
+  });
+  
+  it('should require a space or apps', async () => {
+    const response = await callTool({ format: 'dot' });
+    
+    expect(response.error.message).toBe('Missing required arguments: spaceId or appIds');
+  });
+});
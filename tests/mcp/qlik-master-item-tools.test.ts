@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikMasterItemTools } from '../../src/mcp/qlik-master-item-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik master item tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  
+  const measure = {
+    id: 'measure-1',
+    type: 'measure',
+    label: 'Revenue',
+    description: '',
+    tags: ['finance'],
+    expression: 'Sum(Sales)'
+  };
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: { contextId: 'context-1', ...args } }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockContext = {
+      id: 'context-1',
+      isConnected: true,
+      listMasterItems: jest.fn(async () => [measure]),
+      getMasterItem: jest.fn(async () => measure),
+      createMasterItem: jest.fn(async () => measure),
+      updateMasterItem: jest.fn(async () => measure),
+      deleteMasterItem: jest.fn(async () => undefined)
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikMasterItemTools(server, { contextManager } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should search master items by type, text and tag', async () => {
+    const response = await callTool('qlik_list_master_items', { type: 'measure', query: 'rev', tag: 'finance' });
+    
+    expect(mockContext.listMasterItems).toHaveBeenCalledWith({ type: 'measure', query: 'rev', tag: 'finance' });
+    expect(JSON.parse(response.result.content[0].text).items).toEqual([measure]);
+  });
+  
+  it('should create a master item from friendly inputs', async () => {
+    await callTool('qlik_create_master_item', {
+      type: 'measure',
+      label: 'Revenue',
+      expression: 'Sum(Sales)',
+      tags: ['finance'],
+      numberFormat: { type: 'money', pattern: '$#,##0' }
+    });
+    
+    expect(mockContext.createMasterItem).toHaveBeenCalledWith({
+      type: 'measure',
+      label: 'Revenue',
+      expression: 'Sum(Sales)',
+      tags: ['finance'],
+      numberFormat: { type: 'money', pattern: '$#,##0' }
+    });
+  });
+  
+  it('should only pass the given properties on update', async () => {
+    await callTool('qlik_update_master_item', { type: 'measure', id: 'measure-1', tags: ['finance', 'kpi'] });
+    
+    expect(mockContext.updateMasterItem).toHaveBeenCalledWith('measure', 'measure-1', { tags: ['finance', 'kpi'] });
+  });
+  
+  it('should delete a master item and reject unknown types', async () => {
+    const deleted = await callTool('qlik_delete_master_item', { type: 'dimension', id: 'dimension-1' });
+    const invalid = await callTool('qlik_get_master_item', { type: 'sheet', id: 'sheet-1' });
+    
+    expect(mockContext.deleteMasterItem).toHaveBeenCalledWith('dimension', 'dimension-1');
+    expect(JSON.parse(deleted.result.content[0].text).deleted).toBe(true);
+    expect(invalid.result.isError).toBe(true);
+    expect(mockContext.getMasterItem).not.toHaveBeenCalled();
+  });
+});
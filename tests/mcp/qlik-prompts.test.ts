@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikPrompts } from '../../src/mcp/qlik-prompts';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { JsonRpcErrorCode } from '../../src/mcp/types';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik prompts', () => {
+  let server: McpServer;
+  let mockAppClient: any;
+  
+  const getPrompt = (name: string, args: Record<string, string>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'prompts/get',
+    params: { name, arguments: args }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockAppClient = {
+      getApp: jest.fn(async () => ({ id: 'app-1', name: 'Sales', lastReloadTime: '2024-01-02T00:00:00Z' })),
+      getAppScript: jest.fn(async () => 'LOAD * FROM sales.qvd;'),
+      getAppMeasures: jest.fn(async () => [{ id: 'm1', title: 'Revenue' }]),
+      getAppDimensions: jest.fn(async () => [{ id: 'd1', title: 'Region' }]),
+      getAppReloads: jest.fn(async () => [
+        { id: 'r2', appId: 'app-1', status: 'FAILED', creationTime: '2024-01-03T00:00:00Z', log: 'Error: Field not found <Amount>' },
+        { id: 'r1', appId: 'app-1', status: 'SUCCEEDED', creationTime: '2024-01-02T00:00:00Z' }
+      ])
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikPrompts(server, { appClient: mockAppClient } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should list the prompt catalog with arguments', async () => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'prompts/list' });
+    
+    expect(response.result.prompts.map((p: any) => p.name)).toEqual([
+      'explain_data_model',
+      'review_load_script',
+      'summarize_reload_failure',
+      'draft_set_analysis'
+    ]);
+    expect(response.result.prompts[0].arguments).toEqual([
+      { name: 'appId', description: 'ID of the app', required: true }
+    ]);
+    expect(server.capabilities.prompts).toEqual({ listChanged: false });
+  });
+  
+  it('should embed the script, measures and dimensions in the data model prompt', async () => {
+    const response = await getPrompt('explain_data_model', { appId: 'app-1' });
+    const messages = response.result.messages;
+    
+    expect(messages[0].content.text).toContain('"Sales"');
+    expect(messages[0].content.text).toContain('2024-01-02T00:00:00Z');
+    expect(messages[1].content.resource).toEqual({
+      uri: 'qlik://apps/app-1/script',
+      mimeType: 'text/plain',
+      text: 'LOAD * FROM sales.qvd;'
+    });
+    expect(JSON.parse(messages[2].content.resource.text).measures).toHaveLength(1);
+  });
+  
+  it('should add the review focus to the script review prompt', async () => {
+    const response = await getPrompt('review_load_script', { appId: 'app-1', focus: 'incremental loads' });
+    
+    expect(response.result.messages[0].content.text).toContain('Focus the review on: incremental loads.');
+  });
+  
+  it('should embed the log of the latest failed reload', async () => {
+    const response = await getPrompt('summarize_reload_failure', { appId: 'app-1' });
+    const messages = response.result.messages;
+    
+    expect(messages[1].content.resource.uri).toBe('qlik://apps/app-1/reloads/r2/log');
+    expect(messages[1].content.resource.text).toBe('Error: Field not found <Amount>');
+  });
+  
+  it('should report when there is no failed reload', async () => {
+    mockAppClient.getAppReloads.mockResolvedValue([
+      { id: 'r1', appId: 'app-1', status: 'SUCCEEDED', creationTime: '2024-01-02T00:00:00Z' }
+    ]);
+    
+    const response = await getPrompt('summarize_reload_failure', { appId: 'app-1' });
+    
+    expect(response.result.messages[0].content.text).toContain('has no failed reload');
+  });
+  
+  it('should start set analysis from a master measure', async () => {
+    const response = await getPrompt('draft_set_analysis', {
+      appId: 'app-1',
+      requirement: 'revenue last year',
+      measureId: 'm1'
+    });
+    
+    expect(response.result.messages[0].content.text).toContain('"Revenue"');
+  });
+  
+  it('should reject unknown measures', async () => {
+    const response = await getPrompt('draft_set_analysis', {
+      appId: 'app-1',
+      requirement: 'revenue last year',
+      measureId: 'missing'
+    });
+    
+    expect(response.error.code).toBe(JsonRpcErrorCode.InvalidParams);
+  });
+  
+  it('should reject missing required arguments', async () => {
+    const response = await getPrompt('draft_set_analysis', { appId: 'app-1' });
+    
+    expect(response.error.code).toBe(JsonRpcErrorCode.InvalidParams);
+    expect(response.error.message).toContain('requirement');
+  });
+  
+  it('should reject unknown prompts', async () => {
+    const response = await getPrompt('missing', {});
+    
+    expect(response.error.code).toBe(JsonRpcErrorCode.InvalidParams);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikResources } from '../../src/mcp/qlik-resources';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { JsonRpcErrorCode } from '../../src/mcp/types';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik resources', () => {
+  let server: McpServer;
+  let mockAppClient: any;
+  let mockSpaceClient: any;
+  
+  const read = async (uri: string): Promise<any> => {
+    const response: any = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'resources/read',
+      params: { uri }
+    });
+    
+    return response.result.contents[0];
+  };
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockAppClient = {
+      getApps: jest.fn(async () => [{ id: 'app-1', name: 'Sales' }]),
+      getApp: jest.fn(async () => ({ id: 'app-1', name: 'Sales', lastReloadTime: '2024-01-01T00:00:00Z' })),
+      getAppScript: jest.fn(async () => 'LOAD * FROM sales.qvd;'),
+      getAppMeasures: jest.fn(async () => [{ id: 'm1', title: 'Revenue' }]),
+      getAppDimensions: jest.fn(async () => [{ id: 'd1', title: 'Region' }]),
+      getAppReloads: jest.fn(async () => [{ id: 'r1', appId: 'app-1', status: 'FAILED' }]),
+      getReload: jest.fn(async () => ({ id: 'r1', appId: 'app-1', status: 'FAILED', log: 'Field not found: Margin' }))
+    };
+    
+    mockSpaceClient = {
+      getSpaces: jest.fn(async () => [{ id: 'space-1', name: 'Finance' }]),
+      getSpace: jest.fn(async () => ({ id: 'space-1', name: 'Finance' })),
+      getSpaceApps: jest.fn(async () => [{ id: 'app-1', name: 'Sales' }])
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikResources(server, {
+      appClient: mockAppClient,
+      spaceClient: mockSpaceClient
+    } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should list apps and spaces', async () => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' });
+    
+    expect(response.result.resources.map((r: any) => r.uri)).toEqual([
+      'qlik://apps/app-1',
+      'qlik://spaces/space-1'
+    ]);
+  });
+  
+  it('should read an app', async () => {
+    const contents = await read('qlik://apps/app-1');
+    
+    expect(mockAppClient.getApp).toHaveBeenCalledWith('app-1');
+    expect(JSON.parse(contents.text).lastReloadTime).toBe('2024-01-01T00:00:00Z');
+  });
+  
+  it('should read an app script as plain text', async () => {
+    const contents = await read('qlik://apps/app-1/script');
+    
+    expect(contents.mimeType).toBe('text/plain');
+    expect(contents.text).toBe('LOAD * FROM sales.qvd;');
+  });
+  
+  it('should read app master items', async () => {
+    const measures = await read('qlik://apps/app-1/measures');
+    const dimensions = await read('qlik://apps/app-1/dimensions');
+    
+    expect(JSON.parse(measures.text).measures).toEqual([{ id: 'm1', title: 'Revenue' }]);
+    expect(JSON.parse(dimensions.text).dimensions).toEqual([{ id: 'd1', title: 'Region' }]);
+  });
+  
+  it('should read the reloads of an app and their logs', async () => {
+    const reloads = await read('qlik://apps/app-1/reloads');
+    const log = await read('qlik://apps/app-1/reloads/r1/log');
+    
+    expect(JSON.parse(reloads.text).reloads).toEqual([{ id: 'r1', appId: 'app-1', status: 'FAILED' }]);
+    expect(mockAppClient.getReload).toHaveBeenCalledWith('r1');
+    expect(log.mimeType).toBe('text/plain');
+    expect(log.text).toBe('Field not found: Margin');
+  });
+  
+  it('should not read the reload log of another app', async () => {
+    const response: any = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'resources/read',
+      params: { uri: 'qlik://apps/app-2/reloads/r1/log' }
+    });
+    
+    expect(response.error.code).toBe(JsonRpcErrorCode.ResourceNotFound);
+  });
+  
+  it('should read a space with its apps', async () => {
+    const contents = await read('qlik://spaces/space-1');
+    const space = JSON.parse(contents.text);
+    
+    expect(space.name).toBe('Finance');
+    expect(space.apps).toEqual([{ id: 'app-1', name: 'Sales', uri: 'qlik://apps/app-1' }]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikScriptTools } from '../../src/mcp/qlik-script-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik script tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  let mockAppClient: any;
+  
+  const syntaxError = { line: 5, column: 8, length: 3, tab: 1, lineInTab: 2, text: 'LOAD * FRM x;', secondary: false };
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: { contextId: 'context-1', ...args } }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    mockContext = {
+      id: 'context-1',
+      isConnected: true,
+      getScript: jest.fn(async () => 'LOAD * FROM x;'),
+      setScript: jest.fn(async () => [syntaxError]),
+      checkScript: jest.fn(async () => []),
+      reload: jest.fn(async () => ({
+        success: false,
+        partial: false,
+        saved: false,
+        log: 'x'.repeat(25000),
+        errors: [{ message: 'Syntax error', statement: 'LOAD * FRM x;' }],
+        syntaxErrors: [syntaxError],
+        durationMs: 1200
+      })),
+      save: jest.fn(async () => undefined),
+      getStateScript: jest.fn(async () => 'LOAD * FROM y;')
+    };
+    
+    mockAppClient = {
+      getAppScript: jest.fn(async () => 'Tmp: LOAD * FROM [lib://Data/x.qvd] (qvd);')
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikScriptTools(server, { contextManager, appClient: mockAppClient } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should set the script and report its syntax errors', async () => {
+    const response = await callTool('qlik_set_script', { script: 'LOAD * FRM x;' });
+    
+    expect(mockContext.setScript).toHaveBeenCalledWith('LOAD * FRM x;');
+    expect(JSON.parse(response.result.content[0].text).syntaxErrors).toEqual([syntaxError]);
+  });
+  
+  it('should reload with the given options and keep the end of long logs', async () => {
+    const response = await callTool('qlik_reload_script', { partial: true });
+    const result = JSON.parse(response.result.content[0].text);
+    
+    expect(mockContext.reload).toHaveBeenCalledWith({ partial: true, save: false });
+    expect(result.success).toBe(false);
+    expect(result.log).toHaveLength(20000);
+    expect(result.logTruncated).toBe(true);
+    expect(result.errors[0].statement).toBe('LOAD * FRM x;');
+  });
+  
+  it('should get the script and save the app', async () => {
+    const script = await callTool('qlik_get_script', {});
+    const saved = await callTool('qlik_save_app', {});
+    
+    expect(JSON.parse(script.result.content[0].text).script).toBe('LOAD * FROM x;');
+    expect(mockContext.save).toHaveBeenCalled();
+    expect(JSON.parse(saved.result.content[0].text).saved).toBe(true);
+  });
+  
+  it('should analyze the saved script of an app', async () => {
+    const response = await callTool('qlik_analyze_script', { appId: 'app-1' });
+    const analysis = JSON.parse(response.result.content[0].text);
+    
+    expect(mockAppClient.getAppScript).toHaveBeenCalledWith('app-1');
+    expect(mockContext.getScript).not.toHaveBeenCalled();
+    expect(analysis.findings.map((finding: any) => finding.rule)).toEqual(['unqualified-star-load', 'temp-table-not-dropped']);
+  });
+  
+  it('should diff the script of an app against a saved state', async () => {
+    const response = await callTool('qlik_diff_scripts', {
+      base: { contextId: 'context-1', stateId: 'state-1' },
+      target: { appId: 'app-1' }
+    });
+    const result = JSON.parse(response.result.content[0].text);
+    
+    expect(mockContext.getStateScript).toHaveBeenCalledWith('state-1');
+    expect(mockAppClient.getAppScript).toHaveBeenCalledWith('app-1');
+    expect(result.identical).toBe(false);
+    expect(result.diff).toContain('--- state/state-1\n+++ app/app-1\n');
+  });
+  
+  it('should reject a script source of more than one kind', async () => {
+    const response = await callTool('qlik_diff_scripts', { base: { script: 'x', appId: 'app-1' }, target: { script: 'y' } });
+    
+    expect(response.result.isError).toBe(true);
+    expect(mockAppClient.getAppScript).not.toHaveBeenCalled();
+  });
+});
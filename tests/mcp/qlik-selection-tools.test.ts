@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { registerQlikSelectionTools } from '../../src/mcp/qlik-selection-tools';
+import { QlikToolDependencies } from '../../src/mcp/qlik-tools';
+import { LogManager } from '../../src/utils/log-manager';
+
+describe('Qlik selection tools', () => {
+  let server: McpServer;
+  let mockContext: any;
+  
+  const selectionState = {
+    selections: [{
+      field: 'Country',
+      selected: ['Sweden'],
+      locked: false,
+      counts: { selected: 1, possible: 0, alternative: 39, excluded: 0, total: 40 }
+    }],
+    backCount: 1,
+    forwardCount: 0
+  };
+  
+  const callTool = (name: string, args: Record<string, any>): Promise<any> => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name, arguments: { contextId: 'context-1', ...args } }
+  });
+  
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    const state = async () => selectionState;
+    
+    mockContext = {
+      id: 'context-1',
+      isConnected: true,
+      getSelections: jest.fn(state),
+      selectValues: jest.fn(state),
+      clearField: jest.fn(state),
+      clearAll: jest.fn(state),
+      lock: jest.fn(state),
+      unlock: jest.fn(state),
+      back: jest.fn(state),
+      forward: jest.fn(state),
+      listAlternateStates: jest.fn(async () => []),
+      addAlternateState: jest.fn(async () => ['LastYear']),
+      removeAlternateState: jest.fn(async () => [])
+    };
+    
+    const contextManager = {
+      loadContext: jest.fn(async (id: string) => id === 'context-1' ? mockContext : null)
+    };
+    
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    registerQlikSelectionTools(server, { contextManager } as unknown as QlikToolDependencies);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+  });
+  
+  it('should select values and return the selection state', async () => {
+    const response = await callTool('qlik_select_values', { field: 'Country', values: ['Sweden'] });
+    
+    expect(mockContext.selectValues).toHaveBeenCalledWith('Country', ['Sweden'], false, undefined);
+    expect(JSON.parse(response.result.content[0].text)).toEqual(selectionState);
+  });
+  
+  it('should clear a field or all fields', async () => {
+    await callTool('qlik_clear_selections', { field: 'Country' });
+    await callTool('qlik_clear_selections', { lockedAlso: true });
+    
+    expect(mockContext.clearField).toHaveBeenCalledWith('Country', undefined);
+    expect(mockContext.clearAll).toHaveBeenCalledWith(true, undefined);
+  });
+  
+  it('should lock and unlock selections', async () => {
+    await callTool('qlik_lock_selections', { field: 'Country' });
+    await callTool('qlik_unlock_selections', {});
+    
+    expect(mockContext.lock).toHaveBeenCalledWith('Country', undefined);
+    expect(mockContext.unlock).toHaveBeenCalledWith(undefined, undefined);
+  });
+  
+  it('should select in an alternate state', async () => {
+    await callTool('qlik_select_values', { field: 'Year', values: [2023], stateName: 'LastYear' });
+    await callTool('qlik_get_selections', { stateName: 'LastYear' });
+    
+    expect(mockContext.selectValues).toHaveBeenCalledWith('Year', [2023], false, 'LastYear');
+    expect(mockContext.getSelections).toHaveBeenCalledWith(undefined, 'LastYear');
+  });
+  
+  it('should list, add and remove alternate states', async () => {
+    const listed = await callTool('qlik_list_alternate_states', {});
+    const added = await callTool('qlik_add_alternate_state', { stateName: 'LastYear' });
+    const removed = await callTool('qlik_remove_alternate_state', { stateName: 'LastYear' });
+    
+    expect(JSON.parse(listed.result.content[0].text)).toEqual({ stateNames: [] });
+    expect(mockContext.addAlternateState).toHaveBeenCalledWith('LastYear');
+    expect(JSON.parse(added.result.content[0].text)).toEqual({ stateNames: ['LastYear'] });
+    expect(mockContext.removeAlternateState).toHaveBeenCalledWith('LastYear');
+    expect(JSON.parse(removed.result.content[0].text)).toEqual({ stateNames: [] });
+  });
+  
+  it('should step through the selection history', async () => {
+    await callTool('qlik_step_selections', { direction: 'back' });
+    await callTool('qlik_step_selections', { direction: 'forward' });
+    
+    expect(mockContext.back).toHaveBeenCalled();
+    expect(mockContext.forward).toHaveBeenCalled();
+  });
+  
+  it('should reject an invalid direction', async () => {
+    const response = await callTool('qlik_step_selections', { direction: 'sideways' });
+    
+    expect(response.result.isError).toBe(true);
+  });
+});
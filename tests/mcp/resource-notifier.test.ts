@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { McpServer } from '../../src/mcp/mcp-server';
+import { ResourceNotifier } from '../../src/mcp/resource-notifier';
+import { JsonRpcErrorCode, JsonRpcMessage, McpTransport } from '../../src/mcp/types';
+import { AppEventHandler } from '../../src/events/app-event-handler';
+import { LogManager } from '../../src/utils/log-manager';
+
+/**
+ * Transport that records the messages sent by the server
+ */
+class RecordingTransport extends EventEmitter implements McpTransport {
+  sent: (JsonRpcMessage | JsonRpcMessage[])[] = [];
+  
+  async start(): Promise<void> {}
+  
+  async send(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void> {
+    this.sent.push(message);
+  }
+  
+  async close(): Promise<void> {
+    this.emit('close');
+  }
+}
+
+describe('ResourceNotifier', () => {
+  let appEvents: EventEmitter;
+  let notifier: ResourceNotifier;
+  let mockLogger: LogManager;
+  
+  const createServer = async (): Promise<{ server: McpServer; transport: RecordingTransport }> => {
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' }, mockLogger);
+    const transport = new RecordingTransport();
+    
+    server.registerResourceTemplate({
+      uriTemplate: 'qlik://apps/{appId}',
+      name: 'App',
+      read: async ({ appId }) => ({ appId })
+    });
+    server.registerResourceTemplate({
+      uriTemplate: 'qlik://apps/{appId}/script',
+      name: 'Script',
+      read: async () => ''
+    });
+    
+    notifier.addServer(server);
+    await server.connect(transport);
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} }
+    });
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    
+    return { server, transport };
+  };
+  
+  const subscribe = (server: McpServer, uri: string) => server.handleMessage({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'resources/subscribe',
+    params: { uri }
+  });
+  
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn()
+    } as unknown as LogManager;
+    
+    appEvents = new EventEmitter();
+    notifier = new ResourceNotifier(appEvents as AppEventHandler, mockLogger);
+  });
+  
+  it('should advertise resource subscriptions', async () => {
+    const { server } = await createServer();
+    
+    expect(server.capabilities.resources).toEqual({ listChanged: false, subscribe: true });
+  });
+  
+  it('should reject subscriptions to unknown resources', async () => {
+    const { server } = await createServer();
+    
+    const response: any = await subscribe(server, 'qlik://unknown/1');
+    
+    expect(response.error.code).toBe(JsonRpcErrorCode.ResourceNotFound);
+  });
+  
+  it('should notify subscribers of an app and its sub-resources', async () => {
+    const { server, transport } = await createServer();
+    
+    await subscribe(server, 'qlik://apps/app-1');
+    await subscribe(server, 'qlik://apps/app-1/script');
+    await subscribe(server, 'qlik://apps/app-10');
+    
+    const sent = await notifier.notifyAppUpdated('app-1');
+    
+    expect(sent).toBe(2);
+    expect(transport.sent).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'qlik://apps/app-1' } },
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'qlik://apps/app-1/script' } }
+    ]);
+  });
+  
+  it('should react to app-updated events', async () => {
+    const { server, transport } = await createServer();
+    await subscribe(server, 'qlik://apps/app-1');
+    
+    appEvents.emit('app-updated', { appId: 'app-1', eventType: 'app.reload.succeeded', timestamp: 'now' });
+    await new Promise(resolve => setImmediate(resolve));
+    
+    expect(transport.sent).toHaveLength(1);
+  });
+  
+  it('should stop notifying after unsubscribe', async () => {
+    const { server, transport } = await createServer();
+    await subscribe(server, 'qlik://apps/app-1');
+    
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'resources/unsubscribe',
+      params: { uri: 'qlik://apps/app-1' }
+    });
+    
+    expect(await notifier.notifyAppUpdated('app-1')).toBe(0);
+    expect(transport.sent).toHaveLength(0);
+  });
+  
+  it('should forget servers when they close', async () => {
+    const { server } = await createServer();
+    
+    expect(notifier.size).toBe(1);
+    
+    await server.close();
+    
+    expect(notifier.size).toBe(0);
+  });
+});
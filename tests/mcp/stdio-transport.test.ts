@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { StdioTransport } from '../../src/mcp/stdio-transport';
+import { JsonRpcErrorCode } from '../../src/mcp/types';
+
+describe('StdioTransport', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let transport: StdioTransport;
+  
+  const readLines = (): any[] => {
+    const data = output.read();
+    
+    if (!data) {
+      return [];
+    }
+    
+    return data.toString().trim().split('\n').map((line: string) => JSON.parse(line));
+  };
+  
+  beforeEach(async () => {
+    input = new PassThrough();
+    output = new PassThrough();
+    transport = new StdioTransport(input, output);
+    await transport.start();
+  });
+  
+  it('should emit one message per line', () => {
+    const onMessage = jest.fn();
+    transport.on('message', onMessage);
+    
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    
+    expect(onMessage).toHaveBeenCalledTimes(2);
+    expect(onMessage).toHaveBeenNthCalledWith(1, { jsonrpc: '2.0', id: 1, method: 'ping' });
+  });
+  
+  it('should buffer partial lines until a newline arrives', () => {
+    const onMessage = jest.fn();
+    transport.on('message', onMessage);
+    
+    input.write('{"jsonrpc":"2.0",');
+    expect(onMessage).not.toHaveBeenCalled();
+    
+    input.write('"id":2,"method":"ping"}\r\n');
+    expect(onMessage).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 2, method: 'ping' });
+  });
+  
+  it('should answer unparseable lines with a parse error', async () => {
+    input.write('not json\n');
+    await new Promise(resolve => setImmediate(resolve));
+    
+    const [response] = readLines();
+    
+    expect(response.id).toBeNull();
+    expect(response.error.code).toBe(JsonRpcErrorCode.ParseError);
+  });
+  
+  it('should write messages as newline-delimited JSON', async () => {
+    await transport.send({ jsonrpc: '2.0', id: 1, result: {} });
+    
+    expect(readLines()).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+  
+  it('should emit close when the input ends', async () => {
+    const onClose = jest.fn();
+    transport.on('close', onClose);
+    
+    input.end();
+    await new Promise(resolve => setImmediate(resolve));
+    
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ContextHistory, isReadMethod } from '../../src/model/context-history';
+
+describe('ContextHistory', () => {
+  /**
+   * Create an operation that logs its undo and redo steps
+   */
+  function operation(name: string, log: string[]) {
+    return {
+      undo: jest.fn(async () => {
+        log.push(`undo ${name}`);
+      }),
+      redo: jest.fn(async () => {
+        log.push(`redo ${name}`);
+      })
+    };
+  }
+  
+  it('undoes and redoes operations in order', async () => {
+    const history = new ContextHistory('context-1');
+    const log: string[] = [];
+    
+    history.record('selections-changed', 'select', 'Country', operation('select', log));
+    history.record('object-created', 'GenericObject', 'chart-1', operation('create', log));
+    
+    expect(await history.undo()).toMatchObject({ id: 2, type: 'object-created', undone: true });
+    expect(await history.undo()).toMatchObject({ id: 1, action: 'select', target: 'Country', undone: true });
+    await expect(history.undo()).rejects.toThrow('Nothing to undo');
+    
+    expect(await history.redo()).toMatchObject({ id: 1, undone: false });
+    expect(log).toEqual(['undo create', 'undo select', 'redo select']);
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(true);
+  });
+  
+  it('drops undone operations when a new operation is recorded', async () => {
+    const history = new ContextHistory('context-1');
+    const log: string[] = [];
+    
+    history.record('selections-changed', 'select', 'Country', operation('select', log));
+    history.record('selections-changed', 'clear', 'Country', operation('clear', log));
+    await history.undo();
+    history.record('master-item-updated', 'measure', 'measure-1', operation('update', log));
+    
+    expect(history.getEntries().map(entry => entry.action)).toEqual(['select', 'measure']);
+    expect(history.canRedo).toBe(false);
+    await expect(history.redo()).rejects.toThrow('Nothing to redo');
+  });
+  
+  it('keeps the last operations up to its limit', () => {
+    const history = new ContextHistory('context-1', 2);
+    
+    for (const action of ['select', 'clear', 'lock']) {
+      history.record('selections-changed', action, undefined, operation(action, []));
+    }
+    
+    expect(history.getEntries().map(entry => entry.action)).toEqual(['clear', 'lock']);
+  });
+  
+  it('keeps an operation to undo when undoing it fails', async () => {
+    const history = new ContextHistory('context-1');
+    const failing = operation('create', []);
+    
+    failing.undo.mockRejectedValueOnce(new Error('Not connected to engine'));
+    history.record('object-created', 'GenericObject', 'chart-1', failing);
+    
+    await expect(history.undo()).rejects.toThrow('Not connected to engine');
+    expect(history.getEntries()[0].undone).toBe(false);
+    expect(await history.undo()).toMatchObject({ undone: true });
+  });
+  
+  it('does not record methods that only read', () => {
+    expect(isReadMethod('getLayout')).toBe(true);
+    expect(isReadMethod('getProperties')).toBe(true);
+    expect(isReadMethod('setProperties')).toBe(false);
+    expect(isReadMethod('selectHyperCubeValues')).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ModelContextManager } from '../../src/model/model-context-manager';
+import { MemoryStateStore } from '../../src/model/state-store';
+import { QixSession } from '../../src/engine/qix-session';
+
+// The factory keeps the engine session module from loading
+jest.mock('../../src/engine/qix-session', () => ({
+  QixSession: jest.fn().mockImplementation(() => {
+    const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+    
+    return Object.assign(new EventEmitter(), {
+      connect: jest.fn(async () => {}),
+      close: jest.fn(async () => {})
+    });
+  })
+}));
+
+describe('ModelContextManager persistence', () => {
+  const config = { appId: 'app-1', name: 'Sales', engineUrl: 'wss://tenant/app/app-1' };
+  let store: MemoryStateStore;
+  let managers: ModelContextManager[];
+
+  /**
+   * Create a manager, as a server does on boot; disposing it shuts the server down
+   */
+  function boot(inactivityTimeout?: number): ModelContextManager {
+    const manager = new ModelContextManager(inactivityTimeout, store);
+    
+    managers.push(manager);
+    
+    return manager;
+  }
+  
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemoryStateStore();
+    managers = [];
+  });
+  
+  afterEach(async () => {
+    for (const manager of managers) {
+      await manager.dispose();
+    }
+  });
+  
+  it('restores contexts with their IDs, metadata, objects and saved states', async () => {
+    const before = boot();
+    const context = await before.createContext(config);
+    
+    context.setMetadata('owner', 'analyst');
+    await context.objectRegistry.setState({ objects: { 'object-1': { handle: 'object-1', type: 'chart' } } });
+    const stateId = await context.saveState('Nordics');
+    await context.deleteMetadata('missing');
+    context.setMetadata('team', 'finance');
+    await before.dispose();
+    
+    const after = boot();
+    
+    expect(await after.restoreContexts()).toBe(1);
+    
+    const restored = after.getContext(context.id);
+    
+    expect(restored).not.toBeNull();
+    expect(restored!.config).toEqual(config);
+    expect(restored!.getAllMetadata()).toEqual({ owner: 'analyst', team: 'finance' });
+    expect(restored!.objectRegistry.hasObject('object-1')).toBe(true);
+    expect(await restored!.state.list()).toEqual([expect.objectContaining({ id: stateId, name: 'Nordics' })]);
+    expect(restored!.isConnected).toBe(false);
+  });
+  
+  it('reconnects restored contexts that were connected on first use', async () => {
+    const before = boot();
+    const connected = await before.createContext(config);
+    const disconnected = await before.createContext(config);
+    
+    await connected.connect();
+    await before.dispose();
+    
+    const after = boot();
+    await after.restoreContexts();
+    
+    jest.clearAllMocks();
+    
+    expect(await after.getContext(disconnected.id)!.reconnectIfRestored()).toBe(false);
+    expect(QixSession).not.toHaveBeenCalled();
+    
+    const restored = after.getContext(connected.id)!;
+    const [first, second] = await Promise.all([restored.reconnectIfRestored(), restored.reconnectIfRestored()]);
+    
+    expect(first).toBe(true);
+    expect(second).toBe(true);
+    expect(QixSession).toHaveBeenCalledTimes(1);
+  });
+  
+  it('keeps contexts connected in the store when the manager is disposed', async () => {
+    const before = boot();
+    const context = await before.createContext(config);
+    
+    await context.connect();
+    await before.dispose();
+    
+    expect(await store.listContexts()).toEqual([expect.objectContaining({ id: context.id, connected: true })]);
+  });
+  
+  it('removes deleted contexts and their saved states from the store', async () => {
+    const manager = boot();
+    const context = await manager.createContext(config);
+    
+    await context.saveState();
+    await manager.deleteContext(context.id);
+    
+    expect(await store.listContexts()).toEqual([]);
+    expect(await store.list(context.id)).toEqual([]);
+  });
+  
+  it('unloads idle contexts but keeps them and their saved states in the store', async () => {
+    const manager = boot(-1);
+    const context = await manager.createContext(config);
+    const stateId = await context.saveState('Nordics');
+    
+    await context.connect();
+    
+    expect(await manager.cleanupInactiveContexts()).toBe(1);
+    expect(manager.getContext(context.id)).toBeNull();
+    expect(await store.listContexts()).toEqual([expect.objectContaining({ id: context.id, connected: true })]);
+    
+    const loaded = await manager.loadContext(context.id);
+    
+    expect(loaded!.id).toBe(context.id);
+    expect(await loaded!.state.load(stateId)).toEqual(expect.objectContaining({ name: 'Nordics' }));
+    expect(await manager.loadContext('missing')).toBeNull();
+    
+    const after = boot();
+    
+    expect(await after.restoreContexts()).toBe(1);
+    expect(await after.getContext(context.id)!.state.load(stateId)).not.toBeNull();
+  });
+});
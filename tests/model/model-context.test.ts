@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ModelContext } from '../../src/model/model-context';
+import { QixSession } from '../../src/engine/qix-session';
+
+// The factory keeps the engine session module from loading
+jest.mock('../../src/engine/qix-session', () => ({
+  QixSession: jest.fn()
+}));
+
+/**
+ * Create a fake engine session that only knows the objects created through it
+ * 
+ * @param objects - IDs of the objects the engine has
+ * @param idFor - ID the engine gives an object created under a requested ID
+ */
+function fakeSession(objects: Set<string>, idFor: (qId: string) => string = qId => qId) {
+  const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+  
+  return Object.assign(new EventEmitter(), {
+    connect: jest.fn(async () => {}),
+    close: jest.fn(async () => {}),
+    hasObject: jest.fn(async (type: string, handle: string) => objects.has(handle)),
+    createObject: jest.fn(async (type: string, properties: any) => {
+      const id = idFor(properties.qInfo.qId);
+      
+      objects.add(id);
+      
+      return id;
+    }),
+    destroyObject: jest.fn(async (handle: string) => {
+      objects.delete(handle);
+    }),
+    executeMethod: jest.fn(async (handle: string) => ({ handle })),
+    getState: jest.fn(async () => ({ selections: [], variables: [] })),
+    getTrackedState: jest.fn(async () => ({ selections: [], variables: [] })),
+    setState: jest.fn(async () => {})
+  });
+}
+
+const sessions = QixSession as unknown as jest.Mock<() => any>;
+
+describe('ModelContext reconnects', () => {
+  const config = { appId: 'app-1', name: 'Sales', engineUrl: 'wss://tenant/app/app-1' };
+  const properties = { qInfo: { qId: 'chart-1', qType: 'chart' }, title: 'Sales by region' };
+  
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  
+  it('re-creates lost objects under their handle after a reconnect', async () => {
+    const engine = new Set<string>();
+    const first = fakeSession(engine);
+    const second = fakeSession(new Set<string>());
+    
+    sessions.mockImplementationOnce(() => first).mockImplementationOnce(() => second);
+    
+    const context = new ModelContext(config);
+    const rehydrated = jest.fn();
+    
+    context.on('objects-rehydrated', rehydrated);
+    await context.connect();
+    await context.createObject('GenericObject', properties);
+    
+    first.emit('suspended', { code: 1006 });
+    await context.connect();
+    
+    expect(second.createObject).toHaveBeenCalledWith('GenericObject', properties);
+    expect(rehydrated).toHaveBeenCalledWith({ contextId: context.id, recreated: ['chart-1'], failed: [], handles: {} });
+    expect(await context.executeMethod('chart-1', 'getLayout')).toEqual({ handle: 'chart-1' });
+  });
+  
+  it('keeps the registered handles valid when the engine gives objects new IDs', async () => {
+    const first = fakeSession(new Set<string>());
+    const second = fakeSession(new Set<string>(), qId => `${qId}-2`);
+    
+    sessions.mockImplementationOnce(() => first).mockImplementationOnce(() => second);
+    
+    const context = new ModelContext(config);
+    
+    await context.connect();
+    await context.createObject('GenericObject', properties);
+    await context.executeMethod('chart-1', 'setProperties', [{ ...properties, title: 'Sales by country' }]);
+    
+    first.emit('suspended', { code: 1006 });
+    await context.connect();
+    
+    expect(second.createObject).toHaveBeenCalledWith('GenericObject', expect.objectContaining({ title: 'Sales by country' }));
+    expect(context.objectRegistry.getHandleMap()).toEqual({ 'chart-1': 'chart-1-2' });
+    expect(await context.executeMethod('chart-1', 'getLayout')).toEqual({ handle: 'chart-1-2' });
+    
+    await context.deleteObject('chart-1');
+    
+    expect(second.destroyObject).toHaveBeenCalledWith('chart-1-2');
+    expect(context.objectRegistry.getHandleMap()).toEqual({});
+  });
+  
+  it('leaves objects the engine kept and retries objects it could not re-create', async () => {
+    const first = fakeSession(new Set<string>());
+    const second = fakeSession(new Set<string>(['chart-1']));
+    
+    second.createObject.mockRejectedValueOnce(new Error('Invalid properties'));
+    sessions.mockImplementationOnce(() => first).mockImplementationOnce(() => second);
+    
+    const context = new ModelContext(config);
+    const rehydrated = jest.fn();
+    
+    context.on('objects-rehydrated', rehydrated);
+    await context.connect();
+    await context.createObject('GenericObject', properties);
+    await context.createObject('GenericObject', { qInfo: { qId: 'table-1', qType: 'table' } });
+    
+    first.emit('suspended', { code: 1006 });
+    await context.connect();
+    
+    expect(second.createObject).toHaveBeenCalledTimes(1);
+    expect(rehydrated).toHaveBeenCalledWith(expect.objectContaining({ recreated: [], failed: ['table-1'] }));
+    expect(context.objectRegistry.hasObject('table-1')).toBe(true);
+  });
+  
+  it('re-creates lost objects when the session resumes on its own', async () => {
+    const engine = new Set<string>();
+    const session = fakeSession(engine);
+    
+    sessions.mockImplementationOnce(() => session);
+    
+    const context = new ModelContext(config);
+    const resumed = new Promise(resolve => context.once('session-resumed', resolve));
+    
+    await context.connect();
+    await context.createObject('GenericObject', properties);
+    
+    session.emit('suspended', { code: 1006 });
+    engine.clear();
+    
+    expect(context.isConnected).toBe(false);
+    
+    session.emit('resumed', { replayed: true });
+    
+    expect(await resumed).toEqual({ contextId: context.id, event: { replayed: true } });
+    expect(context.isConnected).toBe(true);
+    expect(engine.has('chart-1')).toBe(true);
+  });
+  
+  it('stops a suspended session from resuming when disconnected', async () => {
+    const session = fakeSession(new Set<string>());
+    
+    sessions.mockImplementationOnce(() => session);
+    
+    const context = new ModelContext(config);
+    const disconnected = jest.fn();
+    
+    context.on('disconnected', disconnected);
+    await context.connect();
+    
+    session.emit('suspended', { code: 1006 });
+    await context.disconnect();
+    
+    expect(session.close).toHaveBeenCalled();
+    expect(session.listenerCount('resumed')).toBe(0);
+    expect(disconnected).toHaveBeenCalledWith({ contextId: context.id });
+  });
+});
+
+describe('ModelContext history', () => {
+  const config = { appId: 'app-1', name: 'Sales', engineUrl: 'wss://tenant/app/app-1' };
+  const properties = { qInfo: { qId: 'chart-1', qType: 'chart' }, title: 'Sales by region' };
+  let session: ReturnType<typeof fakeSession>;
+  let context: ModelContext;
+  
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    session = fakeSession(new Set<string>());
+    sessions.mockImplementationOnce(() => session);
+    
+    context = new ModelContext(config);
+    await context.connect();
+  });
+  
+  it('undoes and redoes a selection by restoring the session state', async () => {
+    const before = { selections: [], variables: [] };
+    const after = { selections: [{ field: 'Country', values: ['Sweden'] }], variables: [] };
+    const selectionsChanged = jest.fn();
+    
+    Object.assign(session, {
+      selectFieldValues: jest.fn(async () => true),
+      getSelectionState: jest.fn(async () => ({ selections: [] }))
+    });
+    session.getTrackedState.mockResolvedValueOnce(before).mockResolvedValueOnce(after as any);
+    
+    await context.selectValues('Country', ['Sweden']);
+    context.on('selections-changed', selectionsChanged);
+    
+    expect(session.getState).not.toHaveBeenCalled();
+    
+    expect(await context.undo()).toMatchObject({ type: 'selections-changed', action: 'select', target: 'Country' });
+    expect(session.setState).toHaveBeenLastCalledWith(before);
+    expect(selectionsChanged).toHaveBeenCalledWith(expect.objectContaining({ action: 'undo', field: 'Country' }));
+    
+    await context.redo();
+    
+    expect(session.setState).toHaveBeenLastCalledWith(after);
+  });
+  
+  it('undoes and redoes object creates and deletes under the same handle', async () => {
+    await context.createObject('GenericObject', properties);
+    await context.deleteObject('chart-1');
+    
+    await context.undo();
+    expect(context.objectRegistry.getObject('chart-1')).toMatchObject({ type: 'GenericObject', properties });
+    
+    await context.undo();
+    expect(context.objectRegistry.hasObject('chart-1')).toBe(false);
+    
+    await context.redo();
+    
+    expect(session.createObject).toHaveBeenLastCalledWith('GenericObject', properties);
+    expect(context.objectRegistry.hasObject('chart-1')).toBe(true);
+    expect(context.history.getEntries().map(entry => [entry.type, entry.undone])).toEqual([
+      ['object-created', false],
+      ['object-deleted', true]
+    ]);
+  });
+  
+  it('undoes method executions, but does not record methods that only read', async () => {
+    const updated = { ...properties, title: 'Sales by country' };
+    
+    await context.createObject('GenericObject', properties);
+    session.executeMethod.mockResolvedValueOnce(properties as any);
+    
+    await context.executeMethod('chart-1', 'setProperties', [updated]);
+    await context.executeMethod('chart-1', 'getLayout');
+    
+    expect(context.history.getEntries().map(entry => entry.type)).toEqual(['object-created', 'method-executed']);
+    
+    await context.undo();
+    
+    expect(session.executeMethod).toHaveBeenLastCalledWith('chart-1', 'setProperties', [properties]);
+    expect(context.objectRegistry.getObject('chart-1').properties).toEqual(properties);
+  });
+  
+  it('undoes a master item update by restoring its properties', async () => {
+    const before = { qInfo: { qId: 'measure-1' }, qMeasure: { qDef: 'Sum(Sales)' } };
+    const after = { qInfo: { qId: 'measure-1' }, qMeasure: { qDef: 'Sum(Cost)' } };
+    
+    Object.assign(session, {
+      getMasterItemProperties: jest.fn<() => Promise<any>>().mockResolvedValueOnce(before).mockResolvedValueOnce(after),
+      updateMasterItem: jest.fn(async () => ({ id: 'measure-1', type: 'measure' })),
+      setMasterItemProperties: jest.fn(async () => {})
+    });
+    
+    await context.updateMasterItem('measure', 'measure-1', { expression: 'Sum(Cost)' });
+    await context.undo();
+    await context.redo();
+    
+    expect((session as any).setMasterItemProperties.mock.calls).toEqual([
+      ['measure', 'measure-1', before],
+      ['measure', 'measure-1', after]
+    ]);
+  });
+  
+  it('clears the history when a saved state is restored', async () => {
+    Object.assign(session, { getScript: jest.fn(async () => 'LOAD * FROM Sales;') });
+    
+    await context.createObject('GenericObject', properties);
+    const stateId = await context.saveState('Nordics');
+    
+    await context.restoreState(stateId);
+    
+    expect(context.history.size).toBe(0);
+    await expect(context.undo()).rejects.toThrow('Nothing to undo');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelState } from '../../src/model/model-state';
+import { FileStateStore } from '../../src/model/file-state-store';
+import { SqliteStateStore } from '../../src/model/sqlite-state-store';
+import { createStateStore, MemoryStateStore, StateStore } from '../../src/model/state-store';
+
+describe('state stores', () => {
+  let directory: string;
+  
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'state-store-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+  
+  const stores: Array<[string, () => StateStore]> = [
+    ['memory', () => new MemoryStateStore()],
+    ['filesystem', () => new FileStateStore(path.join(directory, 'states'))],
+    ['sqlite', () => new SqliteStateStore(path.join(directory, 'states.db'))]
+  ];
+  
+  describe.each(stores)('%s', (name, create) => {
+    it('saves, lists, loads and deletes the states of a context', async () => {
+      const store = create();
+      
+      await store.save({ id: 'state-1', contextId: 'context-1', timestamp: '2025-04-01T00:00:00.000Z', data: { name: 'Nordics' } });
+      await store.save({ id: 'state-2', contextId: 'context-1', timestamp: '2025-04-02T00:00:00.000Z', data: { objects: [] } });
+      await store.save({ id: 'state-3', contextId: 'context-2', timestamp: '2025-04-03T00:00:00.000Z', data: {} });
+      
+      expect(await store.list('context-1')).toEqual([
+        { id: 'state-2', contextId: 'context-1', timestamp: '2025-04-02T00:00:00.000Z', name: 'state-2' },
+        { id: 'state-1', contextId: 'context-1', timestamp: '2025-04-01T00:00:00.000Z', name: 'Nordics' }
+      ]);
+      expect(await store.load('context-1', 'state-1')).toEqual({
+        id: 'state-1',
+        contextId: 'context-1',
+        timestamp: '2025-04-01T00:00:00.000Z',
+        data: { name: 'Nordics' }
+      });
+      expect(await store.load('context-2', 'state-1')).toBeNull();
+      
+      await store.delete('context-1', 'state-1');
+      expect(await store.load('context-1', 'state-1')).toBeNull();
+      
+      await store.clear('context-1');
+      expect(await store.list('context-1')).toEqual([]);
+      expect(await store.list('context-2')).toHaveLength(1);
+      
+      await store.close();
+    });
+    
+    it('saves, lists and deletes contexts', async () => {
+      const store = create();
+      const record = {
+        id: 'context-1',
+        config: { appId: 'app-1', name: 'Sales', engineUrl: 'wss://tenant/app/app-1' },
+        metadata: { owner: 'analyst' },
+        objects: { objects: {} },
+        connected: true
+      };
+      
+      await store.save({ id: 'state-1', contextId: 'context-1', timestamp: '2025-04-01T00:00:00.000Z', data: {} });
+      await store.saveContext(record);
+      await store.saveContext({ ...record, metadata: { owner: 'admin' } });
+      
+      expect(await store.listContexts()).toEqual([{ ...record, metadata: { owner: 'admin' } }]);
+      
+      await store.deleteContext('context-1');
+      
+      expect(await store.listContexts()).toEqual([]);
+      expect(await store.list('context-1')).toHaveLength(1);
+      
+      await store.close();
+    });
+    
+    if (name !== 'memory') {
+      it('keeps the states after the store is reopened', async () => {
+        const store = create();
+        
+        await store.save({ id: 'state-1', contextId: 'context-1', timestamp: '2025-04-01T00:00:00.000Z', data: { name: 'Nordics' } });
+        await store.close();
+        
+        const reopened = create();
+        
+        expect(await reopened.load('context-1', 'state-1')).toMatchObject({ data: { name: 'Nordics' } });
+        
+        await reopened.close();
+      });
+    }
+  });
+  
+  it('keeps state files inside the store directory', async () => {
+    const store = new FileStateStore(path.join(directory, 'states'));
+    
+    await store.save({ id: '..', contextId: '../context', timestamp: '2025-04-01T00:00:00.000Z', data: {} });
+    
+    expect(fs.readdirSync(directory)).toEqual(['states']);
+    expect(await store.load('../context', '..')).toMatchObject({ id: '..' });
+  });
+  
+  it('creates the configured store', async () => {
+    expect(createStateStore({ store: 'memory' })).toBeInstanceOf(MemoryStateStore);
+    expect(createStateStore({ store: 'filesystem', path: directory })).toBeInstanceOf(FileStateStore);
+    
+    const sqlite = createStateStore({ store: 'sqlite', path: path.join(directory, 'states.db') });
+    
+    expect(sqlite).toBeInstanceOf(SqliteStateStore);
+    await sqlite.close();
+    
+    expect(() => createStateStore({ store: 'redis' as any })).toThrow('Invalid state store: redis');
+  });
+  
+  it('keeps the states of a model state in its store', async () => {
+    const store = new FileStateStore(directory);
+    const stateId = await new ModelState('context-1', store).save({ name: 'Nordics', session: { selections: [] } });
+    const modelState = new ModelState('context-1', store);
+    
+    expect(await modelState.load(stateId)).toEqual({ name: 'Nordics', session: { selections: [] } });
+    expect(await modelState.list()).toEqual([expect.objectContaining({ id: stateId, name: 'Nordics' })]);
+    expect(await new ModelState('context-2', store).load(stateId)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyBookmarkUpdate,
+  buildBookmarkProperties,
+  toBookmark,
+  toBookmarkIds,
+  toSessionState,
+  toVariableSnapshots,
+  validateBookmarkUpdate
+} from '../../src/engine/bookmarks';
+
+describe('bookmarks', () => {
+  const layout = {
+    qInfo: { qId: 'bookmark-1', qType: 'bookmark' },
+    qMeta: { title: 'Nordic customers', description: 'Nordics', published: true, modifiedDate: '2025-04-09T00:00:00.000Z' },
+    sheetId: 'sheet-1',
+    creationDate: '2025-04-08T00:00:00.000Z',
+    qBookmark: {
+      qStateData: [
+        {
+          qStateName: '$',
+          qFieldItems: [
+            {
+              qDef: { qName: 'Country' },
+              qValues: [{ qText: 'Denmark', qIsNumeric: false }, { qText: 'Norway', qIsNumeric: false }],
+              qLocked: false
+            },
+            {
+              qDef: { qName: 'Year' },
+              qValues: [{ qText: '2024', qIsNumeric: true, qNumber: 2024 }],
+              qLocked: true
+            },
+            {
+              qDef: { qName: 'Customer' },
+              qSelectInfo: { qTextSearch: '*corp*' },
+              qValues: []
+            }
+          ]
+        },
+        { qStateName: 'Compare', qFieldItems: [{ qDef: { qName: 'Country' }, qValues: [{ qText: 'Finland' }] }] }
+      ],
+      qVariableItems: [{ qName: 'vCurrency', qDefinition: 'EUR', qValue: { qText: 'EUR' } }]
+    }
+  };
+  
+  it('should build bookmark properties the Qlik Sense client can show', () => {
+    const properties = buildBookmarkProperties({ title: 'Nordic customers', sheetId: 'sheet-1', includeVariables: true }, ['Country', 'Year']);
+    
+    expect(properties).toMatchObject({
+      qInfo: { qType: 'bookmark' },
+      qMetaDef: { title: 'Nordic customers', description: '' },
+      sheetId: 'sheet-1',
+      selectionFields: 'Country, Year',
+      qIncludeVariables: true
+    });
+    expect(typeof properties.creationDate).toBe('string');
+    expect(() => buildBookmarkProperties({ title: ' ' })).toThrow('requires a title');
+  });
+  
+  it('should update the title, description and sheet of a bookmark', () => {
+    const properties = { qInfo: { qId: 'bookmark-1' }, qMetaDef: { title: 'Old', description: 'Kept' }, sheetId: 'sheet-1' };
+    
+    expect(applyBookmarkUpdate(properties, { title: 'New' })).toMatchObject({
+      qMetaDef: { title: 'New', description: 'Kept' },
+      sheetId: 'sheet-1'
+    });
+    expect(applyBookmarkUpdate(properties, { sheetId: '' }).sheetId).toBeUndefined();
+    expect(() => validateBookmarkUpdate({ title: '' })).toThrow('requires a title');
+    expect(() => validateBookmarkUpdate({ description: 'Only this' })).not.toThrow();
+  });
+  
+  it('should convert bookmark layouts with their selections and variables', () => {
+    expect(toBookmark(layout)).toEqual({
+      id: 'bookmark-1',
+      title: 'Nordic customers',
+      description: 'Nordics',
+      sheetId: 'sheet-1',
+      published: true,
+      createdAt: '2025-04-08T00:00:00.000Z',
+      modifiedAt: '2025-04-09T00:00:00.000Z',
+      selections: [
+        { field: 'Country', values: ['Denmark', 'Norway'], locked: false },
+        { field: 'Year', values: [2024], locked: true },
+        { field: 'Customer', values: [], search: '*corp*', locked: false }
+      ],
+      alternateStates: {
+        Compare: [{ field: 'Country', values: ['Finland'], locked: false }]
+      },
+      variables: [{ name: 'vCurrency', definition: 'EUR' }]
+    });
+  });
+  
+  it('should convert bookmarks to the session part of a saved state', () => {
+    const state = toSessionState(toBookmark({ ...layout, qBookmark: { ...layout.qBookmark, qVariableItems: [] } }));
+    
+    expect(state.selections.map(selection => selection.field)).toEqual(['Country', 'Year', 'Customer']);
+    expect(Object.keys(state.alternateStates || {})).toEqual(['Compare']);
+    expect(state.variables).toEqual([]);
+  });
+  
+  it('should read bookmark and variable lists', () => {
+    expect(toBookmarkIds({
+      qBookmarkList: {
+        qItems: [
+          { qInfo: { qId: 'bookmark-1' }, qData: { title: 'Nordic customers' } },
+          { qInfo: { qId: 'bookmark-2' }, qData: { title: 'mcp-temporary-bookmark' } }
+        ]
+      }
+    })).toEqual(['bookmark-1']);
+    expect(toVariableSnapshots({ qVariableList: { qItems: [{ qName: 'vYear', qDefinition: '=Year(Today())' }] } }))
+      .toEqual([{ name: 'vYear', definition: '=Year(Today())' }]);
+  });
+});
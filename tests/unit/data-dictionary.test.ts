@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildDataDictionary, DataDictionarySources, toDataDictionaryMarkdown } from '../../src/engine/data-dictionary';
+
+describe('data dictionary', () => {
+  const sources: DataDictionarySources = {
+    app: { id: 'app-1', name: 'Sales', description: 'Certified sales app' },
+    dataModel: {
+      tables: [{
+        name: 'Orders',
+        rows: 100,
+        loose: false,
+        comment: 'One row per order',
+        fields: [
+          { name: 'OrderID', keyType: 'primary', distinctValues: 100, nonNulls: 100, hasNulls: false, subsetRatio: 1, tags: [] },
+          { name: 'Region', keyType: 'none', distinctValues: 4, nonNulls: 100, hasNulls: false, subsetRatio: 1, tags: [] }
+        ]
+      }],
+      fields: [
+        { name: 'OrderID', tables: ['Orders'], cardinality: 100, tags: ['$numeric', '$key'], isKey: true },
+        { name: 'Region', tables: ['Orders'], cardinality: 4, tags: ['$text'], isKey: false }
+      ],
+      keys: [],
+      syntheticKeys: [],
+      circularReferences: []
+    },
+    sampleValues: { Region: ['North', 'South|West'] },
+    dimensions: [
+      { qInfo: { qId: 'dim-1' }, qMeta: { title: 'Region', description: 'Sales region', tags: ['geo'] }, qDim: { qFieldDefs: ['Region'] } }
+    ],
+    measures: [
+      { id: 'measure-1', title: 'Revenue', description: 'Net revenue', tags: [], expression: 'Sum(Sales)' },
+      { id: 'measure-2', title: 'Unused', expression: 'Count(OrderID)' }
+    ],
+    sheets: [{ id: 'sheet-1', title: 'Overview', cells: [{ name: 'chart-1' }] }],
+    objects: [{
+      qInfo: { qId: 'chart-1', qType: 'barchart' },
+      title: 'Revenue by region',
+      qHyperCubeDef: {
+        qDimensions: [{ qLibraryId: 'dim-1' }],
+        qMeasures: [{ qLibraryId: 'measure-1' }]
+      }
+    }],
+    variables: [
+      { qName: 'vCurrency', qDefinition: '\'EUR\'', qComment: 'Reporting currency' },
+      { name: 'vYear', definition: 'Year(Today())' }
+    ]
+  };
+  
+  it('should combine the data model, master items and variables', () => {
+    const dictionary = buildDataDictionary(sources);
+    const usage = { objectId: 'chart-1', objectType: 'barchart', title: 'Revenue by region', sheetId: 'sheet-1', sheetTitle: 'Overview' };
+    
+    expect(dictionary.tables).toEqual([{ name: 'Orders', rows: 100, fields: ['OrderID', 'Region'], comment: 'One row per order' }]);
+    expect(dictionary.fields[1]).toEqual({
+      name: 'Region',
+      tables: ['Orders'],
+      tags: ['$text'],
+      cardinality: 4,
+      isKey: false,
+      sampleValues: ['North', 'South|West']
+    });
+    expect(dictionary.masterDimensions).toEqual([{
+      id: 'dim-1',
+      label: 'Region',
+      description: 'Sales region',
+      tags: ['geo'],
+      fields: ['Region'],
+      usedBy: [usage]
+    }]);
+    expect(dictionary.masterMeasures.map(measure => [measure.id, measure.expression, measure.usedBy])).toEqual([
+      ['measure-1', 'Sum(Sales)', [usage]],
+      ['measure-2', 'Count(OrderID)', []]
+    ]);
+    expect(dictionary.variables).toEqual([
+      { name: 'vCurrency', definition: '\'EUR\'', comment: 'Reporting currency' },
+      { name: 'vYear', definition: 'Year(Today())' }
+    ]);
+  });
+  
+  it('should format the dictionary as Markdown', () => {
+    const markdown = toDataDictionaryMarkdown(buildDataDictionary(sources));
+    
+    expect(markdown.startsWith('# Data Dictionary: Sales\n\nCertified sales app\n')).toBe(true);
+    expect(markdown).toContain('| Orders | 100 | OrderID, Region | One row per order |');
+    expect(markdown).toContain('| Region | Orders | $text | 4 |  | North, South\\|West |');
+    expect(markdown).toContain('### Revenue\n\nNet revenue\n\n- **ID:** `measure-1`\n- **Used by:**\n  - Overview / Revenue by region (barchart)\n\n```\nSum(Sales)\n```');
+    expect(markdown).toContain('- **Used by:** not used on any sheet');
+    expect(markdown).toContain('| vCurrency | \'EUR\' | Reporting currency |');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { findCircularReferences, toDataModel, toFieldDescription, toSampleValues } from '../../src/engine/data-model';
+
+describe('data model', () => {
+  const key = (fields: string[], tables: string[]): any => ({ fields, tables, synthetic: fields.length > 1 });
+  
+  it('should convert tables, keys and fields', () => {
+    const model = toDataModel({
+      qtr: [
+        {
+          qName: 'Orders',
+          qNoOfRows: 100,
+          qFields: [
+            { qName: 'OrderID', qKeyType: 'PRIMARY_KEY', qnPresentDistinctValues: 100, qnNonNulls: 100, qSubsetRatio: 1 },
+            { qName: 'CustomerID', qKeyType: 'ANY_KEY', qnPresentDistinctValues: 20, qnNonNulls: 98, qHasNull: true, qSubsetRatio: 0.8 }
+          ]
+        },
+        {
+          qName: 'Customers',
+          qNoOfRows: 25,
+          qFields: [
+            { qName: 'CustomerID', qKeyType: 'PERFECT_KEY', qnPresentDistinctValues: 25, qnNonNulls: 25, qSubsetRatio: 1 }
+          ]
+        }
+      ],
+      qk: [{ qKeyFields: ['CustomerID'], qTables: ['Orders', 'Customers'] }]
+    }, {
+      qItems: [
+        { qName: 'OrderID', qSrcTables: ['Orders'], qCardinal: 100, qTags: ['$key', '$numeric'] },
+        { qName: 'CustomerID', qSrcTables: ['Orders', 'Customers'], qCardinal: 25, qTags: ['$key'] }
+      ]
+    });
+    
+    expect(model.tables[0].fields[1]).toEqual({
+      name: 'CustomerID',
+      keyType: 'key',
+      distinctValues: 20,
+      nonNulls: 98,
+      hasNulls: true,
+      subsetRatio: 0.8,
+      tags: []
+    });
+    expect(model.tables[1].fields[0].keyType).toBe('perfect');
+    expect(model.keys).toEqual([{ fields: ['CustomerID'], tables: ['Orders', 'Customers'], synthetic: false }]);
+    expect(model.fields.map(field => field.isKey)).toEqual([false, true]);
+    expect(model.syntheticKeys).toEqual([]);
+    expect(model.circularReferences).toEqual([]);
+  });
+  
+  it('should report synthetic keys', () => {
+    const model = toDataModel({
+      qtr: [],
+      qk: [{ qKeyFields: ['Year', 'Month'], qTables: ['Sales', 'Budget'] }]
+    }, {});
+    
+    expect(model.syntheticKeys).toEqual([{ fields: ['Year', 'Month'], tables: ['Sales', 'Budget'], synthetic: true }]);
+  });
+  
+  it('should find loops of tables linked by keys', () => {
+    const references = findCircularReferences([
+      key(['CustomerID'], ['Orders', 'Customers']),
+      key(['RegionID'], ['Customers', 'Regions']),
+      key(['SalesRegionID'], ['Orders', 'Regions']),
+      key(['ProductID'], ['Orders', 'Products'])
+    ]);
+    
+    expect(references).toEqual([{
+      tables: ['Customers', 'Orders', 'Regions'],
+      keys: [['CustomerID'], ['RegionID'], ['SalesRegionID']]
+    }]);
+  });
+  
+  it('should not treat a key shared by several tables as a loop', () => {
+    expect(findCircularReferences([
+      key(['DateID'], ['Sales', 'Budget', 'Calendar']),
+      key(['ProductID'], ['Sales', 'Products'])
+    ])).toEqual([]);
+  });
+  
+  it('should convert a field description', () => {
+    expect(toFieldDescription({
+      qName: 'Customer',
+      qSrcTables: ['Customers'],
+      qCardinal: 25,
+      qTotalCount: 25,
+      qTags: ['$text'],
+      qIsSystem: false
+    })).toEqual({
+      name: 'Customer',
+      tables: ['Customers'],
+      cardinality: 25,
+      totalCount: 25,
+      tags: ['$text'],
+      isNumeric: false,
+      isSystem: false,
+      isHidden: false,
+      isLocked: false,
+      comment: undefined
+    });
+  });
+  
+  it('should collect distinct sample values across tables', () => {
+    const field = (name: string): any => ({ name, keyType: 'none', distinctValues: 0, nonNulls: 0, hasNulls: false, subsetRatio: 1, tags: [] });
+    const row = (...texts: Array<string | undefined>): any => ({ qValue: texts.map(qText => ({ qText })) });
+    const samples = toSampleValues(
+      { name: 'Orders', rows: 4, loose: false, fields: [field('OrderID'), field('Region')] },
+      [row('OrderID', 'Region'), row('1', 'North'), row('2', 'North'), row('3', undefined), row('4', 'South')],
+      2
+    );
+    
+    expect(samples).toEqual({ OrderID: ['1', '2'], Region: ['North', 'South'] });
+    expect(toSampleValues(
+      { name: 'Regions', rows: 1, loose: false, fields: [field('Region'), field('Manager')] },
+      [row('East', 'Kim')],
+      3,
+      samples
+    ).Region).toEqual(['North', 'South', 'East']);
+  });
+});
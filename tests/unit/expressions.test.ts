@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeExpression, toExpressionResult, toExpressionValidation } from '../../src/engine/expressions';
+
+describe('expressions', () => {
+  it('should strip a leading equals sign', () => {
+    expect(normalizeExpression(' =Sum(Sales) ')).toBe('Sum(Sales)');
+    expect(normalizeExpression('Sum(Sales)')).toBe('Sum(Sales)');
+    expect(() => normalizeExpression('  ')).toThrow('non-empty string');
+  });
+  
+  it('should convert numeric and text results', () => {
+    expect(toExpressionResult('Sum(Sales)', { qText: '1 234', qIsNumeric: true, qNumber: 1234 })).toEqual({
+      expression: 'Sum(Sales)',
+      text: '1 234',
+      number: 1234,
+      isNumeric: true
+    });
+    expect(toExpressionResult('Only(Region)', { qText: 'North', qIsNumeric: false, qNumber: 0 }).number).toBeNull();
+  });
+  
+  it('should report unknown fields with their positions once', () => {
+    const validation = toExpressionValidation('Sum(Sals) / Count(Custmer)', {
+      qErrorMsg: '',
+      qBadFieldNames: [{ qFrom: 4, qCount: 4 }],
+      qDangerousFieldNames: []
+    }, {
+      qErrorCode: 0,
+      qBadFieldNames: [{ qFrom: 18, qCount: 7 }, { qFrom: 4, qCount: 4 }]
+    });
+    
+    expect(validation.valid).toBe(false);
+    expect(validation.badFields).toEqual([
+      { name: 'Sals', position: 4, length: 4 },
+      { name: 'Custmer', position: 18, length: 7 }
+    ]);
+    expect(validation.error).toBeUndefined();
+  });
+  
+  it('should report syntax errors', () => {
+    const validation = toExpressionValidation('Sum(Sales', { qErrorMsg: 'Error in expression' }, { qErrorCode: 1 });
+    
+    expect(validation).toEqual({
+      expression: 'Sum(Sales',
+      valid: false,
+      error: 'Error in expression',
+      errorCode: 1,
+      badFields: [],
+      dangerousFields: []
+    });
+  });
+  
+  it('should accept a valid expression', () => {
+    expect(toExpressionValidation('Sum(Sales)', { qErrorMsg: '' }, { qErrorCode: 0 }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  buildHyperCubeDef,
+  getRowLimit,
+  readHyperCube,
+  readHyperCubeHeader,
+  readHyperCubePages,
+  MAX_PAGE_CELLS,
+  MAX_ROW_LIMIT
+} from '../../src/engine/hypercube';
+
+describe('hypercube', () => {
+  describe('buildHyperCubeDef', () => {
+    it('should build dimensions and measures from fields, expressions and master items', () => {
+      const def = buildHyperCubeDef({
+        dimensions: ['Region', { libraryId: 'dim-1' }],
+        measures: [{ expression: 'Sum(Sales)', label: 'Sales' }, { libraryId: 'measure-1' }]
+      }).qHyperCubeDef;
+      
+      expect(def.qDimensions).toEqual([
+        { qDef: { qFieldDefs: ['Region'], qFieldLabels: [], qSortCriterias: [] } },
+        { qLibraryId: 'dim-1', qDef: { qSortCriterias: [] } }
+      ]);
+      expect(def.qMeasures).toEqual([
+        { qDef: { qDef: 'Sum(Sales)', qLabel: 'Sales' }, qSortBy: {} },
+        { qLibraryId: 'measure-1', qDef: {}, qSortBy: {} }
+      ]);
+      expect(def.qInterColumnSortOrder).toEqual([0, 1, 2, 3]);
+    });
+    
+    it('should put sorted columns first in the sort order', () => {
+      const def = buildHyperCubeDef({
+        dimensions: ['Region'],
+        measures: [{ expression: 'Sum(Sales)', label: 'Sales' }],
+        sort: [{ column: 'Sales', direction: 'desc' }]
+      }).qHyperCubeDef;
+      
+      expect(def.qInterColumnSortOrder).toEqual([1, 0]);
+      expect(def.qMeasures[0].qSortBy).toEqual({ qSortByNumeric: -1 });
+    });
+    
+    it('should compute the data in an alternate state', () => {
+      expect(buildHyperCubeDef({ dimensions: ['Region'], stateName: 'LastYear' }).qHyperCubeDef.qStateName).toBe('LastYear');
+      expect(buildHyperCubeDef({ dimensions: ['Region'], stateName: '$' }).qHyperCubeDef.qStateName).toBeUndefined();
+    });
+    
+    it('should reject invalid queries', () => {
+      expect(() => buildHyperCubeDef({})).toThrow('at least one dimension or measure');
+      expect(() => buildHyperCubeDef({ dimensions: [{ label: 'Region' }] })).toThrow('field or libraryId');
+      expect(() => buildHyperCubeDef({ dimensions: ['Region'], sort: [{ column: 'Sales' }] })).toThrow('Unknown sort column');
+      expect(() => buildHyperCubeDef({ dimensions: ['Region'], limit: 0 })).toThrow('Row limit');
+    });
+  });
+  
+  describe('getRowLimit', () => {
+    it('should default to a bounded limit unless streaming', () => {
+      expect(getRowLimit({})).toBe(1000);
+      expect(getRowLimit({}, true)).toBe(Infinity);
+    });
+    
+    it('should only allow limits above the maximum when streaming', () => {
+      expect(() => getRowLimit({ limit: MAX_ROW_LIMIT + 1 })).toThrow('stream the query');
+      expect(getRowLimit({ limit: 2000000 }, true)).toBe(2000000);
+      expect(() => getRowLimit({ limit: 1.5 }, true)).toThrow('positive integer');
+    });
+  });
+  
+  describe('readHyperCube', () => {
+    const createObject = (rowCount: number): any => ({
+      getLayout: jest.fn(async () => ({
+        qHyperCube: {
+          qSize: { qcx: 2, qcy: rowCount },
+          qDimensionInfo: [{ qFallbackTitle: 'Region' }],
+          qMeasureInfo: [{ qFallbackTitle: 'Sum(Sales)' }]
+        }
+      })),
+      getHyperCubeData: jest.fn(async (path: string, pages: any[]) => [{
+        qMatrix: Array.from({ length: pages[0].qHeight }, (_, index) => [
+          { qText: `Region ${pages[0].qTop + index}`, qNum: 'NaN' },
+          { qText: '10', qNum: 10 }
+        ])
+      }])
+    });
+    
+    it('should return typed rows with column headers', async () => {
+      const object = createObject(2);
+      object.getHyperCubeData.mockImplementation(async () => [{
+        qMatrix: [
+          [{ qText: 'North', qNum: 'NaN' }, { qText: '1,234', qNum: 1234 }],
+          [{ qText: '-', qIsNull: true }, { qText: '-', qNum: 'NaN' }]
+        ]
+      }]);
+      
+      const result = await readHyperCube(object, { dimensions: ['Region'], measures: [{ expression: 'Sum(Sales)', label: 'Sales' }] });
+      
+      expect(result.columns).toEqual([
+        { name: 'Region', kind: 'dimension', type: 'string' },
+        { name: 'Sales', kind: 'measure', type: 'number' }
+      ]);
+      expect(result.rows).toEqual([['North', 1234], [null, null]]);
+      expect(result.totalRows).toBe(2);
+      expect(result.truncated).toBe(false);
+    });
+    
+    it('should keep the text of measures that evaluate to text', async () => {
+      const object = createObject(2);
+      object.getHyperCubeData.mockImplementation(async () => [{
+        qMatrix: [
+          [{ qText: 'North', qNum: 'NaN' }, { qText: 'Acme Corp', qNum: 'NaN' }],
+          [{ qText: 'South', qNum: 'NaN' }, { qText: '-', qNum: 'NaN' }]
+        ]
+      }]);
+      
+      const result = await readHyperCube(object, { dimensions: ['Region'], measures: [{ expression: 'Only(Customer)', label: 'Customer' }] });
+      
+      expect(result.rows).toEqual([['North', 'Acme Corp'], ['South', null]]);
+    });
+    
+    it('should page within the cell limit up to the row limit', async () => {
+      const object = createObject(20000);
+      
+      const result = await readHyperCube(object, { dimensions: ['Region'], measures: ['Sum(Sales)'], limit: 12000 });
+      
+      expect(object.getHyperCubeData).toHaveBeenCalledTimes(3);
+      expect(object.getHyperCubeData.mock.calls[1][1]).toEqual([
+        { qTop: MAX_PAGE_CELLS / 2, qLeft: 0, qWidth: 2, qHeight: MAX_PAGE_CELLS / 2 }
+      ]);
+      expect(result.rows).toHaveLength(12000);
+      expect(result.rows[11999]).toEqual(['Region 11999', 10]);
+      expect(result.truncated).toBe(true);
+    });
+    
+    it('should report progress for each page', async () => {
+      const object = createObject(12000);
+      const header = await readHyperCubeHeader(object, { dimensions: ['Region'], measures: ['Sum(Sales)'] });
+      const progress: number[][] = [];
+      
+      for await (const page of readHyperCubePages(object, header, Infinity)) {
+        progress.push([page.rows.length, page.fetched, page.total]);
+      }
+      
+      expect(progress).toEqual([[5000, 5000, 12000], [5000, 10000, 12000], [2000, 12000, 12000]]);
+    });
+    
+    it('should stop paging when the signal is aborted', async () => {
+      const object = createObject(12000);
+      const header = await readHyperCubeHeader(object, { dimensions: ['Region'], measures: ['Sum(Sales)'] });
+      const controller = new AbortController();
+      let pages = 0;
+      
+      for await (const page of readHyperCubePages(object, header, Infinity, controller.signal)) {
+        pages++;
+        controller.abort();
+      }
+      
+      expect(pages).toBe(1);
+      expect(object.getHyperCubeData).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should report invalid columns', async () => {
+      const object = createObject(0);
+      object.getLayout.mockImplementation(async () => ({
+        qHyperCube: {
+          qSize: { qcx: 1, qcy: 0 },
+          qDimensionInfo: [{ qFallbackTitle: 'Regoin', qError: { qErrorCode: 7 } }],
+          qMeasureInfo: []
+        }
+      }));
+      
+      await expect(readHyperCube(object, { dimensions: ['Regoin'] })).rejects.toThrow('Invalid dimension: Regoin');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildLineage, getDownstreamLineage, LineageGraph, toLineageDot, toLineageMermaid } from '../../src/engine/lineage';
+
+describe('lineage', () => {
+  const buildGraph = (): LineageGraph => buildLineage([
+    {
+      id: 'app-1',
+      name: 'Extract',
+      script: [
+        'LIB CONNECT TO \'Sales DB\';',
+        'Orders: SQL SELECT OrderID, Region FROM dbo.Orders;',
+        'STORE Orders INTO [lib://DataFiles/orders.qvd] (qvd);',
+        'DROP TABLE Orders;'
+      ].join('\n')
+    },
+    {
+      id: 'app-2',
+      name: 'Dashboard',
+      script: [
+        'Orders: LOAD OrderID, Region FROM [lib://DataFiles/Orders.qvd] (qvd);',
+        'Targets: LOAD Region, Target FROM [lib://DataFiles/targets.xlsx] (ooxml, embedded labels);',
+        'Summary: LOAD Region, Count(OrderID) as OrderCount RESIDENT Orders GROUP BY Region;'
+      ].join('\n')
+    },
+    { id: 'app-3', name: 'Restricted', error: 'Forbidden' }
+  ], [
+    { id: 'conn-1', name: 'Sales DB', type: 'PostgreSQL' },
+    { id: 'conn-2', name: 'DataFiles', type: 'folder' }
+  ]);
+  
+  it('should build nodes for connections, files, QVDs, tables and apps', () => {
+    const nodes = buildGraph().nodes;
+    
+    expect(nodes.map(node => node.id).sort()).toEqual([
+      'app:app-1',
+      'app:app-2',
+      'app:app-3',
+      'connection:datafiles',
+      'connection:sales db',
+      'file:lib://datafiles/targets.xlsx',
+      'qvd:lib://datafiles/orders.qvd',
+      'table:app-1/Orders',
+      'table:app-2/Orders',
+      'table:app-2/Summary',
+      'table:app-2/Targets'
+    ]);
+    expect(nodes.find(node => node.id === 'connection:sales db')).toMatchObject({ connectionId: 'conn-1', connectionType: 'PostgreSQL' });
+    expect(nodes.find(node => node.id === 'table:app-1/Orders')).toMatchObject({ fields: ['OrderID', 'Region'], dropped: true });
+    expect(nodes.find(node => node.id === 'app:app-3')).toMatchObject({ error: 'Forbidden' });
+  });
+  
+  it('should link the apps through the QVDs they store and load', () => {
+    const edges = buildGraph().edges;
+    
+    expect(edges).toEqual(expect.arrayContaining([
+      { from: 'connection:sales db', to: 'table:app-1/Orders', kind: 'loads' },
+      { from: 'table:app-1/Orders', to: 'qvd:lib://datafiles/orders.qvd', kind: 'stores' },
+      { from: 'connection:datafiles', to: 'qvd:lib://datafiles/orders.qvd', kind: 'contains' },
+      { from: 'qvd:lib://datafiles/orders.qvd', to: 'table:app-2/Orders', kind: 'loads' },
+      { from: 'table:app-2/Orders', to: 'table:app-2/Summary', kind: 'resident' },
+      { from: 'table:app-2/Summary', to: 'app:app-2', kind: 'builds' }
+    ]));
+  });
+  
+  it('should find what depends on a node', () => {
+    const downstream = getDownstreamLineage(buildGraph(), 'Sales DB');
+    
+    expect(downstream.nodes.filter(node => node.kind === 'app').map(node => node.label)).toEqual(['Extract', 'Dashboard']);
+    expect(downstream.nodes.map(node => node.id)).not.toContain('table:app-2/Targets');
+    expect(() => getDownstreamLineage(buildGraph(), 'Missing')).toThrow('Lineage node not found: Missing');
+  });
+  
+  it('should export DOT and Mermaid', () => {
+    const graph = getDownstreamLineage(buildGraph(), 'file:lib://datafiles/targets.xlsx');
+    
+    expect(toLineageDot(graph)).toBe([
+      'digraph lineage {',
+      '  rankdir=LR;',
+      '  "app:app-2" [label="Dashboard", shape=component];',
+      '  "table:app-2/Targets" [label="Targets", shape=box];',
+      '  "file:lib://datafiles/targets.xlsx" [label="lib://DataFiles/targets.xlsx", shape=note];',
+      '  "file:lib://datafiles/targets.xlsx" -> "table:app-2/Targets" [label="loads"];',
+      '  "table:app-2/Targets" -> "app:app-2" [label="builds"];',
+      '}',
+      ''
+    ].join('\n'));
+    expect(toLineageMermaid(graph)).toBe([
+      'flowchart LR',
+      '  n0{{"Dashboard"}}',
+      '  n1["Targets"]',
+      '  n2[/"lib://DataFiles/targets.xlsx"/]',
+      '  n2 -->|loads| n1',
+      '  n1 -->|builds| n0',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { buildListObjectDef, readListObject } from '../../src/engine/list-object';
+
+describe('list object', () => {
+  const createObject = (cells: any[]): any => ({
+    searchListObjectFor: jest.fn(async () => true),
+    getLayout: jest.fn(async () => ({
+      qListObject: {
+        qSize: { qcx: 1, qcy: cells.length },
+        qDimensionInfo: { qStateCounts: { qSelected: 1, qOption: 1, qExcluded: 1 } }
+      }
+    })),
+    getListObjectData: jest.fn(async (path: string, pages: any[]) => [{
+      qMatrix: cells.slice(pages[0].qTop, pages[0].qTop + pages[0].qHeight).map(cell => [cell])
+    }])
+  });
+  
+  const cells = [
+    { qText: 'Acme Corp', qNum: 'NaN', qState: 'S', qFrequency: '12' },
+    { qText: 'Globex Corp', qNum: 'NaN', qState: 'O', qFrequency: '3' },
+    { qText: 'Initech', qNum: 'NaN', qState: 'X', qFrequency: '1' }
+  ];
+  
+  it('should build a list object with frequencies when requested', () => {
+    const def = buildListObjectDef({ field: 'Customer', frequency: true }).qListObjectDef;
+    
+    expect(def.qDef.qFieldDefs).toEqual(['Customer']);
+    expect(def.qFrequencyMode).toBe('V');
+    expect(buildListObjectDef({ field: 'Customer', stateName: 'LastYear' }).qListObjectDef.qStateName).toBe('LastYear');
+    expect(() => buildListObjectDef({ field: '' })).toThrow('requires a field');
+    expect(() => buildListObjectDef({ field: 'Customer', limit: 0 })).toThrow('Value limit');
+  });
+  
+  it('should search before reading the values', async () => {
+    const object = createObject(cells);
+    
+    const result = await readListObject(object, { field: 'Customer', search: '*corp*', frequency: true });
+    
+    expect(object.searchListObjectFor).toHaveBeenCalledWith('/qListObjectDef', '*corp*');
+    expect(result.values[0]).toEqual({ text: 'Acme Corp', number: null, state: 'S', frequency: 12 });
+    expect(result.counts).toEqual({ selected: 1, possible: 1, alternative: 0, excluded: 1, total: 3 });
+  });
+  
+  it('should filter by state and report truncation', async () => {
+    const object = createObject(cells);
+    
+    const filtered = await readListObject(object, { field: 'Customer', states: ['S', 'O'] });
+    const limited = await readListObject(object, { field: 'Customer', limit: 2 });
+    
+    expect(filtered.values.map(value => value.text)).toEqual(['Acme Corp', 'Globex Corp']);
+    expect(filtered.truncated).toBe(false);
+    expect(limited.values).toHaveLength(2);
+    expect(limited.truncated).toBe(true);
+  });
+});
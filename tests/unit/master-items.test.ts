@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyMasterItemUpdate,
+  buildMasterItemProperties,
+  matchesMasterItemSearch,
+  toMasterItem,
+  toMasterItems
+} from '../../src/engine/master-items';
+
+describe('master items', () => {
+  const measureProperties = {
+    qInfo: { qId: 'measure-1', qType: 'measure' },
+    qMeasure: {
+      qLabel: 'Revenue',
+      qDef: 'Sum(Sales)',
+      qGrouping: 'N',
+      qNumFormat: { qType: 'M', qFmt: '$#,##0' },
+      isCustomFormatted: true
+    },
+    qMetaDef: { title: 'Revenue', description: 'Net sales', tags: ['finance'] }
+  };
+  
+  it('should build measure properties with a number format', () => {
+    const properties = buildMasterItemProperties({
+      type: 'measure',
+      label: 'Revenue',
+      expression: 'Sum(Sales)',
+      tags: ['finance'],
+      numberFormat: { type: 'money', pattern: '$#,##0' }
+    });
+    
+    expect(properties.qMeasure).toMatchObject({
+      qLabel: 'Revenue',
+      qDef: 'Sum(Sales)',
+      qNumFormat: { qType: 'M', qFmt: '$#,##0' },
+      isCustomFormatted: true
+    });
+    expect(properties.qMetaDef).toEqual({ title: 'Revenue', description: '', tags: ['finance'] });
+  });
+  
+  it('should build drill-down dimensions from several fields', () => {
+    const properties = buildMasterItemProperties({ type: 'dimension', label: 'Geography', fields: ['Country', 'City'] });
+    
+    expect(properties.qDim).toMatchObject({ qGrouping: 'H', qFieldDefs: ['Country', 'City'] });
+  });
+  
+  it('should reject incomplete inputs', () => {
+    expect(() => buildMasterItemProperties({ type: 'measure', label: 'Revenue' })).toThrow('requires an expression');
+    expect(() => buildMasterItemProperties({ type: 'dimension', label: 'Region' })).toThrow('requires fields');
+    expect(() => buildMasterItemProperties({ type: 'measure', label: ' ', expression: 'Sum(Sales)' })).toThrow('label');
+    expect(() => buildMasterItemProperties({ type: 'visualization', label: 'Chart' })).toThrow('cannot be created');
+    expect(() => buildMasterItemProperties({ type: 'sheet' as any, label: 'Sheet' })).toThrow('Invalid master item type');
+  });
+  
+  it('should convert properties and list layouts', () => {
+    expect(toMasterItem('measure', measureProperties)).toEqual({
+      id: 'measure-1',
+      type: 'measure',
+      label: 'Revenue',
+      description: 'Net sales',
+      tags: ['finance'],
+      expression: 'Sum(Sales)',
+      numberFormat: { type: 'money', pattern: '$#,##0' }
+    });
+    
+    const items = toMasterItems('dimension', {
+      qDimensionList: {
+        qItems: [
+          { qInfo: { qId: 'dim-1' }, qMeta: { title: 'Region', tags: [] }, qData: { dim: { qFieldDefs: ['Region'] } } },
+          { qInfo: { qId: 'dim-2' }, qMeta: { title: 'Year' }, qData: { dim: { qFieldDefs: ['=Year(OrderDate)'] } } }
+        ]
+      }
+    });
+    
+    expect(items[0].fields).toEqual(['Region']);
+    expect(items[1].expression).toBe('=Year(OrderDate)');
+    expect(items[1].fields).toBeUndefined();
+  });
+  
+  it('should apply updates and keep the other properties', () => {
+    const updated = applyMasterItemUpdate('measure', measureProperties, { expression: 'Sum(NetSales)', tags: ['kpi'] });
+    
+    expect(updated.qMeasure).toMatchObject({ qLabel: 'Revenue', qDef: 'Sum(NetSales)', qNumFormat: { qType: 'M' } });
+    expect(updated.qMetaDef).toEqual({ title: 'Revenue', description: 'Net sales', tags: ['kpi'] });
+    expect(() => applyMasterItemUpdate('visualization', {
+      qInfo: { qId: 'viz-1' },
+      qMetaDef: { title: 'Chart' },
+      visualization: 'barchart'
+    }, { expression: 'Sum(Sales)' })).toThrow('Only the label');
+  });
+  
+  it('should match searches by label, description and tag', () => {
+    const item = toMasterItem('measure', measureProperties);
+    
+    expect(matchesMasterItemSearch(item, { query: 'REV' })).toBe(true);
+    expect(matchesMasterItemSearch(item, { query: 'net sales' })).toBe(true);
+    expect(matchesMasterItemSearch(item, { tag: 'Finance' })).toBe(true);
+    expect(matchesMasterItemSearch(item, { tag: 'fin' })).toBe(false);
+    expect(matchesMasterItemSearch(item, { type: 'dimension' })).toBe(false);
+  });
+});
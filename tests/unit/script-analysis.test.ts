@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { analyzeScript } from '../../src/engine/script-analysis';
+
+describe('script analysis', () => {
+  const script = [
+    '///$tab Main',
+    'SET ThousandSep=\',\';',
+    'LET vToday = Today();',
+    'LIB CONNECT TO \'Sales DB\';',
+    '///$tab Sales',
+    '// Orders come from the database',
+    'TempOrders:',
+    'LOAD *;',
+    'SQL SELECT o.OrderID, o.CustomerID, o.Year, o.Month FROM dbo.Orders o;',
+    '',
+    'Orders:',
+    'LOAD OrderID, CustomerID, Year & \'-\' & Month as YearMonth',
+    'RESIDENT TempOrders;',
+    'DROP TABLE TempOrders;',
+    '',
+    '/* Legacy: LOAD * FROM C:\\Data\\legacy.qvd (qvd); */',
+    'Customers:',
+    'LOAD * FROM [lib://Data/customers.qvd] (qvd);',
+    'STORE Orders INTO [lib://Data/orders.qvd] (qvd);',
+    '',
+    'SUB LogTime(vLabel)',
+    '  TRACE $(vLabel);',
+    'END SUB',
+    'CALL LogTime(\'done\');'
+  ].join('\n');
+  
+  it('should split the script into sections', () => {
+    expect(analyzeScript(script).sections).toEqual([
+      { name: 'Main', line: 1, endLine: 4 },
+      { name: 'Sales', line: 5, endLine: 24 }
+    ]);
+  });
+  
+  it('should extract loads, connections, variables, stores and subroutines', () => {
+    const analysis = analyzeScript(script);
+    
+    expect(analysis.statements.map(statement => [statement.kind, statement.table, statement.line, statement.sourceKind]))
+      .toEqual([
+        ['load', 'TempOrders', 7, 'preceding'],
+        ['select', 'TempOrders', 9, 'database'],
+        ['load', 'Orders', 11, 'resident'],
+        ['load', 'Customers', 17, 'file']
+      ]);
+    expect(analysis.statements[1].fields).toEqual(['OrderID', 'CustomerID', 'Year', 'Month']);
+    expect(analysis.statements[2].fields).toEqual(['OrderID', 'CustomerID', 'YearMonth']);
+    expect(analysis.connections).toEqual([
+      { kind: 'lib-connect', target: 'Sales DB', line: 4 },
+      { kind: 'lib-path', target: 'lib://Data/customers.qvd', line: 17 },
+      { kind: 'lib-path', target: 'lib://Data/orders.qvd', line: 19 }
+    ]);
+    expect(analysis.variables).toEqual([
+      { name: 'ThousandSep', kind: 'set', value: '\',\'', line: 2 },
+      { name: 'vToday', kind: 'let', value: 'Today()', line: 3 }
+    ]);
+    expect(analysis.stores).toEqual([{ table: 'Orders', path: 'lib://Data/orders.qvd', format: 'qvd', line: 19 }]);
+    expect(analysis.drops).toEqual([{ tables: ['TempOrders'], line: 14 }]);
+    expect(analysis.subroutines).toEqual([{ name: 'LogTime', line: 21 }]);
+    expect(analysis.calls).toEqual([{ name: 'LogTime', line: 24 }]);
+  });
+  
+  it('should flag star loads but ignore commented-out statements', () => {
+    const findings = analyzeScript(script).findings;
+    
+    expect(findings).toEqual([expect.objectContaining({ rule: 'unqualified-star-load', line: 17, table: 'Customers' })]);
+  });
+  
+  it('should flag tables that share several fields', () => {
+    const findings = analyzeScript([
+      'Sales: LOAD OrderDate, Region, Sales FROM [lib://Data/sales.qvd] (qvd);',
+      'Budget: LOAD OrderDate, Region, Budget FROM [lib://Data/budget.qvd] (qvd);',
+      'Targets: LOAD Region, Target FROM [lib://Data/targets.qvd] (qvd);'
+    ].join('\n')).findings;
+    
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: 'synthetic-key-risk', line: 2, table: 'Budget' });
+    expect(findings[0].message).toContain('OrderDate, Region');
+  });
+  
+  it('should follow joins, implicit concatenation and qualified loads', () => {
+    const findings = analyzeScript([
+      'Sales: LOAD OrderID, Region FROM [lib://Data/sales.qvd] (qvd);',
+      'LEFT JOIN (Sales) LOAD OrderID, Year FROM [lib://Data/dates.qvd] (qvd);',
+      'Sales2022: LOAD OrderID, Region, Year FROM [lib://Data/sales2022.qvd] (qvd);',
+      'QUALIFY *;',
+      'Budget: LOAD Region, Year, Budget FROM [lib://Data/budget.qvd] (qvd);',
+      'UNQUALIFY *;'
+    ].join('\n')).findings;
+    
+    expect(findings).toEqual([]);
+  });
+  
+  it('should flag temporary tables that are never dropped and hard-coded paths', () => {
+    const findings = analyzeScript([
+      'Tmp_Rates: LOAD Currency, Rate FROM \'C:\\Data\\rates.xlsx\' (ooxml, embedded labels);',
+      'STORE Tmp_Rates INTO \\\\fileserver\\qlik\\rates.qvd (qvd);'
+    ].join('\n')).findings;
+    
+    expect(findings.map(finding => [finding.rule, finding.severity, finding.line])).toEqual([
+      ['hard-coded-path', 'error', 1],
+      ['temp-table-not-dropped', 'warning', 1],
+      ['hard-coded-path', 'error', 2]
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeScriptSource, diffScripts, MAX_DIFF_EDITS, toScriptSource } from '../../src/engine/script-diff';
+
+describe('script diff', () => {
+  const prod = [
+    '///$tab Main',
+    'SET vEnv = \'prod\';',
+    'LET vStart = Today();',
+    '///$tab Sales',
+    'Sales:',
+    'LOAD OrderID, Region, Sales',
+    'FROM [lib://Prod/sales.qvd] (qvd);',
+    '',
+    'Old: LOAD Code FROM [lib://Prod/old.qvd] (qvd);',
+    '///$tab Cleanup',
+    'TRACE done;'
+  ].join('\n');
+  const dev = [
+    '///$tab Main',
+    'SET vEnv = \'dev\';',
+    'SET vNew = 1;',
+    '///$tab Sales',
+    'Sales:',
+    '// Margin is new in this release',
+    'LOAD OrderID, Region, Sales, Margin',
+    'FROM [lib://Dev/sales.qvd] (qvd);',
+    '',
+    '///$tab Budget',
+    'Budget: LOAD Region, Budget FROM [lib://Dev/budget.qvd] (qvd);'
+  ].join('\n');
+  
+  it('should report identical scripts', () => {
+    const diff = diffScripts(prod, prod);
+    
+    expect(diff.identical).toBe(true);
+    expect(diff.diff).toBe('');
+    expect(diff.sections.map(section => section.status)).toEqual(['unchanged', 'unchanged', 'unchanged']);
+  });
+  
+  it('should compare the scripts section by section', () => {
+    const diff = diffScripts(prod, dev);
+    
+    expect(diff.sections).toEqual([
+      { name: 'Main', status: 'changed', baseLine: 1, targetLine: 1, additions: 2, deletions: 2 },
+      { name: 'Sales', status: 'changed', baseLine: 4, targetLine: 4, additions: 3, deletions: 3 },
+      { name: 'Budget', status: 'added', targetLine: 10, additions: 2, deletions: 0 },
+      { name: 'Cleanup', status: 'removed', baseLine: 10, additions: 0, deletions: 2 }
+    ]);
+  });
+  
+  it('should build a unified diff with line numbers of the whole scripts', () => {
+    const lines = diffScripts(prod, dev, { base: 'prod', target: 'dev' }).diff.split('\n');
+    
+    expect(lines.slice(0, 3)).toEqual(['--- prod', '+++ dev', '@@ -1,3 +1,3 @@ Main']);
+    expect(lines).toContain('@@ -4,6 +4,6 @@ Sales');
+    expect(lines).toContain('+LOAD OrderID, Region, Sales, Margin');
+    expect(lines).toContain('-Old: LOAD Code FROM [lib://Prod/old.qvd] (qvd);');
+    expect(lines).toContain('@@ -0,0 +10,2 @@ Budget');
+    expect(lines).toContain('@@ -10,2 +0,0 @@ Cleanup');
+  });
+  
+  it('should summarize the changed loads and variables', () => {
+    const { loads, variables } = diffScripts(prod, dev).summary;
+    
+    expect(loads.added.map(load => load.table)).toEqual(['Budget']);
+    expect(loads.removed).toEqual([expect.objectContaining({ table: 'Old', removedFields: ['Code'] })]);
+    expect(loads.changed).toEqual([{
+      table: 'Sales',
+      section: 'Sales',
+      line: 5,
+      addedFields: ['Margin'],
+      removedFields: [],
+      sources: { base: ['lib://Prod/sales.qvd'], target: ['lib://Dev/sales.qvd'] }
+    }]);
+    expect(variables).toEqual({
+      added: [{ name: 'vNew', line: 3, target: '1' }],
+      removed: [{ name: 'vStart', line: 3, base: 'Today()' }],
+      changed: [{ name: 'vEnv', line: 2, base: '\'prod\'', target: '\'dev\'' }]
+    });
+  });
+  
+  it('should ignore comment and whitespace changes in the summary', () => {
+    const summary = diffScripts(
+      'Sales: LOAD OrderID, Sales FROM [lib://Data/sales.qvd] (qvd);',
+      '// Sales\nSales:\n  LOAD OrderID,\n       Sales\n  FROM [lib://Data/sales.qvd] (qvd);'
+    ).summary;
+    
+    expect(summary.loads).toEqual({ added: [], removed: [], changed: [] });
+  });
+  
+  it('should compare completely different large sections as a whole', () => {
+    const lines = (prefix: string) => Array.from({ length: MAX_DIFF_EDITS }, (_, i) => `LET ${prefix}${i} = ${i};`);
+    const base = ['///$tab Main', ...lines('vOld'), 'TRACE done;'].join('\n');
+    const target = ['///$tab Main', ...lines('vNew'), 'TRACE done;'].join('\n');
+    
+    const diff = diffScripts(base, target);
+    
+    expect(diff.sections).toEqual([
+      { name: 'Main', status: 'changed', baseLine: 1, targetLine: 1, additions: MAX_DIFF_EDITS, deletions: MAX_DIFF_EDITS }
+    ]);
+    expect(diff.diff.split('\n')).toContain(`@@ -1,${MAX_DIFF_EDITS + 2} +1,${MAX_DIFF_EDITS + 2} @@ Main`);
+  });
+  
+  it('should check and describe script sources', () => {
+    expect(toScriptSource({ contextId: 'context-1', stateId: 'state-1' }, 'base')).toEqual({
+      contextId: 'context-1',
+      stateId: 'state-1',
+      script: undefined,
+      appId: undefined
+    });
+    expect(() => toScriptSource({ script: 'x', appId: 'app-1' }, 'base')).toThrow('exactly one');
+    expect(() => toScriptSource({ appId: 1 }, 'target')).toThrow('target appId must be a string');
+    expect(() => toScriptSource(undefined, 'target')).toThrow('target must be an object');
+    expect(describeScriptSource({ appId: 'app-1' }, 'base')).toBe('app/app-1');
+    expect(describeScriptSource({ contextId: 'context-1', stateId: 'state-1' }, 'base')).toBe('state/state-1');
+    expect(describeScriptSource({ script: 'x' }, 'target')).toBe('target');
+  });
+});
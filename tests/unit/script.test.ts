@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildReloadParams, toReloadProgress, toScriptErrors } from '../../src/engine/script';
+
+describe('script', () => {
+  it('should build partial reload parameters', () => {
+    expect(buildReloadParams()).toEqual({ qMode: 0, qPartial: false, qDebug: false });
+    expect(buildReloadParams({ partial: true, save: true }).qPartial).toBe(true);
+  });
+  
+  it('should resolve syntax errors to script lines', () => {
+    const script = '///$tab Main\nSET ThousandSep=",";\n///$tab Sales\nSales:\nLOAD * FRM [lib://Data/sales.qvd];';
+    const position = script.indexOf('FRM');
+    
+    expect(toScriptErrors([{
+      qErrLen: 3,
+      qTabIx: 1,
+      qLineInTab: 1,
+      qColInLine: 7,
+      qTextPos: position,
+      qSecondaryFailure: false
+    }], script)).toEqual([{
+      line: 5,
+      column: 8,
+      length: 3,
+      tab: 1,
+      lineInTab: 2,
+      text: 'LOAD * FRM [lib://Data/sales.qvd];',
+      secondary: false
+    }]);
+  });
+  
+  it('should convert reload progress with its log lines and errors', () => {
+    expect(toReloadProgress({
+      qFinished: false,
+      qPersistentProgress: 'Sales << sales.qvd\n1,000 Lines fetched\n',
+      qTransientProgress: '2,500 Lines fetched',
+      qErrorData: [{
+        qErrorString: 'Field not found - <Regoin>',
+        qLine: 'LOAD Regoin FROM [lib://Data/sales.qvd]',
+        qErrorDataCode: 'EDC_ERROR'
+      }]
+    })).toEqual({
+      finished: false,
+      messages: ['Sales << sales.qvd', '1,000 Lines fetched'],
+      status: '2,500 Lines fetched',
+      errors: [{
+        message: 'Field not found - <Regoin>',
+        statement: 'LOAD Regoin FROM [lib://Data/sales.qvd]',
+        code: 'EDC_ERROR'
+      }]
+    });
+    expect(toReloadProgress({ qFinished: true })).toEqual({ finished: true, messages: [], status: '', errors: [] });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCurrentSelectionsDef,
+  buildFieldStateDef,
+  toAlternateStateName,
+  toEngineFieldValues,
+  toFieldStateCounts,
+  toSelectionState,
+  toStateName
+} from '../../src/engine/selections';
+
+describe('selections', () => {
+  it('should convert text and numeric values to engine field values', () => {
+    expect(toEngineFieldValues(['Sweden', 2024])).toEqual([
+      { qText: 'Sweden' },
+      { qText: '2024', qIsNumeric: true, qNumber: 2024 }
+    ]);
+  });
+  
+  it('should summarize state counts', () => {
+    const counts = toFieldStateCounts({
+      qLocked: 1,
+      qSelected: 2,
+      qOption: 10,
+      qAlternative: 3,
+      qExcluded: 4,
+      qDeselected: 0,
+      qSelectedExcluded: 1,
+      qLockedExcluded: 0
+    }, 21);
+    
+    expect(counts).toEqual({ selected: 3, possible: 10, alternative: 3, excluded: 5, total: 21 });
+  });
+  
+  it('should read the current selections from a selection object layout', () => {
+    const state = toSelectionState({
+      qSelectionObject: {
+        qBackCount: 2,
+        qForwardCount: 0,
+        qSelections: [{
+          qField: 'Country',
+          qTotal: 40,
+          qLocked: true,
+          qSelectedFieldSelectionInfo: [{ qName: 'Sweden' }, { qName: 'Norway' }],
+          qStateCounts: { qLocked: 2, qAlternative: 38 }
+        }]
+      }
+    });
+    
+    expect(state).toEqual({
+      selections: [{
+        field: 'Country',
+        selected: ['Sweden', 'Norway'],
+        locked: true,
+        counts: { selected: 2, possible: 0, alternative: 38, excluded: 0, total: 40 }
+      }],
+      backCount: 2,
+      forwardCount: 0
+    });
+  });
+  
+  it('should name the selection state of alternate state selections', () => {
+    const state = toSelectionState({ qSelectionObject: { qBackCount: 0, qForwardCount: 0, qSelections: [] } }, 'LastYear');
+    
+    expect(state).toEqual({ stateName: 'LastYear', selections: [], backCount: 0, forwardCount: 0 });
+    expect(buildCurrentSelectionsDef('LastYear').qSelectionObjectDef).toEqual({ qStateName: 'LastYear' });
+    expect(buildFieldStateDef('Year', 'LastYear').qListObjectDef.qStateName).toBe('LastYear');
+  });
+  
+  it('should check state names', () => {
+    expect(toStateName()).toBe('$');
+    expect(toStateName('LastYear')).toBe('LastYear');
+    expect(() => toStateName(' ')).toThrow('non-empty string');
+    expect(() => toAlternateStateName('$')).toThrow('default state');
+    expect(() => toAlternateStateName(undefined)).toThrow('requires a name');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildVisualizationDataDef,
+  getVisualizationColumns,
+  getVisualizationRowLimit,
+  orderSheetObjects,
+  resolveLibraryItems,
+  toSheetSummaries,
+  toVisualization
+} from '../../src/engine/sheets';
+
+describe('sheets', () => {
+  const chartLayout = {
+    qInfo: { qId: 'chart-1', qType: 'barchart' },
+    visualization: 'barchart',
+    title: 'Sales by Region',
+    subtitle: { qStringExpression: 'This year' },
+    footnote: '',
+    qHyperCube: {
+      qDimensionInfo: [{ qFallbackTitle: 'Region' }, { qFallbackTitle: 'Geography' }],
+      qMeasureInfo: [{ qFallbackTitle: 'Revenue' }, { qFallbackTitle: 'Margin' }]
+    }
+  };
+  const chartProperties = {
+    qInfo: { qId: 'chart-1', qType: 'barchart' },
+    qHyperCubeDef: {
+      qDimensions: [
+        { qDef: { qFieldDefs: ['Region'] } },
+        { qLibraryId: 'dim-1', qDef: { qFieldDefs: [] } }
+      ],
+      qMeasures: [
+        { qLibraryId: 'measure-1', qDef: { qDef: '' } },
+        { qDef: { qDef: 'Sum(Sales) - Sum(Cost)' } }
+      ],
+      qMode: 'P',
+      qSuppressZero: true,
+      qInitialDataFetch: [{ qTop: 0, qLeft: 0, qWidth: 4, qHeight: 100 }]
+    }
+  };
+  
+  it('should list sheets by rank', () => {
+    const sheets = toSheetSummaries({
+      qAppObjectList: {
+        qItems: [
+          { qInfo: { qId: 'sheet-2' }, qMeta: { published: true }, qData: { title: 'Details', rank: 1 } },
+          { qInfo: { qId: 'sheet-1' }, qMeta: {}, qData: { title: 'Overview', description: 'KPIs', rank: 0 } }
+        ]
+      }
+    });
+    
+    expect(sheets).toEqual([
+      { id: 'sheet-1', title: 'Overview', description: 'KPIs', published: false },
+      { id: 'sheet-2', title: 'Details', description: '', published: true }
+    ]);
+  });
+  
+  it('should order objects by their position on the sheet', () => {
+    const cells = [
+      { name: 'table-1', row: 6, col: 0 },
+      { name: 'kpi-1', row: 0, col: 12 },
+      { name: 'kpi-2', row: 0, col: 0 }
+    ];
+    
+    expect(orderSheetObjects(['table-1', 'loose-1', 'kpi-1', 'kpi-2'], cells)).toEqual(['kpi-2', 'kpi-1', 'table-1', 'loose-1']);
+  });
+  
+  it('should describe charts from their layout and properties', () => {
+    const visualization = toVisualization(chartLayout, { ...chartProperties, qExtendsId: 'master-1' });
+    
+    expect(visualization).toEqual({
+      id: 'chart-1',
+      type: 'barchart',
+      title: 'Sales by Region',
+      subtitle: 'This year',
+      masterId: 'master-1',
+      dimensions: [
+        { label: 'Region', fields: ['Region'] },
+        { label: 'Geography', libraryId: 'dim-1' }
+      ],
+      measures: [
+        { label: 'Revenue', libraryId: 'measure-1' },
+        { label: 'Margin', expression: 'Sum(Sales) - Sum(Cost)' }
+      ]
+    });
+  });
+  
+  it('should describe listboxes and calculated dimensions', () => {
+    const visualization = toVisualization(
+      { qInfo: { qId: 'list-1', qType: 'listbox' }, qListObject: { qDimensionInfo: { qFallbackTitle: 'Year' } } },
+      { qListObjectDef: { qDef: { qFieldDefs: ['=Year(OrderDate)'] } } }
+    );
+    
+    expect(visualization.type).toBe('listbox');
+    expect(visualization.dimensions).toEqual([{ label: 'Year', expression: '=Year(OrderDate)' }]);
+    expect(visualization.measures).toEqual([]);
+  });
+  
+  it('should resolve master item references', () => {
+    const visualization = resolveLibraryItems(toVisualization(chartLayout, chartProperties), [
+      { id: 'dim-1', type: 'dimension', label: 'Geography', description: '', tags: [], fields: ['Country', 'City'] },
+      { id: 'measure-1', type: 'measure', label: 'Revenue', description: '', tags: [], expression: 'Sum(Sales)' }
+    ]);
+    
+    expect(visualization.dimensions[1]).toEqual({ label: 'Geography', libraryId: 'dim-1', fields: ['Country', 'City'] });
+    expect(visualization.measures[0]).toEqual({ label: 'Revenue', libraryId: 'measure-1', expression: 'Sum(Sales)' });
+  });
+  
+  it('should read data through a straight table copy', () => {
+    const def = buildVisualizationDataDef(chartProperties);
+    
+    expect(def.qHyperCubeDef).toMatchObject({ qMode: 'S', qSuppressZero: true, qInitialDataFetch: [] });
+    expect(chartProperties.qHyperCubeDef.qMode).toBe('P');
+    expect(buildVisualizationDataDef({ qInfo: { qId: 'text-1' } })).toBeUndefined();
+    expect(getVisualizationColumns(toVisualization(chartLayout, chartProperties)).map(column => column.kind))
+      .toEqual(['dimension', 'dimension', 'measure', 'measure']);
+  });
+  
+  it('should cap the row limit', () => {
+    expect(getVisualizationRowLimit()).toBe(100);
+    expect(getVisualizationRowLimit({ rows: 5000 })).toBe(1000);
+    expect(() => getVisualizationRowLimit({ rows: 0 })).toThrow('positive integer');
+  });
+});